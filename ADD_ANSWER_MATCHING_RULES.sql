@@ -0,0 +1,24 @@
+-- Add per-question answer matching rules to reading and listening questions
+-- Rules are authored in the question editors and applied by the grader to short answers
+
+-- Step 1: Add the answer_rules column next to correct_answer
+ALTER TABLE reading_questions
+ADD COLUMN IF NOT EXISTS answer_rules JSONB DEFAULT NULL;
+
+ALTER TABLE listening_questions
+ADD COLUMN IF NOT EXISTS answer_rules JSONB DEFAULT NULL;
+
+-- Step 2: Document the expected shape
+COMMENT ON COLUMN reading_questions.answer_rules IS 'Answer matching rules for short answers: {"spellingVariants": bool, "optionalArticles": bool, "numberWords": bool, "ignoreHyphens": bool, "maxWords": int|null}. NULL keeps the default case-insensitive matching.';
+
+COMMENT ON COLUMN listening_questions.answer_rules IS 'Answer matching rules for short answers: {"spellingVariants": bool, "optionalArticles": bool, "numberWords": bool, "ignoreHyphens": bool, "maxWords": int|null}. NULL keeps the default case-insensitive matching.';
+
+-- Example: "NO MORE THAN TWO WORDS", articles optional, colour/color both accepted
+-- correct_answer: '["car park, parking lot"]'
+-- answer_rules: '{"optionalArticles": true, "spellingVariants": true, "maxWords": 2}'
+
+-- Step 3: Verify the columns were added
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name IN ('reading_questions', 'listening_questions')
+AND column_name = 'answer_rules';
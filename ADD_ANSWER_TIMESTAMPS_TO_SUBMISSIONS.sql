@@ -0,0 +1,19 @@
+-- Track when each answer was last changed so offline edits can be merged
+-- The exam pages keep answers on the device and sync them; the newest value per question wins
+
+-- Step 1: Add the per-question timestamps
+ALTER TABLE test_submissions
+ADD COLUMN IF NOT EXISTS answer_timestamps JSONB DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS auto_saved_at TIMESTAMPTZ DEFAULT NULL;
+
+UPDATE test_submissions SET answer_timestamps = '{}'::jsonb WHERE answer_timestamps IS NULL;
+
+-- Step 2: Document the columns
+COMMENT ON COLUMN test_submissions.answer_timestamps IS 'Last change time of each answer in epoch milliseconds, keyed like answers. Answers without a time lose to synced edits.';
+COMMENT ON COLUMN test_submissions.auto_saved_at IS 'When answers were last synced from the exam page.';
+
+-- Step 3: Verify the columns were added
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'test_submissions'
+AND column_name IN ('answer_timestamps', 'auto_saved_at');
@@ -0,0 +1,15 @@
+-- Add per-test band conversion settings
+-- Tests that are not 40 questions either scale raw scores to 40 or use their own table
+
+-- Step 1: Add the column (NULL means scale to 40 questions when needed)
+ALTER TABLE tests
+ADD COLUMN IF NOT EXISTS band_conversion JSONB DEFAULT NULL;
+
+-- Step 2: Document the column
+COMMENT ON COLUMN tests.band_conversion IS 'Band conversion for tests that are not 40 questions: {"mode": "scaled" | "custom", "reading": [{"min", "max", "band"}], "listening": [...]}. Bands converted this way are shown as estimates.';
+
+-- Step 3: Verify the column was added
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'tests'
+AND column_name = 'band_conversion';
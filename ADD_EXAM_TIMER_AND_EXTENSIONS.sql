@@ -0,0 +1,79 @@
+-- Server-authoritative exam timer
+-- The timer API records when a student starts; the deadline is started_at + duration + extension.
+-- The database stamps submitted_at, so a wrong or edited client clock cannot hide a late submission.
+
+-- Step 1: Record the start time and lateness on submissions
+ALTER TABLE test_submissions
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS is_late BOOLEAN DEFAULT FALSE;
+
+-- Step 2: Choose what the grading API does with late submissions
+ALTER TABLE tests
+ADD COLUMN IF NOT EXISTS late_submission_policy TEXT DEFAULT 'mark_late'
+CHECK (late_submission_policy IN ('mark_late', 'reject'));
+
+-- Step 3: Per-student time extensions (e.g. special needs)
+CREATE TABLE IF NOT EXISTS test_time_extensions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    test_id UUID NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    extra_minutes INTEGER NOT NULL DEFAULT 0 CHECK (extra_minutes >= 0),
+    reason TEXT,
+    granted_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (test_id, student_id)
+);
+
+-- Step 4: Add RLS policies (only the center's admins grant extensions;
+-- students can see their own)
+ALTER TABLE test_time_extensions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "test_time_extensions_tenant_isolation" ON test_time_extensions;
+DROP POLICY IF EXISTS "test_time_extensions_admin_access" ON test_time_extensions;
+CREATE POLICY "test_time_extensions_admin_access"
+ON test_time_extensions FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM tests
+        WHERE id = test_time_extensions.test_id
+        AND edu_center_id = (
+            SELECT edu_center_id FROM profiles
+            WHERE id = auth.uid() AND role = 'edu_admin'
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "test_time_extensions_student_read" ON test_time_extensions;
+CREATE POLICY "test_time_extensions_student_read"
+ON test_time_extensions FOR SELECT
+USING (student_id = auth.uid());
+
+-- Step 5: Record submission times on the server clock, whatever the client sends
+CREATE OR REPLACE FUNCTION stamp_submission_submitted_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.submitted_at IS NOT NULL
+       AND (TG_OP = 'INSERT' OR NEW.submitted_at IS DISTINCT FROM OLD.submitted_at) THEN
+        NEW.submitted_at := NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS test_submissions_stamp_submitted_at ON test_submissions;
+CREATE TRIGGER test_submissions_stamp_submitted_at
+BEFORE INSERT OR UPDATE OF submitted_at ON test_submissions
+FOR EACH ROW EXECUTE FUNCTION stamp_submission_submitted_at();
+
+-- Step 6: Document the columns
+COMMENT ON COLUMN test_submissions.started_at IS 'Server time when the student started the exam; set once by /api/exam-timer/start.';
+COMMENT ON COLUMN test_submissions.submitted_at IS 'Server time of the latest submit; the value sent by the client is replaced.';
+COMMENT ON COLUMN test_submissions.is_late IS 'Submitted after the deadline plus grace period, as judged by the grading API.';
+COMMENT ON COLUMN tests.late_submission_policy IS 'mark_late grades late submissions and flags them; reject refuses to grade them.';
+
+-- Step 7: Verify the changes
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE (table_name = 'test_submissions' AND column_name IN ('started_at', 'is_late'))
+OR (table_name = 'tests' AND column_name = 'late_submission_policy');
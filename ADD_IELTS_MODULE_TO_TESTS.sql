@@ -0,0 +1,18 @@
+-- Add the IELTS module (Academic / General Training) to tests
+-- Reading raw scores are converted to bands with a different table for each module
+
+-- Step 1: Add the column, defaulting existing tests to Academic
+ALTER TABLE tests
+ADD COLUMN IF NOT EXISTS ielts_module TEXT DEFAULT 'academic'
+CHECK (ielts_module IN ('academic', 'general_training'));
+
+UPDATE tests SET ielts_module = 'academic' WHERE ielts_module IS NULL;
+
+-- Step 2: Document the column
+COMMENT ON COLUMN tests.ielts_module IS 'IELTS module: academic or general_training. Selects the reading band conversion table used by the grader.';
+
+-- Step 3: Verify the column was added
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'tests'
+AND column_name = 'ielts_module';
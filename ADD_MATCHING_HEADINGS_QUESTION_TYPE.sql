@@ -0,0 +1,28 @@
+-- Allow matching headings reading questions
+-- options holds the heading bank: {"headings": [...], "anchored": true|false}
+-- correct_answer holds the key: {"paragraphs": ["A", "B"], "answers": ["iii", "i"]}
+
+-- Step 1: Replace the question type constraint
+ALTER TABLE reading_questions DROP CONSTRAINT IF EXISTS reading_questions_question_type_check;
+
+ALTER TABLE reading_questions ADD CONSTRAINT reading_questions_question_type_check
+CHECK (question_type = ANY (ARRAY[
+    'multiple_choice'::text,
+    'short_answer'::text,
+    'matching'::text,
+    'map_diagram'::text,
+    'map_labeling'::text,
+    'multiple_selection'::text,
+    'true_false_not_given'::text,
+    'yes_no_not_given'::text,
+    'matching_headings'::text
+]));
+
+-- Step 2: Document the new type
+COMMENT ON COLUMN reading_questions.question_type IS 'multiple_choice, short_answer, matching, map_diagram, map_labeling, multiple_selection, true_false_not_given, yes_no_not_given or matching_headings. Judgement questions store the option label as correct_answer; matching headings store one heading numeral per paragraph.';
+
+-- Step 3: Verify the constraint was applied correctly
+SELECT conname, pg_get_constraintdef(oid)
+FROM pg_constraint
+WHERE conrelid = 'reading_questions'::regclass
+AND conname = 'reading_questions_question_type_check';
@@ -0,0 +1,25 @@
+-- Add a teacher-marked Speaking band to test submissions
+-- The overall band averages all four skills and stays incomplete until each has a band
+
+-- Step 1: Add the speaking columns
+ALTER TABLE test_submissions
+ADD COLUMN IF NOT EXISTS speaking_score NUMERIC(2,1) DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS speaking_criteria JSONB DEFAULT NULL;
+
+-- Step 2: Track whether total_score covers all four skills
+ALTER TABLE test_submissions
+ADD COLUMN IF NOT EXISTS overall_band_status TEXT DEFAULT 'incomplete'
+CHECK (overall_band_status IN ('complete', 'incomplete'));
+
+UPDATE test_submissions SET overall_band_status = 'incomplete' WHERE overall_band_status IS NULL;
+
+-- Step 3: Document the columns
+COMMENT ON COLUMN test_submissions.speaking_score IS 'Speaking band (1-9), the criteria average rounded down to a half band.';
+COMMENT ON COLUMN test_submissions.speaking_criteria IS 'Speaking criteria bands: {"fluencyCoherence", "lexicalResource", "grammaticalRange", "pronunciation"}.';
+COMMENT ON COLUMN test_submissions.overall_band_status IS 'complete when total_score averages all four skills; incomplete when it covers only the skills marked so far.';
+
+-- Step 4: Verify the columns were added
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'test_submissions'
+AND column_name IN ('speaking_score', 'speaking_criteria', 'overall_band_status');
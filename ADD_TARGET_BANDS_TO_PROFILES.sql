@@ -0,0 +1,24 @@
+-- Add IELTS target bands to profiles
+-- Students set an overall target and a minimum band every skill must reach (e.g. 7.0 overall, 6.5 minimum)
+
+-- Step 1: Add the target columns
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS target_overall_band NUMERIC(2,1) DEFAULT NULL
+CHECK (target_overall_band IS NULL OR (target_overall_band BETWEEN 1 AND 9 AND target_overall_band * 2 = FLOOR(target_overall_band * 2))),
+ADD COLUMN IF NOT EXISTS target_min_band NUMERIC(2,1) DEFAULT NULL
+CHECK (target_min_band IS NULL OR (target_min_band BETWEEN 1 AND 9 AND target_min_band * 2 = FLOOR(target_min_band * 2)));
+
+-- Step 2: The minimum band cannot be above the overall target
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_target_min_not_above_overall;
+ALTER TABLE profiles ADD CONSTRAINT profiles_target_min_not_above_overall
+CHECK (target_min_band IS NULL OR target_overall_band IS NULL OR target_min_band <= target_overall_band);
+
+-- Step 3: Document the columns
+COMMENT ON COLUMN profiles.target_overall_band IS 'Overall IELTS band the student is aiming for, in half bands. NULL when no target is set.';
+COMMENT ON COLUMN profiles.target_min_band IS 'Lowest band every skill must reach. NULL when only an overall target applies.';
+
+-- Step 4: Verify the columns were added
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'profiles'
+AND column_name IN ('target_overall_band', 'target_min_band');
@@ -0,0 +1,75 @@
+-- Archive and restore tests instead of deleting them
+-- Archived tests are hidden from students but keep their submissions.
+-- Permanent deletion goes through delete_test_cascade(), called by DELETE /api/tests/:testId
+
+-- Step 1: Record when and by whom a test was archived
+ALTER TABLE tests
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS archived_by UUID REFERENCES profiles(id) DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tests_archived_at ON tests(archived_at);
+
+-- Step 2: Delete a test and everything that belongs to it in one transaction
+-- A plpgsql function runs atomically: if any delete fails, nothing is removed
+CREATE OR REPLACE FUNCTION delete_test_cascade(p_test_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    deleted_submissions INTEGER := 0;
+    deleted_requests INTEGER := 0;
+BEGIN
+    DELETE FROM reading_questions
+    WHERE reading_section_id IN (
+        SELECT id FROM reading_sections WHERE test_id = p_test_id
+    );
+
+    DELETE FROM listening_questions
+    WHERE section_id IN (
+        SELECT id FROM listening_sections WHERE test_id = p_test_id
+    );
+
+    DELETE FROM test_submissions WHERE test_id = p_test_id;
+    GET DIAGNOSTICS deleted_submissions = ROW_COUNT;
+
+    DELETE FROM test_requests WHERE test_id = p_test_id;
+    GET DIAGNOSTICS deleted_requests = ROW_COUNT;
+
+    DELETE FROM reading_sections WHERE test_id = p_test_id;
+    DELETE FROM listening_sections WHERE test_id = p_test_id;
+    DELETE FROM writing_tasks WHERE test_id = p_test_id;
+    DELETE FROM speaking_tasks WHERE test_id = p_test_id;
+    DELETE FROM test_time_extensions WHERE test_id = p_test_id;
+
+    DELETE FROM tests WHERE id = p_test_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Test % not found', p_test_id;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'submissions', deleted_submissions,
+        'requests', deleted_requests
+    );
+END;
+$$;
+
+-- Step 3: Only the server (service role) may call it
+REVOKE ALL ON FUNCTION delete_test_cascade(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION delete_test_cascade(UUID) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION delete_test_cascade(UUID) TO service_role;
+
+-- Step 4: Document the changes
+COMMENT ON COLUMN tests.archived_at IS 'Set when the test is archived. Archived tests are hidden from students; submissions are kept.';
+COMMENT ON COLUMN tests.archived_by IS 'Profile that archived the test.';
+COMMENT ON FUNCTION delete_test_cascade(UUID) IS 'Permanently deletes a test with its sections, questions, submissions and requests in a single transaction.';
+
+-- Step 5: Verify the changes
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'tests'
+AND column_name IN ('archived_at', 'archived_by');
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name = 'delete_test_cascade';
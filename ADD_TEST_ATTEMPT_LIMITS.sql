@@ -0,0 +1,148 @@
+-- Attempt limits and retake policy per test
+-- Tests can cap the number of attempts, require a cooldown between attempts
+-- and choose which attempt counts (best, latest or first).
+-- A student keeps one live row in test_submissions per test. Starting a retake
+-- archives that row into test_attempts via archive_test_attempt(), called by
+-- POST /api/tests/:testId/retake, so the usual flow starts a fresh submission.
+-- The archived attempt keeps the submission id, so records that refer to the
+-- submission (such as its regrade history) still resolve after a retake.
+
+-- Step 1: Per-test attempt settings (NULL max_attempts means unlimited)
+ALTER TABLE tests
+ADD COLUMN IF NOT EXISTS max_attempts INTEGER DEFAULT NULL CHECK (max_attempts > 0),
+ADD COLUMN IF NOT EXISTS retake_cooldown_hours INTEGER DEFAULT 0 CHECK (retake_cooldown_hours >= 0),
+ADD COLUMN IF NOT EXISTS attempt_scoring TEXT DEFAULT 'latest'
+CHECK (attempt_scoring IN ('best', 'latest', 'first'));
+
+-- Step 2: Create the test_attempts table for finished, archived attempts
+CREATE TABLE IF NOT EXISTS test_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    test_id UUID NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    edu_center_id UUID REFERENCES edu_centers(id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL,
+    submission_id UUID NOT NULL,
+    status TEXT,
+    total_score NUMERIC,
+    reading_score NUMERIC,
+    listening_score NUMERIC,
+    writing_score NUMERIC,
+    speaking_score NUMERIC,
+    is_late BOOLEAN DEFAULT FALSE,
+    started_at TIMESTAMP WITH TIME ZONE,
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    snapshot JSONB NOT NULL,
+    archived_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (test_id, student_id, attempt_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_test_attempts_student
+ON test_attempts(student_id, test_id);
+
+-- Step 3: Number live submissions after the archived attempts
+ALTER TABLE test_submissions
+ADD COLUMN IF NOT EXISTS attempt_number INTEGER DEFAULT 1;
+
+-- Archived attempts count too, here and in the "approve up to N attempts" rule
+CREATE OR REPLACE FUNCTION count_test_attempts(p_test_id UUID, p_student_id UUID)
+RETURNS INTEGER AS $$
+    SELECT (
+        (SELECT COUNT(*) FROM test_attempts
+         WHERE test_id = p_test_id AND student_id = p_student_id) +
+        (SELECT COUNT(*) FROM test_submissions
+         WHERE test_id = p_test_id AND student_id = p_student_id)
+    )::INTEGER;
+$$ LANGUAGE sql STABLE;
+
+-- Only called from definer functions (here and apply_test_approval_policy())
+REVOKE ALL ON FUNCTION count_test_attempts(UUID, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION count_test_attempts(UUID, UUID) FROM anon, authenticated;
+
+-- Runs as the table owner so row level security cannot hide attempts from the count
+CREATE OR REPLACE FUNCTION set_submission_attempt_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.attempt_number := count_test_attempts(NEW.test_id, NEW.student_id) + 1;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS test_submissions_set_attempt_number ON test_submissions;
+CREATE TRIGGER test_submissions_set_attempt_number
+BEFORE INSERT ON test_submissions
+FOR EACH ROW EXECUTE FUNCTION set_submission_attempt_number();
+
+-- Step 4: Archive a finished submission in one transaction
+CREATE OR REPLACE FUNCTION archive_test_attempt(p_submission_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    submission test_submissions%ROWTYPE;
+BEGIN
+    SELECT * INTO submission FROM test_submissions
+    WHERE id = p_submission_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Submission % not found', p_submission_id;
+    END IF;
+
+    IF submission.status = 'in_progress' THEN
+        RAISE EXCEPTION 'Submission % is still in progress', p_submission_id;
+    END IF;
+
+    INSERT INTO test_attempts (
+        test_id, student_id, edu_center_id, attempt_number, submission_id,
+        status, total_score, reading_score, listening_score, writing_score,
+        speaking_score, is_late, started_at, submitted_at, snapshot
+    ) VALUES (
+        submission.test_id, submission.student_id, submission.edu_center_id,
+        COALESCE(submission.attempt_number, 1), submission.id,
+        submission.status, submission.total_score, submission.reading_score,
+        submission.listening_score, submission.writing_score,
+        submission.speaking_score, COALESCE(submission.is_late, FALSE),
+        submission.started_at, submission.submitted_at, to_jsonb(submission)
+    );
+
+    DELETE FROM test_submissions WHERE id = p_submission_id;
+
+    RETURN COALESCE(submission.attempt_number, 1);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION archive_test_attempt(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION archive_test_attempt(UUID) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION archive_test_attempt(UUID) TO service_role;
+
+-- Step 5: Add RLS policies
+ALTER TABLE test_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "test_attempts_tenant_isolation" ON test_attempts;
+CREATE POLICY "test_attempts_tenant_isolation"
+ON test_attempts FOR SELECT
+USING (
+    edu_center_id = (
+        SELECT edu_center_id FROM profiles WHERE id = auth.uid()
+    )
+);
+
+DROP POLICY IF EXISTS "test_attempts_student_read" ON test_attempts;
+CREATE POLICY "test_attempts_student_read"
+ON test_attempts FOR SELECT
+USING (student_id = auth.uid());
+
+-- Step 6: Document the changes
+COMMENT ON COLUMN tests.max_attempts IS 'Maximum attempts per student; NULL for unlimited.';
+COMMENT ON COLUMN tests.retake_cooldown_hours IS 'Hours a student waits after submitting before the next attempt.';
+COMMENT ON COLUMN tests.attempt_scoring IS 'Which attempt counts for the test: best, latest or first.';
+COMMENT ON COLUMN test_submissions.attempt_number IS 'Attempt number of the live submission, set on insert.';
+COMMENT ON TABLE test_attempts IS 'Finished attempts archived when a student starts a retake. snapshot holds the full submission row.';
+
+-- Step 7: Verify the changes
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'test_attempts'
+   OR (table_name = 'tests' AND column_name IN ('max_attempts', 'retake_cooldown_hours', 'attempt_scoring'))
+   OR (table_name = 'test_submissions' AND column_name = 'attempt_number')
+ORDER BY table_name, ordinal_position;
@@ -0,0 +1,126 @@
+-- Auto-approval policies and decision auditing for test requests
+-- Each test can have one policy that approves new requests automatically:
+--   always        - approve every request
+--   class         - approve students who belong to a given class
+--   max_attempts  - approve while the student has fewer than N submissions for the test
+-- Requests that no rule approves stay pending for manual review.
+-- Every decision records who made it (approved_by) and which rule fired (decision_rule).
+
+-- Step 1: Record how each request was decided
+ALTER TABLE test_requests
+ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES profiles(id),
+ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS decision_rule TEXT,
+ADD COLUMN IF NOT EXISTS decision_detail TEXT;
+
+-- Step 2: Create the test_approval_policies table
+CREATE TABLE IF NOT EXISTS test_approval_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    test_id UUID NOT NULL UNIQUE REFERENCES tests(id) ON DELETE CASCADE,
+    edu_center_id UUID NOT NULL REFERENCES edu_centers(id) ON DELETE CASCADE,
+    mode TEXT NOT NULL CHECK (mode IN ('always', 'class', 'max_attempts')),
+    class_id UUID REFERENCES student_classes(id) ON DELETE CASCADE,
+    max_attempts INTEGER CHECK (max_attempts > 0),
+    updated_by UUID REFERENCES profiles(id),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (mode <> 'class' OR class_id IS NOT NULL),
+    CHECK (mode <> 'max_attempts' OR max_attempts IS NOT NULL)
+);
+
+-- Step 3: Apply the policy when a request is created or re-opened.
+-- Attempts a student has made at a test, for the max_attempts rule
+CREATE OR REPLACE FUNCTION count_test_attempts(p_test_id UUID, p_student_id UUID)
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::INTEGER FROM test_submissions
+    WHERE test_id = p_test_id AND student_id = p_student_id;
+$$ LANGUAGE sql STABLE;
+
+REVOKE ALL ON FUNCTION count_test_attempts(UUID, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION count_test_attempts(UUID, UUID) FROM anon, authenticated;
+
+-- Runs as the table owner because students cannot read policies or classes.
+-- Auto approvals are attributed to the admin who last saved the policy.
+CREATE OR REPLACE FUNCTION apply_test_approval_policy()
+RETURNS TRIGGER AS $$
+DECLARE
+    policy test_approval_policies%ROWTYPE;
+    class_name TEXT;
+    attempt_count INTEGER;
+BEGIN
+    IF NEW.status <> 'pending' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.status = 'pending' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO policy FROM test_approval_policies WHERE test_id = NEW.test_id;
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    IF policy.mode = 'always' THEN
+        NEW.decision_rule := 'auto_always';
+        NEW.decision_detail := 'Test approves all requests';
+    ELSIF policy.mode = 'class' THEN
+        SELECT c.name INTO class_name
+        FROM student_classes c
+        JOIN student_class_members m ON m.class_id = c.id
+        WHERE c.id = policy.class_id AND m.student_id = NEW.student_id;
+
+        IF class_name IS NULL THEN
+            RETURN NEW;
+        END IF;
+        NEW.decision_rule := 'auto_class';
+        NEW.decision_detail := 'Member of ' || class_name;
+    ELSIF policy.mode = 'max_attempts' THEN
+        attempt_count := count_test_attempts(NEW.test_id, NEW.student_id);
+
+        IF attempt_count >= policy.max_attempts THEN
+            RETURN NEW;
+        END IF;
+        NEW.decision_rule := 'auto_attempts';
+        NEW.decision_detail := 'Attempt ' || (attempt_count + 1) || ' of ' || policy.max_attempts;
+    ELSE
+        RETURN NEW;
+    END IF;
+
+    NEW.status := 'approved';
+    NEW.approved_at := NOW();
+    NEW.approved_by := policy.updated_by;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS test_requests_apply_policy ON test_requests;
+CREATE TRIGGER test_requests_apply_policy
+BEFORE INSERT OR UPDATE OF status ON test_requests
+FOR EACH ROW EXECUTE FUNCTION apply_test_approval_policy();
+
+-- Step 4: Add RLS policies
+ALTER TABLE test_approval_policies ENABLE ROW LEVEL SECURITY;
+
+-- Only admins manage policies; students never read or write them
+DROP POLICY IF EXISTS "test_approval_policies_tenant_isolation" ON test_approval_policies;
+DROP POLICY IF EXISTS "test_approval_policies_admin_access" ON test_approval_policies;
+CREATE POLICY "test_approval_policies_admin_access"
+ON test_approval_policies FOR ALL
+USING (
+    edu_center_id = (
+        SELECT edu_center_id FROM profiles
+        WHERE id = auth.uid() AND role = 'edu_admin'
+    )
+);
+
+-- Step 5: Document the columns
+COMMENT ON TABLE test_approval_policies IS 'Per-test rule that approves new test requests automatically.';
+COMMENT ON COLUMN test_requests.decision_rule IS 'Rule that decided the request: manual, manual_bulk, auto_always, auto_class or auto_attempts.';
+COMMENT ON COLUMN test_requests.decision_detail IS 'Human-readable reason for the decision, e.g. the class name or attempt number.';
+
+-- Step 6: Verify the changes
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'test_approval_policies'
+   OR (table_name = 'test_requests' AND column_name IN ('approved_by', 'approved_at', 'decision_rule', 'decision_detail'))
+ORDER BY table_name, ordinal_position;
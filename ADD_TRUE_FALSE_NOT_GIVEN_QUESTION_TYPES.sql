@@ -0,0 +1,26 @@
+-- Allow True/False/Not Given and Yes/No/Not Given reading questions
+-- correct_answer holds the option label (TRUE, FALSE, NOT GIVEN or YES, NO, NOT GIVEN)
+
+-- Step 1: Replace the question type constraint
+ALTER TABLE reading_questions DROP CONSTRAINT IF EXISTS reading_questions_question_type_check;
+
+ALTER TABLE reading_questions ADD CONSTRAINT reading_questions_question_type_check
+CHECK (question_type = ANY (ARRAY[
+    'multiple_choice'::text,
+    'short_answer'::text,
+    'matching'::text,
+    'map_diagram'::text,
+    'map_labeling'::text,
+    'multiple_selection'::text,
+    'true_false_not_given'::text,
+    'yes_no_not_given'::text
+]));
+
+-- Step 2: Document the new types
+COMMENT ON COLUMN reading_questions.question_type IS 'multiple_choice, short_answer, matching, map_diagram, map_labeling, multiple_selection, true_false_not_given or yes_no_not_given. Judgement questions store the option label as correct_answer.';
+
+-- Step 3: Verify the constraint was applied correctly
+SELECT conname, pg_get_constraintdef(oid)
+FROM pg_constraint
+WHERE conrelid = 'reading_questions'::regclass
+AND conname = 'reading_questions_question_type_check';
@@ -0,0 +1,48 @@
+-- Allow word bank completion blanks in reading and listening questions
+-- options holds the bank the blank draws from: {"words": ["river", "bridge", ...]}
+-- correct_answer holds the letter of the right word, e.g. 'C'
+-- Listening rows use the same shape and add the editor node id: {"words": [...], "gapId": "gap_..."}
+-- Free-text completion blanks stay short_answer rows with answer_rules.maxWords as the word limit
+
+-- Step 1: Replace the question type constraint
+ALTER TABLE reading_questions DROP CONSTRAINT IF EXISTS reading_questions_question_type_check;
+
+ALTER TABLE reading_questions ADD CONSTRAINT reading_questions_question_type_check
+CHECK (question_type = ANY (ARRAY[
+    'multiple_choice'::text,
+    'short_answer'::text,
+    'matching'::text,
+    'map_diagram'::text,
+    'map_labeling'::text,
+    'multiple_selection'::text,
+    'true_false_not_given'::text,
+    'yes_no_not_given'::text,
+    'matching_headings'::text,
+    'word_bank_completion'::text
+]));
+
+-- Step 2: Replace the listening question type constraint
+ALTER TABLE listening_questions DROP CONSTRAINT IF EXISTS listening_questions_question_type_check;
+
+ALTER TABLE listening_questions ADD CONSTRAINT listening_questions_question_type_check
+CHECK (question_type = ANY (ARRAY[
+    'multiple_choice'::text,
+    'short_answer'::text,
+    'matching'::text,
+    'sentence_completion'::text,
+    'map_labeling'::text,
+    'word_bank_completion'::text
+]));
+
+-- Step 3: Document the new type
+COMMENT ON COLUMN reading_questions.question_type IS 'multiple_choice, short_answer, matching, map_diagram, map_labeling, multiple_selection, true_false_not_given, yes_no_not_given, matching_headings or word_bank_completion. Judgement questions store the option label as correct_answer; matching headings store one heading numeral per paragraph; word bank blanks store a letter.';
+
+COMMENT ON COLUMN listening_questions.question_type IS 'multiple_choice, short_answer, matching, sentence_completion, map_labeling or word_bank_completion. Word bank blanks store a letter.';
+
+-- Step 4: Verify the constraints were applied correctly
+SELECT conrelid::regclass AS table_name, conname, pg_get_constraintdef(oid)
+FROM pg_constraint
+WHERE (conrelid = 'reading_questions'::regclass
+       AND conname = 'reading_questions_question_type_check')
+OR (conrelid = 'listening_questions'::regclass
+    AND conname = 'listening_questions_question_type_check');
@@ -0,0 +1,179 @@
+-- Add the Speaking test module
+-- Speaking tasks hold the Part 1/2/3 prompts; recordings are stored in test_submissions.answers
+-- as paths in the private speaking-recordings bucket, played through signed URLs
+
+-- Step 1: Create the speaking_tasks table
+CREATE TABLE IF NOT EXISTS speaking_tasks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    test_id UUID NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+    part_number INTEGER NOT NULL CHECK (part_number BETWEEN 1 AND 3),
+    task_order INTEGER NOT NULL DEFAULT 1,
+    prompt TEXT NOT NULL,
+    cue_card_points JSONB DEFAULT NULL,
+    preparation_seconds INTEGER NOT NULL DEFAULT 0,
+    response_seconds INTEGER NOT NULL DEFAULT 60,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_speaking_tasks_test
+ON speaking_tasks(test_id, part_number, task_order);
+
+-- Step 2: Add RLS policies
+ALTER TABLE speaking_tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "speaking_tasks_tenant_isolation" ON speaking_tasks;
+DROP POLICY IF EXISTS "speaking_tasks_tenant_read" ON speaking_tasks;
+CREATE POLICY "speaking_tasks_tenant_read"
+ON speaking_tasks FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM tests
+        WHERE id = speaking_tasks.test_id
+        AND edu_center_id = (
+            SELECT edu_center_id FROM profiles WHERE id = auth.uid()
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "speaking_tasks_admin_insert" ON speaking_tasks;
+CREATE POLICY "speaking_tasks_admin_insert"
+ON speaking_tasks FOR INSERT
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM tests
+        WHERE id = speaking_tasks.test_id
+        AND edu_center_id = (
+            SELECT edu_center_id FROM profiles
+            WHERE id = auth.uid() AND role = 'edu_admin'
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "speaking_tasks_admin_update" ON speaking_tasks;
+CREATE POLICY "speaking_tasks_admin_update"
+ON speaking_tasks FOR UPDATE
+USING (
+    EXISTS (
+        SELECT 1 FROM tests
+        WHERE id = speaking_tasks.test_id
+        AND edu_center_id = (
+            SELECT edu_center_id FROM profiles
+            WHERE id = auth.uid() AND role = 'edu_admin'
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "speaking_tasks_admin_delete" ON speaking_tasks;
+CREATE POLICY "speaking_tasks_admin_delete"
+ON speaking_tasks FOR DELETE
+USING (
+    EXISTS (
+        SELECT 1 FROM tests
+        WHERE id = speaking_tasks.test_id
+        AND edu_center_id = (
+            SELECT edu_center_id FROM profiles
+            WHERE id = auth.uid() AND role = 'edu_admin'
+        )
+    )
+);
+
+-- Step 3: Allow speaking as a test type
+ALTER TABLE tests DROP CONSTRAINT IF EXISTS tests_type_check;
+
+ALTER TABLE tests ADD CONSTRAINT tests_type_check
+CHECK (type = ANY (ARRAY[
+    'reading'::text,
+    'listening'::text,
+    'writing'::text,
+    'speaking'::text,
+    'full'::text
+]));
+
+-- Step 4: Count the speaking section when checking whether a test is completed
+CREATE OR REPLACE FUNCTION is_test_completed(test_id_param UUID, student_id_param UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+    submission_record RECORD;
+    has_reading BOOLEAN := FALSE;
+    has_listening BOOLEAN := FALSE;
+    has_writing BOOLEAN := FALSE;
+    has_speaking BOOLEAN := FALSE;
+    completed_count INTEGER := 0;
+    total_sections INTEGER := 0;
+BEGIN
+    SELECT * INTO submission_record
+    FROM test_submissions
+    WHERE test_id = test_id_param AND student_id = student_id_param;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT COUNT(*) > 0 INTO has_reading
+    FROM reading_sections WHERE test_id = test_id_param;
+
+    SELECT COUNT(*) > 0 INTO has_listening
+    FROM listening_sections WHERE test_id = test_id_param;
+
+    SELECT COUNT(*) > 0 INTO has_writing
+    FROM writing_tasks WHERE test_id = test_id_param;
+
+    SELECT COUNT(*) > 0 INTO has_speaking
+    FROM speaking_tasks WHERE test_id = test_id_param;
+
+    total_sections := (has_reading::int + has_listening::int + has_writing::int + has_speaking::int);
+
+    SELECT COUNT(DISTINCT section) INTO completed_count
+    FROM unnest(submission_record.completed_sections) AS section
+    WHERE section IN ('reading', 'listening', 'writing', 'speaking');
+
+    RETURN completed_count = total_sections AND total_sections > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 5: Private bucket for recordings, one folder per student
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'speaking-recordings',
+    'speaking-recordings',
+    FALSE,
+    52428800,
+    ARRAY['audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg']
+)
+ON CONFLICT (id) DO UPDATE SET public = FALSE;
+
+DROP POLICY IF EXISTS "speaking_recordings_student_insert" ON storage.objects;
+CREATE POLICY "speaking_recordings_student_insert"
+ON storage.objects FOR INSERT
+WITH CHECK (
+    bucket_id = 'speaking-recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Students hear their own recordings; admins hear those of their center's students
+DROP POLICY IF EXISTS "speaking_recordings_read" ON storage.objects;
+CREATE POLICY "speaking_recordings_read"
+ON storage.objects FOR SELECT
+USING (
+    bucket_id = 'speaking-recordings'
+    AND (
+        (storage.foldername(name))[1] = auth.uid()::text
+        OR EXISTS (
+            SELECT 1 FROM profiles student
+            WHERE student.id::text = (storage.foldername(name))[1]
+            AND student.edu_center_id = (
+                SELECT edu_center_id FROM profiles
+                WHERE id = auth.uid() AND role = 'edu_admin'
+            )
+        )
+    )
+);
+
+-- Step 6: Document the table
+COMMENT ON TABLE speaking_tasks IS 'IELTS Speaking prompts. Part 2 tasks carry cue card points and a preparation time (60 seconds by default).';
+
+-- Step 7: Verify the table was created
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'speaking_tasks'
+ORDER BY ordinal_position;
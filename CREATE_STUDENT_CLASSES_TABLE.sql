@@ -0,0 +1,88 @@
+-- Student classes for edu-admins
+-- Named groups of students (e.g. "Evening IELTS 6.5 target") with an assigned teacher.
+-- Classes filter student and submission lists and drive bulk actions
+-- (assign a test, message the class, export results).
+
+-- Step 1: Create the student_classes table
+CREATE TABLE IF NOT EXISTS student_classes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    edu_center_id UUID NOT NULL REFERENCES edu_centers(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    teacher_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (edu_center_id, name)
+);
+
+-- Step 2: Create the membership table
+CREATE TABLE IF NOT EXISTS student_class_members (
+    class_id UUID NOT NULL REFERENCES student_classes(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (class_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_class_members_student
+ON student_class_members(student_id);
+
+-- Step 3: Remember which class an assignment was made for
+ALTER TABLE test_assignment_groups
+ADD COLUMN IF NOT EXISTS class_id UUID REFERENCES student_classes(id) ON DELETE SET NULL;
+
+-- Step 4: Add RLS policies. Only the center's admins change classes or
+-- membership (class membership can approve test requests); the center can
+-- read classes and students can see their own memberships.
+ALTER TABLE student_classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_class_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "student_classes_tenant_isolation" ON student_classes;
+DROP POLICY IF EXISTS "student_classes_tenant_read" ON student_classes;
+CREATE POLICY "student_classes_tenant_read"
+ON student_classes FOR SELECT
+USING (
+    edu_center_id = (
+        SELECT edu_center_id FROM profiles WHERE id = auth.uid()
+    )
+);
+
+DROP POLICY IF EXISTS "student_classes_admin_access" ON student_classes;
+CREATE POLICY "student_classes_admin_access"
+ON student_classes FOR ALL
+USING (
+    edu_center_id = (
+        SELECT edu_center_id FROM profiles
+        WHERE id = auth.uid() AND role = 'edu_admin'
+    )
+);
+
+DROP POLICY IF EXISTS "student_class_members_tenant_isolation" ON student_class_members;
+DROP POLICY IF EXISTS "student_class_members_admin_access" ON student_class_members;
+CREATE POLICY "student_class_members_admin_access"
+ON student_class_members FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM student_classes
+        WHERE id = student_class_members.class_id
+        AND edu_center_id = (
+            SELECT edu_center_id FROM profiles
+            WHERE id = auth.uid() AND role = 'edu_admin'
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "student_class_members_student_read" ON student_class_members;
+CREATE POLICY "student_class_members_student_read"
+ON student_class_members FOR SELECT
+USING (student_id = auth.uid());
+
+-- Step 5: Document the tables
+COMMENT ON TABLE student_classes IS 'Named class of students within an edu center, optionally led by a teacher (an edu_admin profile).';
+COMMENT ON TABLE student_class_members IS 'Students belonging to a class. A student may be in several classes.';
+COMMENT ON COLUMN test_assignment_groups.class_id IS 'Class the assignment was created from, if any. student_ids is still the source of truth.';
+
+-- Step 6: Verify the tables were created
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name IN ('student_classes', 'student_class_members')
+ORDER BY table_name, ordinal_position;
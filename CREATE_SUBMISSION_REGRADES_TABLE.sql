@@ -0,0 +1,59 @@
+-- Regrade audit trail
+-- Fixing an answer key leaves graded submissions with stale reading/listening
+-- bands until they are regraded. Every regrade that changes a submission is
+-- recorded here with the scores before and after, so changes can be traced.
+-- Rows are written by the server (service role) only.
+-- submission_id is not a foreign key: a retake moves the submission into
+-- test_attempts (same id, see ADD_TEST_ATTEMPT_LIMITS.sql) and its regrade
+-- history has to survive that.
+
+-- Step 1: Create the submission_regrades table
+CREATE TABLE IF NOT EXISTS submission_regrades (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    submission_id UUID NOT NULL,
+    test_id UUID NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+    student_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    edu_center_id UUID NOT NULL REFERENCES edu_centers(id) ON DELETE CASCADE,
+    scope TEXT NOT NULL CHECK (scope IN ('test', 'question', 'submission')),
+    question_id UUID,
+    version_id UUID REFERENCES test_versions(id) ON DELETE SET NULL,
+    previous_scores JSONB NOT NULL,
+    new_scores JSONB NOT NULL,
+    regraded_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    regraded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE submission_regrades
+DROP CONSTRAINT IF EXISTS submission_regrades_submission_id_fkey;
+
+CREATE INDEX IF NOT EXISTS idx_submission_regrades_submission
+ON submission_regrades(submission_id, regraded_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_submission_regrades_test
+ON submission_regrades(test_id, regraded_at DESC);
+
+-- Step 2: Add RLS policies (read-only for the edu center; no client writes)
+ALTER TABLE submission_regrades ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "submission_regrades_tenant_read" ON submission_regrades;
+CREATE POLICY "submission_regrades_tenant_read"
+ON submission_regrades FOR SELECT
+USING (
+    edu_center_id = (
+        SELECT edu_center_id FROM profiles WHERE id = auth.uid()
+    )
+);
+
+-- Step 3: Document the table
+COMMENT ON TABLE submission_regrades IS 'Audit record of each regrade that changed a submission''s auto-graded scores.';
+COMMENT ON COLUMN submission_regrades.submission_id IS 'Live submission, or test_attempts.submission_id once the attempt has been archived by a retake.';
+COMMENT ON COLUMN submission_regrades.scope IS 'What the admin regraded: the whole test, one question, or one submission.';
+COMMENT ON COLUMN submission_regrades.question_id IS 'Question whose answer key was re-applied, for question-scoped regrades. The submission keeps its own version; only this regrade used the patched question.';
+COMMENT ON COLUMN submission_regrades.version_id IS 'Version whose questions were graded against (for question regrades, the version the question was taken from).';
+COMMENT ON COLUMN submission_regrades.previous_scores IS 'Bands and raw correct counts before the regrade.';
+
+-- Step 4: Verify the table was created
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'submission_regrades'
+ORDER BY ordinal_position;
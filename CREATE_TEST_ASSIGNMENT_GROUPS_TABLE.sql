@@ -0,0 +1,116 @@
+-- Scheduled test windows and class-wide assignment
+-- An edu-admin assigns a test to a group of students with an opening and closing time.
+-- Assigned students can start the test without a test_request while the window is open;
+-- students who never submitted are reported as absent once it closes.
+
+-- Step 1: Create the test_assignment_groups table
+CREATE TABLE IF NOT EXISTS test_assignment_groups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    test_id UUID NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+    edu_center_id UUID NOT NULL REFERENCES edu_centers(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    student_ids UUID[] NOT NULL DEFAULT '{}',
+    opens_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    closes_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_by UUID REFERENCES profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT test_assignment_groups_window_check CHECK (closes_at > opens_at)
+);
+
+-- Step 1b: Bring an existing table up to this schema
+-- CREATE TABLE IF NOT EXISTS leaves an older table as it is, so add any missing
+-- columns, stop on columns of another type, and enforce the constraints. SET NOT
+-- NULL fails if existing rows lack a value; fill those in and re-run.
+ALTER TABLE test_assignment_groups
+ADD COLUMN IF NOT EXISTS test_id UUID REFERENCES tests(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS edu_center_id UUID REFERENCES edu_centers(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS name TEXT,
+ADD COLUMN IF NOT EXISTS student_ids UUID[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS opens_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS closes_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES profiles(id),
+ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+DO $$
+DECLARE
+    mismatch TEXT;
+BEGIN
+    SELECT string_agg(expected.column_name || ' is ' || columns.udt_name || ', expected ' || expected.udt_name, '; ')
+    INTO mismatch
+    FROM (VALUES
+        ('id', 'uuid'),
+        ('test_id', 'uuid'),
+        ('edu_center_id', 'uuid'),
+        ('name', 'text'),
+        ('student_ids', '_uuid'),
+        ('opens_at', 'timestamptz'),
+        ('closes_at', 'timestamptz'),
+        ('created_by', 'uuid'),
+        ('created_at', 'timestamptz')
+    ) AS expected(column_name, udt_name)
+    JOIN information_schema.columns columns
+        ON columns.table_name = 'test_assignment_groups'
+        AND columns.column_name = expected.column_name
+    WHERE columns.udt_name <> expected.udt_name;
+
+    IF mismatch IS NOT NULL THEN
+        RAISE EXCEPTION 'test_assignment_groups has columns of the wrong type: %', mismatch;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conrelid = 'test_assignment_groups'::regclass
+        AND conname = 'test_assignment_groups_window_check'
+    ) THEN
+        ALTER TABLE test_assignment_groups
+        ADD CONSTRAINT test_assignment_groups_window_check CHECK (closes_at > opens_at);
+    END IF;
+END $$;
+
+UPDATE test_assignment_groups SET student_ids = '{}' WHERE student_ids IS NULL;
+
+ALTER TABLE test_assignment_groups
+ALTER COLUMN test_id SET NOT NULL,
+ALTER COLUMN edu_center_id SET NOT NULL,
+ALTER COLUMN name SET NOT NULL,
+ALTER COLUMN student_ids SET NOT NULL,
+ALTER COLUMN student_ids SET DEFAULT '{}',
+ALTER COLUMN opens_at SET NOT NULL,
+ALTER COLUMN closes_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_test_assignment_groups_test
+ON test_assignment_groups(test_id);
+
+CREATE INDEX IF NOT EXISTS idx_test_assignment_groups_students
+ON test_assignment_groups USING GIN (student_ids);
+
+-- Step 2: Add RLS policies (the center's admins manage groups; assigned
+-- students can only read theirs)
+ALTER TABLE test_assignment_groups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "test_assignment_groups_tenant_isolation" ON test_assignment_groups;
+DROP POLICY IF EXISTS "test_assignment_groups_admin_access" ON test_assignment_groups;
+CREATE POLICY "test_assignment_groups_admin_access"
+ON test_assignment_groups FOR ALL
+USING (
+    edu_center_id = (
+        SELECT edu_center_id FROM profiles
+        WHERE id = auth.uid() AND role = 'edu_admin'
+    )
+);
+
+DROP POLICY IF EXISTS "test_assignment_groups_student_read" ON test_assignment_groups;
+CREATE POLICY "test_assignment_groups_student_read"
+ON test_assignment_groups FOR SELECT
+USING (auth.uid() = ANY(student_ids));
+
+-- Step 3: Document the table
+COMMENT ON TABLE test_assignment_groups IS 'A test assigned to a set of students for a time window. Replaces per-student test_requests for class-wide tests.';
+COMMENT ON COLUMN test_assignment_groups.student_ids IS 'Profiles of the assigned students.';
+COMMENT ON COLUMN test_assignment_groups.closes_at IS 'After this time the test is locked for the group and missing students count as absent.';
+
+-- Step 4: Verify the table was created
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'test_assignment_groups'
+ORDER BY ordinal_position;
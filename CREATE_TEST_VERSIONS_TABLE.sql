@@ -0,0 +1,92 @@
+-- Test versioning with frozen snapshots
+-- Every publish stores an immutable copy of the questions, answer keys and sections.
+-- Submissions point at the version they were taken on, which is what the student is
+-- shown and graded against; editing a published test changes the draft that becomes
+-- the next version once it is published.
+
+-- Step 1: Create the test_versions table
+CREATE TABLE IF NOT EXISTS test_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    test_id UUID NOT NULL REFERENCES tests(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL CHECK (version_number > 0),
+    snapshot JSONB NOT NULL,
+    published_by UUID REFERENCES profiles(id),
+    published_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (test_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_test_versions_test
+ON test_versions(test_id, version_number DESC);
+
+-- Step 2: Versions never change once published
+CREATE OR REPLACE FUNCTION prevent_test_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Test versions are immutable; publish a new version instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS test_versions_immutable ON test_versions;
+CREATE TRIGGER test_versions_immutable
+BEFORE UPDATE ON test_versions
+FOR EACH ROW EXECUTE FUNCTION prevent_test_version_update();
+
+-- Step 3: Track the live version on tests and the taken version on submissions
+ALTER TABLE tests
+ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES test_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE test_submissions
+ADD COLUMN IF NOT EXISTS test_version_id UUID REFERENCES test_versions(id) ON DELETE SET NULL;
+
+-- Step 4: New submissions are pinned to the version that is live when they start
+CREATE OR REPLACE FUNCTION set_submission_test_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.test_version_id IS NULL THEN
+        SELECT current_version_id INTO NEW.test_version_id
+        FROM tests WHERE id = NEW.test_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS test_submissions_set_version ON test_submissions;
+CREATE TRIGGER test_submissions_set_version
+BEFORE INSERT ON test_submissions
+FOR EACH ROW EXECUTE FUNCTION set_submission_test_version();
+
+-- Step 5: Add RLS policies
+-- Snapshots hold the answer keys, so only the center's admins may see them;
+-- students never read versions (grading runs on the server)
+ALTER TABLE test_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "test_versions_tenant_isolation" ON test_versions;
+DROP POLICY IF EXISTS "test_versions_admin_access" ON test_versions;
+CREATE POLICY "test_versions_admin_access"
+ON test_versions FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM tests
+        WHERE id = test_versions.test_id
+        AND edu_center_id = (
+            SELECT edu_center_id FROM profiles
+            WHERE id = auth.uid() AND role = 'edu_admin'
+        )
+    )
+);
+
+-- Step 6: Document the changes
+COMMENT ON TABLE test_versions IS 'Immutable snapshot of a test''s questions, answer keys, sections and band settings, created on each publish.';
+COMMENT ON COLUMN tests.current_version_id IS 'Version students are given when they start the test.';
+COMMENT ON COLUMN test_submissions.test_version_id IS 'Version the submission was taken on; grading uses its snapshot.';
+
+-- Step 7: Verify the changes
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'test_versions'
+ORDER BY ordinal_position;
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'tests' AND column_name = 'current_version_id')
+OR (table_name = 'test_submissions' AND column_name = 'test_version_id');
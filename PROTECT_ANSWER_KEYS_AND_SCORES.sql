@@ -0,0 +1,111 @@
+-- Keep answer keys and scores out of students' hands
+-- Students get exam questions from GET /api/tests/:testId/exam-content, which strips
+-- the keys, and grading runs on the server. This closes the direct routes: only the
+-- center's admins may read question rows, and score columns on test_submissions can
+-- only be written with the service role (the grading API).
+
+-- Step 1: Only admins read question rows (and with them the answer keys)
+-- Restrictive policies are combined with AND, so they narrow whatever read
+-- policies the question tables already have.
+ALTER TABLE reading_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE listening_questions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "reading_questions_admin_read" ON reading_questions;
+CREATE POLICY "reading_questions_admin_read"
+ON reading_questions AS RESTRICTIVE FOR SELECT
+USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'super_admin')
+    OR EXISTS (
+        SELECT 1 FROM reading_sections
+        JOIN tests ON tests.id = reading_sections.test_id
+        WHERE reading_sections.id = reading_questions.section_id
+        AND tests.edu_center_id = (
+            SELECT edu_center_id FROM profiles
+            WHERE id = auth.uid() AND role = 'edu_admin'
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "listening_questions_admin_read" ON listening_questions;
+CREATE POLICY "listening_questions_admin_read"
+ON listening_questions AS RESTRICTIVE FOR SELECT
+USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'super_admin')
+    OR EXISTS (
+        SELECT 1 FROM listening_sections
+        JOIN tests ON tests.id = listening_sections.test_id
+        WHERE listening_sections.id = listening_questions.section_id
+        AND tests.edu_center_id = (
+            SELECT edu_center_id FROM profiles
+            WHERE id = auth.uid() AND role = 'edu_admin'
+        )
+    )
+);
+
+-- Step 2: Score columns are written by the grading API only
+-- Signed-in users (students and admins alike) may save answers and progress,
+-- but not scores, and may not move a submission into or out of a graded state.
+-- Columns are compared as JSON so the trigger works whichever of them exist.
+CREATE OR REPLACE FUNCTION protect_submission_scores()
+RETURNS TRIGGER AS $$
+DECLARE
+    score_column TEXT;
+    new_row JSONB := to_jsonb(NEW);
+    old_row JSONB := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE '{}'::jsonb END;
+    is_changed BOOLEAN;
+BEGIN
+    IF COALESCE(auth.role(), '') NOT IN ('authenticated', 'anon') THEN
+        RETURN NEW;
+    END IF;
+
+    FOREACH score_column IN ARRAY ARRAY[
+        'reading_score', 'listening_score', 'writing_score', 'speaking_score',
+        'speaking_criteria', 'total_score', 'score', 'overall_band_status',
+        'auto_grading_data', 'submission_data', 'writing_grading_data',
+        'manual_overrides', 'feedback', 'final_comments', 'graded_at',
+        'graded_by', 'is_late'
+    ] LOOP
+        IF TG_OP = 'INSERT' THEN
+            -- New rows may only carry the column defaults
+            is_changed := score_column <> 'overall_band_status'
+                AND COALESCE(new_row -> score_column, 'null'::jsonb) NOT IN ('null'::jsonb, 'false'::jsonb);
+        ELSE
+            is_changed := (new_row -> score_column) IS DISTINCT FROM (old_row -> score_column);
+        END IF;
+
+        IF is_changed THEN
+            RAISE EXCEPTION 'Column % of test_submissions can only be set by the grading API', score_column
+            USING ERRCODE = '42501';
+        END IF;
+    END LOOP;
+
+    IF (TG_OP = 'INSERT' AND NEW.status IN ('graded', 'rejected_late'))
+       OR (TG_OP = 'UPDATE'
+           AND NEW.status IS DISTINCT FROM OLD.status
+           AND (NEW.status IN ('graded', 'rejected_late') OR OLD.status IN ('graded', 'rejected_late')))
+    THEN
+        RAISE EXCEPTION 'Only the grading API can change whether a submission is graded'
+        USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS test_submissions_protect_scores ON test_submissions;
+CREATE TRIGGER test_submissions_protect_scores
+BEFORE INSERT OR UPDATE ON test_submissions
+FOR EACH ROW EXECUTE FUNCTION protect_submission_scores();
+
+-- Step 3: Document the changes
+COMMENT ON FUNCTION protect_submission_scores() IS 'Rejects score and grading-status writes to test_submissions that do not come from the service role.';
+
+-- Step 4: Verify the changes
+SELECT tablename, policyname, permissive, cmd
+FROM pg_policies
+WHERE tablename IN ('reading_questions', 'listening_questions')
+ORDER BY tablename, policyname;
+
+SELECT tgname
+FROM pg_trigger
+WHERE tgrelid = 'test_submissions'::regclass AND tgname = 'test_submissions_protect_scores';
@@ -38,6 +38,7 @@ import NotFound from "./pages/NotFound";
 // Dashboard Pages
 import StudentDashboard from "./pages/student/Dashboard";
 import TestHistory from "./pages/student/TestHistory";
+import StudentProgress from "./pages/student/Progress";
 import EduAdminDashboard from "./pages/edu-admin/Dashboard";
 import SuperAdminDashboard from "./pages/super-admin/Dashboard";
 
@@ -56,8 +57,11 @@ import CreateReadingNew from "./pages/edu-admin/CreateReadingNew";
 import CreateListeningNew from "./pages/edu-admin/CreateListeningNew";
 
 import CreateWritingNew from "./pages/edu-admin/CreateWritingNew";
+import CreateSpeakingNew from "./pages/edu-admin/CreateSpeakingNew";
 import TestRequests from "./pages/edu-admin/TestRequests";
 import TestSubmissions from "./pages/edu-admin/TestSubmissions";
+import Classes from "./pages/edu-admin/Classes";
+import ItemAnalysis from "./pages/edu-admin/ItemAnalysis";
 
 // Student Pages
 import StudentTests from "./pages/student/Tests";
@@ -67,6 +71,7 @@ import TestStart from "./pages/student/TestStart";
 
 import ListeningTestTaking from "./pages/student/ListeningTestTaking";
 import TakeWritingTest from "./pages/student/TakeWritingTest";
+import TakeSpeakingTest from "./pages/student/TakeSpeakingTest";
 import TestResults from "./pages/student/TestResults";
 import AvailableTests from "./pages/student/AvailableTests";
 import TestGrading from "./pages/edu-admin/TestGrading";
@@ -203,6 +208,7 @@ function AppRoutes() {
     (location.pathname.includes('/listening') || 
      location.pathname.includes('/reading') || 
      location.pathname.includes('/writing') ||
+     location.pathname.includes('/speaking') ||
      location.pathname.includes('/TakeTestNew'));
 
   const Layout = isTestTakingRoute ? TestLayout : AppLayout;
@@ -290,6 +296,16 @@ function AppRoutes() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/student/progress"
+            element={
+              <ProtectedRoute allowedRoles={["student"]}>
+                <PageTransition>
+                  <StudentProgress />
+                </PageTransition>
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/student/tests"
             element={
@@ -356,6 +372,14 @@ function AppRoutes() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/student/test/:testId/speaking"
+            element={
+              <ProtectedRoute allowedRoles={["student"]}>
+                <TakeSpeakingTest />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/student/profile"
             element={
@@ -456,6 +480,14 @@ function AppRoutes() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/edu-admin/tests/create/speaking/:testId/:partNumber"
+            element={
+              <ProtectedRoute allowedRoles={["edu_admin"]}>
+                <CreateSpeakingNew />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/edu-admin/requests"
             element={
@@ -472,6 +504,22 @@ function AppRoutes() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/edu-admin/classes"
+            element={
+              <ProtectedRoute allowedRoles={["edu_admin"]}>
+                <Classes />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/edu-admin/tests/:testId/analysis"
+            element={
+              <ProtectedRoute allowedRoles={["edu_admin"]}>
+                <ItemAnalysis />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/edu-admin/grade/:submissionId"
             element={
@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Trash2 } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { parseError, logError } from "@/lib/errorUtils";
+import { useStudentClasses } from "@/hooks/use-student-classes";
+import {
+  applyPolicyToPending,
+  deleteApprovalPolicy,
+  fetchApprovalPolicies,
+  saveApprovalPolicy,
+} from "@/lib/testRequestUtils";
+import {
+  APPROVAL_POLICY_LABELS,
+  validateApprovalPolicy,
+  type ApprovalPolicy,
+  type ApprovalPolicyMode,
+} from "@shared/approvalPolicies";
+
+interface ApprovalPoliciesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Requests still waiting, so a new policy can approve them straight away
+  pendingRequests: { id: string; test_id: string; student_id: string }[];
+  onApplied?: () => void;
+}
+
+export const ApprovalPoliciesDialog: React.FC<ApprovalPoliciesDialogProps> = ({
+  open,
+  onOpenChange,
+  pendingRequests,
+  onApplied,
+}) => {
+  const { user } = useAuth();
+  const { classes } = useStudentClasses();
+  const [tests, setTests] = useState<{ id: string; title: string }[]>([]);
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>([]);
+  const [testId, setTestId] = useState("");
+  const [mode, setMode] = useState<ApprovalPolicyMode>("always");
+  const [classId, setClassId] = useState("");
+  const [maxAttempts, setMaxAttempts] = useState("1");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user?.edu_center_id) return;
+
+    const loadOptions = async () => {
+      const [{ data: testData, error: testsError }, policyData] =
+        await Promise.all([
+          supabase
+            .from("tests")
+            .select("id, title")
+            .eq("edu_center_id", user.edu_center_id)
+            .is("archived_at", null)
+            .order("created_at", { ascending: false }),
+          fetchApprovalPolicies(),
+        ]);
+
+      if (testsError) console.warn("Could not load tests:", testsError.message);
+
+      setTests(testData || []);
+      setPolicies(policyData);
+    };
+
+    loadOptions();
+  }, [open, user?.edu_center_id]);
+
+  // Editing a test that already has a policy starts from that policy
+  useEffect(() => {
+    const existing = policies.find((p) => p.test_id === testId);
+    setMode(existing?.mode || "always");
+    setClassId(existing?.class_id || "");
+    setMaxAttempts(String(existing?.max_attempts || 1));
+  }, [testId, policies]);
+
+  const describePolicy = (policy: ApprovalPolicy) => {
+    if (policy.mode === "class") {
+      const className = classes.find((c) => c.id === policy.class_id)?.name;
+      return `Approve students in ${className || "a deleted class"}`;
+    }
+    if (policy.mode === "max_attempts") {
+      return `Approve up to ${policy.max_attempts} attempts per student`;
+    }
+    return APPROVAL_POLICY_LABELS[policy.mode];
+  };
+
+  const handleSave = async () => {
+    if (!testId || !user?.edu_center_id) {
+      toast.error("Choose a test");
+      return;
+    }
+
+    const policy: ApprovalPolicy = {
+      test_id: testId,
+      mode,
+      class_id: classId || null,
+      max_attempts: Number(maxAttempts),
+    };
+
+    const validationError = validateApprovalPolicy(policy);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveApprovalPolicy(policy, user.edu_center_id, user.id);
+
+      const approved = await applyPolicyToPending(
+        policy,
+        pendingRequests.filter((request) => request.test_id === testId),
+        classes,
+        user.id,
+      );
+
+      toast.success(
+        approved > 0
+          ? `Policy saved and ${approved} pending requests approved`
+          : "Policy saved",
+      );
+      setPolicies(await fetchApprovalPolicies());
+      setTestId("");
+      if (approved > 0) onApplied?.();
+    } catch (error: any) {
+      logError("handleSavePolicy", error);
+      toast.error(`Failed to save policy: ${parseError(error)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (policy: ApprovalPolicy) => {
+    try {
+      await deleteApprovalPolicy(policy.test_id);
+      setPolicies((prev) => prev.filter((p) => p.test_id !== policy.test_id));
+      toast.success("Policy removed; new requests need manual approval");
+    } catch (error: any) {
+      logError("handleRemovePolicy", error);
+      toast.error(`Failed to remove policy: ${parseError(error)}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Auto-approval Policies</DialogTitle>
+          <DialogDescription>
+            Requests matching a test's policy are approved as soon as students
+            send them. Everything else waits for you.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {policies.length > 0 && (
+            <div className="space-y-2">
+              {policies.map((policy) => (
+                <div
+                  key={policy.test_id}
+                  className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+                >
+                  <div>
+                    <p className="font-medium text-sm">
+                      {tests.find((t) => t.id === policy.test_id)?.title ||
+                        "Unknown test"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {describePolicy(policy)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(policy)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <Label>Test</Label>
+            <Select value={testId} onValueChange={setTestId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a test" />
+              </SelectTrigger>
+              <SelectContent>
+                {tests.map((test) => (
+                  <SelectItem key={test.id} value={test.id}>
+                    {test.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>Rule</Label>
+            <Select
+              value={mode}
+              onValueChange={(value) => setMode(value as ApprovalPolicyMode)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(
+                  Object.keys(APPROVAL_POLICY_LABELS) as ApprovalPolicyMode[]
+                ).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {APPROVAL_POLICY_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {mode === "class" && (
+            <div>
+              <Label>Class</Label>
+              <Select value={classId} onValueChange={setClassId}>
+                <SelectTrigger>
+                  <SelectValue
+                    placeholder={
+                      classes.length === 0 ? "No classes yet" : "Select a class"
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {classes.map((studentClass) => (
+                    <SelectItem key={studentClass.id} value={studentClass.id}>
+                      {studentClass.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {mode === "max_attempts" && (
+            <div>
+              <Label htmlFor="policy_max_attempts">Attempts per student</Label>
+              <Input
+                id="policy_max_attempts"
+                type="number"
+                min={1}
+                value={maxAttempts}
+                onChange={(e) => setMaxAttempts(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !testId}>
+            {saving ? "Saving..." : "Save Policy"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ApprovalPoliciesDialog;
@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { parseError, logError } from "@/lib/errorUtils";
+import { useStudentClasses } from "@/hooks/use-student-classes";
+import ClassFilterSelect from "./ClassFilterSelect";
+
+interface AssignTestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAssigned?: () => void;
+  // Preselect a class, e.g. when assigning from the Classes page
+  classId?: string;
+}
+
+interface StudentOption {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export const AssignTestDialog: React.FC<AssignTestDialogProps> = ({
+  open,
+  onOpenChange,
+  onAssigned,
+  classId,
+}) => {
+  const { user } = useAuth();
+  const { classes, getClassStudentIds } = useStudentClasses();
+  const [classFilter, setClassFilter] = useState("all");
+  const [tests, setTests] = useState<{ id: string; title: string }[]>([]);
+  const [students, setStudents] = useState<StudentOption[]>([]);
+  const [testId, setTestId] = useState("");
+  const [name, setName] = useState("");
+  const [opensAt, setOpensAt] = useState("");
+  const [closesAt, setClosesAt] = useState("");
+  const [selectedStudents, setSelectedStudents] = useState<Set<string>>(
+    new Set(),
+  );
+  const [search, setSearch] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user?.edu_center_id) return;
+
+    const now = new Date();
+    setOpensAt(toLocalInputValue(now));
+    setClosesAt(toLocalInputValue(new Date(now.getTime() + 24 * 60 * 60 * 1000)));
+
+    const loadOptions = async () => {
+      const [{ data: testData, error: testsError }, { data: studentData, error: studentsError }] =
+        await Promise.all([
+          supabase
+            .from("tests")
+            .select("id, title")
+            .eq("edu_center_id", user.edu_center_id)
+            .eq("status", "published")
+            .is("archived_at", null)
+            .order("created_at", { ascending: false }),
+          supabase
+            .from("profiles")
+            .select("id, first_name, last_name, email")
+            .eq("edu_center_id", user.edu_center_id)
+            .eq("role", "student")
+            .order("last_name"),
+        ]);
+
+      if (testsError) console.warn("Could not load tests:", testsError.message);
+      if (studentsError)
+        console.warn("Could not load students:", studentsError.message);
+
+      setTests(testData || []);
+      setStudents(studentData || []);
+    };
+
+    loadOptions();
+  }, [open, user?.edu_center_id]);
+
+  useEffect(() => {
+    if (!open || !classId) return;
+    const studentClass = classes.find((c) => c.id === classId);
+    if (!studentClass) return;
+
+    setClassFilter(classId);
+    setSelectedStudents(new Set(studentClass.student_ids));
+    setName((current) => current || studentClass.name);
+  }, [open, classId, classes]);
+
+  const resetForm = () => {
+    setTestId("");
+    setName("");
+    setSelectedStudents(new Set());
+    setSearch("");
+    setClassFilter("all");
+  };
+
+  const classStudentIds = getClassStudentIds(classFilter);
+  const filteredStudents = students.filter(
+    (student) =>
+      (!classStudentIds || classStudentIds.has(student.id)) &&
+      `${student.first_name} ${student.last_name} ${student.email}`
+        .toLowerCase()
+        .includes(search.toLowerCase()),
+  );
+
+  const toggleStudent = (studentId: string) => {
+    setSelectedStudents((prev) => {
+      const next = new Set(prev);
+      if (next.has(studentId)) next.delete(studentId);
+      else next.add(studentId);
+      return next;
+    });
+  };
+
+  const toggleAllFiltered = () => {
+    const allSelected = filteredStudents.every((s) => selectedStudents.has(s.id));
+    setSelectedStudents((prev) => {
+      const next = new Set(prev);
+      filteredStudents.forEach((s) =>
+        allSelected ? next.delete(s.id) : next.add(s.id),
+      );
+      return next;
+    });
+  };
+
+  const handleAssign = async () => {
+    if (!testId || !name.trim() || selectedStudents.size === 0) {
+      toast.error("Choose a test, a name and at least one student");
+      return;
+    }
+
+    const opens = new Date(opensAt);
+    const closes = new Date(closesAt);
+    if (isNaN(opens.getTime()) || isNaN(closes.getTime()) || closes <= opens) {
+      toast.error("The closing time must be after the opening time");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("test_assignment_groups").insert({
+        test_id: testId,
+        edu_center_id: user?.edu_center_id,
+        name: name.trim(),
+        student_ids: [...selectedStudents],
+        class_id: classFilter !== "all" ? classFilter : null,
+        opens_at: opens.toISOString(),
+        closes_at: closes.toISOString(),
+        created_by: user?.id,
+      });
+
+      if (error) throw error;
+
+      toast.success(`Test assigned to ${selectedStudents.size} students`);
+      resetForm();
+      onOpenChange(false);
+      onAssigned?.();
+    } catch (error: any) {
+      logError("handleAssign", error);
+      toast.error(`Failed to assign test: ${parseError(error)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Assign Test to Students</DialogTitle>
+          <DialogDescription>
+            Assigned students can start the test without requesting access
+            while the window is open.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Test</Label>
+            <Select value={testId} onValueChange={setTestId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a published test" />
+              </SelectTrigger>
+              <SelectContent>
+                {tests.map((test) => (
+                  <SelectItem key={test.id} value={test.id}>
+                    {test.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="assignment_name">Name</Label>
+            <Input
+              id="assignment_name"
+              placeholder="e.g. Class 3B mock exam"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="assignment_opens">Opens</Label>
+              <Input
+                id="assignment_opens"
+                type="datetime-local"
+                value={opensAt}
+                onChange={(e) => setOpensAt(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="assignment_closes">Closes</Label>
+              <Input
+                id="assignment_closes"
+                type="datetime-local"
+                value={closesAt}
+                onChange={(e) => setClosesAt(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label>Students ({selectedStudents.size} selected)</Label>
+              <Button variant="ghost" size="sm" onClick={toggleAllFiltered}>
+                Select all shown
+              </Button>
+            </div>
+            <div className="flex gap-2 mb-2">
+              <Input
+                placeholder="Search students..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+              <ClassFilterSelect
+                classes={classes}
+                value={classFilter}
+                onChange={setClassFilter}
+                className="w-48"
+              />
+            </div>
+            <ScrollArea className="h-48 border rounded-md p-2">
+              {filteredStudents.length === 0 ? (
+                <p className="text-sm text-muted-foreground p-2">
+                  No students found
+                </p>
+              ) : (
+                filteredStudents.map((student) => (
+                  <label
+                    key={student.id}
+                    className="flex items-center gap-2 p-2 rounded hover:bg-gray-50 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={selectedStudents.has(student.id)}
+                      onCheckedChange={() => toggleStudent(student.id)}
+                    />
+                    <span className="text-sm">
+                      {student.first_name} {student.last_name}
+                    </span>
+                    <span className="text-xs text-muted-foreground ml-auto">
+                      {student.email}
+                    </span>
+                  </label>
+                ))
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAssign} disabled={saving}>
+            {saving ? "Assigning..." : "Assign"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssignTestDialog;
@@ -0,0 +1,46 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Users } from "lucide-react";
+import type { StudentClass } from "@/hooks/use-student-classes";
+
+interface ClassFilterSelectProps {
+  classes: StudentClass[];
+  value: string;
+  onChange: (classId: string) => void;
+  className?: string;
+}
+
+// "all" means no class filter
+export const ClassFilterSelect: React.FC<ClassFilterSelectProps> = ({
+  classes,
+  value,
+  onChange,
+  className,
+}) => {
+  if (classes.length === 0) return null;
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={className || "w-full sm:w-56"}>
+        <Users className="h-4 w-4 mr-2" />
+        <SelectValue placeholder="Filter by class" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All classes</SelectItem>
+        {classes.map((studentClass) => (
+          <SelectItem key={studentClass.id} value={studentClass.id}>
+            {studentClass.name} ({studentClass.student_ids.length})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default ClassFilterSelect;
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { parseError, logError } from "@/lib/errorUtils";
+import { applyRegrade, previewRegrade } from "@/lib/testProgressUtils";
+import type { RegradePreviewResponse, RegradeRequest } from "@shared/api";
+import type { RegradeScores } from "@shared/regrade";
+
+interface RegradeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  testId?: string;
+  request: RegradeRequest | null;
+  // What is being regraded, e.g. "Question 7" or "all submissions"
+  subject: string;
+  onApplied?: () => void;
+}
+
+const formatBand = (band: number | null) =>
+  band === null ? "—" : band.toFixed(1);
+
+export const RegradeDialog: React.FC<RegradeDialogProps> = ({
+  open,
+  onOpenChange,
+  testId,
+  request,
+  subject,
+  onApplied,
+}) => {
+  const [preview, setPreview] = useState<RegradePreviewResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  // Callers build the request inline, so compare it by value
+  const requestKey = JSON.stringify(request);
+
+  useEffect(() => {
+    if (!open || !testId || !request) return;
+
+    const loadPreview = async () => {
+      setLoading(true);
+      setPreview(null);
+      try {
+        setPreview(await previewRegrade(testId, request));
+      } catch (error: any) {
+        logError("previewRegrade", error);
+        toast.error(`Failed to preview regrade: ${parseError(error)}`);
+        onOpenChange(false);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPreview();
+  }, [open, testId, requestKey]);
+
+  const handleApply = async () => {
+    if (!testId || !request) return;
+
+    setApplying(true);
+    try {
+      const result = await applyRegrade(testId, request);
+      toast.success(
+        `${result.updated} submissions updated, ${result.notified} students notified`,
+      );
+      onOpenChange(false);
+      onApplied?.();
+    } catch (error: any) {
+      logError("applyRegrade", error);
+      toast.error(`Failed to regrade: ${parseError(error)}`);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const renderBand = (
+    before: RegradeScores,
+    after: RegradeScores,
+    key: "reading" | "listening" | "overall",
+  ) =>
+    before[key] === after[key] ? (
+      <span className="text-muted-foreground">{formatBand(after[key])}</span>
+    ) : (
+      <span>
+        <span className="text-red-700 line-through">
+          {formatBand(before[key])}
+        </span>{" "}
+        →{" "}
+        <span className="font-semibold text-green-700">
+          {formatBand(after[key])}
+        </span>
+      </span>
+    );
+
+  // Regrading against the current questions publishes them
+  const publishesDraft = !!request && !request.versionId;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Regrade {subject}</DialogTitle>
+          <DialogDescription>
+            Reading and listening are graded again with the corrected answer
+            keys. Writing and speaking bands are kept.
+            {publishesDraft &&
+              " Unpublished question changes are published as a new version first."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !preview ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : preview.changes.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            None of the {preview.checked} graded submissions would change.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {preview.changes.length} of {preview.checked} graded submissions
+              change. These students will be notified:
+            </p>
+            <div className="max-h-80 overflow-y-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Reading</TableHead>
+                    <TableHead>Listening</TableHead>
+                    <TableHead>Overall</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.changes.map((change) => (
+                    <TableRow key={change.submissionId}>
+                      <TableCell className="font-medium">
+                        {change.studentName}
+                      </TableCell>
+                      <TableCell>
+                        {renderBand(change.before, change.after, "reading")}
+                      </TableCell>
+                      <TableCell>
+                        {renderBand(change.before, change.after, "listening")}
+                      </TableCell>
+                      <TableCell>
+                        {renderBand(change.before, change.after, "overall")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={applying || loading || !preview?.changes.length}
+          >
+            {applying ? "Applying..." : "Apply Regrade"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RegradeDialog;
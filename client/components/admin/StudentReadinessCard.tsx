@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, Loader2, Target } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { logError } from "@/lib/errorUtils";
+import { loadScoredAttempts } from "@/lib/targetBandUtils";
+import {
+  READINESS_STATUS_LABELS,
+  estimateReadiness,
+  parseTargetProfile,
+  type Readiness,
+  type TargetProfile,
+} from "@shared/targetBands";
+
+interface StudentReadinessCardProps {
+  eduCenterId?: string;
+  // Members of the selected class, or null for every student in the centre
+  studentIds: string[] | null;
+}
+
+interface StudentReadiness {
+  id: string;
+  name: string;
+  target: TargetProfile;
+  readiness: Readiness;
+}
+
+// Students furthest below their target first
+const worstGap = (entry: StudentReadiness) =>
+  Math.min(
+    entry.readiness.overallGap ?? 0,
+    ...entry.readiness.skills.map((skill) => skill.gap ?? 0),
+  );
+
+const formatTarget = (target: TargetProfile) =>
+  [
+    target.overall !== null ? `${target.overall.toFixed(1)} overall` : null,
+    target.minimum !== null ? `min ${target.minimum.toFixed(1)}` : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+export const StudentReadinessCard: React.FC<StudentReadinessCardProps> = ({
+  eduCenterId,
+  studentIds,
+}) => {
+  const [students, setStudents] = useState<StudentReadiness[]>([]);
+  const [loading, setLoading] = useState(true);
+  const studentKey = studentIds ? studentIds.join(",") : "all";
+
+  useEffect(() => {
+    if (eduCenterId) {
+      fetchReadiness();
+    }
+  }, [eduCenterId, studentKey]);
+
+  const fetchReadiness = async () => {
+    try {
+      setLoading(true);
+
+      let query = supabase
+        .from("profiles")
+        .select("id, first_name, last_name, target_overall_band, target_min_band")
+        .eq("edu_center_id", eduCenterId)
+        .eq("role", "student")
+        .or("target_overall_band.not.is.null,target_min_band.not.is.null");
+      if (studentIds) {
+        query = query.in("id", studentIds);
+      }
+
+      const { data: profiles, error } = await query;
+      if (error) {
+        // Older databases may not have the target columns yet
+        console.warn("⚠️ Could not load student targets:", error.message);
+        setStudents([]);
+        return;
+      }
+
+      const attemptsByStudent = await loadScoredAttempts(
+        (profiles || []).map((profile) => profile.id),
+      );
+
+      setStudents(
+        (profiles || [])
+          .map((profile) => {
+            const target = parseTargetProfile(profile);
+            return {
+              id: profile.id,
+              name:
+                `${profile.first_name || ""} ${profile.last_name || ""}`.trim() ||
+                "Unknown student",
+              target,
+              readiness: estimateReadiness(
+                attemptsByStudent[profile.id] || [],
+                target,
+              ),
+            };
+          })
+          .sort((a, b) => worstGap(a) - worstGap(b)),
+      );
+    } catch (error: any) {
+      logError("fetchStudentReadiness", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const offTrack = students.filter(
+    (student) => student.readiness.status === "off_track",
+  );
+  const close = students.filter(
+    (student) => student.readiness.status === "close",
+  );
+  const visible = [...offTrack, ...close];
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Students Off Track
+          </span>
+          {!loading && students.length > 0 && (
+            <span className="text-sm font-normal text-muted-foreground">
+              {offTrack.length} of {students.length} students with a target
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : students.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            No students have set a target band yet
+          </p>
+        ) : visible.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CheckCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>Every student with results is on track for their target</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((student) => (
+              <div
+                key={student.id}
+                className={`flex items-center justify-between p-4 border rounded-lg ${student.readiness.status === "off_track" ? "border-red-200 bg-red-50" : "border-yellow-200 bg-yellow-50"}`}
+              >
+                <div>
+                  <h4 className="font-semibold">{student.name}</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Target {formatTarget(student.target)} • Estimated{" "}
+                    {student.readiness.overallEstimate?.toFixed(1) ?? "—"}
+                  </p>
+                  {student.readiness.skillsBelowTarget.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1 capitalize">
+                      Below target:{" "}
+                      {student.readiness.skillsBelowTarget
+                        .map((skill) => {
+                          const estimate = student.readiness.skills.find(
+                            (entry) => entry.skill === skill,
+                          )?.estimate;
+                          return `${skill} ${estimate?.toFixed(1) ?? ""}`.trim();
+                        })
+                        .join(", ")}
+                    </p>
+                  )}
+                </div>
+                <Badge
+                  className={
+                    student.readiness.status === "off_track"
+                      ? "bg-red-100 text-red-800"
+                      : "bg-yellow-100 text-yellow-800"
+                  }
+                >
+                  {READINESS_STATUS_LABELS[student.readiness.status]}
+                </Badge>
+              </div>
+            ))}
+            <Button className="w-full mt-2" variant="outline" asChild>
+              <Link to="/edu-admin/submissions">View Submissions</Link>
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StudentReadinessCard;
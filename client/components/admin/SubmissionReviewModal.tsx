@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { SpeakingRecordingPlayer } from "@/components/ui/speaking-recording-player";
 import {
   CheckCircle,
   XCircle,
@@ -29,17 +30,38 @@ import {
   AlertCircle,
   Star,
   Bug,
+  Mic,
+  Highlighter,
 } from "lucide-react";
 import { toast } from "sonner";
 import { motion } from "framer-motion";
-import {
-  autoGradeSubmission,
-  saveAutoGradedResults,
-  GradingResult,
-  QuestionResult,
-  debugGradingSystem,
-} from "@/lib/autoGrading";
+import { previewGrading, saveManualGrades } from "@/lib/testProgressUtils";
 import { supabase } from "@/lib/supabase";
+import {
+  SPEAKING_CRITERIA_LABELS,
+  calculateOverallBand,
+  calculateSpeakingBandScore,
+  getBandScore,
+  parseSpeakingCriteria,
+  type GradingResult,
+  type QuestionResult,
+  type SpeakingCriteria,
+} from "@shared/grading";
+import {
+  loadSpeakingTasks,
+  parseSpeakingResponse,
+  type SpeakingResponse,
+  type SpeakingTask,
+} from "@/lib/speakingUtils";
+import { loadReadingPassages, type ReadingPassageText } from "@/lib/readingUtils";
+import { formatAndSanitizeText } from "@/lib/textFormatting";
+import {
+  ANNOTATIONS_ANSWER_KEY,
+  HIGHLIGHT_COLOURS,
+  highlightHtml,
+  parsePassageAnnotations,
+  type PassageAnnotation,
+} from "@shared/passageAnnotations";
 import WritingGradingModal from "./WritingGradingModal";
 
 interface TestSubmission {
@@ -62,14 +84,22 @@ interface TestSubmission {
   reading_score?: number | null;
   listening_score?: number | null;
   writing_score?: number | null;
+  speaking_score?: number | null;
+  speaking_criteria?: SpeakingCriteria | string | null;
 }
 
+const EMPTY_SPEAKING_CRITERIA: Record<keyof SpeakingCriteria, string> = {
+  fluencyCoherence: "",
+  lexicalResource: "",
+  grammaticalRange: "",
+  pronunciation: "",
+};
+
 interface SubmissionReviewModalProps {
   isOpen: boolean;
   onClose: () => void;
   submission: TestSubmission | null;
   onGraded: () => void;
-  gradedBy: string;
   onOpenWritingGrading: (submission: TestSubmission) => void;
 }
 
@@ -78,7 +108,6 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
   onClose,
   submission,
   onGraded,
-  gradedBy,
   onOpenWritingGrading,
 }) => {
   const [gradingResult, setGradingResult] = useState<GradingResult | null>(
@@ -90,31 +119,143 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
     reading_score: "",
     listening_score: "",
     writing_score: "",
-    total_score: "",
   });
+  const [speakingCriteria, setSpeakingCriteria] = useState(
+    EMPTY_SPEAKING_CRITERIA,
+  );
   const [feedback, setFeedback] = useState("");
   const [activeTab, setActiveTab] = useState("auto-grade");
   const [questionOverrides, setQuestionOverrides] = useState<
     Record<string, boolean>
   >({});
+  const [speakingRecordings, setSpeakingRecordings] = useState<
+    { task: SpeakingTask; response: SpeakingResponse | null }[]
+  >([]);
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  const [annotatedPassages, setAnnotatedPassages] = useState<
+    { passage: ReadingPassageText; annotations: PassageAnnotation[] }[]
+  >([]);
 
   useEffect(() => {
     if (isOpen && submission) {
       loadAutoGrading();
+      loadSpeakingRecordings();
+      setShowAnnotations(false);
+      setAnnotatedPassages([]);
       // Load existing scores if already graded
       setManualScores({
         reading_score: submission.reading_score?.toString() || "",
         listening_score: submission.listening_score?.toString() || "",
         writing_score: submission.writing_score?.toString() || "",
-        total_score: submission.total_score?.toString() || "",
       });
+
+      const savedCriteria = parseSpeakingCriteria(submission.speaking_criteria);
+      setSpeakingCriteria(
+        savedCriteria
+          ? {
+              fluencyCoherence: savedCriteria.fluencyCoherence?.toString() || "",
+              lexicalResource: savedCriteria.lexicalResource?.toString() || "",
+              grammaticalRange: savedCriteria.grammaticalRange?.toString() || "",
+              pronunciation: savedCriteria.pronunciation?.toString() || "",
+            }
+          : EMPTY_SPEAKING_CRITERIA,
+      );
     }
   }, [isOpen, submission]);
 
+  const getSpeakingCriteriaValues = (): SpeakingCriteria => ({
+    fluencyCoherence: parseFloat(speakingCriteria.fluencyCoherence) || 0,
+    lexicalResource: parseFloat(speakingCriteria.lexicalResource) || 0,
+    grammaticalRange: parseFloat(speakingCriteria.grammaticalRange) || 0,
+    pronunciation: parseFloat(speakingCriteria.pronunciation) || 0,
+  });
+
+  const speakingBandScore = calculateSpeakingBandScore(
+    getSpeakingCriteriaValues(),
+  );
+
+  // Official overall band from the final grades, incomplete until all four skills are marked
+  const overallBand = calculateOverallBand({
+    reading: parseFloat(manualScores.reading_score) || 0,
+    listening: parseFloat(manualScores.listening_score) || 0,
+    writing: parseFloat(manualScores.writing_score) || 0,
+    speaking: speakingBandScore,
+  });
+
 
 
 
 
+  // Recordings are stored in answers under the speaking task id
+  const loadSpeakingRecordings = async () => {
+    if (!submission) return;
+    try {
+      const tasks = await loadSpeakingTasks(submission.test_id);
+      if (tasks.length === 0) {
+        setSpeakingRecordings([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("test_submissions")
+        .select("answers")
+        .eq("id", submission.id)
+        .single();
+
+      if (error) throw error;
+
+      setSpeakingRecordings(
+        tasks.map((task) => ({
+          task,
+          response: parseSpeakingResponse(data?.answers?.[task.id]),
+        })),
+      );
+    } catch (error) {
+      console.warn("⚠️ Could not load speaking recordings:", error);
+      setSpeakingRecordings([]);
+    }
+  };
+
+  // Highlights and notes the student made on the passages, stored in answers
+  const loadPassageAnnotations = async () => {
+    if (!submission) return;
+    try {
+      const { data, error } = await supabase
+        .from("test_submissions")
+        .select("answers")
+        .eq("id", submission.id)
+        .single();
+
+      if (error) throw error;
+
+      const annotations = parsePassageAnnotations(
+        data?.answers?.[ANNOTATIONS_ANSWER_KEY],
+      );
+      const passages = annotations.length
+        ? await loadReadingPassages(submission.test_id)
+        : [];
+
+      setAnnotatedPassages(
+        passages
+          .map((passage) => ({
+            passage,
+            annotations: annotations.filter(
+              (a) => a.passage === passage.passage_number,
+            ),
+          }))
+          .filter((entry) => entry.annotations.length > 0),
+      );
+    } catch (error) {
+      console.warn("⚠️ Could not load passage annotations:", error);
+      setAnnotatedPassages([]);
+    }
+  };
+
+  const toggleAnnotations = () => {
+    if (!showAnnotations) loadPassageAnnotations();
+    setShowAnnotations(!showAnnotations);
+  };
+
   const loadAutoGrading = async () => {
     if (!submission) {
       console.error("No submission data provided to modal");
@@ -141,7 +282,7 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
         throw new Error("Submission data is null");
       }
 
-      const result = await autoGradeSubmission(submission.id);
+      const result = await previewGrading(submission.id);
       setGradingResult(result);
 
       // Pre-fill manual scores with auto-graded values
@@ -149,7 +290,6 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
         reading_score: result.readingBandScore.toString(),
         listening_score: result.listeningBandScore.toString(),
         writing_score: result.writingBandScore.toString(),
-        total_score: result.overallBandScore.toString(),
       });
     } catch (error: any) {
       console.error("Grading failed:", error);
@@ -187,11 +327,7 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
       );
 
       // Build update object based on existing columns
-      const updateData: any = {
-        status: "graded",
-        graded_at: new Date().toISOString(),
-        graded_by: gradedBy,
-      };
+      const updateData: any = {};
 
       // Only add score columns if they exist
       if (existingSubmission && "reading_score" in existingSubmission) {
@@ -204,8 +340,17 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
       if (existingSubmission && "writing_score" in existingSubmission) {
         updateData.writing_score = parseFloat(manualScores.writing_score) || 0;
       }
+      if (existingSubmission && "speaking_score" in existingSubmission) {
+        updateData.speaking_score = speakingBandScore || null;
+        updateData.speaking_criteria = speakingBandScore
+          ? getSpeakingCriteriaValues()
+          : null;
+      }
       if (existingSubmission && "total_score" in existingSubmission) {
-        updateData.total_score = parseFloat(manualScores.total_score) || 0;
+        updateData.total_score = overallBand.band;
+      }
+      if (existingSubmission && "overall_band_status" in existingSubmission) {
+        updateData.overall_band_status = overallBand.status;
       }
       if (existingSubmission && "feedback" in existingSubmission) {
         updateData.feedback = feedback.trim() || null;
@@ -218,24 +363,8 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
 
       console.log("Update data:", updateData);
 
-      // Save final grades
-      const { error } = await supabase
-        .from("test_submissions")
-        .update(updateData)
-        .eq("id", submission.id);
-
-      if (error) {
-        // Check if it's a column not found error
-        if (
-          error.message?.includes("column") &&
-          error.message?.includes("does not exist")
-        ) {
-          throw new Error(
-            "Database setup required: Please run the setup_auto_grading_system.sql file in your Supabase dashboard. The grading columns are missing from the test_submissions table.",
-          );
-        }
-        throw error;
-      }
+      // Save final grades; the server stamps the grader and time
+      await saveManualGrades(submission.id, updateData);
 
       toast.success("Grades saved successfully!");
       onGraded();
@@ -313,58 +442,37 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
     // Calculate new band scores
     const readingBandScore =
       readingResults.length > 0
-        ? getBandScore(readingCorrect, readingResults.length, "reading")
+        ? getBandScore(
+            readingCorrect,
+            readingResults.length,
+            "reading",
+            gradingResult.breakdown.reading.module,
+          )
         : 0;
     const listeningBandScore =
       listeningResults.length > 0
         ? getBandScore(listeningCorrect, listeningResults.length, "listening")
         : 0;
 
-    const overallBandScore = calculateOverallBandScore(
-      readingBandScore,
-      listeningBandScore,
-      gradingResult.writingBandScore,
-    );
-
-    // Update manual scores
+    // Update manual scores; the overall band is derived from these
     setManualScores({
       reading_score: readingBandScore.toString(),
       listening_score: listeningBandScore.toString(),
       writing_score: gradingResult.writingBandScore.toString(),
-      total_score: overallBandScore.toString(),
     });
   };
 
-  // Helper functions from autoGrading.ts
-  const getBandScore = (
-    correct: number,
-    total: number,
-    section: "reading" | "listening",
-  ): number => {
-    // Simplified band score calculation - you may want to import this from autoGrading.ts
-    const percentage = (correct / total) * 100;
-    if (percentage >= 90) return 9.0;
-    if (percentage >= 80) return 8.0;
-    if (percentage >= 70) return 7.0;
-    if (percentage >= 60) return 6.0;
-    if (percentage >= 50) return 5.0;
-    if (percentage >= 40) return 4.0;
-    if (percentage >= 30) return 3.0;
-    if (percentage >= 20) return 2.0;
-    return 1.0;
-  };
-
-  const calculateOverallBandScore = (
-    reading: number,
-    listening: number,
-    writing: number,
-  ): number => {
-    const validBands = [reading, listening, writing].filter((band) => band > 0);
-    if (validBands.length === 0) return 1.0;
-    const average =
-      validBands.reduce((sum, band) => sum + band, 0) / validBands.length;
-    return Math.round(average * 2) / 2;
-  };
+  const renderOverallBand = (band: number, isComplete: boolean) => (
+    <>
+      <div className="text-3xl font-bold text-blue-600">{band.toFixed(1)}</div>
+      <div className="text-sm text-gray-600">Overall Band</div>
+      {!isComplete && (
+        <Badge variant="secondary" className="mt-1 text-xs">
+          Incomplete
+        </Badge>
+      )}
+    </>
+  );
 
   // Recalculate when overrides change
   useEffect(() => {
@@ -550,7 +658,7 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
                         </CardTitle>
                       </CardHeader>
                       <CardContent>
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
                           {renderBandScore(
                             gradingResult.readingBandScore,
                             "Reading",
@@ -563,15 +671,24 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
                             gradingResult.writingBandScore,
                             "Writing",
                           )}
+                          {renderBandScore(
+                            gradingResult.speakingBandScore,
+                            "Speaking",
+                          )}
                           <div className="border-l-2 border-blue-200 pl-4">
-                            <div className="text-3xl font-bold text-blue-600">
-                              {gradingResult.overallBandScore.toFixed(1)}
-                            </div>
-                            <div className="text-sm text-gray-600">
-                              Overall Band
-                            </div>
+                            {renderOverallBand(
+                              gradingResult.overallBandScore,
+                              gradingResult.overallBandStatus === "complete",
+                            )}
                           </div>
                         </div>
+                        {gradingResult.overallBandStatus === "incomplete" && (
+                          <p className="text-sm text-gray-600 mt-4 text-center">
+                            Missing: {gradingResult.missingSkills.join(", ")}.
+                            The overall band covers only the skills marked so
+                            far.
+                          </p>
+                        )}
                       </CardContent>
                     </Card>
 
@@ -670,10 +787,71 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
                       (r) => r.section === "reading",
                     ).length > 0 && (
                       <div>
-                        <h3 className="font-semibold text-lg mb-4 flex items-center gap-2">
-                          <BookOpen className="h-5 w-5 text-blue-600" />
-                          Reading Questions
-                        </h3>
+                        <div className="flex items-center justify-between mb-4">
+                          <h3 className="font-semibold text-lg flex items-center gap-2">
+                            <BookOpen className="h-5 w-5 text-blue-600" />
+                            Reading Questions
+                          </h3>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={toggleAnnotations}
+                          >
+                            <Highlighter className="h-4 w-4 mr-2" />
+                            {showAnnotations
+                              ? "Hide highlights and notes"
+                              : "Show highlights and notes"}
+                          </Button>
+                        </div>
+                        {showAnnotations && (
+                          <div className="space-y-4 mb-4">
+                            {annotatedPassages.length === 0 ? (
+                              <p className="text-sm text-gray-600">
+                                The student made no highlights or notes.
+                              </p>
+                            ) : (
+                              annotatedPassages.map(({ passage, annotations }) => (
+                                <Card key={passage.passage_number}>
+                                  <CardHeader className="pb-2">
+                                    <CardTitle className="text-base">
+                                      {passage.title ||
+                                        `Passage ${passage.passage_number}`}
+                                    </CardTitle>
+                                  </CardHeader>
+                                  <CardContent className="space-y-3">
+                                    <div
+                                      className="prose prose-sm max-w-none max-h-64 overflow-y-auto border rounded p-3"
+                                      dangerouslySetInnerHTML={{
+                                        __html: highlightHtml(
+                                          formatAndSanitizeText(
+                                            passage.passage_text || "",
+                                          ),
+                                          annotations,
+                                        ),
+                                      }}
+                                    />
+                                    {annotations
+                                      .filter((a) => a.note)
+                                      .map((a) => (
+                                        <div
+                                          key={a.id}
+                                          className="text-sm border-l-4 pl-3"
+                                          style={{
+                                            borderColor: HIGHLIGHT_COLOURS[a.colour],
+                                          }}
+                                        >
+                                          <p className="italic text-gray-600">
+                                            "{a.text}"
+                                          </p>
+                                          <p>{a.note}</p>
+                                        </div>
+                                      ))}
+                                  </CardContent>
+                                </Card>
+                              ))
+                            )}
+                          </div>
+                        )}
                         <div className="space-y-3">
                           {gradingResult.detailedResults
                             .filter((r) => r.section === "reading")
@@ -806,25 +984,92 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
                     </div>
 
                     <div>
-                      <Label htmlFor="total_score">Overall Band Score</Label>
-                      <Input
-                        id="total_score"
-                        type="number"
-                        min="0"
-                        max="9"
-                        step="0.5"
-                        value={manualScores.total_score}
-                        onChange={(e) =>
-                          setManualScores((prev) => ({
-                            ...prev,
-                            total_score: e.target.value,
-                          }))
-                        }
-                        placeholder="0.0 - 9.0"
-                      />
+                      <Label>Speaking Band Score</Label>
+                      <div className="h-10 flex items-center font-semibold">
+                        {speakingBandScore > 0
+                          ? speakingBandScore.toFixed(1)
+                          : "Enter all four criteria below"}
+                      </div>
                     </div>
                   </div>
 
+                  {speakingRecordings.length > 0 && (
+                    <div>
+                      <h4 className="font-medium mb-2 flex items-center gap-2">
+                        <Mic className="w-4 h-4" />
+                        Speaking Recordings
+                      </h4>
+                      <div className="space-y-3">
+                        {speakingRecordings.map(({ task, response }) => (
+                          <div key={task.id} className="p-3 border rounded-lg">
+                            <p className="text-xs text-gray-500">
+                              Part {task.part_number}
+                            </p>
+                            <p className="text-sm font-medium mb-2">
+                              {task.prompt}
+                            </p>
+                            {response ? (
+                              <SpeakingRecordingPlayer
+                                response={response}
+                                className="w-full"
+                              />
+                            ) : (
+                              <p className="text-sm text-gray-500 italic">
+                                No recording submitted
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <h4 className="font-medium mb-2">Speaking Criteria</h4>
+                    <div className="grid grid-cols-2 gap-4">
+                      {(
+                        Object.keys(
+                          SPEAKING_CRITERIA_LABELS,
+                        ) as (keyof SpeakingCriteria)[]
+                      ).map((criterion) => (
+                        <div key={criterion}>
+                          <Label htmlFor={`speaking_${criterion}`}>
+                            {SPEAKING_CRITERIA_LABELS[criterion]}
+                          </Label>
+                          <Input
+                            id={`speaking_${criterion}`}
+                            type="number"
+                            min="0"
+                            max="9"
+                            step="0.5"
+                            value={speakingCriteria[criterion]}
+                            onChange={(e) =>
+                              setSpeakingCriteria((prev) => ({
+                                ...prev,
+                                [criterion]: e.target.value,
+                              }))
+                            }
+                            placeholder="0.0 - 9.0"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <Card>
+                    <CardContent className="p-4 text-center">
+                      {renderOverallBand(
+                        overallBand.band,
+                        overallBand.status === "complete",
+                      )}
+                      {overallBand.status === "incomplete" && (
+                        <p className="text-sm text-gray-600 mt-2">
+                          Missing: {overallBand.missingSkills.join(", ")}
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+
                   <div>
                     <Label htmlFor="feedback">
                       Feedback for Student (Optional)
@@ -844,7 +1089,7 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
                         <h4 className="font-medium mb-2">
                           Auto-Generated Scores
                         </h4>
-                        <div className="grid grid-cols-4 gap-4 text-sm">
+                        <div className="grid grid-cols-5 gap-4 text-sm">
                           <div>
                             Reading: {gradingResult.readingBandScore.toFixed(1)}
                           </div>
@@ -855,8 +1100,14 @@ const SubmissionReviewModal: React.FC<SubmissionReviewModalProps> = ({
                           <div>
                             Writing: {gradingResult.writingBandScore.toFixed(1)}
                           </div>
+                          <div>
+                            Speaking:{" "}
+                            {gradingResult.speakingBandScore.toFixed(1)}
+                          </div>
                           <div>
                             Overall: {gradingResult.overallBandScore.toFixed(1)}
+                            {gradingResult.overallBandStatus === "incomplete" &&
+                              " (incomplete)"}
                           </div>
                         </div>
                       </CardContent>
@@ -27,6 +27,26 @@ import {
 } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/lib/supabase";
+import { saveManualGrades } from "@/lib/testProgressUtils";
+import {
+  WRITING_CRITERIA,
+  calculateWritingBand,
+  calculateWritingTaskBand,
+  getBandDescriptors,
+  getWritingCriterionLabel,
+  getWritingTaskNumber,
+  parseWritingGradingData,
+  type DescriptorEvidence,
+  type WritingCriteria,
+  type WritingCriterion,
+  type WritingGradingData,
+} from "@shared/writingRubric";
+import {
+  countAnnotationsByCriterion,
+  suggestBandCeiling,
+  type EssayAnnotation,
+} from "@shared/essayAnnotations";
+import { EssayAnnotator } from "@/components/ui/essay-annotations";
 
 interface WritingSubmission {
   id: string;
@@ -54,13 +74,6 @@ interface WritingTask {
   task_order: number;
 }
 
-interface IELTSGradingCriteria {
-  taskAchievement: number; // 0-9
-  coherenceCohesion: number; // 0-9
-  lexicalResource: number; // 0-9
-  grammarAccuracy: number; // 0-9
-}
-
 interface WritingGradingModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -80,9 +93,15 @@ export const WritingGradingModal: React.FC<WritingGradingModalProps> = ({
 
   // Grading state for each task
   const [taskGrades, setTaskGrades] = useState<
-    Record<string, IELTSGradingCriteria>
+    Record<string, WritingCriteria>
   >({});
   const [taskComments, setTaskComments] = useState<Record<string, string>>({});
+  const [descriptorEvidence, setDescriptorEvidence] = useState<
+    Record<string, DescriptorEvidence>
+  >({});
+  const [annotations, setAnnotations] = useState<
+    Record<string, EssayAnnotation[]>
+  >({});
   const [overallBandScore, setOverallBandScore] = useState<number>(0);
   const [finalComments, setFinalComments] = useState("");
   const [wordCounts, setWordCounts] = useState<Record<string, number>>({});
@@ -111,7 +130,8 @@ export const WritingGradingModal: React.FC<WritingGradingModalProps> = ({
       const { data: tasksData, error } = await supabase
         .from("writing_tasks") // <-- use the correct table
         .select("*")
-        .eq("test_id", submission.test_id);
+        .eq("test_id", submission.test_id)
+        .order("task_order");
 
       if (error) throw error;
       setTasks(tasksData || []);
@@ -135,14 +155,16 @@ export const WritingGradingModal: React.FC<WritingGradingModalProps> = ({
       if (error) throw error;
 
       if (existingSubmission?.writing_grading_data) {
-        try {
-          const gradingData = JSON.parse(
-            existingSubmission.writing_grading_data,
-          );
+        const gradingData = parseWritingGradingData(
+          existingSubmission.writing_grading_data,
+        );
+        if (gradingData) {
           setTaskGrades(gradingData.taskGrades || {});
           setTaskComments(gradingData.taskComments || {});
+          setDescriptorEvidence(gradingData.descriptorEvidence || {});
+          setAnnotations(gradingData.annotations || {});
           setOverallBandScore(gradingData.overallBandScore || 0);
-        } catch (e) {
+        } else {
           console.warn("Failed to parse existing grading data");
         }
       }
@@ -177,7 +199,7 @@ export const WritingGradingModal: React.FC<WritingGradingModalProps> = ({
 
   const updateTaskGrade = (
     taskId: string,
-    criteria: keyof IELTSGradingCriteria,
+    criteria: WritingCriterion,
     value: number,
   ) => {
     setTaskGrades((prev) => ({
@@ -189,36 +211,36 @@ export const WritingGradingModal: React.FC<WritingGradingModalProps> = ({
     }));
   };
 
-  const calculateTaskBandScore = (taskId: string): number => {
-    const grades = taskGrades[taskId];
-    if (!grades) return 0;
-
-    const {
-      taskAchievement,
-      coherenceCohesion,
-      lexicalResource,
-      grammarAccuracy,
-    } = grades;
-    return (
-      (taskAchievement +
-        coherenceCohesion +
-        lexicalResource +
-        grammarAccuracy) /
-      4
-    );
+  const toggleDescriptor = (
+    taskId: string,
+    criterion: WritingCriterion,
+    descriptorId: string,
+  ) => {
+    setDescriptorEvidence((prev) => {
+      const selected = prev[taskId]?.[criterion] || [];
+      return {
+        ...prev,
+        [taskId]: {
+          ...prev[taskId],
+          [criterion]: selected.includes(descriptorId)
+            ? selected.filter((id) => id !== descriptorId)
+            : [...selected, descriptorId],
+        },
+      };
+    });
   };
 
-  const calculateOverallBandScore = (): number => {
-    const taskIds = Object.keys(taskGrades);
-    if (taskIds.length === 0) return 0;
-
-    const taskScores = taskIds.map((taskId) => calculateTaskBandScore(taskId));
-    const average =
-      taskScores.reduce((sum, score) => sum + score, 0) / taskScores.length;
+  const calculateTaskBandScore = (taskId: string): number =>
+    calculateWritingTaskBand(taskGrades[taskId]);
 
-    // Round to nearest 0.5
-    return Math.round(average * 2) / 2;
-  };
+  // Task 2 is weighted double, as in the official Writing band
+  const calculateOverallBandScore = (): number =>
+    calculateWritingBand(
+      tasks.map((task) => ({
+        taskNumber: getWritingTaskNumber(task),
+        band: calculateTaskBandScore(task.id),
+      })),
+    );
 
   const handleSaveGrades = async () => {
     if (!submission) return;
@@ -227,9 +249,14 @@ export const WritingGradingModal: React.FC<WritingGradingModalProps> = ({
     try {
       const calculatedBandScore = calculateOverallBandScore();
 
-      const gradingData = {
+      const gradingData: WritingGradingData = {
         taskGrades,
         taskComments,
+        taskNumbers: Object.fromEntries(
+          tasks.map((task) => [task.id, getWritingTaskNumber(task)]),
+        ),
+        descriptorEvidence,
+        annotations,
         overallBandScore: calculatedBandScore,
         gradedAt: new Date().toISOString(),
         gradedBy: "admin",
@@ -248,8 +275,6 @@ export const WritingGradingModal: React.FC<WritingGradingModalProps> = ({
 
       const updateData: any = {
         writing_score: calculatedBandScore,
-        status: "graded",
-        graded_at: new Date().toISOString(),
         writing_grading_data: JSON.stringify(gradingData),
         final_comments: finalComments,
       };
@@ -262,12 +287,7 @@ export const WritingGradingModal: React.FC<WritingGradingModalProps> = ({
         updateData.total_score = calculatedBandScore;
       }
 
-      const { error } = await supabase
-        .from("test_submissions")
-        .update(updateData)
-        .eq("id", submission.id);
-
-      if (error) throw error;
+      await saveManualGrades(submission.id, updateData);
 
       toast.success("Writing grades saved successfully!");
       onGradingComplete();
@@ -348,9 +368,22 @@ export const WritingGradingModal: React.FC<WritingGradingModalProps> = ({
                       {/* Show student's writing response for this task in detail */}
                       <div>
                         <Label className="text-sm font-semibold">Student Response</Label>
-                        <div className="bg-blue-50 p-4 rounded whitespace-pre-wrap min-h-[40px]">
-                          {submission.answers[task.id] || <span className="text-gray-400 italic">No response provided</span>}
-                        </div>
+                        {response ? (
+                          <EssayAnnotator
+                            text={response}
+                            annotations={annotations[task.id] || []}
+                            onChange={(taskAnnotations) =>
+                              setAnnotations((prev) => ({
+                                ...prev,
+                                [task.id]: taskAnnotations,
+                              }))
+                            }
+                          />
+                        ) : (
+                          <div className="bg-blue-50 p-4 rounded min-h-[40px]">
+                            <span className="text-gray-400 italic">No response provided</span>
+                          </div>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -362,6 +395,11 @@ export const WritingGradingModal: React.FC<WritingGradingModalProps> = ({
               <h3 className="text-lg font-semibold">IELTS Writing Assessment</h3>
               {tasks.map((task) => {
                 const taskBandScore = calculateTaskBandScore(task.id);
+                const taskNumber = getWritingTaskNumber(task);
+                // Marked errors suggest a ceiling for the matching criterion
+                const errorCounts = countAnnotationsByCriterion(
+                  annotations[task.id],
+                );
                 const grades = taskGrades[task.id] || {
                   taskAchievement: 0,
                   coherenceCohesion: 0,
@@ -372,7 +410,14 @@ export const WritingGradingModal: React.FC<WritingGradingModalProps> = ({
                   <Card key={task.id} className="mb-4">
                     <CardHeader>
                       <CardTitle className="flex items-center justify-between">
-                        <span>{task.task_title}</span>
+                        <span>
+                          {task.task_title}
+                          {taskNumber === 2 && (
+                            <Badge variant="outline" className="ml-2">
+                              Counts double
+                            </Badge>
+                          )}
+                        </span>
                         <div className="text-right">
                           <div className={`text-xl font-bold ${getBandScoreColor(taskBandScore)}`}>
                             {taskBandScore.toFixed(1)}
@@ -384,58 +429,110 @@ export const WritingGradingModal: React.FC<WritingGradingModalProps> = ({
                       </CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-4">
-                      {/* Task Achievement/Response */}
-                      <div>
-                        <Label className="text-sm font-semibold">Task Achievement/Response (0-9)</Label>
-                        <Input
-                          type="number"
-                          min={0}
-                          max={9}
-                          step={0.5}
-                          value={grades.taskAchievement ?? 0}
-                          onChange={e => updateTaskGrade(task.id, "taskAchievement", parseFloat(e.target.value))}
-                          className="w-24"
-                        />
-                      </div>
-                      {/* Coherence and Cohesion */}
-                      <div>
-                        <Label className="text-sm font-semibold">Coherence and Cohesion (0-9)</Label>
-                        <Input
-                          type="number"
-                          min={0}
-                          max={9}
-                          step={0.5}
-                          value={grades.coherenceCohesion ?? 0}
-                          onChange={e => updateTaskGrade(task.id, "coherenceCohesion", parseFloat(e.target.value))}
-                          className="w-24"
-                        />
-                      </div>
-                      {/* Lexical Resource */}
-                      <div>
-                        <Label className="text-sm font-semibold">Lexical Resource (0-9)</Label>
-                        <Input
-                          type="number"
-                          min={0}
-                          max={9}
-                          step={0.5}
-                          value={grades.lexicalResource ?? 0}
-                          onChange={e => updateTaskGrade(task.id, "lexicalResource", parseFloat(e.target.value))}
-                          className="w-24"
-                        />
-                      </div>
-                      {/* Grammatical Range and Accuracy */}
-                      <div>
-                        <Label className="text-sm font-semibold">Grammatical Range and Accuracy (0-9)</Label>
-                        <Input
-                          type="number"
-                          min={0}
-                          max={9}
-                          step={0.5}
-                          value={grades.grammarAccuracy ?? 0}
-                          onChange={e => updateTaskGrade(task.id, "grammarAccuracy", parseFloat(e.target.value))}
-                          className="w-24"
-                        />
-                      </div>
+                      {WRITING_CRITERIA.map((criterion) => {
+                        const score = grades[criterion] ?? 0;
+                        const selected =
+                          descriptorEvidence[task.id]?.[criterion] || [];
+                        // Show the statements around the awarded band, plus anything already ticked
+                        const descriptors = getBandDescriptors(
+                          criterion,
+                          taskNumber,
+                        ).filter(
+                          (descriptor) =>
+                            (score > 0 &&
+                              Math.abs(descriptor.band - score) <= 0.5) ||
+                            selected.includes(descriptor.id),
+                        );
+                        const errorCount = errorCounts[criterion] || 0;
+                        const ceiling = suggestBandCeiling(
+                          errorCount,
+                          wordCounts[task.id] || 0,
+                        );
+                        return (
+                          <div key={criterion} className="space-y-2">
+                            <Label className="text-sm font-semibold">
+                              {getWritingCriterionLabel(criterion, taskNumber)}{" "}
+                              (0-9)
+                            </Label>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={9}
+                              step={0.5}
+                              value={score}
+                              onChange={(e) =>
+                                updateTaskGrade(
+                                  task.id,
+                                  criterion,
+                                  parseFloat(e.target.value),
+                                )
+                              }
+                              className="w-24"
+                            />
+                            {ceiling !== null && (
+                              <div className="flex items-center gap-2 text-xs text-gray-600">
+                                <span>
+                                  {errorCount} error{errorCount > 1 ? "s" : ""}{" "}
+                                  marked • suggested max band {ceiling}
+                                </span>
+                                {score > ceiling && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-6 text-xs"
+                                    onClick={() =>
+                                      updateTaskGrade(task.id, criterion, ceiling)
+                                    }
+                                  >
+                                    Apply
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                            {descriptors.length > 0 ? (
+                              <div className="space-y-1">
+                                {descriptors.map((descriptor) => {
+                                  const isSelected = selected.includes(
+                                    descriptor.id,
+                                  );
+                                  return (
+                                    <button
+                                      key={descriptor.id}
+                                      type="button"
+                                      onClick={() =>
+                                        toggleDescriptor(
+                                          task.id,
+                                          criterion,
+                                          descriptor.id,
+                                        )
+                                      }
+                                      className={`w-full text-left text-xs p-2 rounded border flex gap-2 ${
+                                        isSelected
+                                          ? "bg-blue-50 border-blue-400 text-blue-900"
+                                          : "bg-white border-gray-200 text-gray-700 hover:bg-gray-50"
+                                      }`}
+                                    >
+                                      <Badge
+                                        variant={
+                                          isSelected ? "default" : "outline"
+                                        }
+                                        className="shrink-0 h-5"
+                                      >
+                                        {descriptor.band}
+                                      </Badge>
+                                      <span>{descriptor.text}</span>
+                                    </button>
+                                  );
+                                })}
+                              </div>
+                            ) : (
+                              <p className="text-xs text-gray-500 italic">
+                                Enter a band to see the matching descriptors
+                              </p>
+                            )}
+                          </div>
+                        );
+                      })}
                     </CardContent>
                   </Card>
                 );
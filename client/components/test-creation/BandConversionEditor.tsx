@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Save, Scale, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/lib/supabase";
+import {
+  FULL_TEST_QUESTION_COUNT,
+  type BandConversionSettings,
+  type BandRange,
+} from "@shared/grading";
+
+interface BandConversionEditorProps {
+  testId?: string;
+  section: "reading" | "listening";
+}
+
+const EMPTY_RANGE: BandRange = { min: 0, max: 0, band: 0 };
+
+export const BandConversionEditor: React.FC<BandConversionEditorProps> = ({
+  testId,
+  section,
+}) => {
+  const [settings, setSettings] = useState<BandConversionSettings>({
+    mode: "scaled",
+  });
+  const [ranges, setRanges] = useState<BandRange[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!testId) return;
+
+    const loadSettings = async () => {
+      const { data, error } = await supabase
+        .from("tests")
+        .select("band_conversion")
+        .eq("id", testId)
+        .single();
+
+      if (error) {
+        console.warn("⚠️ Could not load band conversion settings:", error.message);
+        return;
+      }
+
+      if (data?.band_conversion) {
+        setSettings(data.band_conversion);
+        setRanges(data.band_conversion[section] || []);
+      }
+    };
+
+    loadSettings();
+  }, [testId, section]);
+
+  const updateRange = (index: number, field: keyof BandRange, value: string) => {
+    setRanges((prev) =>
+      prev.map((range, i) =>
+        i === index ? { ...range, [field]: parseFloat(value) || 0 } : range,
+      ),
+    );
+  };
+
+  const handleSave = async () => {
+    if (!testId) return;
+
+    if (settings.mode === "custom" && ranges.length === 0) {
+      toast.error("Add at least one row to the conversion table");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Keep the other section's table; both live in the same column
+      const bandConversion: BandConversionSettings = {
+        ...settings,
+        [section]: ranges,
+      };
+
+      const { error } = await supabase
+        .from("tests")
+        .update({ band_conversion: bandConversion })
+        .eq("id", testId);
+
+      if (error) throw error;
+
+      setSettings(bandConversion);
+      console.log("✅ Band conversion settings saved:", bandConversion);
+      toast.success("Band conversion settings saved");
+    } catch (error) {
+      console.error("❌ Error saving band conversion settings:", error);
+      toast.error("Failed to save band conversion settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Band Conversion
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Tests with fewer or more than {FULL_TEST_QUESTION_COUNT} questions
+          can't use the official table directly. Students see their band
+          marked as an estimate.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor={`${section}-band-conversion`}>Conversion method</Label>
+          <Select
+            value={settings.mode}
+            onValueChange={(value) =>
+              setSettings({
+                ...settings,
+                mode: value as BandConversionSettings["mode"],
+              })
+            }
+          >
+            <SelectTrigger id={`${section}-band-conversion`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="scaled">
+                Scale raw score to {FULL_TEST_QUESTION_COUNT} questions
+              </SelectItem>
+              <SelectItem value="custom">Custom conversion table</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {settings.mode === "custom" && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-4 gap-2 text-sm font-medium">
+              <span>Min correct</span>
+              <span>Max correct</span>
+              <span>Band</span>
+              <span />
+            </div>
+            {ranges.map((range, index) => (
+              <div key={index} className="grid grid-cols-4 gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  value={range.min}
+                  onChange={(e) => updateRange(index, "min", e.target.value)}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  value={range.max}
+                  onChange={(e) => updateRange(index, "max", e.target.value)}
+                />
+                <Input
+                  type="number"
+                  min="1"
+                  max="9"
+                  step="0.5"
+                  value={range.band}
+                  onChange={(e) => updateRange(index, "band", e.target.value)}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setRanges((prev) => prev.filter((_, i) => i !== index))
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRanges((prev) => [...prev, { ...EMPTY_RANGE }])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Row
+            </Button>
+          </div>
+        )}
+
+        <Button onClick={handleSave} disabled={!testId || isSaving}>
+          <Save className="mr-2 h-4 w-4" />
+          {isSaving ? "Saving..." : "Save Conversion"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BandConversionEditor;
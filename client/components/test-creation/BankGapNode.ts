@@ -0,0 +1,52 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+
+// Blank answered with a letter from the word bank of a completion block
+export const BankGapNode = Node.create({
+  name: 'bank_gap',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  addAttributes() {
+    return {
+      id: { default: null },
+      question_number: { default: null },
+      block_id: { default: null },
+      // Correct letter, kept for the editor and left out of the rendered HTML
+      correct_answer: { default: '', rendered: false },
+    };
+  },
+  parseHTML() {
+    return [
+      {
+        tag: 'span[data-bank-gap]',
+      },
+    ];
+  },
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes(HTMLAttributes, {
+        'data-bank-gap': 'true',
+        style: 'display:inline-block; min-width:6ch; border:1px solid #ccc; border-radius:4px; padding:0 6px; margin:0 2px; text-align:center;'
+      }),
+    ];
+  },
+  addNodeView() {
+    return ({ node }) => {
+      const span = document.createElement('span');
+      span.setAttribute('data-bank-gap', 'true');
+      span.style.display = 'inline-block';
+      span.style.minWidth = '6ch';
+      span.style.border = '1px solid #ccc';
+      span.style.borderRadius = '4px';
+      span.style.padding = '0 6px';
+      span.style.margin = '0 2px';
+      span.style.textAlign = 'center';
+      span.style.background = '#fff8e6';
+      span.textContent = `${node.attrs.question_number} → ${node.attrs.correct_answer || '?'}`;
+      return {
+        dom: span,
+      };
+    };
+  },
+});
@@ -0,0 +1,66 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import {
+  getBankLetter,
+  getCompletionInstructions,
+  parseCompletionBlock,
+} from '@shared/completion';
+
+// Instructions and word bank for the summary, notes, table or flow-chart that follows
+export const CompletionNode = Node.create({
+  name: 'completion',
+  group: 'block',
+  atom: true,
+  addAttributes() {
+    return {
+      id: { default: null },
+      kind: { default: 'summary' },
+      mode: { default: 'word_bank' },
+      words: { default: [] },
+      max_words: { default: null },
+    };
+  },
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-completion]',
+      },
+    ];
+  },
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(HTMLAttributes, { 'data-completion': 'true', style: 'border:1px solid #ccc; padding:8px; margin:8px 0; background:#fff8e6;' }),
+      0,
+    ];
+  },
+  addNodeView() {
+    return ({ node }) => {
+      const block = parseCompletionBlock(node.attrs);
+      const container = document.createElement('div');
+      container.setAttribute('data-completion', 'true');
+      container.style.border = '1px solid #ccc';
+      container.style.padding = '8px';
+      container.style.margin = '8px 0';
+      container.style.background = '#fff8e6';
+
+      getCompletionInstructions(block).forEach((line) => {
+        const lineDiv = document.createElement('div');
+        lineDiv.innerHTML = `<b>${line}</b>`;
+        container.appendChild(lineDiv);
+      });
+
+      if (block.mode === 'word_bank') {
+        const bank = document.createElement('div');
+        bank.style.marginTop = '6px';
+        bank.innerHTML = block.words
+          .map((word, i) => `${getBankLetter(i)}&nbsp;${word}`)
+          .join('&nbsp;&nbsp;&nbsp;');
+        container.appendChild(bank);
+      }
+
+      return {
+        dom: container,
+      };
+    };
+  },
+});
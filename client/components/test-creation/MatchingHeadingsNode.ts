@@ -0,0 +1,66 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { getHeadingNumeral } from '@shared/matchingHeadings';
+
+// One heading bank shared by several paragraph targets
+export const MatchingHeadingsNode = Node.create({
+  name: 'matching_headings',
+  group: 'block',
+  atom: true,
+  addAttributes() {
+    return {
+      id: { default: null },
+      question_number: { default: null },
+      headings: { default: [] },
+      paragraphs: { default: [] },
+      answers: { default: [] }, // Heading numeral per paragraph
+      anchored: { default: false },
+    };
+  },
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-matching-headings]',
+      },
+    ];
+  },
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(HTMLAttributes, { 'data-matching-headings': 'true', style: 'border:1px solid #ccc; padding:8px; margin:8px 0; background:#f3f0ff;' }),
+      0,
+    ];
+  },
+  addNodeView() {
+    return ({ node }) => {
+      const container = document.createElement('div');
+      container.setAttribute('data-matching-headings', 'true');
+      container.style.border = '1px solid #ccc';
+      container.style.padding = '8px';
+      container.style.margin = '8px 0';
+      container.style.background = '#f3f0ff';
+
+      const title = document.createElement('div');
+      title.innerHTML = '<b>List of Headings</b>';
+      container.appendChild(title);
+
+      const headings = node.attrs.headings || [];
+      headings.forEach((heading: string, i: number) => {
+        const headingDiv = document.createElement('div');
+        headingDiv.innerHTML = `${getHeadingNumeral(i)}. ${heading}`;
+        container.appendChild(headingDiv);
+      });
+
+      const paragraphs = node.attrs.paragraphs || [];
+      paragraphs.forEach((paragraph: string, i: number) => {
+        const paragraphDiv = document.createElement('div');
+        paragraphDiv.style.marginTop = i === 0 ? '8px' : '0';
+        paragraphDiv.innerHTML = `<b>${(node.attrs.question_number || 1) + i}. Paragraph ${paragraph}</b> → ${node.attrs.answers?.[i] || '?'}`;
+        container.appendChild(paragraphDiv);
+      });
+
+      return {
+        dom: container,
+      };
+    };
+  },
+});
@@ -0,0 +1,63 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import {
+  formatQuestionRange,
+  getGroupInstructions,
+  parseQuestionGroup,
+  QUESTION_GROUP_NODE,
+} from '@shared/questionGroups';
+
+// "Questions 14–20" header with the instructions for the questions that follow
+export const QuestionGroupNode = Node.create({
+  name: QUESTION_GROUP_NODE,
+  group: 'block',
+  atom: true,
+  addAttributes() {
+    return {
+      id: { default: null },
+      group_type: { default: 'note_completion' },
+      max_words: { default: null },
+      allow_number: { default: false },
+      start_number: { default: null }, // Set by renumbering
+      end_number: { default: null },
+    };
+  },
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-question-group]',
+      },
+    ];
+  },
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(HTMLAttributes, { 'data-question-group': 'true', style: 'border-left:4px solid #2563eb; padding:8px; margin:8px 0; background:#eff6ff;' }),
+      0,
+    ];
+  },
+  addNodeView() {
+    return ({ node }) => {
+      const group = parseQuestionGroup(node.attrs);
+      const container = document.createElement('div');
+      container.setAttribute('data-question-group', 'true');
+      container.style.borderLeft = '4px solid #2563eb';
+      container.style.padding = '8px';
+      container.style.margin = '8px 0';
+      container.style.background = '#eff6ff';
+
+      const title = document.createElement('div');
+      title.innerHTML = `<b>${formatQuestionRange(group.start, group.end) || 'Questions (none yet)'}</b>`;
+      container.appendChild(title);
+
+      getGroupInstructions(group).forEach((line) => {
+        const lineDiv = document.createElement('div');
+        lineDiv.innerHTML = line;
+        container.appendChild(lineDiv);
+      });
+
+      return {
+        dom: container,
+      };
+    };
+  },
+});
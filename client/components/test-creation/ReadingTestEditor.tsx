@@ -2,6 +2,10 @@ import React, { useState, useCallback, useEffect } from "react";
 import { useEditor, EditorContent } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
 import { Placeholder } from "@tiptap/extension-placeholder";
+import { Table } from "@tiptap/extension-table";
+import { TableRow } from "@tiptap/extension-table-row";
+import { TableHeader } from "@tiptap/extension-table-header";
+import { TableCell } from "@tiptap/extension-table-cell";
 import { uploadFile } from "@/lib/uploadUtils";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -24,11 +28,49 @@ import {
   Plus,
   X,
   Trash2,
+  Table as TableIcon,
 } from "lucide-react";
 import { ShortAnswerNode } from './ShortAnswerNode';
 import { MatchingNode } from './MatchingNode';
 import { MCQNode } from './MCQNode';
 import { MSNode } from './MSNode';
+import { TFNGNode } from './TFNGNode';
+import { MatchingHeadingsNode } from './MatchingHeadingsNode';
+import { CompletionNode } from './CompletionNode';
+import { BankGapNode } from './BankGapNode';
+import { QuestionGroupNode } from './QuestionGroupNode';
+import { applyQuestionNumbers, renumberEditorQuestions } from './questionNumbering';
+import {
+  AnswerMatchingRules,
+  DEFAULT_ANSWER_RULES,
+  hasAnswerRules,
+} from '@shared/answerMatching';
+import {
+  JUDGEMENT_OPTIONS,
+  JUDGEMENT_TYPE_LABELS,
+  JUDGEMENT_QUESTION_TYPES,
+  type JudgementQuestionType,
+} from '@shared/trueFalseNotGiven';
+import {
+  getHeadingNumeral,
+  validateMatchingHeadings,
+} from '@shared/matchingHeadings';
+import {
+  COMPLETION_KIND_LABELS,
+  WORD_BANK_QUESTION_TYPE,
+  getBankLetter,
+  parseCompletionBlock,
+  validateCompletionBlock,
+  type CompletionAnswerMode,
+  type CompletionBlock,
+  type CompletionKind,
+} from '@shared/completion';
+import {
+  QUESTION_GROUP_TYPES,
+  parseQuestionGroup,
+  validateQuestionGroup,
+  type QuestionGroupType,
+} from '@shared/questionGroups';
 
 interface Question {
   id: string;
@@ -36,7 +78,10 @@ interface Question {
     | "short_answer"
     | "multiple_choice"
     | "matching"
-    | "multiple_selection";
+    | "multiple_selection"
+    | "matching_headings"
+    | "word_bank_completion"
+    | JudgementQuestionType;
   content: any;
   summary: string;
 }
@@ -80,6 +125,7 @@ export function ReadingTestEditor(
 
   // Question form states
   const [shortAnswers, setShortAnswers] = useState("");
+  const [answerRules, setAnswerRules] = useState<AnswerMatchingRules>(DEFAULT_ANSWER_RULES);
   const [mcqQuestion, setMcqQuestion] = useState("");
   const [mcqOptions, setMcqOptions] = useState(["", "", "", ""]);
   const [correctOption, setCorrectOption] = useState(0);
@@ -87,6 +133,23 @@ export function ReadingTestEditor(
   // Add TFNG state
   const [tfngQuestion, setTfngQuestion] = useState("");
   const [tfngCorrectOption, setTfngCorrectOption] = useState(0);
+  const [tfngType, setTfngType] = useState<JudgementQuestionType>("true_false_not_given");
+  // Matching headings state: one heading per line, paragraphs with their heading numeral
+  const [headingsText, setHeadingsText] = useState("");
+  const [headingParagraphs, setHeadingParagraphs] = useState([{ label: "A", answer: "" }]);
+  const [headingsAnchored, setHeadingsAnchored] = useState(false);
+  // Completion block state
+  const [completionKind, setCompletionKind] = useState<CompletionKind>("summary");
+  const [completionMode, setCompletionMode] = useState<CompletionAnswerMode>("word_bank");
+  const [completionWordsText, setCompletionWordsText] = useState("");
+  const [completionMaxWords, setCompletionMaxWords] = useState("");
+  // Word bank gap state
+  const [gapBlockId, setGapBlockId] = useState("");
+  const [gapAnswer, setGapAnswer] = useState("");
+  // Question group state
+  const [groupType, setGroupType] = useState<QuestionGroupType>("note_completion");
+  const [groupMaxWords, setGroupMaxWords] = useState("");
+  const [groupAllowNumber, setGroupAllowNumber] = useState(false);
   // Add MS state
   const [msQuestion, setMsQuestion] = useState("");
   const [msOptions, setMsOptions] = useState(["", "", "", ""]);
@@ -97,6 +160,12 @@ export function ReadingTestEditor(
   const editor = useEditor({
     extensions: [
       StarterKit,
+      Table.configure({
+        resizable: true,
+      }),
+      TableRow,
+      TableHeader,
+      TableCell,
       Placeholder.configure({
         placeholder: placeholder || "Start typing your question content...",
       }),
@@ -104,6 +173,11 @@ export function ReadingTestEditor(
       MatchingNode,
       MCQNode,
       MSNode,
+      TFNGNode,
+      MatchingHeadingsNode,
+      CompletionNode,
+      BankGapNode,
+      QuestionGroupNode,
     ],
     content: content ?? initialContent ?? "",
     editorProps: {
@@ -177,6 +251,27 @@ export function ReadingTestEditor(
           content: node,
           summary: node.attrs?.summary || "Multiple selection question",
         });
+      } else if (node.type === "matching_headings") {
+        questions.push({
+          id: node.attrs?.id || `headings_${Date.now()}`,
+          type: "matching_headings",
+          content: node,
+          summary: node.attrs?.summary || "Matching headings question",
+        });
+      } else if (node.type === "bank_gap") {
+        questions.push({
+          id: node.attrs?.id || `gap_${Date.now()}`,
+          type: WORD_BANK_QUESTION_TYPE,
+          content: node,
+          summary: node.attrs?.summary || "Word bank gap",
+        });
+      } else if (node.type === "tfng") {
+        questions.push({
+          id: node.attrs?.id || `tfng_${Date.now()}`,
+          type: node.attrs?.question_type || "true_false_not_given",
+          content: node,
+          summary: node.attrs?.summary || "True/False/Not Given question",
+        });
       } else if (node.content) {
         node.content.forEach(traverse);
       }
@@ -210,17 +305,44 @@ export function ReadingTestEditor(
     }
   }, [content]);
 
+  // Completion blocks already in the passage, in document order
+  const getCompletionBlocks = (): CompletionBlock[] => {
+    const blocks: CompletionBlock[] = [];
+    const traverse = (node: any) => {
+      if (node.type === "completion") {
+        blocks.push(parseCompletionBlock(node.attrs));
+      } else if (node.content) {
+        node.content.forEach(traverse);
+      }
+    };
+    if (editor) traverse(editor.getJSON());
+    return blocks;
+  };
+
   const openQuestionModal = (type: string) => {
     // Only allow supported question types
-    if (["short_answer", "multiple_choice", "matching", "tfng", "multiple_selection"].includes(type)) {
+    if (["short_answer", "multiple_choice", "matching", "matching_headings", "tfng", "multiple_selection", "completion", "bank_gap", "question_group"].includes(type)) {
       setCurrentQuestionType(type);
       setShowModal(true);
       resetForms();
+
+      // New blanks belong to the latest completion block
+      const blocks = getCompletionBlocks();
+      if (type === "bank_gap") {
+        const banks = blocks.filter((block) => block.mode === "word_bank");
+        setGapBlockId(banks.length > 0 ? banks[banks.length - 1].id : "");
+      } else if (type === "short_answer") {
+        const freeText = blocks.filter((block) => block.mode === "free_text" && block.maxWords);
+        if (freeText.length > 0) {
+          setAnswerRules({ ...DEFAULT_ANSWER_RULES, maxWords: freeText[freeText.length - 1].maxWords });
+        }
+      }
     }
   };
 
   const resetForms = () => {
     setShortAnswers("");
+    setAnswerRules(DEFAULT_ANSWER_RULES);
     setMcqQuestion("");
     setMcqOptions(["", "", "", ""]);
     setCorrectOption(0);
@@ -228,6 +350,22 @@ export function ReadingTestEditor(
     // Reset TFNG state
     setTfngQuestion("");
     setTfngCorrectOption(0);
+    setTfngType("true_false_not_given");
+    // Reset matching headings state
+    setHeadingsText("");
+    setHeadingParagraphs([{ label: "A", answer: "" }]);
+    setHeadingsAnchored(false);
+    // Reset completion state
+    setCompletionKind("summary");
+    setCompletionMode("word_bank");
+    setCompletionWordsText("");
+    setCompletionMaxWords("");
+    setGapBlockId("");
+    setGapAnswer("");
+    // Reset question group state
+    setGroupType("note_completion");
+    setGroupMaxWords("");
+    setGroupAllowNumber(false);
     // Reset MS state
     setMsQuestion("");
     setMsOptions(["", "", "", ""]);
@@ -237,6 +375,17 @@ export function ReadingTestEditor(
 
 
 
+  // Renumber in document order and hand the new numbers to the parent
+  const commitQuestions = (updatedQuestions: Question[]) => {
+    const numbered = applyQuestionNumbers(
+      updatedQuestions,
+      renumberEditorQuestions(editor, startingQuestionNumber),
+    );
+    setQuestions(numbered);
+    if (onQuestionsChange) onQuestionsChange(numbered);
+    if (onEditorQuestionsChange) onEditorQuestionsChange(numbered);
+  };
+
   // Calculate the next question number based on existing questions
   const getNextQuestionNumber = () => {
     if (questions.length === 0) return startingQuestionNumber;
@@ -251,6 +400,11 @@ export function ReadingTestEditor(
         const pairCount = questionContent.left?.length || 0;
         const startNumber = questionContent.question_number || 0;
         maxNumber = Math.max(maxNumber, startNumber + pairCount - 1);
+      } else if (question.type === "matching_headings") {
+        // For matching headings, count each paragraph as a separate question
+        const paragraphCount = questionContent.paragraphs?.length || 0;
+        const startNumber = questionContent.question_number || 0;
+        maxNumber = Math.max(maxNumber, startNumber + paragraphCount - 1);
       } else if (question.type === "short_answer") {
         // For short answer, count each answer as a separate question
         const answerCount = questionContent.answers?.length || 0;
@@ -290,6 +444,28 @@ export function ReadingTestEditor(
     setMatchingPairs(newPairs);
   };
 
+  const addHeadingParagraph = () => {
+    // Paragraphs are usually lettered in order: A, B, C…
+    const nextLabel = String.fromCharCode(65 + headingParagraphs.length);
+    setHeadingParagraphs([...headingParagraphs, { label: nextLabel, answer: "" }]);
+  };
+
+  const removeHeadingParagraph = (index: number) => {
+    if (headingParagraphs.length > 1) {
+      setHeadingParagraphs(headingParagraphs.filter((_, i) => i !== index));
+    }
+  };
+
+  const updateHeadingParagraph = (
+    index: number,
+    field: "label" | "answer",
+    value: string,
+  ) => {
+    const newParagraphs = [...headingParagraphs];
+    newParagraphs[index] = { ...newParagraphs[index], [field]: value };
+    setHeadingParagraphs(newParagraphs);
+  };
+
   const addMcqOption = () => {
     if (mcqOptions.length < 6) {
       setMcqOptions([...mcqOptions, ""]);
@@ -372,10 +548,13 @@ export function ReadingTestEditor(
         });
         
         let currentQuestionNumber = getNextQuestionNumber();
+        const rules = hasAnswerRules(answerRules) ? answerRules : null;
+        // Node and question ids must match for renumbering
+        const baseId = Date.now();
         
         answers.forEach((answer, index) => {
           const question_number = currentQuestionNumber + index;
-          const id = `q_${Date.now()}_${index}`;
+          const id = `q_${baseId}_${index}`;
           
           console.log("🔍 Inserting Short Answer Node:", {
             questionNumber: question_number,
@@ -403,6 +582,7 @@ export function ReadingTestEditor(
               question_number,
               placeholder: `Answer ${question_number}`,
               answers: [answer], // <--- THIS IS THE FIX!
+              answer_rules: rules,
             },
           }).run();
           
@@ -410,11 +590,12 @@ export function ReadingTestEditor(
         });
         // Add all new questions to the questions array
         const newQuestions = answers.map((answer, index) => ({
-          id: `q_${Date.now()}_${index}`,
+          id: `q_${baseId}_${index}`,
           type: "short_answer" as const,
           content: {
             answer,
             answers: [answer], // <--- THIS IS THE FIX!
+            answer_rules: rules,
             question_number: currentQuestionNumber + index,
           },
           summary: `Short Answer: [${currentQuestionNumber + index}] ${answer}`,
@@ -423,9 +604,7 @@ export function ReadingTestEditor(
         console.log("🔍 Short Answer Questions Array:", newQuestions);
         
         const updatedQuestions = [...questions, ...newQuestions];
-        setQuestions(updatedQuestions);
-        if (onQuestionsChange) onQuestionsChange(updatedQuestions);
-        if (onEditorQuestionsChange) onEditorQuestionsChange(updatedQuestions);
+        commitQuestions(updatedQuestions);
         setQuestionCounter((prev) => prev + answers.length);
         setShowModal(false);
         setCurrentQuestionType(null);
@@ -485,9 +664,7 @@ export function ReadingTestEditor(
         console.log("🔍 MCQ Question Array:", newQuestion);
         
         const updatedQuestions = [...questions, newQuestion];
-        setQuestions(updatedQuestions);
-        if (onQuestionsChange) onQuestionsChange(updatedQuestions);
-        if (onEditorQuestionsChange) onEditorQuestionsChange(updatedQuestions);
+        commitQuestions(updatedQuestions);
         setQuestionCounter((prev) => prev + 1);
         setShowModal(false);
         setCurrentQuestionType(null);
@@ -546,65 +723,227 @@ export function ReadingTestEditor(
         console.log("🔍 Matching Question Array:", newQuestion);
         
         const updatedQuestions = [...questions, newQuestion];
-        setQuestions(updatedQuestions);
-        if (onQuestionsChange) onQuestionsChange(updatedQuestions);
-        if (onEditorQuestionsChange) onEditorQuestionsChange(updatedQuestions);
+        commitQuestions(updatedQuestions);
         setQuestionCounter((prev) => prev + validPairs.length);
         setShowModal(false);
         setCurrentQuestionType(null);
         resetForms();
         return;
       }
+      case "question_group": {
+        const group = parseQuestionGroup({
+          id: `group_${Date.now()}`,
+          group_type: groupType,
+          max_words: groupMaxWords,
+          allow_number: groupAllowNumber,
+        });
+        const validationError = validateQuestionGroup(group);
+        if (validationError) {
+          setOptionError(validationError);
+          return;
+        }
+
+        // The range is filled in by renumbering, along with the word limit of its blanks
+        editor.chain().focus().insertContent({
+          type: 'question_group',
+          attrs: {
+            id: group.id,
+            group_type: group.type,
+            max_words: group.maxWords,
+            allow_number: group.allowNumber,
+          },
+        }).run();
+        commitQuestions(questions);
+        setShowModal(false);
+        setCurrentQuestionType(null);
+        resetForms();
+        return;
+      }
+      case "completion": {
+        const block = parseCompletionBlock({
+          id: `completion_${Date.now()}`,
+          kind: completionKind,
+          mode: completionMode,
+          words: completionMode === "word_bank" ? completionWordsText.split("\n") : [],
+          max_words: completionMode === "free_text" ? completionMaxWords : null,
+        });
+        const validationError = validateCompletionBlock(block);
+        if (validationError) {
+          setOptionError(validationError);
+          return;
+        }
+
+        // The block only holds instructions and the bank; blanks are inserted separately
+        editor.chain().focus().insertContent({
+          type: 'completion',
+          attrs: {
+            id: block.id,
+            kind: block.kind,
+            mode: block.mode,
+            words: block.words,
+            max_words: block.maxWords,
+          },
+        }).run();
+        setShowModal(false);
+        setCurrentQuestionType(null);
+        resetForms();
+        return;
+      }
+      case "bank_gap": {
+        const block = getCompletionBlocks().find((b) => b.id === gapBlockId);
+        if (!block) {
+          setOptionError("Insert a word bank completion block first.");
+          return;
+        }
+        if (!gapAnswer) {
+          setOptionError("Please select the correct letter.");
+          return;
+        }
+        const id = `gap_${Date.now()}`;
+        const nextQuestionNumber = getNextQuestionNumber();
+
+        editor.chain().focus().insertContent({
+          type: 'bank_gap',
+          attrs: {
+            id,
+            question_number: nextQuestionNumber,
+            block_id: block.id,
+            correct_answer: gapAnswer,
+          },
+        }).run();
+
+        const newQuestion = {
+          id,
+          type: WORD_BANK_QUESTION_TYPE,
+          content: {
+            // Shown in results instead of the summary, which gives the answer away
+            question: `Question ${nextQuestionNumber}`,
+            block_id: block.id,
+            words: block.words,
+            correctAnswer: gapAnswer,
+            question_number: nextQuestionNumber,
+          },
+          summary: `Gap ${nextQuestionNumber}: ${gapAnswer} (${block.words[gapAnswer.charCodeAt(0) - 65] || ''})`,
+        } as Question;
+
+        const updatedQuestions = [...questions, newQuestion];
+        commitQuestions(updatedQuestions);
+        setQuestionCounter((prev) => prev + 1);
+        setShowModal(false);
+        setCurrentQuestionType(null);
+        resetForms();
+        return;
+      }
+      case "matching_headings": {
+        const headings = headingsText
+          .split("\n")
+          .map((h) => h.trim())
+          .filter((h) => h);
+        const paragraphs = headingParagraphs.map((p) => p.label.trim());
+        const headingAnswers = headingParagraphs.map((p) => p.answer);
+        const validationError = validateMatchingHeadings({
+          headings,
+          paragraphs,
+          answers: headingAnswers,
+          anchored: headingsAnchored,
+        });
+        if (validationError) {
+          setOptionError(validationError);
+          return;
+        }
+        const id = `headings_${Date.now()}`;
+        const nextQuestionNumber = getNextQuestionNumber();
+
+        console.log("🔍 Matching Headings Debug:", {
+          headings,
+          paragraphs,
+          answers: headingAnswers,
+          anchored: headingsAnchored,
+          questionNumber: nextQuestionNumber
+        });
+
+        editor.chain().focus().insertContent({
+          type: 'matching_headings',
+          attrs: {
+            id,
+            question_number: nextQuestionNumber,
+            headings,
+            paragraphs,
+            answers: headingAnswers,
+            anchored: headingsAnchored,
+          },
+        }).run();
+
+        const newQuestion = {
+          id,
+          type: "matching_headings" as const,
+          content: {
+            headings,
+            paragraphs,
+            answers: headingAnswers,
+            anchored: headingsAnchored,
+            question_number: nextQuestionNumber,
+          },
+          summary: `Headings ${nextQuestionNumber}-${nextQuestionNumber + paragraphs.length - 1}: ${headings.length} headings, paragraphs ${paragraphs.join(', ')}`,
+        } as Question;
+
+        console.log("🔍 Matching Headings Question Array:", newQuestion);
+
+        const updatedQuestions = [...questions, newQuestion];
+        commitQuestions(updatedQuestions);
+        setQuestionCounter((prev) => prev + paragraphs.length);
+        setShowModal(false);
+        setCurrentQuestionType(null);
+        resetForms();
+        return;
+      }
       case "tfng": {
         if (!tfngQuestion.trim()) return;
-        const id = `mcq_${Date.now()}`; // Use mcq prefix since it's treated as MCQ
+        const id = `tfng_${Date.now()}`;
         const nextQuestionNumber = getNextQuestionNumber();
-        const tfngOptions = ["TRUE", "FALSE", "NOT GIVEN"];
+        const tfngOptions = JUDGEMENT_OPTIONS[tfngType];
         
-        if (tfngCorrectOption < 0 || tfngCorrectOption > 2) {
+        if (tfngCorrectOption < 0 || tfngCorrectOption >= tfngOptions.length) {
           setOptionError("Please select a correct answer");
           return;
         }
+        const correctAnswer = tfngOptions[tfngCorrectOption];
         
         console.log("🔍 TFNG Debug:", {
           question: tfngQuestion,
-          options: tfngOptions,
-          correctOption: tfngCorrectOption,
-          correctAnswer: tfngOptions[tfngCorrectOption],
+          questionType: tfngType,
+          correctAnswer,
           questionNumber: nextQuestionNumber
         });
         
-        // Insert custom node as MCQ
         editor.chain().focus().insertContent({
-          type: 'mcq',
+          type: 'tfng',
           attrs: {
             id,
             question_number: nextQuestionNumber,
             question_text: tfngQuestion,
-            options: tfngOptions,
-            correct_index: tfngCorrectOption,
+            question_type: tfngType,
+            correct_answer: correctAnswer,
           },
         }).run();
         
-        // Add to questions array as MCQ type
+        // Add to questions array
         const newQuestion = {
           id,
-          type: "multiple_choice" as const, // Treat as MCQ
+          type: tfngType,
           content: {
             question: tfngQuestion,
             options: tfngOptions,
-            correctAnswer: tfngCorrectOption,
+            correctAnswer,
             question_number: nextQuestionNumber,
           },
-          summary: `TFNG ${nextQuestionNumber}: ${tfngQuestion.slice(0, 30)}${tfngQuestion.length > 30 ? "..." : ""}`,
+          summary: `${tfngType === "yes_no_not_given" ? "YNNG" : "TFNG"} ${nextQuestionNumber}: ${tfngQuestion.slice(0, 30)}${tfngQuestion.length > 30 ? "..." : ""}`,
         } as Question;
         
         console.log("🔍 TFNG Question Array:", newQuestion);
         
         const updatedQuestions = [...questions, newQuestion];
-        setQuestions(updatedQuestions);
-        if (onQuestionsChange) onQuestionsChange(updatedQuestions);
-        if (onEditorQuestionsChange) onEditorQuestionsChange(updatedQuestions);
+        commitQuestions(updatedQuestions);
         setQuestionCounter((prev) => prev + 1);
         setShowModal(false);
         setCurrentQuestionType(null);
@@ -659,9 +998,7 @@ export function ReadingTestEditor(
         console.log("🔍 MS Question Array:", newQuestion);
 
         const updatedQuestions = [...questions, newQuestion];
-        setQuestions(updatedQuestions);
-        if (onQuestionsChange) onQuestionsChange(updatedQuestions);
-        if (onEditorQuestionsChange) onEditorQuestionsChange(updatedQuestions);
+        commitQuestions(updatedQuestions);
         setQuestionCounter((prev) => prev + 1);
         setShowModal(false);
         setCurrentQuestionType(null);
@@ -702,9 +1039,7 @@ export function ReadingTestEditor(
 
     // Remove from questions array
     const updatedQuestions = questions.filter((q) => q.id !== questionId);
-    setQuestions(updatedQuestions);
-    if (onQuestionsChange) onQuestionsChange(updatedQuestions);
-    if (onEditorQuestionsChange) onEditorQuestionsChange(updatedQuestions);
+    commitQuestions(updatedQuestions);
 
     // Update parent content state after deletion
     if (onContentChange) {
@@ -719,6 +1054,11 @@ export function ReadingTestEditor(
         const pairCount = q.content.left?.length || 0;
         const startNumber = q.content.question_number || 0;
         totalQuestions = Math.max(totalQuestions, startNumber + pairCount - 1);
+      } else if (q.type === "matching_headings") {
+        // For matching headings, count each paragraph as a separate question
+        const paragraphCount = q.content.paragraphs?.length || 0;
+        const startNumber = q.content.question_number || 0;
+        totalQuestions = Math.max(totalQuestions, startNumber + paragraphCount - 1);
       } else if (q.type === "short_answer") {
         // For short answer, count each answer as a separate question
         const answerCount = q.content.answers?.length || 0;
@@ -756,6 +1096,7 @@ export function ReadingTestEditor(
   const handleInsertTFNG = () => {
     setTfngQuestion("");
     setTfngCorrectOption(0);
+    setTfngType("true_false_not_given");
     openQuestionModal("tfng");
   };
   // Add MS Insertion Handler
@@ -807,6 +1148,53 @@ export function ReadingTestEditor(
                     <MousePointer className="h-4 w-4" />
                     Matching
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openQuestionModal("matching_headings")}
+                    className="flex items-center gap-2"
+                  >
+                    <MousePointer className="h-4 w-4" />
+                    Matching Headings
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      editor?.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run()
+                    }
+                    className="flex items-center gap-2"
+                  >
+                    <TableIcon className="h-4 w-4" />
+                    Table
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openQuestionModal("question_group")}
+                    className="flex items-center gap-2"
+                  >
+                    <List className="h-4 w-4" />
+                    Question Group
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openQuestionModal("completion")}
+                    className="flex items-center gap-2"
+                  >
+                    <Type className="h-4 w-4" />
+                    Completion
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openQuestionModal("bank_gap")}
+                    className="flex items-center gap-2"
+                  >
+                    <Type className="h-4 w-4" />
+                    Word Bank Gap
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -814,7 +1202,7 @@ export function ReadingTestEditor(
                     className="flex items-center gap-2"
                   >
                     <List className="h-4 w-4" />
-                    TFNG
+                    TFNG / YNNG
                   </Button>
                   <Button
                     variant="outline"
@@ -896,6 +1284,11 @@ export function ReadingTestEditor(
                           displayNumber = questionsInThisItem === 1 
                             ? `Q${questionNumber}` 
                             : `Q${questionNumber}-${questionNumber + questionsInThisItem - 1}`;
+                        } else if (question.type === "matching_headings") {
+                          questionsInThisItem = questionContent.paragraphs?.length || 1;
+                          displayNumber = questionsInThisItem === 1
+                            ? `Q${questionNumber}`
+                            : `Q${questionNumber}-${questionNumber + questionsInThisItem - 1}`;
                         } else if (question.type === "short_answer") {
                           questionsInThisItem = 1; // Each short answer is now individual
                           displayNumber = `Q${questionNumber}`;
@@ -924,11 +1317,15 @@ export function ReadingTestEditor(
                                   questionContent.prompt ||
                                   (question.type === "matching"
                                     ? `${questionContent.left?.length || 0} pairs: ${questionContent.left?.map((left: string, idx: number) => `${left} - ${questionContent.right?.[idx] || ''}`).join(', ')}`
+                                    : question.type === "matching_headings"
+                                      ? `${questionContent.paragraphs?.map((paragraph: string, idx: number) => `${paragraph} - ${questionContent.answers?.[idx] || ''}`).join(', ')}`
                                     : question.type === "multiple_choice"
                                       ? questionContent.question_text ||
                                         "Multiple choice question"
                                       : question.type === 'short_answer'
                                         ? `Answer: ${questionContent.answer || 'No answer'}`
+                                      : question.type === WORD_BANK_QUESTION_TYPE
+                                        ? `Letter: ${questionContent.correctAnswer || 'No answer'}`
                                         : question.type === "multiple_selection"
                                           ? `${questionContent.options?.length || 0} options: ${questionContent.options?.map((opt: string, idx: number) => `${opt}`).join(', ')}`
                                           : "Question")}
@@ -979,7 +1376,17 @@ export function ReadingTestEditor(
                   ? "Multiple Choice"
                   : currentQuestionType === "matching"
                     ? "Matching"
-                                      : ""}{" "}
+                    : currentQuestionType === "matching_headings"
+                      ? "Matching Headings"
+                    : currentQuestionType === "completion"
+                      ? "Completion Block"
+                    : currentQuestionType === "question_group"
+                      ? "Question Group"
+                    : currentQuestionType === "bank_gap"
+                      ? "Word Bank Gap"
+                    : currentQuestionType === "tfng"
+                      ? JUDGEMENT_TYPE_LABELS[tfngType]
+                      : ""}{" "}
               Question
             </DialogTitle>
           </DialogHeader>
@@ -1001,6 +1408,48 @@ export function ReadingTestEditor(
                     see numbered input fields (1, 2, 3, etc.)
                   </p>
                 </div>
+
+                <div>
+                  <Label>Answer matching rules</Label>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Separate acceptable variants with commas on the same line
+                    (e.g. "car park, parking lot").
+                  </p>
+                  {([
+                    ["spellingVariants", "Accept British/American spelling (colour / color)"],
+                    ["optionalArticles", "Articles are optional (the museum / museum)"],
+                    ["numberWords", "Numbers and words are equal (3 / three)"],
+                    ["ignoreHyphens", "Ignore hyphens (well-known / well known)"],
+                  ] as [keyof AnswerMatchingRules, string][]).map(([rule, label]) => (
+                    <div key={rule} className="flex items-center space-x-2 mt-2">
+                      <input
+                        type="checkbox"
+                        checked={!!answerRules[rule]}
+                        onChange={(e) =>
+                          setAnswerRules({ ...answerRules, [rule]: e.target.checked })
+                        }
+                        className="mt-0.5"
+                      />
+                      <span className="text-sm">{label}</span>
+                    </div>
+                  ))}
+                  <div className="flex items-center space-x-2 mt-3">
+                    <span className="text-sm">Word limit (NO MORE THAN … WORDS)</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="None"
+                      value={answerRules.maxWords ?? ""}
+                      onChange={(e) =>
+                        setAnswerRules({
+                          ...answerRules,
+                          maxWords: e.target.value ? parseInt(e.target.value) : null,
+                        })
+                      }
+                      className="w-24"
+                    />
+                  </div>
+                </div>
               </div>
             )}
 
@@ -1111,22 +1560,303 @@ export function ReadingTestEditor(
               </div>
             )}
 
+            {/* Question Group */}
+            {currentQuestionType === "question_group" && (
+              <div className="space-y-4">
+                <div>
+                  <Label>Question type</Label>
+                  <select
+                    value={groupType}
+                    onChange={(e) => setGroupType(e.target.value as QuestionGroupType)}
+                    className="w-full border border-gray-300 rounded px-2 py-2 text-sm"
+                  >
+                    {(Object.keys(QUESTION_GROUP_TYPES) as QuestionGroupType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {QUESTION_GROUP_TYPES[type].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {QUESTION_GROUP_TYPES[groupType].freeText && (
+                  <div className="space-y-2">
+                    <Label>Word limit (NO MORE THAN … WORDS)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={groupMaxWords}
+                      onChange={(e) => setGroupMaxWords(e.target.value)}
+                      className="w-32"
+                    />
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={groupAllowNumber}
+                        onChange={(e) => setGroupAllowNumber(e.target.checked)}
+                      />
+                      <span className="text-sm">AND/OR A NUMBER</span>
+                    </label>
+                  </div>
+                )}
+                <p className="text-sm text-gray-500">
+                  The group covers every question below it up to the next group.
+                  Its range is numbered automatically, and its word limit applies
+                  to the short answers in it when they are graded.
+                </p>
+                {optionError && (
+                  <div className="text-red-500 text-sm mt-2">{optionError}</div>
+                )}
+              </div>
+            )}
+
+            {/* Completion Block */}
+            {currentQuestionType === "completion" && (
+              <div className="space-y-4">
+                <div>
+                  <Label>Completion type</Label>
+                  <select
+                    value={completionKind}
+                    onChange={(e) => setCompletionKind(e.target.value as CompletionKind)}
+                    className="w-full border border-gray-300 rounded px-2 py-2 text-sm"
+                  >
+                    {(Object.keys(COMPLETION_KIND_LABELS) as CompletionKind[]).map((kind) => (
+                      <option key={kind} value={kind}>
+                        {COMPLETION_KIND_LABELS[kind]} completion
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <Label>Answers</Label>
+                  <div className="flex gap-2 mt-2">
+                    <Button
+                      size="sm"
+                      variant={completionMode === "word_bank" ? "default" : "outline"}
+                      onClick={() => setCompletionMode("word_bank")}
+                    >
+                      Word bank (letters)
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={completionMode === "free_text" ? "default" : "outline"}
+                      onClick={() => setCompletionMode("free_text")}
+                    >
+                      Free text
+                    </Button>
+                  </div>
+                </div>
+
+                {completionMode === "word_bank" ? (
+                  <div>
+                    <Label>Word bank (one per line)</Label>
+                    <Textarea
+                      placeholder={"river\nbridge\nmarket"}
+                      value={completionWordsText}
+                      onChange={(e) => setCompletionWordsText(e.target.value)}
+                      rows={6}
+                    />
+                    <p className="text-sm text-gray-500 mt-1">
+                      Words are lettered A, B, C… Add blanks with Word Bank Gap
+                      anywhere below the block, including inside tables.
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <Label>Word limit (NO MORE THAN … WORDS)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={completionMaxWords}
+                      onChange={(e) => setCompletionMaxWords(e.target.value)}
+                      className="w-32"
+                    />
+                    <p className="text-sm text-gray-500 mt-1">
+                      Add blanks with Short Answer; new blanks take this word limit.
+                    </p>
+                  </div>
+                )}
+                {optionError && (
+                  <div className="text-red-500 text-sm mt-2">{optionError}</div>
+                )}
+              </div>
+            )}
+
+            {/* Word Bank Gap */}
+            {currentQuestionType === "bank_gap" && (() => {
+              const banks = getCompletionBlocks().filter((block) => block.mode === "word_bank");
+              const selectedBank = banks.find((block) => block.id === gapBlockId);
+              return (
+                <div className="space-y-4">
+                  {banks.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      Insert a completion block with a word bank first.
+                    </p>
+                  ) : (
+                    <>
+                      <div>
+                        <Label>Word bank</Label>
+                        <select
+                          value={gapBlockId}
+                          onChange={(e) => {
+                            setGapBlockId(e.target.value);
+                            setGapAnswer("");
+                          }}
+                          className="w-full border border-gray-300 rounded px-2 py-2 text-sm"
+                        >
+                          {banks.map((block, index) => (
+                            <option key={block.id} value={block.id}>
+                              {COMPLETION_KIND_LABELS[block.kind]} {index + 1}: {block.words.slice(0, 3).join(", ")}…
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <Label>Correct answer</Label>
+                        <select
+                          value={gapAnswer}
+                          onChange={(e) => setGapAnswer(e.target.value)}
+                          className="w-full border border-gray-300 rounded px-2 py-2 text-sm"
+                        >
+                          <option value="">Select letter</option>
+                          {selectedBank?.words.map((word, index) => (
+                            <option key={index} value={getBankLetter(index)}>
+                              {getBankLetter(index)}. {word}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </>
+                  )}
+                  {optionError && (
+                    <div className="text-red-500 text-sm mt-2">{optionError}</div>
+                  )}
+                </div>
+              );
+            })()}
+
+            {/* Matching Headings */}
+            {currentQuestionType === "matching_headings" && (
+              <div className="space-y-4">
+                <div>
+                  <Label>Headings (one per line)</Label>
+                  <Textarea
+                    placeholder={"The origins of the festival\nA change in public opinion\nFunding problems"}
+                    value={headingsText}
+                    onChange={(e) => setHeadingsText(e.target.value)}
+                    rows={6}
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Headings are numbered i, ii, iii… Add more headings than
+                    paragraphs so some go unused.
+                  </p>
+                </div>
+
+                <div>
+                  <Label>Paragraphs</Label>
+                  {headingParagraphs.map((paragraph, index) => {
+                    const headingOptions = headingsText
+                      .split("\n")
+                      .map((h) => h.trim())
+                      .filter((h) => h);
+                    return (
+                      <div key={index} className="flex items-center gap-2 mt-2">
+                        <Input
+                          placeholder="A"
+                          value={paragraph.label}
+                          onChange={(e) =>
+                            updateHeadingParagraph(index, "label", e.target.value)
+                          }
+                          className="w-20"
+                        />
+                        <select
+                          value={paragraph.answer}
+                          onChange={(e) =>
+                            updateHeadingParagraph(index, "answer", e.target.value)
+                          }
+                          className="flex-1 border border-gray-300 rounded px-2 py-2 text-sm"
+                        >
+                          <option value="">Correct heading</option>
+                          {headingOptions.map((heading, headingIndex) => (
+                            <option
+                              key={headingIndex}
+                              value={getHeadingNumeral(headingIndex)}
+                            >
+                              {getHeadingNumeral(headingIndex)}. {heading}
+                            </option>
+                          ))}
+                        </select>
+                        {headingParagraphs.length > 1 && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => removeHeadingParagraph(index)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                  <Button size="sm" onClick={addHeadingParagraph} className="mt-2">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Paragraph
+                  </Button>
+                </div>
+
+                <div className="flex items-start space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={headingsAnchored}
+                    onChange={(e) => setHeadingsAnchored(e.target.checked)}
+                    className="mt-1"
+                  />
+                  <span className="text-sm">
+                    Show chosen headings in the passage. Start each paragraph
+                    of the passage text with its marker, e.g. [para:A].
+                  </span>
+                </div>
+                {optionError && (
+                  <div className="text-red-500 text-sm mt-2">{optionError}</div>
+                )}
+              </div>
+            )}
+
             {/* Map/Diagram modal removed */}
 
             {/* TFNG */}
             {currentQuestionType === "tfng" && (
               <div className="space-y-4">
                 <div>
-                  <Label>Question Text</Label>
+                  <Label>Question Type</Label>
+                  <div className="flex gap-2 mt-2">
+                    {JUDGEMENT_QUESTION_TYPES.map((type) => (
+                      <Button
+                        key={type}
+                        size="sm"
+                        variant={tfngType === type ? "default" : "outline"}
+                        onClick={() => setTfngType(type)}
+                      >
+                        {JUDGEMENT_TYPE_LABELS[type]}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Use Yes/No/Not Given when students judge the writer's views
+                    rather than factual information.
+                  </p>
+                </div>
+                <div>
+                  <Label>Statement</Label>
                   <Input
-                    placeholder="Enter the statement for TFNG"
+                    placeholder="Enter the statement students will judge"
                     value={tfngQuestion}
                     onChange={(e) => setTfngQuestion(e.target.value)}
                   />
                 </div>
                 <div>
-                  <Label>Options</Label>
-                  {["TRUE", "FALSE", "NOT GIVEN"].map((option, index) => (
+                  <Label>Correct Answer</Label>
+                  {JUDGEMENT_OPTIONS[tfngType].map((option, index) => (
                     <div key={option} className="flex items-center space-x-2 mt-2">
                       <input
                         type="radio"
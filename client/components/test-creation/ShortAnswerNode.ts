@@ -10,6 +10,8 @@ export const ShortAnswerNode = Node.create({
       id: { default: null },
       question_number: { default: null },
       placeholder: { default: '' },
+      // Matching rules travel with the node but are never rendered for students
+      answer_rules: { default: null, rendered: false },
     };
   },
   parseHTML() {
@@ -0,0 +1,57 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { JUDGEMENT_OPTIONS } from '@shared/trueFalseNotGiven';
+
+// TRUE/FALSE/NOT GIVEN or YES/NO/NOT GIVEN statement, chosen by question_type
+export const TFNGNode = Node.create({
+  name: 'tfng',
+  group: 'block',
+  atom: true,
+  addAttributes() {
+    return {
+      id: { default: null },
+      question_number: { default: null },
+      question_text: { default: '' },
+      question_type: { default: 'true_false_not_given' },
+      correct_answer: { default: 'TRUE' },
+    };
+  },
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-tfng]',
+      },
+    ];
+  },
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(HTMLAttributes, { 'data-tfng': 'true', style: 'border:1px solid #ccc; padding:8px; margin:8px 0; background:#eef6ff;' }),
+      0,
+    ];
+  },
+  addNodeView() {
+    return ({ node }) => {
+      const container = document.createElement('div');
+      container.setAttribute('data-tfng', 'true');
+      container.style.border = '1px solid #ccc';
+      container.style.padding = '8px';
+      container.style.margin = '8px 0';
+      container.style.background = '#eef6ff';
+
+      const qText = document.createElement('div');
+      qText.innerHTML = `<b>${node.attrs.question_number}. ${node.attrs.question_text}</b>`;
+      container.appendChild(qText);
+
+      const options = JUDGEMENT_OPTIONS[node.attrs.question_type] || JUDGEMENT_OPTIONS.true_false_not_given;
+      const optDiv = document.createElement('div');
+      optDiv.innerHTML = options
+        .map((opt: string) => (opt === node.attrs.correct_answer ? `<u>${opt}</u>` : opt))
+        .join(' / ');
+      container.appendChild(optDiv);
+
+      return {
+        dom: container,
+      };
+    };
+  },
+});
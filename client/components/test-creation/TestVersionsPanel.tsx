@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GitCompare, History, Loader2, RefreshCw } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import RegradeDialog from "@/components/admin/RegradeDialog";
+import {
+  buildTestSnapshot,
+  diffTestSnapshots,
+  isSnapshotDiffEmpty,
+  parseTestSnapshot,
+  type TestSnapshot,
+  type TestVersion,
+} from "@shared/testVersions";
+
+interface TestVersionsPanelProps {
+  testId?: string;
+  // Bump to reload after publishing a new version
+  reloadKey?: number;
+}
+
+const DRAFT = "draft";
+
+const formatValue = (value: any) => {
+  if (value === undefined || value === null || value === "") return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+export const TestVersionsPanel: React.FC<TestVersionsPanelProps> = ({
+  testId,
+  reloadKey = 0,
+}) => {
+  const [versions, setVersions] = useState<TestVersion[]>([]);
+  const [draft, setDraft] = useState<TestSnapshot | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>(DRAFT);
+  const [regradeVersionId, setRegradeVersionId] = useState<string>("");
+  const [regradeOpen, setRegradeOpen] = useState(false);
+
+  useEffect(() => {
+    if (!testId) return;
+
+    const loadVersions = async () => {
+      setLoading(true);
+      try {
+        const [{ data, error }, liveSnapshot] = await Promise.all([
+          supabase
+            .from("test_versions")
+            .select("*")
+            .eq("test_id", testId)
+            .order("version_number", { ascending: false }),
+          buildTestSnapshot(supabase, testId),
+        ]);
+
+        if (error) {
+          console.warn("⚠️ Could not load test versions:", error.message);
+          setVersions([]);
+        } else {
+          const loaded = (data || []).map((version) => ({
+            ...version,
+            snapshot: parseTestSnapshot(version.snapshot),
+          })) as TestVersion[];
+          setVersions(loaded);
+          setFromId(loaded[0]?.id || "");
+          setRegradeVersionId(loaded[0]?.id || "");
+        }
+        setDraft(liveSnapshot);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadVersions();
+  }, [testId, reloadKey]);
+
+  const getSnapshot = (id: string) =>
+    id === DRAFT ? draft : versions.find((v) => v.id === id)?.snapshot || null;
+
+  const latest = versions[0];
+  const hasDraftChanges = useMemo(() => {
+    if (!latest?.snapshot || !draft) return false;
+    return !isSnapshotDiffEmpty(diffTestSnapshots(latest.snapshot, draft));
+  }, [latest, draft]);
+
+  const diff = useMemo(() => {
+    const from = getSnapshot(fromId);
+    const to = getSnapshot(toId);
+    if (!from || !to || fromId === toId) return null;
+    return diffTestSnapshots(from, to);
+  }, [fromId, toId, versions, draft]);
+
+  const getVersionLabel = (id: string) =>
+    id === DRAFT
+      ? "Current draft"
+      : `Version ${versions.find((v) => v.id === id)?.version_number ?? "?"}`;
+
+  if (!testId) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <History className="h-5 w-5" />
+          <span>Versions</span>
+          {latest ? (
+            <Badge variant="secondary">Version {latest.version_number} live</Badge>
+          ) : (
+            <Badge variant="outline">Not published yet</Badge>
+          )}
+          {hasDraftChanges && (
+            <Badge className="bg-yellow-100 text-yellow-800">
+              Unpublished changes (draft of version {latest.version_number + 1})
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading versions...
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Publishing the test freezes its questions and answer keys as version
+            1. Submissions are always graded against the version they were
+            taken on.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {versions.map((version) => (
+                <div
+                  key={version.id}
+                  className="flex items-center justify-between p-3 border rounded-lg text-sm"
+                >
+                  <span className="font-medium">
+                    Version {version.version_number}
+                  </span>
+                  <span className="text-muted-foreground">
+                    Published {new Date(version.published_at).toLocaleString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {/* Diff */}
+            <div className="space-y-3">
+              <div className="flex items-end gap-3">
+                <div className="flex-1">
+                  <Label>Compare</Label>
+                  <Select value={fromId} onValueChange={setFromId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={version.id}>
+                          Version {version.version_number}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <GitCompare className="h-5 w-5 mb-2 text-muted-foreground" />
+                <div className="flex-1">
+                  <Label>With</Label>
+                  <Select value={toId} onValueChange={setToId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DRAFT}>Current draft</SelectItem>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={version.id}>
+                          Version {version.version_number}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {diff && isSnapshotDiffEmpty(diff) && (
+                <p className="text-sm text-muted-foreground">No differences.</p>
+              )}
+
+              {diff && !isSnapshotDiffEmpty(diff) && (
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                  {diff.settings.map((change) => (
+                    <div
+                      key={`setting-${change.field}`}
+                      className="p-3 border rounded-lg text-sm"
+                    >
+                      <span className="font-medium">Setting {change.field}</span>
+                      <div className="text-red-700 line-through">
+                        {formatValue(change.before)}
+                      </div>
+                      <div className="text-green-700">
+                        {formatValue(change.after)}
+                      </div>
+                    </div>
+                  ))}
+                  {diff.questions.map((change) => (
+                    <div
+                      key={`${change.section}-${change.questionId}`}
+                      className="p-3 border rounded-lg text-sm"
+                    >
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-medium capitalize">
+                          {change.section} Q{change.questionNumber ?? "?"}
+                        </span>
+                        <Badge
+                          variant="outline"
+                          className={
+                            change.kind === "added"
+                              ? "border-green-300 text-green-700"
+                              : change.kind === "removed"
+                                ? "border-red-300 text-red-700"
+                                : "border-yellow-300 text-yellow-700"
+                          }
+                        >
+                          {change.kind}
+                        </Badge>
+                      </div>
+                      {change.changes.map((field) => (
+                        <div key={field.field} className="ml-2">
+                          <span className="text-muted-foreground">
+                            {field.field}:
+                          </span>{" "}
+                          <span className="text-red-700 line-through">
+                            {formatValue(field.before)}
+                          </span>{" "}
+                          →{" "}
+                          <span className="text-green-700">
+                            {formatValue(field.after)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Regrade */}
+            <div className="flex items-end gap-3 pt-4 border-t">
+              <div className="flex-1">
+                <Label>Regrade all submissions against</Label>
+                <Select
+                  value={regradeVersionId}
+                  onValueChange={setRegradeVersionId}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DRAFT}>Current questions</SelectItem>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id}>
+                        Version {version.version_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setRegradeOpen(true)}
+                disabled={!regradeVersionId}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Regrade
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <RegradeDialog
+        open={regradeOpen}
+        onOpenChange={setRegradeOpen}
+        testId={testId}
+        request={
+          regradeOpen
+            ? {
+                scope: "test",
+                versionId:
+                  regradeVersionId === DRAFT ? undefined : regradeVersionId,
+              }
+            : null
+        }
+        subject={`all submissions against ${
+          regradeVersionId === DRAFT
+            ? "the current questions"
+            : getVersionLabel(regradeVersionId)
+        }`}
+      />
+    </Card>
+  );
+};
+
+export default TestVersionsPanel;
@@ -37,6 +37,26 @@ import { ShortAnswerNode } from './ShortAnswerNode';
 import { MatchingNode } from './MatchingNode';
 import { MapLabelNode } from './MapLabelNode';
 import { MCQNode } from './MCQNode';
+import { CompletionNode } from './CompletionNode';
+import { BankGapNode } from './BankGapNode';
+import { QuestionGroupNode } from './QuestionGroupNode';
+import { applyQuestionNumbers, renumberEditorQuestions } from './questionNumbering';
+import {
+  COMPLETION_KIND_LABELS,
+  WORD_BANK_QUESTION_TYPE,
+  getBankLetter,
+  parseCompletionBlock,
+  validateCompletionBlock,
+  type CompletionAnswerMode,
+  type CompletionBlock,
+  type CompletionKind,
+} from '@shared/completion';
+import {
+  QUESTION_GROUP_TYPES,
+  parseQuestionGroup,
+  validateQuestionGroup,
+  type QuestionGroupType,
+} from '@shared/questionGroups';
 
 interface Question {
   id: string;
@@ -45,6 +65,7 @@ interface Question {
     | "multiple_choice"
     | "matching"
     | "map_diagram"
+    | "word_bank_completion"
     | "table";
   content: any;
   summary: string;
@@ -90,6 +111,7 @@ export function UnifiedTestEditor(
 
   // Question form states
   const [shortAnswers, setShortAnswers] = useState("");
+  const [shortAnswerMaxWords, setShortAnswerMaxWords] = useState("");
   const [mcqQuestion, setMcqQuestion] = useState("");
   const [mcqOptions, setMcqOptions] = useState(["", "", "", ""]);
   const [correctOption, setCorrectOption] = useState(0);
@@ -97,6 +119,18 @@ export function UnifiedTestEditor(
   const [mapImageFiles, setMapImageFiles] = useState<MediaFile[]>([]);
   const [mapAnswers, setMapAnswers] = useState<string[]>([""]);
   const [mapBoxes, setMapBoxes] = useState<{ id: number; x: number; y: number; label: string; answer: string }[]>([]);
+  // Completion block and word bank gap states
+  const [completionKind, setCompletionKind] = useState<CompletionKind>("summary");
+  const [completionMode, setCompletionMode] = useState<CompletionAnswerMode>("word_bank");
+  const [completionWordsText, setCompletionWordsText] = useState("");
+  const [completionMaxWords, setCompletionMaxWords] = useState("");
+  const [gapBlockId, setGapBlockId] = useState("");
+  const [gapAnswer, setGapAnswer] = useState("");
+  // Question group states
+  const [groupType, setGroupType] = useState<QuestionGroupType>("note_completion");
+  const [groupMaxWords, setGroupMaxWords] = useState("");
+  const [groupAllowNumber, setGroupAllowNumber] = useState(false);
+  const [formError, setFormError] = useState("");
 
   const editor = useEditor({
     extensions: [
@@ -115,6 +149,9 @@ export function UnifiedTestEditor(
       MatchingNode,
       MapLabelNode,
       MCQNode,
+      CompletionNode,
+      BankGapNode,
+      QuestionGroupNode,
     ],
     content: content ?? initialContent ?? "",
     editorProps: {
@@ -175,14 +212,51 @@ export function UnifiedTestEditor(
     }
   }, [content]);
 
+  // Completion blocks already in the section, in document order
+  const getCompletionBlocks = (): CompletionBlock[] => {
+    const blocks: CompletionBlock[] = [];
+    const traverse = (node: any) => {
+      if (node.type === "completion") {
+        blocks.push(parseCompletionBlock(node.attrs));
+      } else if (node.content) {
+        node.content.forEach(traverse);
+      }
+    };
+    if (editor) traverse(editor.getJSON());
+    return blocks;
+  };
+
   const openQuestionModal = (type: string) => {
     setCurrentQuestionType(type);
     setShowModal(true);
     resetForms();
+
+    // New blanks belong to the latest completion block
+    const blocks = getCompletionBlocks();
+    if (type === "bank_gap") {
+      const banks = blocks.filter((block) => block.mode === "word_bank");
+      setGapBlockId(banks.length > 0 ? banks[banks.length - 1].id : "");
+    } else if (type === "short_answer") {
+      const freeText = blocks.filter((block) => block.mode === "free_text" && block.maxWords);
+      if (freeText.length > 0) {
+        setShortAnswerMaxWords(String(freeText[freeText.length - 1].maxWords));
+      }
+    }
   };
 
   const resetForms = () => {
     setShortAnswers("");
+    setShortAnswerMaxWords("");
+    setCompletionKind("summary");
+    setCompletionMode("word_bank");
+    setCompletionWordsText("");
+    setCompletionMaxWords("");
+    setGapBlockId("");
+    setGapAnswer("");
+    setGroupType("note_completion");
+    setGroupMaxWords("");
+    setGroupAllowNumber(false);
+    setFormError("");
     setMcqQuestion("");
     setMcqOptions(["", "", "", ""]);
     setCorrectOption(0);
@@ -192,6 +266,17 @@ export function UnifiedTestEditor(
     setMapBoxes([]);
   };
 
+  // Renumber in document order and hand the new numbers to the parent
+  const commitQuestions = (updatedQuestions: Question[]) => {
+    const numbered = applyQuestionNumbers(
+      updatedQuestions,
+      renumberEditorQuestions(editor, startingQuestionNumber),
+    );
+    setQuestions(numbered);
+    if (onQuestionsChange) onQuestionsChange(numbered);
+    if (onEditorQuestionsChange) onEditorQuestionsChange(numbered);
+  };
+
   // Calculate the next question number based on existing questions
   const getNextQuestionNumber = () => {
     if (questions.length === 0) return startingQuestionNumber;
@@ -306,10 +391,14 @@ export function UnifiedTestEditor(
         });
         
         let currentQuestionNumber = getNextQuestionNumber();
+        const maxWords = parseInt(shortAnswerMaxWords) || null;
+        const rules = maxWords ? { maxWords } : null;
+        // Node and question ids must match for renumbering
+        const baseId = Date.now();
         
         answers.forEach((answer, index) => {
           const question_number = currentQuestionNumber + index;
-          const id = `q_${Date.now()}_${index}`;
+          const id = `q_${baseId}_${index}`;
           
           console.log("🔍 Inserting Short Answer Node:", {
             questionNumber: question_number,
@@ -330,16 +419,18 @@ export function UnifiedTestEditor(
               question_number,
               placeholder: `Answer ${question_number}`,
               answers: [answer], // <--- THIS IS THE FIX!
+              answer_rules: rules,
             },
           }).run();
         });
         // Add all new questions to the questions array
         const newQuestions = answers.map((answer, index) => ({
-          id: `q_${Date.now()}_${index}`,
+          id: `q_${baseId}_${index}`,
           type: "short_answer" as const,
           content: {
             answer,
             answers: [answer], // <--- THIS IS THE FIX!
+            answer_rules: rules,
             question_number: currentQuestionNumber + index,
           },
           summary: `Short Answer: [${currentQuestionNumber + index}] ${answer}`,
@@ -348,9 +439,7 @@ export function UnifiedTestEditor(
         console.log("🔍 Short Answer Questions Array:", newQuestions);
         
         const updatedQuestions = [...questions, ...newQuestions];
-        setQuestions(updatedQuestions);
-        if (onQuestionsChange) onQuestionsChange(updatedQuestions);
-        if (onEditorQuestionsChange) onEditorQuestionsChange(updatedQuestions);
+        commitQuestions(updatedQuestions);
         setQuestionCounter((prev) => prev + answers.length);
         setShowModal(false);
         setCurrentQuestionType(null);
@@ -398,9 +487,7 @@ export function UnifiedTestEditor(
         console.log("🔍 MCQ Question Array:", newQuestion);
         
         const updatedQuestions = [...questions, newQuestion];
-        setQuestions(updatedQuestions);
-        if (onQuestionsChange) onQuestionsChange(updatedQuestions);
-        if (onEditorQuestionsChange) onEditorQuestionsChange(updatedQuestions);
+        commitQuestions(updatedQuestions);
         setQuestionCounter((prev) => prev + 1);
         setShowModal(false);
         setCurrentQuestionType(null);
@@ -450,15 +537,117 @@ export function UnifiedTestEditor(
         console.log("🔍 Matching Question Array:", newQuestion);
         
         const updatedQuestions = [...questions, newQuestion];
-        setQuestions(updatedQuestions);
-        if (onQuestionsChange) onQuestionsChange(updatedQuestions);
-        if (onEditorQuestionsChange) onEditorQuestionsChange(updatedQuestions);
+        commitQuestions(updatedQuestions);
         setQuestionCounter((prev) => prev + left.length);
         setShowModal(false);
         setCurrentQuestionType(null);
         resetForms();
         return;
       }
+      case "question_group": {
+        const group = parseQuestionGroup({
+          id: `group_${Date.now()}`,
+          group_type: groupType,
+          max_words: groupMaxWords,
+          allow_number: groupAllowNumber,
+        });
+        const validationError = validateQuestionGroup(group);
+        if (validationError) {
+          setFormError(validationError);
+          return;
+        }
+
+        // The range is filled in by renumbering, along with the word limit of its blanks
+        editor.chain().focus().insertContent({
+          type: 'question_group',
+          attrs: {
+            id: group.id,
+            group_type: group.type,
+            max_words: group.maxWords,
+            allow_number: group.allowNumber,
+          },
+        }).run();
+        commitQuestions(questions);
+        setShowModal(false);
+        setCurrentQuestionType(null);
+        resetForms();
+        return;
+      }
+      case "completion": {
+        const block = parseCompletionBlock({
+          id: `completion_${Date.now()}`,
+          kind: completionKind,
+          mode: completionMode,
+          words: completionMode === "word_bank" ? completionWordsText.split("\n") : [],
+          max_words: completionMode === "free_text" ? completionMaxWords : null,
+        });
+        const validationError = validateCompletionBlock(block);
+        if (validationError) {
+          setFormError(validationError);
+          return;
+        }
+
+        // The block only holds instructions and the bank; blanks are inserted separately
+        editor.chain().focus().insertContent({
+          type: 'completion',
+          attrs: {
+            id: block.id,
+            kind: block.kind,
+            mode: block.mode,
+            words: block.words,
+            max_words: block.maxWords,
+          },
+        }).run();
+        setShowModal(false);
+        setCurrentQuestionType(null);
+        resetForms();
+        return;
+      }
+      case "bank_gap": {
+        const block = getCompletionBlocks().find((b) => b.id === gapBlockId);
+        if (!block) {
+          setFormError("Insert a word bank completion block first.");
+          return;
+        }
+        if (!gapAnswer) {
+          setFormError("Please select the correct letter.");
+          return;
+        }
+        const id = `gap_${Date.now()}`;
+        const nextQuestionNumber = getNextQuestionNumber();
+
+        editor.chain().focus().insertContent({
+          type: 'bank_gap',
+          attrs: {
+            id,
+            question_number: nextQuestionNumber,
+            block_id: block.id,
+            correct_answer: gapAnswer,
+          },
+        }).run();
+
+        const newQuestion = {
+          id,
+          type: WORD_BANK_QUESTION_TYPE,
+          content: {
+            // Shown in results instead of the summary, which gives the answer away
+            question: `Question ${nextQuestionNumber}`,
+            block_id: block.id,
+            words: block.words,
+            correctAnswer: gapAnswer,
+            question_number: nextQuestionNumber,
+          },
+          summary: `Gap ${nextQuestionNumber}: ${gapAnswer} (${block.words[gapAnswer.charCodeAt(0) - 65] || ''})`,
+        } as Question;
+
+        const updatedQuestions = [...questions, newQuestion];
+        commitQuestions(updatedQuestions);
+        setQuestionCounter((prev) => prev + 1);
+        setShowModal(false);
+        setCurrentQuestionType(null);
+        resetForms();
+        return;
+      }
       case "map_diagram": {
         if (mapImageFiles.length === 0) return;
         
@@ -498,9 +687,7 @@ export function UnifiedTestEditor(
         console.log("🔍 Map Diagram Question Array:", newQuestion);
         
         const updatedQuestions = [...questions, newQuestion];
-        setQuestions(updatedQuestions);
-        if (onQuestionsChange) onQuestionsChange(updatedQuestions);
-        if (onEditorQuestionsChange) onEditorQuestionsChange(updatedQuestions);
+        commitQuestions(updatedQuestions);
         setQuestionCounter((prev) => prev + mapBoxes.length);
         setShowModal(false);
         setCurrentQuestionType(null);
@@ -541,9 +728,7 @@ export function UnifiedTestEditor(
 
     // Remove from questions array
     const updatedQuestions = questions.filter((q) => q.id !== questionId);
-    setQuestions(updatedQuestions);
-    if (onQuestionsChange) onQuestionsChange(updatedQuestions);
-    if (onEditorQuestionsChange) onEditorQuestionsChange(updatedQuestions);
+    commitQuestions(updatedQuestions);
 
     // Update parent content state after deletion
     if (onContentChange) {
@@ -691,6 +876,34 @@ export function UnifiedTestEditor(
                     Map/Diagram
                   </Button>
 
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openQuestionModal("question_group")}
+                    className="flex items-center gap-2"
+                  >
+                    <List className="h-4 w-4" />
+                    Question Group
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openQuestionModal("completion")}
+                    className="flex items-center gap-2"
+                  >
+                    <Type className="h-4 w-4" />
+                    Completion
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openQuestionModal("bank_gap")}
+                    className="flex items-center gap-2"
+                  >
+                    <Type className="h-4 w-4" />
+                    Word Bank Gap
+                  </Button>
+
                   <div className="border-l border-gray-300 mx-2" />
 
                   {/* Format Buttons */}
@@ -839,7 +1052,13 @@ export function UnifiedTestEditor(
                     ? "Matching"
                     : currentQuestionType === "map_diagram"
                       ? "Map/Diagram"
-                      : ""}{" "}
+                      : currentQuestionType === "completion"
+                        ? "Completion Block"
+                        : currentQuestionType === "question_group"
+                          ? "Question Group"
+                        : currentQuestionType === "bank_gap"
+                          ? "Word Bank Gap"
+                          : ""}{" "}
               Question
             </DialogTitle>
           </DialogHeader>
@@ -861,9 +1080,195 @@ export function UnifiedTestEditor(
                     see numbered input fields (1, 2, 3, etc.)
                   </p>
                 </div>
+                <div>
+                  <Label>Word limit (NO MORE THAN … WORDS)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    value={shortAnswerMaxWords}
+                    onChange={(e) => setShortAnswerMaxWords(e.target.value)}
+                    className="w-32"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Question Group */}
+            {currentQuestionType === "question_group" && (
+              <div className="space-y-4">
+                <div>
+                  <Label>Question type</Label>
+                  <select
+                    value={groupType}
+                    onChange={(e) => setGroupType(e.target.value as QuestionGroupType)}
+                    className="w-full border border-gray-300 rounded px-2 py-2 text-sm"
+                  >
+                    {(Object.keys(QUESTION_GROUP_TYPES) as QuestionGroupType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {QUESTION_GROUP_TYPES[type].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {QUESTION_GROUP_TYPES[groupType].freeText && (
+                  <div className="space-y-2">
+                    <Label>Word limit (NO MORE THAN … WORDS)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={groupMaxWords}
+                      onChange={(e) => setGroupMaxWords(e.target.value)}
+                      className="w-32"
+                    />
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={groupAllowNumber}
+                        onChange={(e) => setGroupAllowNumber(e.target.checked)}
+                      />
+                      <span className="text-sm">AND/OR A NUMBER</span>
+                    </label>
+                  </div>
+                )}
+                <p className="text-sm text-gray-500">
+                  The group covers every question below it up to the next group.
+                  Its range is numbered automatically, and its word limit applies
+                  to the short answers in it when they are graded.
+                </p>
+                {formError && (
+                  <div className="text-red-500 text-sm mt-2">{formError}</div>
+                )}
+              </div>
+            )}
+
+            {/* Completion Block */}
+            {currentQuestionType === "completion" && (
+              <div className="space-y-4">
+                <div>
+                  <Label>Completion type</Label>
+                  <select
+                    value={completionKind}
+                    onChange={(e) => setCompletionKind(e.target.value as CompletionKind)}
+                    className="w-full border border-gray-300 rounded px-2 py-2 text-sm"
+                  >
+                    {(Object.keys(COMPLETION_KIND_LABELS) as CompletionKind[]).map((kind) => (
+                      <option key={kind} value={kind}>
+                        {COMPLETION_KIND_LABELS[kind]} completion
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <Label>Answers</Label>
+                  <div className="flex gap-2 mt-2">
+                    <Button
+                      size="sm"
+                      variant={completionMode === "word_bank" ? "default" : "outline"}
+                      onClick={() => setCompletionMode("word_bank")}
+                    >
+                      Word bank (letters)
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={completionMode === "free_text" ? "default" : "outline"}
+                      onClick={() => setCompletionMode("free_text")}
+                    >
+                      Free text
+                    </Button>
+                  </div>
+                </div>
+
+                {completionMode === "word_bank" ? (
+                  <div>
+                    <Label>Word bank (one per line)</Label>
+                    <Textarea
+                      placeholder={"river\nbridge\nmarket"}
+                      value={completionWordsText}
+                      onChange={(e) => setCompletionWordsText(e.target.value)}
+                      rows={6}
+                    />
+                    <p className="text-sm text-gray-500 mt-1">
+                      Words are lettered A, B, C… Add blanks with Word Bank Gap
+                      anywhere below the block, including inside tables.
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <Label>Word limit (NO MORE THAN … WORDS)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={completionMaxWords}
+                      onChange={(e) => setCompletionMaxWords(e.target.value)}
+                      className="w-32"
+                    />
+                    <p className="text-sm text-gray-500 mt-1">
+                      Add blanks with Short Answer; new blanks take this word limit.
+                    </p>
+                  </div>
+                )}
+                {formError && (
+                  <div className="text-red-500 text-sm mt-2">{formError}</div>
+                )}
               </div>
             )}
 
+            {/* Word Bank Gap */}
+            {currentQuestionType === "bank_gap" && (() => {
+              const banks = getCompletionBlocks().filter((block) => block.mode === "word_bank");
+              const selectedBank = banks.find((block) => block.id === gapBlockId);
+              return (
+                <div className="space-y-4">
+                  {banks.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      Insert a completion block with a word bank first.
+                    </p>
+                  ) : (
+                    <>
+                      <div>
+                        <Label>Word bank</Label>
+                        <select
+                          value={gapBlockId}
+                          onChange={(e) => {
+                            setGapBlockId(e.target.value);
+                            setGapAnswer("");
+                          }}
+                          className="w-full border border-gray-300 rounded px-2 py-2 text-sm"
+                        >
+                          {banks.map((block, index) => (
+                            <option key={block.id} value={block.id}>
+                              {COMPLETION_KIND_LABELS[block.kind]} {index + 1}: {block.words.slice(0, 3).join(", ")}…
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <Label>Correct answer</Label>
+                        <select
+                          value={gapAnswer}
+                          onChange={(e) => setGapAnswer(e.target.value)}
+                          className="w-full border border-gray-300 rounded px-2 py-2 text-sm"
+                        >
+                          <option value="">Select letter</option>
+                          {selectedBank?.words.map((word, index) => (
+                            <option key={index} value={getBankLetter(index)}>
+                              {getBankLetter(index)}. {word}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </>
+                  )}
+                  {formError && (
+                    <div className="text-red-500 text-sm mt-2">{formError}</div>
+                  )}
+                </div>
+              );
+            })()}
+
             {/* Multiple Choice */}
             {currentQuestionType === "multiple_choice" && (
               <div className="space-y-4">
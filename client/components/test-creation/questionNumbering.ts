@@ -0,0 +1,52 @@
+import type { Editor } from '@tiptap/core';
+import { countNodeQuestions, planQuestionNumbers } from '@shared/questionGroups';
+
+/**
+ * Renumber the questions in the editor in document order and fill in the
+ * question group ranges. Returns the updated attributes of every question
+ * node, keyed by node id.
+ */
+export const renumberEditorQuestions = (
+  editor: Editor | null,
+  startingNumber: number,
+): Record<string, any> => {
+  const numbered: Record<string, any> = {};
+  if (!editor) return numbered;
+
+  const entries: { pos: number; type: string; attrs: any }[] = [];
+  editor.state.doc.descendants((node, pos) => {
+    entries.push({ pos, type: node.type.name, attrs: node.attrs });
+  });
+
+  const patches = planQuestionNumbers(entries, startingNumber);
+  const { tr } = editor.state;
+  patches.forEach((patch, i) => {
+    const { pos, type, attrs } = entries[i];
+    // Question nodes are atoms, so changing attributes never moves later positions
+    if (patch) tr.setNodeMarkup(pos, undefined, { ...attrs, ...patch });
+    if (attrs.id && countNodeQuestions(type, attrs) > 0) {
+      numbered[attrs.id] = { ...attrs, ...patch };
+    }
+  });
+  if (tr.docChanged) editor.view.dispatch(tr);
+
+  return numbered;
+};
+
+/**
+ * Copy new numbers and word limits into the editor's question list and put
+ * it in document order.
+ */
+export const applyQuestionNumbers = <T extends { id: string; type: string; content: any }>(
+  questions: T[],
+  numbered: Record<string, any>,
+): T[] =>
+  questions
+    .map((question) => {
+      const attrs = numbered[question.id];
+      if (!attrs) return question;
+      const content = { ...question.content, question_number: attrs.question_number };
+      if (question.type === 'short_answer') content.answer_rules = attrs.answer_rules || null;
+      return { ...question, content };
+    })
+    .sort((a, b) => (a.content?.question_number || 0) - (b.content?.question_number || 0));
@@ -43,7 +43,7 @@ interface AudioRecorderProps {
   disabled?: boolean;
 }
 
-const AudioRecorder: React.FC<AudioRecorderProps> = ({
+export const AudioRecorder: React.FC<AudioRecorderProps> = ({
   onRecordingComplete,
   maxDuration = 300, // 5 minutes default
   disabled = false,
@@ -58,6 +58,8 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  // The interval and onstop callbacks need the live duration, not a stale closure
+  const recordingTimeRef = useRef(0);
 
   const startRecording = async () => {
     try {
@@ -83,22 +85,21 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         // Stop all tracks to release microphone
         stream.getTracks().forEach((track) => track.stop());
 
-        onRecordingComplete(blob, recordingTime);
+        onRecordingComplete(blob, recordingTimeRef.current);
       };
 
       mediaRecorder.start();
       setIsRecording(true);
       setRecordingTime(0);
+      recordingTimeRef.current = 0;
 
       // Start timer
       timerRef.current = setInterval(() => {
-        setRecordingTime((prev) => {
-          const newTime = prev + 1;
-          if (newTime >= maxDuration) {
-            stopRecording();
-          }
-          return newTime;
-        });
+        recordingTimeRef.current += 1;
+        setRecordingTime(recordingTimeRef.current);
+        if (recordingTimeRef.current >= maxDuration) {
+          stopRecording();
+        }
       }, 1000);
     } catch (error) {
       console.error("Error starting recording:", error);
@@ -109,7 +110,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
   };
 
   const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
+    if (mediaRecorderRef.current?.state === "recording") {
       mediaRecorderRef.current.stop();
       setIsRecording(false);
 
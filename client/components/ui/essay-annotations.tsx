@@ -0,0 +1,267 @@
+import React, { useRef, useState } from "react";
+import { MessageSquare, Plus, Trash2, X } from "lucide-react";
+import { Button } from "./button";
+import { Badge } from "./badge";
+import { Input } from "./input";
+import { Label } from "./label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./select";
+import {
+  ANNOTATION_CATEGORIES,
+  ANNOTATION_CATEGORY_LABELS,
+  ANNOTATION_CATEGORY_STYLES,
+  splitEssayByAnnotations,
+  type AnnotationCategory,
+  type EssayAnnotation,
+} from "@shared/essayAnnotations";
+
+interface AnnotatedEssayProps {
+  text: string;
+  annotations?: EssayAnnotation[];
+  className?: string;
+}
+
+// Offset of a DOM position within the container's rendered text
+const getTextOffset = (container: HTMLElement, node: Node, offset: number) => {
+  const range = document.createRange();
+  range.selectNodeContents(container);
+  range.setEnd(node, offset);
+  return range.toString().length;
+};
+
+const renderSegments = (text: string, annotations: EssayAnnotation[]) =>
+  splitEssayByAnnotations(text, annotations).map((segment, index) =>
+    segment.annotation ? (
+      <mark
+        key={index}
+        title={`${ANNOTATION_CATEGORY_LABELS[segment.annotation.category]}: ${segment.annotation.comment}${
+          segment.annotation.suggestion
+            ? ` → ${segment.annotation.suggestion}`
+            : ""
+        }`}
+        className={`text-inherit rounded-sm ${ANNOTATION_CATEGORY_STYLES[segment.annotation.category]}`}
+      >
+        {segment.text}
+      </mark>
+    ) : (
+      <React.Fragment key={index}>{segment.text}</React.Fragment>
+    ),
+  );
+
+const AnnotationList: React.FC<{
+  text: string;
+  annotations: EssayAnnotation[];
+  onRemove?: (id: string) => void;
+}> = ({ text, annotations, onRemove }) => (
+  <ol className="space-y-2 text-sm">
+    {[...annotations]
+      .sort((a, b) => a.start - b.start)
+      .map((annotation) => (
+        <li key={annotation.id} className="flex items-start gap-2">
+          <Badge variant="outline" className="shrink-0">
+            {ANNOTATION_CATEGORY_LABELS[annotation.category]}
+          </Badge>
+          <div className="flex-1">
+            <span className="italic text-gray-500">
+              "{text.slice(annotation.start, annotation.end)}"
+            </span>
+            {annotation.comment && <span> {annotation.comment}</span>}
+            {annotation.suggestion && (
+              <div className="text-green-700">→ {annotation.suggestion}</div>
+            )}
+          </div>
+          {onRemove && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onRemove(annotation.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </li>
+      ))}
+  </ol>
+);
+
+/**
+ * Read-only essay with the teacher's annotations highlighted
+ */
+export const AnnotatedEssay: React.FC<AnnotatedEssayProps> = ({
+  text,
+  annotations = [],
+  className,
+}) => (
+  <div className={className}>
+    <div className="bg-blue-50 p-4 rounded whitespace-pre-wrap">
+      {renderSegments(text, annotations)}
+    </div>
+    {annotations.length > 0 && (
+      <div className="mt-3">
+        <AnnotationList text={text} annotations={annotations} />
+      </div>
+    )}
+  </div>
+);
+
+interface EssayAnnotatorProps {
+  text: string;
+  annotations: EssayAnnotation[];
+  onChange: (annotations: EssayAnnotation[]) => void;
+}
+
+/**
+ * Essay view where the teacher selects a span and attaches a typed comment
+ */
+export const EssayAnnotator: React.FC<EssayAnnotatorProps> = ({
+  text,
+  annotations,
+  onChange,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [selection, setSelection] = useState<{
+    start: number;
+    end: number;
+  } | null>(null);
+  const [category, setCategory] = useState<AnnotationCategory>("grammar");
+  const [comment, setComment] = useState("");
+  const [suggestion, setSuggestion] = useState("");
+
+  const handleMouseUp = () => {
+    const container = containerRef.current;
+    const domSelection = window.getSelection();
+    if (!container || !domSelection || domSelection.isCollapsed) return;
+
+    const range = domSelection.getRangeAt(0);
+    if (!container.contains(range.commonAncestorContainer)) return;
+
+    const start = getTextOffset(
+      container,
+      range.startContainer,
+      range.startOffset,
+    );
+    const end = getTextOffset(container, range.endContainer, range.endOffset);
+    if (end <= start) return;
+
+    const overlaps = annotations.some(
+      (annotation) => start < annotation.end && end > annotation.start,
+    );
+    if (overlaps) return;
+
+    setSelection({ start, end });
+  };
+
+  const resetForm = () => {
+    setSelection(null);
+    setComment("");
+    setSuggestion("");
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const addAnnotation = () => {
+    if (!selection) return;
+
+    onChange([
+      ...annotations,
+      {
+        id: `annotation-${Date.now()}`,
+        start: selection.start,
+        end: selection.end,
+        category,
+        comment: comment.trim(),
+        suggestion: suggestion.trim() || undefined,
+      },
+    ]);
+    resetForm();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={containerRef}
+        onMouseUp={handleMouseUp}
+        className="bg-blue-50 p-4 rounded whitespace-pre-wrap min-h-[40px] cursor-text"
+      >
+        {renderSegments(text, annotations)}
+      </div>
+
+      {selection ? (
+        <div className="border rounded-lg p-3 space-y-2 bg-white">
+          <div className="flex items-center justify-between">
+            <span className="text-sm">
+              <MessageSquare className="inline h-4 w-4 mr-1" />
+              "{text.slice(selection.start, selection.end)}"
+            </span>
+            <Button variant="ghost" size="sm" onClick={resetForm}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label className="text-xs">Category</Label>
+              <Select
+                value={category}
+                onValueChange={(value) =>
+                  setCategory(value as AnnotationCategory)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[10000]">
+                  {ANNOTATION_CATEGORIES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {ANNOTATION_CATEGORY_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Comment</Label>
+              <Input
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="e.g., subject-verb agreement"
+              />
+            </div>
+          </div>
+          {category === "rewrite" && (
+            <div>
+              <Label className="text-xs">Suggested rewrite</Label>
+              <Input
+                value={suggestion}
+                onChange={(e) => setSuggestion(e.target.value)}
+              />
+            </div>
+          )}
+          <Button size="sm" onClick={addAnnotation}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Annotation
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Select part of the essay to add a comment
+        </p>
+      )}
+
+      {annotations.length > 0 && (
+        <AnnotationList
+          text={text}
+          annotations={annotations}
+          onRemove={(id) =>
+            onChange(annotations.filter((annotation) => annotation.id !== id))
+          }
+        />
+      )}
+    </div>
+  );
+};
+
+export default EssayAnnotator;
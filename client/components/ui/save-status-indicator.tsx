@@ -0,0 +1,72 @@
+import React from "react";
+import { AlertCircle, CheckCircle, CloudOff, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { SyncStatus } from "@/lib/answerPersistence";
+
+interface SaveStatusIndicatorProps {
+  status: SyncStatus;
+  isOnline?: boolean;
+  lastSavedAt?: Date | null;
+  onRetry?: () => void;
+  className?: string;
+}
+
+export const SaveStatusIndicator: React.FC<SaveStatusIndicatorProps> = ({
+  status,
+  isOnline = true,
+  lastSavedAt,
+  onRetry,
+  className,
+}) => {
+  if (status === "failed") {
+    return (
+      <button
+        type="button"
+        onClick={onRetry}
+        className={cn(
+          "flex items-center gap-1 text-xs text-red-600 hover:underline",
+          className,
+        )}
+        title="Your answers are kept on this device. Click to retry."
+      >
+        <AlertCircle className="h-3 w-3" />
+        Save failed, retry
+      </button>
+    );
+  }
+
+  if (status === "pending") {
+    return (
+      <div
+        className={cn(
+          "flex items-center gap-1 text-xs text-amber-600",
+          className,
+        )}
+      >
+        {isOnline ? (
+          <>
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <CloudOff className="h-3 w-3" />
+            Offline, saved on this device
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn("flex items-center gap-1 text-xs text-green-600", className)}
+      title={lastSavedAt ? `Last saved ${lastSavedAt.toLocaleTimeString()}` : undefined}
+    >
+      <CheckCircle className="h-3 w-3" />
+      All answers saved
+    </div>
+  );
+};
+
+export default SaveStatusIndicator;
@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from "react";
+import {
+  getSpeakingRecordingUrl,
+  type SpeakingResponse,
+} from "@/lib/speakingUtils";
+
+interface SpeakingRecordingPlayerProps {
+  response: SpeakingResponse;
+  className?: string;
+}
+
+// Plays a private recording through a signed URL fetched when it is shown
+export const SpeakingRecordingPlayer: React.FC<SpeakingRecordingPlayerProps> = ({
+  response,
+  className,
+}) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSrc(null);
+    setFailed(false);
+
+    getSpeakingRecordingUrl(response).then((url) => {
+      if (cancelled) return;
+      setSrc(url);
+      setFailed(!url);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [response.audio_path, response.audio_url]);
+
+  if (failed) {
+    return (
+      <p className="text-sm text-gray-500 italic">
+        The recording could not be loaded
+      </p>
+    );
+  }
+
+  if (!src) {
+    return <p className="text-sm text-gray-500">Loading recording...</p>;
+  }
+
+  return <audio controls src={src} className={className} />;
+};
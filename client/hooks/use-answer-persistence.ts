@@ -0,0 +1,140 @@
+import * as React from "react";
+import {
+  clearLocalAnswers,
+  getAnswerStorageKey,
+  readLocalAnswers,
+  recordAnswerChanges,
+  syncAnswers,
+  type SyncStatus,
+} from "@/lib/answerPersistence";
+
+const SYNC_DEBOUNCE_MS = 2000;
+const RETRY_INTERVAL_MS = 30000;
+
+interface UseAnswerPersistenceOptions {
+  // Separates the answer stores of exam pages for the same test
+  scope: string;
+  testId?: string;
+  studentId?: string;
+  submissionId: string | null;
+  answers: Record<string, any>;
+  // Called with answers restored from this device or changed more recently elsewhere
+  onRestore: (answers: Record<string, any>) => void;
+}
+
+export function useAnswerPersistence({
+  scope,
+  testId,
+  studentId,
+  submissionId,
+  answers,
+  onRestore,
+}: UseAnswerPersistenceOptions) {
+  const storageKey =
+    testId && studentId ? getAnswerStorageKey(scope, testId, studentId) : null;
+
+  const [status, setStatus] = React.useState<SyncStatus>("saved");
+  const [isOnline, setIsOnline] = React.useState(
+    typeof navigator === "undefined" ? true : navigator.onLine,
+  );
+  const [lastSavedAt, setLastSavedAt] = React.useState<Date | null>(null);
+  const [restored, setRestored] = React.useState(false);
+
+  const debounceRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onRestoreRef = React.useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  const sync = React.useCallback(async (): Promise<SyncStatus> => {
+    if (!storageKey || !submissionId) return "pending";
+
+    const result = await syncAnswers(storageKey, submissionId);
+    if (Object.keys(result.remoteWins).length > 0) {
+      onRestoreRef.current(result.remoteWins);
+    }
+
+    setStatus(result.status);
+    if (result.status === "saved") setLastSavedAt(new Date());
+    return result.status;
+  }, [storageKey, submissionId]);
+
+  // Restore answers kept on this device before anything is written
+  React.useEffect(() => {
+    if (!storageKey) return;
+    let cancelled = false;
+
+    readLocalAnswers(storageKey).then((record) => {
+      if (cancelled) return;
+      if (record && Object.keys(record.answers).length > 0) {
+        onRestoreRef.current(record.answers);
+        if (record.dirty) setStatus("pending");
+      }
+      setRestored(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey]);
+
+  // Write every change locally, then sync once typing pauses
+  React.useEffect(() => {
+    if (!storageKey || !restored) return;
+
+    recordAnswerChanges(storageKey, answers).then((changed) => {
+      if (!changed) return;
+      setStatus("pending");
+
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+      debounceRef.current = setTimeout(() => {
+        sync();
+      }, SYNC_DEBOUNCE_MS);
+    });
+  }, [answers, storageKey, restored, sync]);
+
+  // Sync as soon as a submission exists, on reconnect, and on an interval
+  React.useEffect(() => {
+    if (!storageKey || !submissionId || !restored) return;
+
+    sync();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    const interval = setInterval(() => {
+      sync();
+    }, RETRY_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      clearInterval(interval);
+    };
+  }, [storageKey, submissionId, restored, sync]);
+
+  React.useEffect(
+    () => () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+    },
+    [],
+  );
+
+  // Sync immediately, e.g. right before submitting
+  const flush = React.useCallback(async () => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    if (storageKey) await recordAnswerChanges(storageKey, answers);
+    return sync();
+  }, [storageKey, answers, sync]);
+
+  // Drop the local copy once the answers are submitted
+  const clear = React.useCallback(async () => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    if (storageKey) await clearLocalAnswers(storageKey);
+  }, [storageKey]);
+
+  return { status, isOnline, lastSavedAt, flush, clear };
+}
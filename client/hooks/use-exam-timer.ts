@@ -0,0 +1,61 @@
+import * as React from "react";
+import { toast } from "sonner";
+import { getRemainingSeconds } from "@shared/examTimer";
+import { startExamTimer } from "@/lib/testProgressUtils";
+
+/**
+ * Starts or resumes the server-side clock of a submission so the exam pages
+ * count down to the deadline the grading API enforces, whatever the device
+ * clock or a reload says.
+ *
+ * `section` is set on the section pages of a full test: they keep their own
+ * allowance but never run past the deadline of the whole test.
+ */
+export function useExamTimer(submissionId: string | null, section = false) {
+  const [deadline, setDeadline] = React.useState<string | null>(null);
+  const deadlineRef = React.useRef<string | null>(null);
+  const clockOffsetRef = React.useRef(0);
+  const sectionRef = React.useRef(section);
+  sectionRef.current = section;
+
+  React.useEffect(() => {
+    if (!submissionId) return;
+
+    let cancelled = false;
+    startExamTimer(submissionId)
+      .then((timer) => {
+        if (cancelled) return;
+        clockOffsetRef.current = Date.parse(timer.serverNow) - Date.now();
+        deadlineRef.current = timer.deadline;
+        setDeadline(timer.deadline);
+        if (timer.extensionMinutes > 0) {
+          toast.info(
+            `You have ${timer.extensionMinutes} extra minutes for this test.`,
+          );
+        }
+      })
+      .catch((error) => {
+        // Fall back to the local countdown if the timer API is unavailable
+        console.warn("⚠️ Exam timer API unavailable, using local timer:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [submissionId]);
+
+  // Seconds left given the page's own countdown, corrected by the server deadline
+  const getRemaining = React.useCallback((localRemaining: number) => {
+    if (!deadlineRef.current) return localRemaining;
+
+    const serverRemaining = getRemainingSeconds(
+      deadlineRef.current,
+      new Date(Date.now() + clockOffsetRef.current),
+    );
+    return sectionRef.current
+      ? Math.min(localRemaining, serverRemaining)
+      : serverRemaining;
+  }, []);
+
+  return { deadline, getRemaining };
+}
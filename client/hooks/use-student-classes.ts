@@ -0,0 +1,69 @@
+import * as React from "react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+
+export interface StudentClass {
+  id: string;
+  edu_center_id: string;
+  name: string;
+  description?: string | null;
+  teacher_id?: string | null;
+  created_at?: string;
+  student_ids: string[];
+}
+
+/**
+ * Classes of the signed-in admin's edu center with their member ids.
+ * Pages use it for the class filter; the Classes page also edits them.
+ */
+export function useStudentClasses() {
+  const { user } = useAuth();
+  const [classes, setClasses] = React.useState<StudentClass[]>([]);
+  const [loading, setLoading] = React.useState(true);
+
+  const reload = React.useCallback(async () => {
+    if (!user?.edu_center_id) {
+      setClasses([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("student_classes")
+      .select("*, student_class_members (student_id)")
+      .eq("edu_center_id", user.edu_center_id)
+      .order("name");
+
+    if (error) {
+      // Older databases may not have the classes tables yet
+      console.warn("⚠️ Could not load classes:", error.message);
+      setClasses([]);
+    } else {
+      setClasses(
+        (data || []).map(({ student_class_members, ...studentClass }: any) => ({
+          ...studentClass,
+          student_ids: (student_class_members || []).map(
+            (member: { student_id: string }) => member.student_id,
+          ),
+        })),
+      );
+    }
+    setLoading(false);
+  }, [user?.edu_center_id]);
+
+  React.useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Member ids of a class, or null for "all classes"
+  const getClassStudentIds = React.useCallback(
+    (classId: string): Set<string> | null => {
+      if (!classId || classId === "all") return null;
+      return new Set(classes.find((c) => c.id === classId)?.student_ids || []);
+    },
+    [classes],
+  );
+
+  return { classes, loading, reload, getClassStudentIds };
+}
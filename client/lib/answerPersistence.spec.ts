@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import {
+  clearLocalAnswers,
+  mergeAnswersByTimestamp,
+  readLocalAnswers,
+  recordAnswerChanges,
+} from "./answerPersistence";
+
+describe("mergeAnswersByTimestamp", () => {
+  it("should keep the newest value for each question", () => {
+    const merged = mergeAnswersByTimestamp(
+      { answers: { q1: "A", q2: "B" }, timestamps: { q1: 200, q2: 100 } },
+      { answers: { q1: "C", q2: "D" }, timestamps: { q1: 100, q2: 300 } },
+    );
+    expect(merged.answers).toEqual({ q1: "A", q2: "D" });
+    expect(merged.timestamps).toEqual({ q1: 200, q2: 300 });
+    expect(merged.remoteWins).toEqual({ q2: "D" });
+  });
+
+  it("should keep answers from other sections and prefer local over untimed ones", () => {
+    const merged = mergeAnswersByTimestamp(
+      { answers: { q1: "A" }, timestamps: { q1: 50 } },
+      { answers: { q1: "old", task1: "essay" }, timestamps: null },
+    );
+    expect(merged.answers).toEqual({ q1: "A", task1: "essay" });
+    expect(merged.remoteWins).toEqual({});
+  });
+});
+
+describe("recordAnswerChanges", () => {
+  it("should only report a change when an answer differs", async () => {
+    const key = "reading-test-student";
+    expect(await recordAnswerChanges(key, { q1: "A" })).toBe(true);
+    expect(await recordAnswerChanges(key, { q1: "A" })).toBe(false);
+
+    const stored = await readLocalAnswers(key);
+    expect(stored?.dirty).toBe(true);
+    expect(stored?.answers).toEqual({ q1: "A" });
+
+    await clearLocalAnswers(key);
+    expect(await readLocalAnswers(key)).toBeNull();
+  });
+});
@@ -0,0 +1,289 @@
+import { supabase } from "./supabase";
+import { retryWithBackoff } from "./errorUtils";
+
+/*
+ * Durable answer storage for exams.
+ *
+ * Every answer change is written to IndexedDB first, stamped with the time it
+ * was made, and then synced to test_submissions. A failed sync keeps the local
+ * copy dirty so it is retried later (on reconnect or the next interval).
+ * When the server has a newer value for a question than the local copy, the
+ * newer value wins; per-question times live in test_submissions.answer_timestamps.
+ */
+
+export type SyncStatus = "saved" | "pending" | "failed";
+
+export interface StoredAnswers {
+  key: string;
+  answers: Record<string, any>;
+  // Epoch milliseconds of the last change to each answer
+  timestamps: Record<string, number>;
+  dirty: boolean;
+  updatedAt: number;
+}
+
+export interface MergedAnswers {
+  answers: Record<string, any>;
+  timestamps: Record<string, number>;
+  // Answers this device has that were changed more recently elsewhere
+  remoteWins: Record<string, any>;
+}
+
+export interface SyncResult {
+  status: SyncStatus;
+  remoteWins: Record<string, any>;
+}
+
+const DB_NAME = "ielts-answers";
+const DB_VERSION = 1;
+const STORE_NAME = "answers";
+
+// Used when IndexedDB is unavailable (private browsing, tests)
+const memoryStore = new Map<string, StoredAnswers>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Writes for the same key run one after another so changes are never lost
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export const getAnswerStorageKey = (
+  scope: string,
+  testId: string,
+  studentId: string,
+) => `${scope}-${testId}-${studentId}`;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("⚠️ IndexedDB unavailable, keeping answers in memory");
+        resolve(null);
+      };
+    } catch (error) {
+      console.warn("⚠️ IndexedDB unavailable, keeping answers in memory", error);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+};
+
+const runStoreRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const enqueue = <T>(key: string, operation: () => Promise<T>): Promise<T> => {
+  const previous = writeQueues.get(key) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(operation);
+  writeQueues.set(key, next);
+  return next;
+};
+
+export const readLocalAnswers = async (
+  key: string,
+): Promise<StoredAnswers | null> => {
+  try {
+    const db = await openDatabase();
+    if (!db) return memoryStore.get(key) || null;
+
+    const record = await runStoreRequest<StoredAnswers>("readonly", (store) =>
+      store.get(key),
+    );
+    return record || null;
+  } catch (error) {
+    console.warn("⚠️ Could not read local answers:", error);
+    return memoryStore.get(key) || null;
+  }
+};
+
+const writeLocalAnswers = async (record: StoredAnswers) => {
+  memoryStore.set(record.key, record);
+  try {
+    await runStoreRequest("readwrite", (store) => store.put(record));
+  } catch (error) {
+    console.warn("⚠️ Could not write answers to IndexedDB:", error);
+  }
+};
+
+export const clearLocalAnswers = (key: string) =>
+  enqueue(key, async () => {
+    memoryStore.delete(key);
+    try {
+      await runStoreRequest("readwrite", (store) => store.delete(key));
+    } catch (error) {
+      console.warn("⚠️ Could not clear local answers:", error);
+    }
+  });
+
+/**
+ * Store the current answers locally, stamping the ones that changed.
+ * Returns true when something changed and needs syncing.
+ */
+export const recordAnswerChanges = (
+  key: string,
+  answers: Record<string, any>,
+): Promise<boolean> =>
+  enqueue(key, async () => {
+    const existing = await readLocalAnswers(key);
+    const now = Date.now();
+    const timestamps = { ...(existing?.timestamps || {}) };
+    let changed = false;
+
+    Object.entries(answers).forEach(([questionId, value]) => {
+      if (
+        JSON.stringify(existing?.answers?.[questionId]) !==
+        JSON.stringify(value)
+      ) {
+        timestamps[questionId] = now;
+        changed = true;
+      }
+    });
+
+    if (!changed) return false;
+
+    await writeLocalAnswers({
+      key,
+      answers: { ...(existing?.answers || {}), ...answers },
+      timestamps,
+      dirty: true,
+      updatedAt: now,
+    });
+    return true;
+  });
+
+/**
+ * Merge local answers into the server copy, keeping the newest value per question.
+ * Server answers without a timestamp predate this module and lose to local ones.
+ */
+export const mergeAnswersByTimestamp = (
+  local: Pick<StoredAnswers, "answers" | "timestamps">,
+  remote: {
+    answers?: Record<string, any> | null;
+    timestamps?: Record<string, number> | null;
+  },
+): MergedAnswers => {
+  const answers = { ...(remote.answers || {}) };
+  const timestamps = { ...(remote.timestamps || {}) };
+  const remoteWins: Record<string, any> = {};
+
+  Object.entries(local.answers).forEach(([questionId, value]) => {
+    const localTime = local.timestamps[questionId] || 0;
+    const remoteTime = remote.timestamps?.[questionId] || 0;
+
+    if (remoteTime > localTime && questionId in (remote.answers || {})) {
+      remoteWins[questionId] = remote.answers![questionId];
+      return;
+    }
+
+    answers[questionId] = value;
+    timestamps[questionId] = localTime;
+  });
+
+  return { answers, timestamps, remoteWins };
+};
+
+// Supabase reports dropped connections as plain errors; make them retryable
+const asRetryableError = (error: any) =>
+  error?.message?.includes("Failed to fetch") ||
+  error?.message?.includes("NetworkError")
+    ? new TypeError(error.message)
+    : error;
+
+/**
+ * Push dirty local answers to the submission, retrying with backoff.
+ * Newer server values are adopted locally and returned in remoteWins.
+ */
+export const syncAnswers = async (
+  key: string,
+  submissionId: string,
+): Promise<SyncResult> => {
+  const record = await readLocalAnswers(key);
+  if (!record || !record.dirty) return { status: "saved", remoteWins: {} };
+
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    return { status: "pending", remoteWins: {} };
+  }
+
+  try {
+    const merged = await retryWithBackoff(
+      async () => {
+        const { data, error } = await supabase
+          .from("test_submissions")
+          .select("answers, answer_timestamps")
+          .eq("id", submissionId)
+          .single();
+
+        if (error) throw asRetryableError(error);
+
+        const result = mergeAnswersByTimestamp(record, {
+          answers: data?.answers,
+          timestamps: data?.answer_timestamps,
+        });
+
+        const { error: updateError } = await supabase
+          .from("test_submissions")
+          .update({
+            answers: result.answers,
+            answer_timestamps: result.timestamps,
+            auto_saved_at: new Date().toISOString(),
+          })
+          .eq("id", submissionId);
+
+        if (updateError) throw asRetryableError(updateError);
+        return result;
+      },
+      3,
+      1000,
+    );
+
+    // Only mark clean if nothing changed locally while the sync was running
+    await enqueue(key, async () => {
+      const latest = await readLocalAnswers(key);
+      if (!latest) return;
+
+      const adopted = { ...latest.answers };
+      const timestamps = { ...latest.timestamps };
+      Object.entries(merged.remoteWins).forEach(([questionId, value]) => {
+        adopted[questionId] = value;
+        timestamps[questionId] = merged.timestamps[questionId] || Date.now();
+      });
+
+      await writeLocalAnswers({
+        ...latest,
+        answers: adopted,
+        timestamps,
+        dirty: latest.updatedAt !== record.updatedAt,
+      });
+    });
+
+    console.log("✅ Answers synced for submission:", submissionId);
+    return { status: "saved", remoteWins: merged.remoteWins };
+  } catch (error) {
+    console.error("❌ Answer sync failed:", error);
+    return { status: "failed", remoteWins: {} };
+  }
+};
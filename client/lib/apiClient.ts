@@ -0,0 +1,30 @@
+import type { ApiErrorResponse } from "@shared/api";
+import { supabase } from "./supabase";
+
+// Call one of our own /api routes with the current user's access token
+export const apiRequest = async <T>(
+  path: string,
+  init: RequestInit = {},
+): Promise<T> => {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json");
+  if (session?.access_token) {
+    headers.set("Authorization", `Bearer ${session.access_token}`);
+  }
+
+  const response = await fetch(path, { ...init, headers });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const message =
+      (body as ApiErrorResponse | null)?.error ||
+      `Request failed with status ${response.status}`;
+    throw new Error(message);
+  }
+
+  return body as T;
+};
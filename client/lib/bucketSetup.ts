@@ -14,6 +14,7 @@ export const BUCKET_CONFIG = {
       "audio/m4a",
       "audio/aac",
       "audio/ogg",
+      "audio/webm",
       "image/jpeg",
       "image/jpg",
       "image/png",
@@ -29,6 +30,12 @@ export const BUCKET_CONFIG = {
     ],
     fileSizeLimit: 104857600, // 100MB
   },
+  // Student speaking answers; read through signed URLs only
+  "speaking-recordings": {
+    public: false,
+    allowedMimeTypes: ["audio/webm", "audio/ogg", "audio/mp4", "audio/mpeg"],
+    fileSizeLimit: 52428800, // 50MB
+  },
   "profile-images": {
     public: true,
     allowedMimeTypes: [
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { toCsv } from "./csvExport";
+
+describe("toCsv", () => {
+  const columns = [
+    { header: "Name", value: (row: { name: string; band?: number }) => row.name },
+    { header: "Band", value: (row: { name: string; band?: number }) => row.band },
+  ];
+
+  it("should write a header row and one line per row", () => {
+    expect(toCsv([{ name: "Ana", band: 6.5 }], columns)).toBe(
+      "Name,Band\r\nAna,6.5",
+    );
+  });
+
+  it("should quote cells containing commas, quotes or line breaks", () => {
+    expect(toCsv([{ name: 'Lee, "Sam"\nJr' }], columns)).toBe(
+      'Name,Band\r\n"Lee, ""Sam""\nJr",',
+    );
+  });
+});
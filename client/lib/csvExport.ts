@@ -0,0 +1,29 @@
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+// Quote a cell when it contains a delimiter, quote or line break (RFC 4180)
+const escapeCsvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string =>
+  [
+    columns.map((column) => escapeCsvCell(column.header)).join(","),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCsvCell(column.value(row))).join(","),
+    ),
+  ].join("\r\n");
+
+export const downloadCsv = (filename: string, csv: string) => {
+  // The BOM makes Excel open UTF-8 names correctly
+  const blob = new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
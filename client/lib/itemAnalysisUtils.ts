@@ -0,0 +1,205 @@
+import { gradeAnswers, type GradingResult } from "@shared/grading";
+import {
+  loadGradingInput,
+  publishAnswerKeyChange,
+  type TestVersion,
+} from "@shared/testVersions";
+import { addAcceptableAnswer } from "@shared/answerMatching";
+import {
+  getHeadingNumeral,
+  parseMatchingHeadings,
+} from "@shared/matchingHeadings";
+import {
+  WORD_BANK_QUESTION_TYPE,
+  getBankLetter,
+  parseWordBankGap,
+} from "@shared/completion";
+import {
+  analyzeItems,
+  type GradedResponse,
+  type ItemQuestionMeta,
+  type ItemStats,
+} from "@shared/itemAnalysis";
+import { selectCountedRows } from "@shared/testAttempts";
+import { supabase } from "./supabase";
+import { loadAttemptScoring } from "./testProgressUtils";
+
+export interface ItemAnalysisReport {
+  submissionCount: number;
+  items: ItemStats[];
+}
+
+// Options are stored as JSON strings on older questions
+const parseOptions = (raw: any): string[] => {
+  if (Array.isArray(raw)) return raw.map(String);
+  if (typeof raw !== "string") return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+const parseGradingData = (raw: any): Partial<GradingResult> | null => {
+  if (!raw) return null;
+  if (typeof raw === "string") {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  return raw;
+};
+
+const SUBMISSION_FIELDS =
+  "id, test_id, student_id, attempt_number, status, total_score, answers, test_version_id, auto_grading_data";
+
+/**
+ * Analyze the handed-in attempt that counts for each student, item by item.
+ * Attempts not graded yet are graded against the version the student took.
+ */
+export const loadItemAnalysis = async (
+  testId: string,
+): Promise<ItemAnalysisReport> => {
+  const [
+    { data: live, error },
+    { data: archived, error: archivedError },
+    scoring,
+  ] = await Promise.all([
+    supabase
+      .from("test_submissions")
+      .select(SUBMISSION_FIELDS)
+      .eq("test_id", testId)
+      .in("status", ["submitted", "graded"]),
+    supabase
+      .from("test_attempts")
+      .select("submission_id, test_id, student_id, attempt_number, status, total_score, snapshot")
+      .eq("test_id", testId)
+      .in("status", ["submitted", "graded"]),
+    loadAttemptScoring([testId]),
+  ]);
+
+  if (error) throw error;
+  if (archivedError) {
+    // Older databases may not have the attempts table yet
+    console.warn("⚠️ Could not load previous attempts:", archivedError.message);
+  }
+
+  // Archived attempts keep the full submission row in their snapshot
+  const submissions = selectCountedRows(
+    [
+      ...(live || []),
+      ...(archived || []).map((attempt) => ({
+        id: attempt.submission_id,
+        test_id: attempt.test_id,
+        student_id: attempt.student_id,
+        attempt_number: attempt.attempt_number,
+        status: attempt.status,
+        total_score: attempt.total_score,
+        answers: attempt.snapshot?.answers,
+        test_version_id: attempt.snapshot?.test_version_id,
+        auto_grading_data: attempt.snapshot?.auto_grading_data,
+      })),
+    ],
+    scoring,
+  );
+
+  const inputs = new Map<string, ReturnType<typeof loadGradingInput>>();
+  const questions: Record<string, ItemQuestionMeta> = {};
+  const responses: GradedResponse[] = [];
+
+  for (const submission of submissions || []) {
+    const versionKey = submission.test_version_id || "live";
+    if (!inputs.has(versionKey)) {
+      inputs.set(
+        versionKey,
+        loadGradingInput(supabase, testId, submission.test_version_id),
+      );
+    }
+    const { questions: questionSet, options } = await inputs.get(versionKey)!;
+
+    [...questionSet.reading, ...questionSet.listening].forEach((question) => {
+      if (questions[question.id]) return;
+      questions[question.id] = {
+        id: question.id,
+        questionNumber: question.question_number ?? null,
+        // Headings and word bank blanks choose from the labels of one bank
+        options:
+          question.question_type === "matching_headings"
+            ? parseMatchingHeadings(question).headings.map((_, i) =>
+                getHeadingNumeral(i),
+              )
+            : question.question_type === WORD_BANK_QUESTION_TYPE
+              ? parseWordBankGap(question).words.map((_, i) => getBankLetter(i))
+              : parseOptions(question.options),
+      };
+    });
+
+    // Graded submissions keep their stored results, which include regrades
+    const stored =
+      submission.status === "graded"
+        ? parseGradingData(submission.auto_grading_data)?.detailedResults
+        : null;
+    const results = Array.isArray(stored)
+      ? stored
+      : gradeAnswers(submission.answers || {}, questionSet, options)
+          .detailedResults;
+    responses.push({ submissionId: submission.id, results });
+  }
+
+  return {
+    submissionCount: responses.length,
+    items: analyzeItems(responses, questions),
+  };
+};
+
+export interface AcceptAnswerResult {
+  // False when the key already accepted the answer
+  added: boolean;
+  // The version published with the new key; null while the test is a draft
+  version: TestVersion | null;
+}
+
+/**
+ * Add a wrong answer to a short-answer question's key and publish the new key
+ * as the next version, so new submissions accept it. Other unpublished edits
+ * stay in the draft; existing submissions keep their scores until regraded.
+ */
+export const acceptWrongAnswer = async (
+  testId: string,
+  item: Pick<ItemStats, "questionId" | "section">,
+  answer: string,
+  publishedBy?: string,
+): Promise<AcceptAnswerResult> => {
+  const table =
+    item.section === "listening" ? "listening_questions" : "reading_questions";
+
+  const { data: question, error } = await supabase
+    .from(table)
+    .select("id, correct_answer")
+    .eq("id", item.questionId)
+    .single();
+
+  if (error) throw error;
+
+  const correctAnswer = addAcceptableAnswer(question.correct_answer, answer);
+  if (correctAnswer === null) return { added: false, version: null };
+
+  const { error: updateError } = await supabase
+    .from(table)
+    .update({ correct_answer: correctAnswer })
+    .eq("id", item.questionId);
+
+  if (updateError) throw updateError;
+
+  const version = await publishAnswerKeyChange(
+    supabase,
+    testId,
+    item.questionId,
+    correctAnswer,
+    publishedBy,
+  );
+  return { added: true, version };
+};
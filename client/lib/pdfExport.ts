@@ -1,5 +1,6 @@
 import html2canvas from "html2canvas";
 import jsPDF from "jspdf";
+import { READING_MODULE_LABELS, type ReadingModule } from "@shared/grading";
 
 interface TestResult {
   id: string;
@@ -8,6 +9,8 @@ interface TestResult {
   score: number;
   max_score: number;
   band_score: number;
+  reading_module?: ReadingModule;
+  band_is_estimate?: boolean;
   date: string;
   feedback?: string;
   sections?: {
@@ -77,6 +80,11 @@ export const generateTestResultPDF = async (
         <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 15px;">
           <div><strong>Test Title:</strong> ${result.title}</div>
           <div><strong>Test Type:</strong> ${result.type}</div>
+          ${
+            result.reading_module
+              ? `<div><strong>IELTS Module:</strong> ${READING_MODULE_LABELS[result.reading_module]}</div>`
+              : ""
+          }
           <div><strong>Date Taken:</strong> ${new Date(result.date).toLocaleDateString()}</div>
           <div><strong>Time Taken:</strong> ${new Date(result.date).toLocaleTimeString()}</div>
         </div>
@@ -87,7 +95,12 @@ export const generateTestResultPDF = async (
         <h3 style="color: #374151; border-bottom: 1px solid #E5E7EB; padding-bottom: 8px; margin-bottom: 15px;">Score Summary</h3>
         <div style="background: #F3F4F6; padding: 20px; border-radius: 8px; text-align: center;">
           <div style="font-size: 36px; font-weight: bold; color: #3B82F6; margin-bottom: 5px;">${result.band_score}</div>
-          <div style="font-size: 18px; color: #6B7280; margin-bottom: 10px;">IELTS Band Score</div>
+          <div style="font-size: 18px; color: #6B7280; margin-bottom: 10px;">IELTS Band Score${result.band_is_estimate ? " (estimate)" : ""}</div>
+          ${
+            result.reading_module
+              ? `<div style="font-size: 12px; color: #6B7280; margin-bottom: 10px;">Reading converted with the ${READING_MODULE_LABELS[result.reading_module]} band table</div>`
+              : ""
+          }
           <div style="font-size: 14px; color: #6B7280;">Raw Score: ${result.score}/${result.max_score}</div>
           <div style="font-size: 14px; color: #6B7280;">Percentage: ${Math.round((result.score / result.max_score) * 100)}%</div>
         </div>
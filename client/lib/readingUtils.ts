@@ -0,0 +1,23 @@
+import { supabase } from "./supabase";
+
+export interface ReadingPassageText {
+  passage_number: number;
+  title: string | null;
+  passage_text: string | null;
+}
+
+/**
+ * Load the passages of a reading test in the order students read them
+ */
+export const loadReadingPassages = async (
+  testId: string,
+): Promise<ReadingPassageText[]> => {
+  const { data, error } = await supabase
+    .from("reading_sections")
+    .select("passage_number, title, passage_text")
+    .eq("test_id", testId)
+    .order("passage_number");
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,138 @@
+import { supabase, isDemoMode } from "./supabase";
+import type { UploadResult } from "./uploadUtils";
+
+export type SpeakingPart = 1 | 2 | 3;
+
+export interface SpeakingTask {
+  id: string;
+  test_id: string;
+  part_number: SpeakingPart;
+  task_order: number;
+  prompt: string;
+  cue_card_points?: string[] | null;
+  preparation_seconds: number;
+  response_seconds: number;
+}
+
+// Recordings are private: answers keep the storage path, and players get a
+// short-lived signed URL
+export const SPEAKING_RECORDINGS_BUCKET = "speaking-recordings";
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// A recorded answer, stored in test_submissions.answers under the task id
+export interface SpeakingResponse {
+  // Path in the speaking-recordings bucket
+  audio_path?: string;
+  // Public URL of recordings made before they were stored privately
+  audio_url?: string;
+  duration: number;
+  recorded_at: string;
+}
+
+export interface SpeakingUploadResult extends UploadResult {
+  path?: string;
+}
+
+export const SPEAKING_PARTS: Record<
+  SpeakingPart,
+  {
+    title: string;
+    description: string;
+    preparationSeconds: number;
+    responseSeconds: number;
+  }
+> = {
+  1: {
+    title: "Part 1 - Introduction and Interview",
+    description: "Short questions on familiar topics",
+    preparationSeconds: 0,
+    responseSeconds: 60,
+  },
+  2: {
+    title: "Part 2 - Long Turn",
+    description: "Cue card with 1 minute to prepare and up to 2 minutes to speak",
+    preparationSeconds: 60,
+    responseSeconds: 120,
+  },
+  3: {
+    title: "Part 3 - Discussion",
+    description: "Abstract questions linked to the Part 2 topic",
+    preparationSeconds: 0,
+    responseSeconds: 90,
+  },
+};
+
+/**
+ * Load the speaking tasks of a test in the order students answer them
+ */
+export const loadSpeakingTasks = async (
+  testId: string,
+): Promise<SpeakingTask[]> => {
+  const { data, error } = await supabase
+    .from("speaking_tasks")
+    .select("*")
+    .eq("test_id", testId)
+    .order("part_number")
+    .order("task_order");
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Upload a recorded answer into the student's folder of the private bucket
+ */
+export const uploadSpeakingRecording = async (
+  audioBlob: Blob,
+  studentId: string,
+  taskId: string,
+): Promise<SpeakingUploadResult> => {
+  if (isDemoMode()) {
+    return { success: true, url: URL.createObjectURL(audioBlob) };
+  }
+
+  const path = `${studentId}/${taskId}-${Date.now()}.webm`;
+  const { error } = await supabase.storage
+    .from(SPEAKING_RECORDINGS_BUCKET)
+    .upload(path, audioBlob, { contentType: "audio/webm", upsert: false });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  return { success: true, path };
+};
+
+/**
+ * A URL that plays the recording, or null when it cannot be signed
+ */
+export const getSpeakingRecordingUrl = async (
+  response: SpeakingResponse,
+): Promise<string | null> => {
+  if (!response.audio_path) return response.audio_url || null;
+
+  const { data, error } = await supabase.storage
+    .from(SPEAKING_RECORDINGS_BUCKET)
+    .createSignedUrl(response.audio_path, SIGNED_URL_SECONDS);
+
+  if (error) {
+    console.warn("⚠️ Could not sign speaking recording URL:", error.message);
+    return null;
+  }
+  return data.signedUrl;
+};
+
+/**
+ * Read a speaking answer, which is stored as an object or a JSON string
+ */
+export const parseSpeakingResponse = (raw: any): SpeakingResponse | null => {
+  if (!raw) return null;
+  if (typeof raw === "string") {
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed?.audio_path || parsed?.audio_url ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+  return raw.audio_path || raw.audio_url ? raw : null;
+};
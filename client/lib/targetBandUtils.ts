@@ -0,0 +1,79 @@
+import type { ScoredAttempt } from "@shared/progressAnalytics";
+import type { TargetProfile } from "@shared/targetBands";
+import { supabase } from "./supabase";
+
+const SCORE_FIELDS =
+  "student_id, status, total_score, reading_score, listening_score, writing_score, speaking_score, graded_at, submitted_at";
+
+const toScoredAttempt = (row: any): ScoredAttempt => ({
+  date: row.graded_at || row.submitted_at,
+  testTitle: "",
+  reading: row.reading_score,
+  listening: row.listening_score,
+  writing: row.writing_score,
+  speaking: row.speaking_score,
+  overall: row.total_score,
+});
+
+/**
+ * Graded results per student, including attempts archived by retakes
+ */
+export const loadScoredAttempts = async (
+  studentIds: string[],
+): Promise<Record<string, ScoredAttempt[]>> => {
+  const attemptsByStudent: Record<string, ScoredAttempt[]> = {};
+  if (studentIds.length === 0) return attemptsByStudent;
+
+  const [
+    { data: submissions, error },
+    { data: archived, error: archivedError },
+  ] = await Promise.all([
+    supabase
+      .from("test_submissions")
+      .select(SCORE_FIELDS)
+      .in("student_id", studentIds)
+      .eq("status", "graded"),
+    supabase
+      .from("test_attempts")
+      .select(SCORE_FIELDS)
+      .in("student_id", studentIds)
+      .eq("status", "graded"),
+  ]);
+
+  if (error) throw error;
+  if (archivedError) {
+    // Older databases may not have the attempts table yet
+    console.warn("⚠️ Could not load previous attempts:", archivedError.message);
+  }
+
+  [...(submissions || []), ...(archived || [])].forEach((row) => {
+    if (!attemptsByStudent[row.student_id]) {
+      attemptsByStudent[row.student_id] = [];
+    }
+    attemptsByStudent[row.student_id].push(toScoredAttempt(row));
+  });
+
+  return attemptsByStudent;
+};
+
+/**
+ * Save a student's target bands; null clears a target
+ */
+export const saveTargetProfile = async (
+  userId: string,
+  target: TargetProfile,
+) => {
+  const { data, error } = await supabase
+    .from("profiles")
+    .update({
+      target_overall_band: target.overall,
+      target_min_band: target.minimum,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
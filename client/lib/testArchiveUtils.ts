@@ -0,0 +1,41 @@
+import type { DeleteTestResponse } from "@shared/api";
+import { supabase } from "./supabase";
+import { apiRequest } from "./apiClient";
+
+/**
+ * Archive a test: students no longer see it, but its submissions are kept
+ */
+export const archiveTest = async (testId: string, userId?: string) => {
+  const { error } = await supabase
+    .from("tests")
+    .update({
+      archived_at: new Date().toISOString(),
+      archived_by: userId || null,
+    })
+    .eq("id", testId);
+
+  if (error) throw error;
+};
+
+/**
+ * Bring an archived test back with its previous status
+ */
+export const restoreTest = async (testId: string) => {
+  const { error } = await supabase
+    .from("tests")
+    .update({ archived_at: null, archived_by: null })
+    .eq("id", testId);
+
+  if (error) throw error;
+};
+
+/**
+ * Permanently delete an archived test and all of its data.
+ * Runs on the server in a single transaction, so a failure removes nothing.
+ */
+export const deleteTestPermanently = async (
+  testId: string,
+): Promise<DeleteTestResponse> =>
+  apiRequest<DeleteTestResponse>(`/api/tests/${testId}`, {
+    method: "DELETE",
+  });
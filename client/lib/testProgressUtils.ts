@@ -1,4 +1,25 @@
+import type {
+  ExamContentResponse,
+  ExamTimerResponse,
+  GradeSubmissionRequest,
+  GradeSubmissionResponse,
+  GradingPreviewResponse,
+  ManualGradeRequest,
+  ManualGradeResponse,
+  RegradePreviewResponse,
+  RegradeRequest,
+  RegradeResponse,
+  StartExamTimerRequest,
+  StartRetakeResponse,
+} from '@shared/api';
+import type { GradingResult } from '@shared/grading';
+import {
+  parseAttemptPolicy,
+  type AttemptScoring,
+  type AttemptSummary
+} from '@shared/testAttempts';
 import { supabase } from './supabase';
+import { apiRequest } from './apiClient';
 
 export interface TestProgress {
   testId: string;
@@ -9,7 +30,7 @@ export interface TestProgress {
 }
 
 export interface SectionStatus {
-  type: 'reading' | 'listening' | 'writing';
+  type: 'reading' | 'listening' | 'writing' | 'speaking';
   status: 'not_started' | 'in_progress' | 'completed';
   completedAt?: string;
 }
@@ -20,7 +41,7 @@ export interface SectionStatus {
 export const markSectionCompleted = async (
   testId: string,
   studentId: string,
-  sectionType: 'reading' | 'listening' | 'writing'
+  sectionType: 'reading' | 'listening' | 'writing' | 'speaking'
 ): Promise<boolean> => {
   try {
     // Get current submission
@@ -155,10 +176,11 @@ export const getSectionStatuses = async (
     if (!progress) return [];
 
     // Check which sections exist for this test
-    const [readingSections, listeningSections, writingSections] = await Promise.all([
+    const [readingSections, listeningSections, writingSections, speakingTasks] = await Promise.all([
       supabase.from('reading_sections').select('id').eq('test_id', testId),
       supabase.from('listening_sections').select('id').eq('test_id', testId),
-      supabase.from('writing_tasks').select('id').eq('test_id', testId)
+      supabase.from('writing_tasks').select('id').eq('test_id', testId),
+      supabase.from('speaking_tasks').select('id').eq('test_id', testId)
     ]);
 
     const sections: SectionStatus[] = [];
@@ -184,6 +206,13 @@ export const getSectionStatuses = async (
       });
     }
 
+    if (speakingTasks.data && speakingTasks.data.length > 0) {
+      sections.push({
+        type: 'speaking',
+        status: progress.completedSections.includes('speaking') ? 'completed' : 'not_started'
+      });
+    }
+
     return sections;
   } catch (error) {
     console.error('Error getting section statuses:', error);
@@ -208,29 +237,167 @@ export const isAllSectionsCompleted = async (
 export const isSectionCompleted = async (
   testId: string,
   studentId: string,
-  sectionType: 'reading' | 'listening' | 'writing'
+  sectionType: 'reading' | 'listening' | 'writing' | 'speaking'
 ): Promise<boolean> => {
   const progress = await getTestProgress(testId, studentId);
   return progress?.completedSections.includes(sectionType) || false;
 };
 
 /**
- * Trigger auto-grading for a submission to generate submission_data
+ * Ask the grading API to grade a submission and store submission_data
  */
 export const triggerAutoGrading = async (submissionId: string): Promise<boolean> => {
   try {
-    // Import auto-grading functions
-    const { autoGradeSubmission, saveAutoGradedResults } = await import('./autoGrading');
-    
-    // Run auto-grading
-    const gradingResult = await autoGradeSubmission(submissionId);
-    
-    // Save the results (this will create submission_data)
-    await saveAutoGradedResults(submissionId, gradingResult, 'system');
-    
+    const request: GradeSubmissionRequest = { submissionId };
+    await apiRequest<GradeSubmissionResponse>('/api/grading/submissions', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+
     return true;
   } catch (error) {
     console.error('Error triggering auto-grading:', error);
     return false;
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Grade a submission on the server for an admin to review; nothing is saved
+ */
+export const previewGrading = async (submissionId: string): Promise<GradingResult> => {
+  const request: GradeSubmissionRequest = { submissionId };
+  const response = await apiRequest<GradingPreviewResponse>('/api/grading/submissions/preview', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+  return response.result;
+};
+
+/**
+ * Save a teacher's marks; score columns can only be written through the server
+ */
+export const saveManualGrades = async (
+  submissionId: string,
+  grades: Record<string, any>,
+  status?: string
+): Promise<ManualGradeResponse> => {
+  const request: ManualGradeRequest = { submissionId, grades, status };
+  return apiRequest<ManualGradeResponse>('/api/grading/submissions/manual', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+};
+
+/**
+ * Which graded submissions a regrade would change; nothing is saved
+ */
+export const previewRegrade = async (
+  testId: string,
+  request: RegradeRequest
+): Promise<RegradePreviewResponse> =>
+  apiRequest<RegradePreviewResponse>(`/api/tests/${testId}/regrade/preview`, {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+
+/**
+ * Regrade and save; students whose scores change are notified
+ */
+export const applyRegrade = async (
+  testId: string,
+  request: RegradeRequest
+): Promise<RegradeResponse> =>
+  apiRequest<RegradeResponse>(`/api/tests/${testId}/regrade`, {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+
+/**
+ * The sections and questions of a test as the student sees them: those of the
+ * version they are taking, without answer keys
+ */
+export const loadExamContent = async (
+  testId: string,
+  signal?: AbortSignal
+): Promise<ExamContentResponse> =>
+  apiRequest<ExamContentResponse>(`/api/tests/${testId}/exam-content`, { signal });
+
+/**
+ * Start (or resume) the server-side exam clock for a submission
+ */
+export const startExamTimer = async (submissionId: string): Promise<ExamTimerResponse> => {
+  const request: StartExamTimerRequest = { submissionId };
+  return apiRequest<ExamTimerResponse>('/api/exam-timer/start', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+};
+
+/**
+ * Every attempt a student made at a test: archived attempts plus the live submission
+ */
+export const getStudentAttempts = async (
+  testId: string,
+  studentId: string
+): Promise<AttemptSummary[]> => {
+  const [{ data: archived, error: archivedError }, { data: submission }] = await Promise.all([
+    supabase
+      .from('test_attempts')
+      .select('attempt_number, status, total_score, submitted_at')
+      .eq('test_id', testId)
+      .eq('student_id', studentId),
+    supabase
+      .from('test_submissions')
+      .select('attempt_number, status, total_score, submitted_at')
+      .eq('test_id', testId)
+      .eq('student_id', studentId)
+      .maybeSingle()
+  ]);
+
+  if (archivedError) {
+    // Older databases may not have the attempts table yet
+    console.warn('⚠️ Could not load previous attempts:', archivedError.message);
+  }
+
+  const rows = [...(archived || []), ...(submission ? [submission] : [])];
+  return rows
+    .map((row) => ({
+      attemptNumber: row.attempt_number || 1,
+      status: row.status,
+      totalScore: row.total_score,
+      submittedAt: row.submitted_at
+    }))
+    .sort((a, b) => a.attemptNumber - b.attemptNumber);
+};
+
+/**
+ * Which attempt counts (best, latest or first) for each of the given tests
+ */
+export const loadAttemptScoring = async (
+  testIds: string[]
+): Promise<Record<string, AttemptScoring>> => {
+  if (testIds.length === 0) return {};
+
+  const { data: tests, error } = await supabase
+    .from('tests')
+    .select('id, attempt_scoring')
+    .in('id', testIds);
+
+  if (error) {
+    console.warn('⚠️ Could not load attempt scoring, counting latest attempts:', error.message);
+    return {};
+  }
+
+  return Object.fromEntries(
+    (tests || []).map((test) => [test.id, parseAttemptPolicy(test).scoring])
+  );
+};
+
+/**
+ * Archive the finished attempt so the student can take the test again.
+ * The server checks the test's attempt limit and cooldown.
+ */
+export const startRetake = async (testId: string): Promise<StartRetakeResponse> =>
+  apiRequest<StartRetakeResponse>(`/api/tests/${testId}/retake`, {
+    method: 'POST',
+  });
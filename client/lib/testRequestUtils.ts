@@ -0,0 +1,158 @@
+import {
+  evaluateApprovalPolicy,
+  type ApprovalPolicy,
+  type DecisionRule,
+} from "@shared/approvalPolicies";
+import type { StudentClass } from "@/hooks/use-student-classes";
+import { supabase } from "./supabase";
+
+/**
+ * Approve or reject several pending requests at once.
+ * Requests decided in the meantime are left untouched.
+ * Returns the number of requests that changed.
+ */
+export const decideTestRequests = async (
+  requestIds: string[],
+  action: "approve" | "reject",
+  options: { adminId?: string; rule?: DecisionRule; reason?: string },
+): Promise<number> => {
+  if (requestIds.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from("test_requests")
+    .update({
+      status: action === "approve" ? "approved" : "rejected",
+      approved_at: new Date().toISOString(),
+      approved_by: options.adminId || null,
+      decision_rule: options.rule || "manual_bulk",
+      rejection_reason:
+        action === "reject" && options.reason ? options.reason : null,
+    })
+    .in("id", requestIds)
+    .eq("status", "pending")
+    .select("id");
+
+  if (error) throw error;
+  return data?.length || 0;
+};
+
+/**
+ * Auto-approval policies of the signed-in admin's edu center
+ */
+export const fetchApprovalPolicies = async (): Promise<ApprovalPolicy[]> => {
+  const { data, error } = await supabase
+    .from("test_approval_policies")
+    .select("*");
+
+  if (error) {
+    // Older databases may not have the policies table yet
+    console.warn("⚠️ Could not load approval policies:", error.message);
+    return [];
+  }
+
+  return data || [];
+};
+
+/**
+ * Create or replace the policy of a test (one policy per test)
+ */
+export const saveApprovalPolicy = async (
+  policy: ApprovalPolicy,
+  eduCenterId: string,
+  adminId?: string,
+) => {
+  const { error } = await supabase.from("test_approval_policies").upsert(
+    {
+      test_id: policy.test_id,
+      edu_center_id: eduCenterId,
+      mode: policy.mode,
+      class_id: policy.mode === "class" ? policy.class_id : null,
+      max_attempts: policy.mode === "max_attempts" ? policy.max_attempts : null,
+      updated_by: adminId || null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "test_id" },
+  );
+
+  if (error) throw error;
+};
+
+export const deleteApprovalPolicy = async (testId: string) => {
+  const { error } = await supabase
+    .from("test_approval_policies")
+    .delete()
+    .eq("test_id", testId);
+
+  if (error) throw error;
+};
+
+/**
+ * Run a policy over requests that were already pending when it was saved.
+ * New requests are handled by the database trigger instead.
+ * Returns the number of requests approved.
+ */
+export const applyPolicyToPending = async (
+  policy: ApprovalPolicy,
+  pending: { id: string; student_id: string }[],
+  classes: StudentClass[],
+  adminId?: string,
+): Promise<number> => {
+  if (pending.length === 0) return 0;
+
+  const studentIds = pending.map((request) => request.student_id);
+  const [
+    { data: submissions, error },
+    { data: archivedAttempts },
+  ] = await Promise.all([
+    supabase
+      .from("test_submissions")
+      .select("student_id")
+      .eq("test_id", policy.test_id)
+      .in("student_id", studentIds),
+    supabase
+      .from("test_attempts")
+      .select("student_id")
+      .eq("test_id", policy.test_id)
+      .in("student_id", studentIds),
+  ]);
+
+  if (error) throw error;
+
+  // Archived retakes count as attempts too
+  const attempts: Record<string, number> = {};
+  [...(submissions || []), ...(archivedAttempts || [])].forEach((row) => {
+    attempts[row.student_id] = (attempts[row.student_id] || 0) + 1;
+  });
+
+  let approved = 0;
+  for (const request of pending) {
+    const classNames: Record<string, string> = {};
+    classes
+      .filter((c) => c.student_ids.includes(request.student_id))
+      .forEach((c) => (classNames[c.id] = c.name));
+
+    const decision = evaluateApprovalPolicy(policy, {
+      classNames,
+      attemptCount: attempts[request.student_id] || 0,
+    });
+    if (!decision) continue;
+
+    const { data, error: updateError } = await supabase
+      .from("test_requests")
+      .update({
+        status: "approved",
+        approved_at: new Date().toISOString(),
+        approved_by: adminId || null,
+        decision_rule: decision.rule,
+        decision_detail: decision.detail,
+      })
+      .eq("id", request.id)
+      .eq("status", "pending")
+      .select("id");
+
+    if (updateError) throw updateError;
+    approved += data?.length || 0;
+  }
+
+  return approved;
+};
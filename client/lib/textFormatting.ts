@@ -32,6 +32,11 @@ export const formatPassageText = (text: string): string => {
         /\[heading\](.*?)\[\/heading\]/g,
         '<h3 class="text-lg font-semibold mt-4 mb-2">$1</h3>',
       )
+      // Convert [para:A] paragraph markers to bold paragraph labels
+      .replace(
+        /\[para:([A-Za-z0-9]+)\]/g,
+        '<strong class="mr-2">$1</strong>',
+      )
       // Convert line breaks to paragraph breaks
       .split("\n")
       .filter((line) => line.trim() !== "")
@@ -0,0 +1,561 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { motion } from "framer-motion";
+import {
+  Users,
+  Plus,
+  Edit,
+  Trash2,
+  Send,
+  Download,
+  ClipboardList,
+  GraduationCap,
+} from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { parseError, logError } from "@/lib/errorUtils";
+import { downloadCsv, toCsv } from "@/lib/csvExport";
+import {
+  useStudentClasses,
+  type StudentClass,
+} from "@/hooks/use-student-classes";
+import AssignTestDialog from "@/components/admin/AssignTestDialog";
+
+interface Person {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+const NO_TEACHER = "none";
+
+const Classes: React.FC = () => {
+  const { user } = useAuth();
+  const { classes, loading, reload } = useStudentClasses();
+  const [students, setStudents] = useState<Person[]>([]);
+  const [teachers, setTeachers] = useState<Person[]>([]);
+
+  // Create / edit dialog
+  const [editingClass, setEditingClass] = useState<StudentClass | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [formName, setFormName] = useState("");
+  const [formDescription, setFormDescription] = useState("");
+  const [formTeacherId, setFormTeacherId] = useState(NO_TEACHER);
+  const [formMembers, setFormMembers] = useState<Set<string>>(new Set());
+  const [memberSearch, setMemberSearch] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Bulk actions
+  const [assignClassId, setAssignClassId] = useState<string | null>(null);
+  const [messageClass, setMessageClass] = useState<StudentClass | null>(null);
+  const [messageTitle, setMessageTitle] = useState("");
+  const [messageBody, setMessageBody] = useState("");
+
+  useEffect(() => {
+    if (!user?.edu_center_id) return;
+
+    const loadPeople = async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, first_name, last_name, email, role")
+        .eq("edu_center_id", user.edu_center_id)
+        .in("role", ["student", "edu_admin"])
+        .order("last_name");
+
+      if (error) {
+        console.warn("Could not load profiles:", error.message);
+        return;
+      }
+
+      setStudents((data || []).filter((p) => p.role === "student"));
+      setTeachers((data || []).filter((p) => p.role === "edu_admin"));
+    };
+
+    loadPeople();
+  }, [user?.edu_center_id]);
+
+  const getPersonName = (people: Person[], id?: string | null) => {
+    const person = people.find((p) => p.id === id);
+    return person ? `${person.first_name} ${person.last_name}` : null;
+  };
+
+  const openForm = (studentClass: StudentClass | null) => {
+    setEditingClass(studentClass);
+    setFormName(studentClass?.name || "");
+    setFormDescription(studentClass?.description || "");
+    setFormTeacherId(studentClass?.teacher_id || NO_TEACHER);
+    setFormMembers(new Set(studentClass?.student_ids || []));
+    setMemberSearch("");
+    setFormOpen(true);
+  };
+
+  const toggleMember = (studentId: string) => {
+    setFormMembers((prev) => {
+      const next = new Set(prev);
+      if (next.has(studentId)) next.delete(studentId);
+      else next.add(studentId);
+      return next;
+    });
+  };
+
+  const handleSaveClass = async () => {
+    if (!formName.trim()) {
+      toast.error("Give the class a name");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        name: formName.trim(),
+        description: formDescription.trim() || null,
+        teacher_id: formTeacherId === NO_TEACHER ? null : formTeacherId,
+      };
+
+      let classId = editingClass?.id;
+      if (classId) {
+        const { error } = await supabase
+          .from("student_classes")
+          .update(values)
+          .eq("id", classId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from("student_classes")
+          .insert({
+            ...values,
+            edu_center_id: user?.edu_center_id,
+            created_by: user?.id,
+          })
+          .select("id")
+          .single();
+        if (error) throw error;
+        classId = data.id;
+      }
+
+      // Sync membership: add new members, remove unticked ones
+      const previous = new Set(editingClass?.student_ids || []);
+      const added = [...formMembers].filter((id) => !previous.has(id));
+      const removed = [...previous].filter((id) => !formMembers.has(id));
+
+      if (added.length > 0) {
+        const { error } = await supabase
+          .from("student_class_members")
+          .insert(added.map((studentId) => ({ class_id: classId, student_id: studentId })));
+        if (error) throw error;
+      }
+
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from("student_class_members")
+          .delete()
+          .eq("class_id", classId)
+          .in("student_id", removed);
+        if (error) throw error;
+      }
+
+      toast.success(editingClass ? "Class updated" : "Class created");
+      setFormOpen(false);
+      await reload();
+    } catch (error: any) {
+      logError("handleSaveClass", error);
+      toast.error(`Failed to save class: ${parseError(error)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteClass = async (studentClass: StudentClass) => {
+    if (
+      !window.confirm(
+        `Delete the class "${studentClass.name}"? Students and their results are not affected.`,
+      )
+    ) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("student_classes")
+      .delete()
+      .eq("id", studentClass.id);
+
+    if (error) {
+      logError("handleDeleteClass", error);
+      toast.error(`Failed to delete class: ${parseError(error)}`);
+      return;
+    }
+
+    toast.success("Class deleted");
+    await reload();
+  };
+
+  const handleSendMessage = async () => {
+    if (!messageClass || !messageTitle.trim() || !messageBody.trim()) {
+      toast.error("Enter a title and a message");
+      return;
+    }
+
+    if (messageClass.student_ids.length === 0) {
+      toast.error("This class has no students");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("notifications").insert(
+        messageClass.student_ids.map((studentId) => ({
+          user_id: studentId,
+          title: messageTitle.trim(),
+          message: messageBody.trim(),
+          type: "general",
+          read: false,
+        })),
+      );
+
+      if (error) throw error;
+
+      toast.success(
+        `Message sent to ${messageClass.student_ids.length} students`,
+      );
+      setMessageClass(null);
+      setMessageTitle("");
+      setMessageBody("");
+    } catch (error: any) {
+      logError("handleSendMessage", error);
+      toast.error(`Failed to send message: ${parseError(error)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExportResults = async (studentClass: StudentClass) => {
+    if (studentClass.student_ids.length === 0) {
+      toast.error("This class has no students");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("test_submissions")
+      .select(
+        "student_id, status, submitted_at, reading_score, listening_score, writing_score, speaking_score, total_score, test:tests (title)",
+      )
+      .in("student_id", studentClass.student_ids)
+      .order("submitted_at", { ascending: false });
+
+    if (error) {
+      logError("handleExportResults", error);
+      toast.error(`Failed to export results: ${parseError(error)}`);
+      return;
+    }
+
+    const rows = (data || []) as any[];
+    const csv = toCsv(rows, [
+      {
+        header: "Student",
+        value: (row) => getPersonName(students, row.student_id) || "Unknown",
+      },
+      {
+        header: "Email",
+        value: (row) => students.find((s) => s.id === row.student_id)?.email,
+      },
+      { header: "Test", value: (row) => row.test?.title },
+      { header: "Status", value: (row) => row.status },
+      {
+        header: "Submitted",
+        value: (row) =>
+          row.submitted_at ? new Date(row.submitted_at).toISOString() : "",
+      },
+      { header: "Reading", value: (row) => row.reading_score },
+      { header: "Listening", value: (row) => row.listening_score },
+      { header: "Writing", value: (row) => row.writing_score },
+      { header: "Speaking", value: (row) => row.speaking_score },
+      { header: "Overall", value: (row) => row.total_score },
+    ]);
+
+    const slug = studentClass.name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    downloadCsv(`${slug}-results.csv`, csv);
+    toast.success(`Exported ${rows.length} results`);
+  };
+
+  const filteredStudents = students.filter((student) =>
+    `${student.first_name} ${student.last_name} ${student.email}`
+      .toLowerCase()
+      .includes(memberSearch.toLowerCase()),
+  );
+
+  return (
+    <div className="container mx-auto p-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="mb-8 flex items-start justify-between"
+      >
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Classes</h1>
+          <p className="text-muted-foreground">
+            Group students into classes to assign tests, send messages and
+            export results
+          </p>
+        </div>
+        <Button onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Class
+        </Button>
+      </motion.div>
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[300px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : classes.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">No classes yet</h3>
+            <p className="text-muted-foreground">
+              Create a class to group your students
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {classes.map((studentClass, index) => (
+            <motion.div
+              key={studentClass.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.05 * index }}
+            >
+              <Card className="h-full">
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <CardTitle className="text-lg">
+                        {studentClass.name}
+                      </CardTitle>
+                      {studentClass.description && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {studentClass.description}
+                        </p>
+                      )}
+                    </div>
+                    <Badge variant="secondary">
+                      {studentClass.student_ids.length} students
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <GraduationCap className="h-4 w-4" />
+                    {getPersonName(teachers, studentClass.teacher_id) ||
+                      "No teacher assigned"}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => setAssignClassId(studentClass.id)}
+                    >
+                      <ClipboardList className="h-4 w-4 mr-2" />
+                      Assign Test
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setMessageClass(studentClass)}
+                    >
+                      <Send className="h-4 w-4 mr-2" />
+                      Message
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleExportResults(studentClass)}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Export Results
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => openForm(studentClass)}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDeleteClass(studentClass)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))}
+        </div>
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingClass ? "Edit Class" : "New Class"}</DialogTitle>
+            <DialogDescription>
+              A student can belong to more than one class.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="class_name">Name</Label>
+              <Input
+                id="class_name"
+                placeholder="e.g. Evening IELTS 6.5 target"
+                value={formName}
+                onChange={(e) => setFormName(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="class_description">Description (optional)</Label>
+              <Textarea
+                id="class_description"
+                value={formDescription}
+                onChange={(e) => setFormDescription(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Teacher</Label>
+              <Select value={formTeacherId} onValueChange={setFormTeacherId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEACHER}>No teacher</SelectItem>
+                  {teachers.map((teacher) => (
+                    <SelectItem key={teacher.id} value={teacher.id}>
+                      {teacher.first_name} {teacher.last_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Students ({formMembers.size} selected)</Label>
+              <Input
+                placeholder="Search students..."
+                value={memberSearch}
+                onChange={(e) => setMemberSearch(e.target.value)}
+                className="my-2"
+              />
+              <ScrollArea className="h-48 border rounded-md p-2">
+                {filteredStudents.map((student) => (
+                  <label
+                    key={student.id}
+                    className="flex items-center gap-2 p-2 rounded hover:bg-gray-50 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={formMembers.has(student.id)}
+                      onCheckedChange={() => toggleMember(student.id)}
+                    />
+                    <span className="text-sm">
+                      {student.first_name} {student.last_name}
+                    </span>
+                    <span className="text-xs text-muted-foreground ml-auto">
+                      {student.email}
+                    </span>
+                  </label>
+                ))}
+              </ScrollArea>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveClass} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Message Dialog */}
+      <Dialog
+        open={!!messageClass}
+        onOpenChange={(open) => !open && setMessageClass(null)}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Message {messageClass?.name}</DialogTitle>
+            <DialogDescription>
+              Sent as a notification to every student in the class.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="message_title">Title</Label>
+              <Input
+                id="message_title"
+                value={messageTitle}
+                onChange={(e) => setMessageTitle(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="message_body">Message</Label>
+              <Textarea
+                id="message_body"
+                value={messageBody}
+                onChange={(e) => setMessageBody(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMessageClass(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSendMessage} disabled={saving}>
+              {saving ? "Sending..." : "Send"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AssignTestDialog
+        open={!!assignClassId}
+        onOpenChange={(open) => !open && setAssignClassId(null)}
+        classId={assignClassId || undefined}
+      />
+    </div>
+  );
+};
+
+export default Classes;
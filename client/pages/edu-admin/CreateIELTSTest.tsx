@@ -5,10 +5,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
 import {
   BookOpen,
   Headphones,
   PenTool,
+  Mic,
   CheckCircle2,
   AlertCircle,
   Clock,
@@ -16,9 +18,24 @@ import {
   Edit,
   Send,
   ArrowLeft,
+  RotateCcw,
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
+import { READING_MODULE_LABELS, type ReadingModule } from "@shared/grading";
+import { SPEAKING_PARTS, type SpeakingPart } from "@/lib/speakingUtils";
+import TestVersionsPanel from "@/components/test-creation/TestVersionsPanel";
+import { publishTestVersion } from "@shared/testVersions";
+import {
+  LATE_SUBMISSION_POLICY_LABELS,
+  parseLatePolicy,
+  type LateSubmissionPolicy,
+} from "@shared/examTimer";
+import {
+  ATTEMPT_SCORING_LABELS,
+  parseAttemptPolicy,
+  type AttemptScoring,
+} from "@shared/testAttempts";
 
 interface TestSection {
   id: string;
@@ -49,6 +66,10 @@ interface TestStructure {
     tasks: SubSection[];
     completed: boolean;
   };
+  speaking: {
+    parts: SubSection[];
+    completed: boolean;
+  };
 }
 
 const CreateIELTSTest: React.FC = () => {
@@ -114,11 +135,21 @@ const CreateIELTSTest: React.FC = () => {
       ],
       completed: false,
     },
+    speaking: {
+      parts: ([1, 2, 3] as SpeakingPart[]).map((part) => ({
+        id: `s${part}`,
+        name: SPEAKING_PARTS[part].title,
+        completed: false,
+        questionCount: 0,
+      })),
+      completed: false,
+    },
   });
 
   const [isPublishing, setIsPublishing] = useState(false);
   const [message, setMessage] = useState({ type: "", content: "" });
   const [loading, setLoading] = useState(true);
+  const [versionReloadKey, setVersionReloadKey] = useState(0);
 
   useEffect(() => {
     if (testId) {
@@ -201,6 +232,21 @@ const CreateIELTSTest: React.FC = () => {
         console.warn("Writing tasks table not ready:", err);
       }
 
+      // Check speaking tasks (with fallback)
+      let speakingTasks: any[] = [];
+      try {
+        const { data, error } = await supabase
+          .from("speaking_tasks")
+          .select("id, part_number")
+          .eq("test_id", testId);
+
+        if (!error) {
+          speakingTasks = data || [];
+        }
+      } catch (err) {
+        console.warn("Speaking tasks table not ready:", err);
+      }
+
       // Update structure based on existing data
       setTestStructure((prev) => ({
         ...prev,
@@ -234,6 +280,22 @@ const CreateIELTSTest: React.FC = () => {
           })),
           completed: writingTasks?.length === 2,
         },
+        speaking: {
+          ...prev.speaking,
+          parts: prev.speaking.parts.map((part, index) => {
+            const partTasks = speakingTasks.filter(
+              (st) => st.part_number === index + 1,
+            );
+            return {
+              ...part,
+              completed: partTasks.length > 0,
+              questionCount: partTasks.length,
+            };
+          }),
+          completed: [1, 2, 3].every((partNumber) =>
+            speakingTasks.some((st) => st.part_number === partNumber),
+          ),
+        },
       }));
     } catch (error) {
       console.error("Error checking existing sections:", error);
@@ -248,6 +310,8 @@ const CreateIELTSTest: React.FC = () => {
       testStructure.listening.sections.filter((s) => s.completed).length / 4;
     const writingProgress =
       testStructure.writing.tasks.filter((t) => t.completed).length / 2;
+    const speakingProgress =
+      testStructure.speaking.parts.filter((p) => p.completed).length / 3;
 
     switch (type) {
       case "reading":
@@ -256,6 +320,8 @@ const CreateIELTSTest: React.FC = () => {
         return Math.round(listeningProgress * 100);
       case "writing":
         return Math.round(writingProgress * 100);
+      case "speaking":
+        return Math.round(speakingProgress * 100);
       case "full":
       default:
         return Math.round(
@@ -283,6 +349,10 @@ const CreateIELTSTest: React.FC = () => {
         // At least one writing task completed
         return testStructure.writing.tasks.some((t) => t.completed);
 
+      case "speaking":
+        // At least one speaking part completed
+        return testStructure.speaking.parts.some((p) => p.completed);
+
       case "full":
       default:
         // All sections must be completed for full test
@@ -294,6 +364,78 @@ const CreateIELTSTest: React.FC = () => {
     }
   };
 
+  const updateReadingModule = async (module: ReadingModule) => {
+    if (!currentTest || currentTest.ielts_module === module) return;
+
+    try {
+      const { error } = await supabase
+        .from("tests")
+        .update({ ielts_module: module })
+        .eq("id", currentTest.id);
+
+      if (error) throw error;
+
+      setCurrentTest({ ...currentTest, ielts_module: module });
+    } catch (error: any) {
+      console.error("Error updating IELTS module:", error?.message || error);
+      setMessage({
+        type: "error",
+        content: `Failed to change the IELTS module: ${error?.message || "Unknown error"}`,
+      });
+    }
+  };
+
+  const updateLatePolicy = async (policy: LateSubmissionPolicy) => {
+    if (!currentTest || currentTest.late_submission_policy === policy) return;
+
+    try {
+      const { error } = await supabase
+        .from("tests")
+        .update({ late_submission_policy: policy })
+        .eq("id", currentTest.id);
+
+      if (error) throw error;
+
+      setCurrentTest({ ...currentTest, late_submission_policy: policy });
+    } catch (error: any) {
+      console.error("Error updating late policy:", error?.message || error);
+      setMessage({
+        type: "error",
+        content: `Failed to change the late submission policy: ${error?.message || "Unknown error"}`,
+      });
+    }
+  };
+
+  const updateAttemptSettings = async (
+    settings: Partial<{
+      max_attempts: number | null;
+      retake_cooldown_hours: number;
+      attempt_scoring: AttemptScoring;
+    }>,
+  ) => {
+    if (!currentTest) return;
+
+    try {
+      const { error } = await supabase
+        .from("tests")
+        .update(settings)
+        .eq("id", currentTest.id);
+
+      if (error) throw error;
+
+      setCurrentTest({ ...currentTest, ...settings });
+    } catch (error: any) {
+      console.error(
+        "Error updating attempt settings:",
+        error?.message || error,
+      );
+      setMessage({
+        type: "error",
+        content: `Failed to change the attempt settings: ${error?.message || "Unknown error"}`,
+      });
+    }
+  };
+
   const publishTest = async () => {
     if (!currentTest || !canPublish()) return;
 
@@ -301,6 +443,13 @@ const CreateIELTSTest: React.FC = () => {
     setMessage({ type: "", content: "" });
 
     try {
+      // Freeze the questions first so new submissions are pinned to this version
+      const version = await publishTestVersion(
+        supabase,
+        currentTest.id,
+        user?.id,
+      );
+
       const { error } = await supabase
         .from("tests")
         .update({
@@ -310,10 +459,13 @@ const CreateIELTSTest: React.FC = () => {
 
       if (error) throw error;
 
+      setVersionReloadKey((key) => key + 1);
       setMessage({
         type: "success",
         content:
-          "Test published successfully! Students can now apply to take this test.",
+          version.version_number > 1
+            ? `Version ${version.version_number} published. Existing submissions keep the version they were taken on.`
+            : "Test published successfully! Students can now apply to take this test.",
       });
 
       setTimeout(() => {
@@ -359,6 +511,13 @@ const CreateIELTSTest: React.FC = () => {
     );
   }
 
+  const readingModule: ReadingModule =
+    currentTest.ielts_module === "general_training"
+      ? "general_training"
+      : "academic";
+  const latePolicy = parseLatePolicy(currentTest.late_submission_policy);
+  const attemptPolicy = parseAttemptPolicy(currentTest);
+
   return (
     <div className="p-6 max-w-7xl mx-auto">
       <div className="mb-8">
@@ -397,7 +556,9 @@ const CreateIELTSTest: React.FC = () => {
               ) : (
                 <>
                   <Send className="h-4 w-4 mr-2" />
-                  Publish Test
+                  {currentTest.status === "published"
+                    ? "Publish New Version"
+                    : "Publish Test"}
                 </>
               )}
             </Button>
@@ -405,6 +566,79 @@ const CreateIELTSTest: React.FC = () => {
         </div>
 
         <Progress value={getCompletionPercentage()} className="w-full" />
+
+        <div className="flex items-center gap-3 mt-4">
+          <Clock className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm text-muted-foreground">
+            After the time limit:
+          </span>
+          {(
+            Object.keys(LATE_SUBMISSION_POLICY_LABELS) as LateSubmissionPolicy[]
+          ).map((policy) => (
+            <Button
+              key={policy}
+              size="sm"
+              variant={latePolicy === policy ? "default" : "outline"}
+              onClick={() => updateLatePolicy(policy)}
+            >
+              {LATE_SUBMISSION_POLICY_LABELS[policy]}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mt-3">
+          <RotateCcw className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm text-muted-foreground">Max attempts:</span>
+          <Input
+            key={`max-${attemptPolicy.maxAttempts}`}
+            type="number"
+            min={1}
+            placeholder="No limit"
+            defaultValue={attemptPolicy.maxAttempts ?? ""}
+            className="w-24 h-8"
+            onBlur={(e) => {
+              const value = parseInt(e.target.value, 10);
+              const maxAttempts = value > 0 ? value : null;
+              if (maxAttempts !== attemptPolicy.maxAttempts) {
+                updateAttemptSettings({ max_attempts: maxAttempts });
+              }
+            }}
+          />
+          <span className="text-sm text-muted-foreground">
+            Hours between attempts:
+          </span>
+          <Input
+            key={`cooldown-${attemptPolicy.cooldownHours}`}
+            type="number"
+            min={0}
+            defaultValue={attemptPolicy.cooldownHours}
+            className="w-20 h-8"
+            onBlur={(e) => {
+              const cooldownHours = Math.max(parseInt(e.target.value, 10) || 0, 0);
+              if (cooldownHours !== attemptPolicy.cooldownHours) {
+                updateAttemptSettings({ retake_cooldown_hours: cooldownHours });
+              }
+            }}
+          />
+          <span className="text-sm text-muted-foreground">Score counts:</span>
+          {(Object.keys(ATTEMPT_SCORING_LABELS) as AttemptScoring[]).map(
+            (scoring) => (
+              <Button
+                key={scoring}
+                size="sm"
+                variant={
+                  attemptPolicy.scoring === scoring ? "default" : "outline"
+                }
+                onClick={() =>
+                  attemptPolicy.scoring !== scoring &&
+                  updateAttemptSettings({ attempt_scoring: scoring })
+                }
+              >
+                {ATTEMPT_SCORING_LABELS[scoring]}
+              </Button>
+            ),
+          )}
+        </div>
       </div>
 
       {message.content && (
@@ -427,7 +661,9 @@ const CreateIELTSTest: React.FC = () => {
               </div>
               <div>
                 <div className="flex items-center gap-3">
-                  <span>Academic Reading Section</span>
+                  <span>
+                    {READING_MODULE_LABELS[readingModule]} Reading Section
+                  </span>
                   {testStructure.reading.completed ? (
                     <Badge className="bg-green-100 text-green-800">
                       <CheckCircle2 className="h-3 w-3 mr-1" />
@@ -447,10 +683,24 @@ const CreateIELTSTest: React.FC = () => {
                 </div>
                 <p className="text-sm text-muted-foreground font-normal">
                   {currentTest.type === "reading"
-                    ? "60 minutes • Up to 3 academic passages • 40 questions total"
-                    : "60 minutes • 3 academic passages • 40 questions total"}
+                    ? "60 minutes • Up to 3 passages • 40 questions total"
+                    : "60 minutes • 3 passages • 40 questions total"}
                 </p>
               </div>
+              <div className="ml-auto flex gap-2">
+                {(Object.keys(READING_MODULE_LABELS) as ReadingModule[]).map(
+                  (module) => (
+                    <Button
+                      key={module}
+                      size="sm"
+                      variant={readingModule === module ? "default" : "outline"}
+                      onClick={() => updateReadingModule(module)}
+                    >
+                      {READING_MODULE_LABELS[module]}
+                    </Button>
+                  ),
+                )}
+              </div>
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -466,8 +716,10 @@ const CreateIELTSTest: React.FC = () => {
                   <div>
                     <h4 className="font-semibold">{passage.name}</h4>
                     <p className="text-sm text-muted-foreground">
-                      13-14 questions • Academic text from journals, books,
-                      magazines
+                      13-14 questions •{" "}
+                      {readingModule === "general_training"
+                        ? "Everyday and workplace texts: notices, adverts, handbooks"
+                        : "Academic text from journals, books, magazines"}
                     </p>
                   </div>
                 </div>
@@ -653,6 +905,87 @@ const CreateIELTSTest: React.FC = () => {
         </Card>
       )}
 
+      {/* Speaking Section (optional in full tests) */}
+      {(currentTest.type === "speaking" || currentTest.type === "full") && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3">
+              <div className="p-2 bg-pink-100 rounded-lg">
+                <Mic className="h-6 w-6 text-pink-600" />
+              </div>
+              <div>
+                <div className="flex items-center gap-3">
+                  <span>Speaking Section</span>
+                  {testStructure.speaking.completed ? (
+                    <Badge className="bg-green-100 text-green-800">
+                      <CheckCircle2 className="h-3 w-3 mr-1" />
+                      Complete
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">
+                      <AlertCircle className="h-3 w-3 mr-1" />
+                      {
+                        testStructure.speaking.parts.filter((p) => p.completed)
+                          .length
+                      }
+                      /3 Complete
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground font-normal">
+                  {currentTest.type === "speaking"
+                    ? "11-14 minutes • Up to 3 parts • Recorded answers"
+                    : "Optional • 11-14 minutes • 3 parts • Recorded answers"}
+                </p>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {testStructure.speaking.parts.map((part, index) => (
+              <div
+                key={part.id}
+                className="flex items-center justify-between p-4 border rounded-lg"
+              >
+                <div className="flex items-center gap-4">
+                  <div className="w-8 h-8 rounded-full bg-pink-100 flex items-center justify-center text-pink-600 font-semibold">
+                    {index + 1}
+                  </div>
+                  <div>
+                    <h4 className="font-semibold">{part.name}</h4>
+                    <p className="text-sm text-muted-foreground">
+                      {SPEAKING_PARTS[(index + 1) as SpeakingPart].description}
+                      {part.questionCount > 0 &&
+                        ` • ${part.questionCount} prompt${part.questionCount > 1 ? "s" : ""}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  {part.completed ? (
+                    <Badge className="bg-green-100 text-green-800">
+                      <CheckCircle2 className="h-3 w-3 mr-1" />
+                      Complete
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">Not Started</Badge>
+                  )}
+                  <Button
+                    onClick={() =>
+                      navigate(
+                        `/edu-admin/tests/create/speaking/${testId}/${index + 1}`,
+                      )
+                    }
+                  >
+                    {part.completed ? "Edit" : "Create"} Part
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <TestVersionsPanel testId={currentTest.id} reloadKey={versionReloadKey} />
+
       {/* Publishing Requirements */}
       <Card>
         <CardHeader>
@@ -722,6 +1055,18 @@ const CreateIELTSTest: React.FC = () => {
                 </span>
               </div>
             )}
+
+            {/* Speaking requirements */}
+            {currentTest.type === "speaking" && (
+              <div className="flex items-center gap-2">
+                {testStructure.speaking.parts.some((p) => p.completed) ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-600" />
+                ) : (
+                  <AlertCircle className="h-4 w-4 text-orange-500" />
+                )}
+                <span>Complete at least 1 Speaking part</span>
+              </div>
+            )}
           </div>
 
           {canPublish() && (
@@ -27,7 +27,9 @@ import { useAuth } from "@/contexts/AuthContext";
 
 import { MediaUploader, MediaFile } from "@/components/ui/media-uploader";
 import { UnifiedTestEditor } from "@/components/test-creation/UnifiedTestEditor";
+import BandConversionEditor from "@/components/test-creation/BandConversionEditor";
 import { toast } from "sonner";
+import { WORD_BANK_QUESTION_TYPE } from "@shared/completion";
 
 interface Question {
   id: string;
@@ -35,6 +37,8 @@ interface Question {
   text: string;
   options?: string[];
   correctAnswer: any;
+  answerRules?: any;
+  questionNumber?: number | null;
   points: number;
   position: number;
 }
@@ -119,6 +123,7 @@ const CreateListeningNew: React.FC = () => {
     const convertedQuestions = editorQuestions.map((q, index) => {
       let options = null;
       let correctAnswer = null;
+      let answerRules = null;
       if (q.type === "multiple_choice") {
         options = q.content.options;
         correctAnswer = q.content.correctAnswer;
@@ -198,6 +203,7 @@ const CreateListeningNew: React.FC = () => {
         }
         
         correctAnswer = correctAnswerValue;
+        answerRules = q.content.answer_rules || null;
         
         console.log("🔍 Short Answer Extraction:", {
           questionNumber: index + 1,
@@ -208,6 +214,10 @@ const CreateListeningNew: React.FC = () => {
           nodeAttrsAnswers: q.attrs?.answers,
           finalCorrectAnswer: correctAnswer
         });
+      } else if (q.type === WORD_BANK_QUESTION_TYPE) {
+        // Student answers are keyed by the gap node id, so it is saved with the bank
+        options = { words: q.content.words || [], gapId: q.id };
+        correctAnswer = q.content.correctAnswer;
       } else if (q.type === "map_diagram" || q.type === "map_labeling") {
         // For map/diagram questions, save boxes as correct answer
         if (q.content.boxes && Array.isArray(q.content.boxes)) {
@@ -222,6 +232,7 @@ const CreateListeningNew: React.FC = () => {
           text: q.content.question || q.content.text || q.content.prompt || `Question ${index + 1}`,
           options,
           correctAnswer,
+          questionNumber: q.content.question_number || null,
           points: 1,
           position: index + 1,
         };
@@ -232,6 +243,8 @@ const CreateListeningNew: React.FC = () => {
         text: q.content.question || q.content.text || q.content.prompt || `Question ${index + 1}`,
         options,
         correctAnswer,
+        answerRules,
+        questionNumber: q.content.question_number || null,
         points: 1,
         position: index + 1,
       };
@@ -883,16 +896,20 @@ const CreateListeningNew: React.FC = () => {
                   ? "matching"
                   : q.type === "map_labeling" || q.type === "map_diagram"
                     ? "map_labeling"
-                    : "short_answer"; // default
+                    : q.type === WORD_BANK_QUESTION_TYPE
+                      ? WORD_BANK_QUESTION_TYPE
+                      : "short_answer"; // default
 
           const questionData = {
             section_id: section.id,
             question_text: q.text,
             question_type: dbQuestionType,
-            question_number: index + 1,
+            // Numbered by the editor, continuing from the previous section
+            question_number: q.questionNumber || index + 1,
             question_order: index + 1,
             options: q.options ? JSON.stringify(q.options) : null,
             correct_answer: q.correctAnswer,
+            answer_rules: q.answerRules || null,
             points: q.points || 1,
           };
           
@@ -1216,6 +1233,9 @@ const CreateListeningNew: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Band Conversion */}
+      <BandConversionEditor testId={testId} section="listening" />
+
       {/* Enhanced Test Editor */}
       <div>
         <h2 className="text-xl font-semibold mb-4">Question Editor</h2>
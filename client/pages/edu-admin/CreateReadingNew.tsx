@@ -19,7 +19,14 @@ import {
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
 import ReadingTestEditor from "@/components/test-creation/ReadingTestEditor";
+import BandConversionEditor from "@/components/test-creation/BandConversionEditor";
 import { fetchTestById } from "@/lib/supabaseUtils";
+import {
+  isJudgementQuestion,
+  type JudgementQuestionType,
+} from "@shared/trueFalseNotGiven";
+import { parseMatchingHeadings } from "@shared/matchingHeadings";
+import { WORD_BANK_QUESTION_TYPE } from "@shared/completion";
 
 interface Question {
   id: string;
@@ -27,7 +34,10 @@ interface Question {
     | "short_answer"
     | "multiple_choice"
     | "matching"
-    | "multiple_selection";
+    | "multiple_selection"
+    | "matching_headings"
+    | "word_bank_completion"
+    | JudgementQuestionType;
   content: any;
   summary: string;
   attrs?: any; // Add attrs property for compatibility
@@ -204,7 +214,7 @@ const CreateReadingNew: React.FC = () => {
           // Get all questions for this section to count them properly
           const { data: questions } = await supabase
             .from("reading_questions")
-            .select("question_type, correct_answer")
+            .select("question_type, options, correct_answer")
             .eq("reading_section_id", section.id);
 
           if (questions) {
@@ -223,6 +233,9 @@ const CreateReadingNew: React.FC = () => {
                 } catch {
                   totalPreviousQuestions += 1; // Fallback
                 }
+              } else if (question.question_type === "matching_headings") {
+                // For matching headings, count each paragraph as a separate question
+                totalPreviousQuestions += parseMatchingHeadings(question).paragraphs.length || 1;
               } else {
                 // For other question types, count as 1
                 totalPreviousQuestions += 1;
@@ -350,6 +363,12 @@ const CreateReadingNew: React.FC = () => {
           q.content.right.length > 0 &&
           q.content.left.every((item: string) => item.trim() !== "") &&
           q.content.right.every((item: string) => item.trim() !== "");
+      } else if (q.type === "matching_headings") {
+        // Every paragraph needs a heading numeral
+        hasCorrectAnswer =
+          Array.isArray(q.content?.paragraphs) &&
+          q.content.paragraphs.length > 0 &&
+          q.content.paragraphs.every((_: string, i: number) => !!q.content.answers?.[i]);
       } else if (q.type === "short_answer") {
         // For short answer questions, check multiple sources
         hasCorrectAnswer = 
@@ -456,7 +475,11 @@ const CreateReadingNew: React.FC = () => {
         "multiple_choice",
         "short_answer",
         "matching",
-        "multiple_selection"
+        "multiple_selection",
+        "matching_headings",
+        WORD_BANK_QUESTION_TYPE,
+        "true_false_not_given",
+        "yes_no_not_given"
       ]);
 
       // Log all question types before filtering
@@ -477,6 +500,12 @@ const CreateReadingNew: React.FC = () => {
           dbQuestionType = "matching";
         } else if (question.type === "multiple_selection") {
           dbQuestionType = "multiple_selection";
+        } else if (question.type === "matching_headings") {
+          dbQuestionType = "matching_headings";
+        } else if (question.type === WORD_BANK_QUESTION_TYPE) {
+          dbQuestionType = WORD_BANK_QUESTION_TYPE;
+        } else if (isJudgementQuestion(question.type)) {
+          dbQuestionType = question.type;
         }
 
         // Extract correct answer based on question type
@@ -497,6 +526,12 @@ const CreateReadingNew: React.FC = () => {
               correctAnswer
             });
           }
+        } else if (question.type === "matching_headings") {
+          // The key: paragraph labels with their heading numerals
+          correctAnswer = JSON.stringify({
+            paragraphs: question.content?.paragraphs || [],
+            answers: question.content?.answers || [],
+          });
         } else if (question.type === "short_answer") {
           // Always save as JSON array
           if (Array.isArray(question.content?.answers) && question.content.answers.length > 0) {
@@ -538,6 +573,14 @@ const CreateReadingNew: React.FC = () => {
         let optionsField = null;
         if (question.type === "matching" && question.content?.left && question.content?.right) {
           optionsField = JSON.stringify({ left: question.content.left, right: question.content.right });
+        } else if (question.type === WORD_BANK_QUESTION_TYPE) {
+          // The bank travels with every blank so each row grades on its own
+          optionsField = JSON.stringify({ words: question.content?.words || [] });
+        } else if (question.type === "matching_headings") {
+          optionsField = JSON.stringify({
+            headings: question.content?.headings || [],
+            anchored: !!question.content?.anchored,
+          });
         } else if (question.content?.options) {
           optionsField = JSON.stringify(question.content.options);
         }
@@ -577,6 +620,7 @@ const CreateReadingNew: React.FC = () => {
           points: 1, // Default points
           explanation: "",
           question_order: question.content?.question_number || index + 1,
+          answer_rules: question.type === "short_answer" ? question.content?.answer_rules || null : null,
         };
       });
 
@@ -794,6 +838,7 @@ const CreateReadingNew: React.FC = () => {
             </CardTitle>
             <p className="text-sm text-muted-foreground">
               Enter the main passage text that students will read. This will appear on the left side during the test.
+              For matching headings, start each paragraph with its marker, e.g. [para:A].
             </p>
           </CardHeader>
           <CardContent>
@@ -809,6 +854,9 @@ const CreateReadingNew: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Band Conversion */}
+        <BandConversionEditor testId={testId} section="reading" />
+
         {/* Questions Editor */}
         <Card>
           <CardHeader>
@@ -0,0 +1,389 @@
+import React, { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Mic,
+  Save,
+  ArrowLeft,
+  CheckCircle,
+  AlertCircle,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { fetchTestById } from "@/lib/supabaseUtils";
+import {
+  SPEAKING_PARTS,
+  loadSpeakingTasks,
+  type SpeakingPart,
+} from "@/lib/speakingUtils";
+
+// Part 1 and Part 3 are lists of questions; Part 2 is a single cue card
+
+const CreateSpeakingNew: React.FC = () => {
+  const { testId, partNumber } = useParams();
+  const navigate = useNavigate();
+
+  const part = (parseInt(partNumber || "1") as SpeakingPart) || 1;
+  const partInfo = SPEAKING_PARTS[part] || SPEAKING_PARTS[1];
+  const isCueCard = part === 2;
+
+  // Content states
+  const [questions, setQuestions] = useState<string[]>([""]);
+  const [cueCardTopic, setCueCardTopic] = useState("");
+  const [cueCardPoints, setCueCardPoints] = useState<string[]>(["", "", ""]);
+  const [preparationSeconds, setPreparationSeconds] = useState(
+    partInfo.preparationSeconds,
+  );
+  const [responseSeconds, setResponseSeconds] = useState(
+    partInfo.responseSeconds,
+  );
+
+  // UI states
+  const [currentTest, setCurrentTest] = useState<any>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState({ type: "", content: "" });
+
+  useEffect(() => {
+    if (testId) {
+      fetchTest();
+    } else {
+      console.error("❌ No testId found in URL parameters");
+      setMessage({
+        type: "error",
+        content:
+          "No test ID provided in URL. Please navigate from test creation page.",
+      });
+    }
+  }, [testId, partNumber]);
+
+  const fetchTest = async () => {
+    try {
+      const testData = await fetchTestById(testId!);
+      setCurrentTest(testData);
+
+      // Load existing prompts for this part so the page doubles as an editor
+      const tasks = (await loadSpeakingTasks(testId!)).filter(
+        (task) => task.part_number === part,
+      );
+      if (tasks.length > 0) {
+        if (isCueCard) {
+          setCueCardTopic(tasks[0].prompt);
+          setCueCardPoints(tasks[0].cue_card_points || []);
+        } else {
+          setQuestions(tasks.map((task) => task.prompt));
+        }
+        setPreparationSeconds(tasks[0].preparation_seconds);
+        setResponseSeconds(tasks[0].response_seconds);
+      }
+    } catch (error: any) {
+      console.error("Error fetching test:", error?.message || error);
+      setMessage({
+        type: "error",
+        content: `Could not load test: ${error?.message || "Unknown error"}`,
+      });
+    }
+  };
+
+  const updateListItem = (
+    setter: React.Dispatch<React.SetStateAction<string[]>>,
+    index: number,
+    value: string,
+  ) => {
+    setter((prev) => prev.map((item, i) => (i === index ? value : item)));
+  };
+
+  const saveSpeakingPart = async () => {
+    const prompts = isCueCard
+      ? [cueCardTopic.trim()].filter(Boolean)
+      : questions.map((q) => q.trim()).filter(Boolean);
+
+    if (prompts.length === 0) {
+      setMessage({
+        type: "error",
+        content: isCueCard
+          ? "Please enter the cue card topic before saving."
+          : "Please add at least one question before saving.",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage({ type: "", content: "" });
+
+    try {
+      // Replace the part's prompts so edits don't leave stale rows behind
+      const { error: deleteError } = await supabase
+        .from("speaking_tasks")
+        .delete()
+        .eq("test_id", testId)
+        .eq("part_number", part);
+
+      if (deleteError) throw deleteError;
+
+      const { error: insertError } = await supabase
+        .from("speaking_tasks")
+        .insert(
+          prompts.map((prompt, index) => ({
+            test_id: testId,
+            part_number: part,
+            task_order: index + 1,
+            prompt,
+            cue_card_points: isCueCard
+              ? cueCardPoints.map((p) => p.trim()).filter(Boolean)
+              : null,
+            preparation_seconds: preparationSeconds,
+            response_seconds: responseSeconds,
+          })),
+        );
+
+      if (insertError) {
+        console.error("Speaking task creation error:", insertError);
+        throw insertError;
+      }
+
+      setMessage({
+        type: "success",
+        content:
+          "Speaking part saved successfully! You can now add other parts or publish the test.",
+      });
+
+      setTimeout(() => {
+        navigate(`/edu-admin/tests/create/advanced/${testId}`);
+      }, 1500);
+    } catch (error: any) {
+      console.error("Error saving speaking part:", error);
+      setMessage({
+        type: "error",
+        content: `Failed to save speaking part: ${error?.message || "Unknown error"}`,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!currentTest) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Loading...</h1>
+        </div>
+        {message.content && (
+          <Alert className="border-red-500">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{message.content}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="mb-8">
+        <div className="flex items-center gap-4 mb-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              navigate(`/edu-admin/tests/create/advanced/${testId}`)
+            }
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Test
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Mic className="h-8 w-8" />
+              Create Speaking {isCueCard ? "Cue Card" : "Questions"}
+            </h1>
+            <p className="text-muted-foreground">
+              Test: {currentTest?.title} • {partInfo.title}
+            </p>
+          </div>
+        </div>
+
+        {message.content && (
+          <Alert
+            className={
+              message.type === "error" ? "border-red-500" : "border-green-500"
+            }
+          >
+            {message.type === "error" ? (
+              <AlertCircle className="h-4 w-4" />
+            ) : (
+              <CheckCircle className="h-4 w-4" />
+            )}
+            <AlertDescription>{message.content}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+
+      <div className="space-y-6">
+        {/* Timing Configuration */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Timing</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {partInfo.description}
+            </p>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {isCueCard && (
+              <div>
+                <Label htmlFor="preparation">Preparation Time (seconds)</Label>
+                <Input
+                  id="preparation"
+                  type="number"
+                  min="0"
+                  max="300"
+                  value={preparationSeconds}
+                  onChange={(e) =>
+                    setPreparationSeconds(parseInt(e.target.value) || 0)
+                  }
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="response">
+                Maximum Answer Length (seconds)
+              </Label>
+              <Input
+                id="response"
+                type="number"
+                min="15"
+                max="600"
+                value={responseSeconds}
+                onChange={(e) =>
+                  setResponseSeconds(
+                    parseInt(e.target.value) || partInfo.responseSeconds,
+                  )
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {isCueCard ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Cue Card</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="topic">Topic</Label>
+                <Textarea
+                  id="topic"
+                  value={cueCardTopic}
+                  onChange={(e) => setCueCardTopic(e.target.value)}
+                  placeholder="e.g., Describe a place you visited that you particularly liked."
+                  rows={2}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>You should say:</Label>
+                {cueCardPoints.map((point, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      value={point}
+                      onChange={(e) =>
+                        updateListItem(setCueCardPoints, index, e.target.value)
+                      }
+                      placeholder="e.g., where it is"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setCueCardPoints((prev) =>
+                          prev.filter((_, i) => i !== index),
+                        )
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCueCardPoints((prev) => [...prev, ""])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Point
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Questions</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Each question is recorded as a separate answer
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {questions.map((question, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <span className="w-6 text-sm text-muted-foreground">
+                    {index + 1}.
+                  </span>
+                  <Input
+                    value={question}
+                    onChange={(e) =>
+                      updateListItem(setQuestions, index, e.target.value)
+                    }
+                    placeholder={
+                      part === 1
+                        ? "e.g., Do you work or are you a student?"
+                        : "e.g., Why do some people prefer to travel alone?"
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setQuestions((prev) => prev.filter((_, i) => i !== index))
+                    }
+                    disabled={questions.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setQuestions((prev) => [...prev, ""])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Question
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Save Button at Bottom */}
+        <div className="flex justify-center pt-6">
+          <Button
+            onClick={saveSpeakingPart}
+            disabled={isSaving}
+            className="w-full max-w-md"
+            size="lg"
+          >
+            <Save className="h-5 w-5 mr-2" />
+            {isSaving ? "Saving..." : `Save Speaking Part ${part}`}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreateSpeakingNew;
@@ -20,6 +20,7 @@ import {
   BookOpen,
   Headphones,
   PenTool,
+  Mic,
   Plus,
   Save,
   Eye,
@@ -31,12 +32,13 @@ import {
   Users,
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
+import { publishTestVersion } from "@shared/testVersions";
 import { useAuth } from "@/contexts/AuthContext";
 
 interface TestForm {
   title: string;
   description: string;
-  type: "reading" | "listening" | "writing" | "full";
+  type: "reading" | "listening" | "writing" | "speaking" | "full";
   total_duration_minutes: number;
   passing_score: number;
   instructions: string;
@@ -46,6 +48,7 @@ interface SectionStatus {
   reading: boolean;
   listening: boolean;
   writing: boolean;
+  speaking: boolean;
 }
 
 const CreateTestAdvanced: React.FC = () => {
@@ -56,6 +59,7 @@ const CreateTestAdvanced: React.FC = () => {
     reading: false,
     listening: false,
     writing: false,
+    speaking: false,
   });
   const [isCreating, setIsCreating] = useState(false);
   const [isPublishing, setIsPublishing] = useState(false);
@@ -87,6 +91,7 @@ const CreateTestAdvanced: React.FC = () => {
     if (type === "reading") return sectionStatus.reading;
     if (type === "listening") return sectionStatus.listening;
     if (type === "writing") return sectionStatus.writing;
+    if (type === "speaking") return sectionStatus.speaking;
     if (type === "full") {
       return (
         sectionStatus.reading &&
@@ -177,6 +182,9 @@ const CreateTestAdvanced: React.FC = () => {
     setMessage({ type: "", content: "" });
 
     try {
+      // Freeze the questions first so new submissions are pinned to this version
+      await publishTestVersion(supabase, currentTest.id, user?.id);
+
       const { error } = await supabase
         .from("tests")
         .update({
@@ -216,6 +224,8 @@ const CreateTestAdvanced: React.FC = () => {
         return 60; // changed from 40 to 60
       case "writing":
         return 60;
+      case "speaking":
+        return 15;
       case "full":
         return 180;
       default:
@@ -323,6 +333,12 @@ const CreateTestAdvanced: React.FC = () => {
                           Writing Only
                         </div>
                       </SelectItem>
+                      <SelectItem value="speaking">
+                        <div className="flex items-center gap-2">
+                          <Mic className="h-4 w-4" />
+                          Speaking Only
+                        </div>
+                      </SelectItem>
                       <SelectItem value="full">
                         <div className="flex items-center gap-2">
                           <CheckCircle2 className="h-4 w-4" />
@@ -649,6 +665,48 @@ const CreateTestAdvanced: React.FC = () => {
             </div>
           )}
 
+          {/* Speaking Section */}
+          {currentTest.type === "speaking" && (
+            <div className="flex items-center justify-between p-4 border rounded-lg">
+              <div className="flex items-center gap-4">
+                <div className="p-2 bg-pink-100 rounded-lg">
+                  <Mic className="h-6 w-6 text-pink-600" />
+                </div>
+                <div>
+                  <h3 className="font-semibold">Speaking Section</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Add interview questions and a cue card
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                {sectionStatus.speaking ? (
+                  <Badge
+                    variant="default"
+                    className="bg-green-100 text-green-800"
+                  >
+                    <CheckCircle2 className="h-3 w-3 mr-1" />
+                    Complete
+                  </Badge>
+                ) : (
+                  <Badge variant="secondary">
+                    <AlertCircle className="h-3 w-3 mr-1" />
+                    Required
+                  </Badge>
+                )}
+                <Button
+                  onClick={() =>
+                    navigate(
+                      `/edu-admin/tests/create/speaking/${currentTest.id}/1`,
+                    )
+                  }
+                >
+                  {sectionStatus.speaking ? "Edit" : "Add"} Speaking
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Publish Requirements */}
           <div className="mt-8 p-4 bg-gray-50 rounded-lg">
             <h4 className="font-semibold mb-2">Publishing Requirements</h4>
@@ -6,6 +6,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   ArrowLeft,
   Plus,
@@ -20,6 +27,7 @@ import {
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
+import { READING_MODULE_LABELS, type ReadingModule } from "@shared/grading";
 
 interface TestSection {
   id: string;
@@ -34,6 +42,7 @@ interface TestData {
   title: string;
   description: string;
   default_duration: number;
+  ielts_module: ReadingModule;
   sections: TestSection[];
 }
 
@@ -44,6 +53,7 @@ const CreateTestNew: React.FC = () => {
     title: "",
     description: "",
     default_duration: 60,
+    ielts_module: "academic",
     sections: [],
   });
   const [isPublishing, setIsPublishing] = useState(false);
@@ -117,6 +127,7 @@ const CreateTestNew: React.FC = () => {
         title: testData.title,
         description: testData.description,
         default_duration: testData.default_duration,
+        ielts_module: testData.ielts_module,
         sections: testData.sections,
         status: "published",
         created_by: user?.id,
@@ -218,6 +229,35 @@ const CreateTestNew: React.FC = () => {
               Individual sections can override this duration
             </p>
           </div>
+
+          <div>
+            <Label htmlFor="ielts-module">IELTS Module</Label>
+            <Select
+              value={testData.ielts_module}
+              onValueChange={(value) =>
+                setTestData({
+                  ...testData,
+                  ielts_module: value as ReadingModule,
+                })
+              }
+            >
+              <SelectTrigger id="ielts-module">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(READING_MODULE_LABELS) as ReadingModule[]).map(
+                  (module) => (
+                    <SelectItem key={module} value={module}>
+                      {READING_MODULE_LABELS[module]}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground mt-1">
+              Reading scores are converted to bands with this module's table
+            </p>
+          </div>
         </CardContent>
       </Card>
 
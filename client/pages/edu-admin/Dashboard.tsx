@@ -14,10 +14,21 @@ import {
   AlertCircle,
   Loader2,
   Trash2,
+  Archive,
+  ArchiveRestore,
+  GraduationCap,
 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
+import {
+  archiveTest,
+  deleteTestPermanently,
+  restoreTest,
+} from "@/lib/testArchiveUtils";
+import { useStudentClasses } from "@/hooks/use-student-classes";
+import ClassFilterSelect from "@/components/admin/ClassFilterSelect";
+import StudentReadinessCard from "@/components/admin/StudentReadinessCard";
 
 interface DashboardStats {
   totalStudents: number;
@@ -33,6 +44,7 @@ interface Test {
   created_at: string;
   status: string;
   participants?: number;
+  archived_at?: string | null;
 }
 
 interface TestRequest {
@@ -60,17 +72,27 @@ const EduAdminDashboard: React.FC = () => {
     submissions: 0,
   });
   const [recentTests, setRecentTests] = useState<Test[]>([]);
+  const [archivedTests, setArchivedTests] = useState<Test[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
   const [pendingActions, setPendingActions] = useState<{
     requests: TestRequest[];
     submissions: Submission[];
   }>({ requests: [], submissions: [] });
   const [loading, setLoading] = useState(true);
+  const { classes, getClassStudentIds } = useStudentClasses();
+  const [classFilter, setClassFilter] = useState("all");
 
   useEffect(() => {
     if (user) {
       fetchDashboardData();
     }
-  }, [user]);
+  }, [user, classFilter, classes]);
+
+  // Member ids of the selected class, or null when showing all students
+  const getFilterStudentIds = () => {
+    const ids = getClassStudentIds(classFilter);
+    return ids ? [...ids] : null;
+  };
 
   const fetchDashboardData = async () => {
     try {
@@ -78,6 +100,7 @@ const EduAdminDashboard: React.FC = () => {
       await Promise.all([
         fetchStats(),
         fetchRecentTests(),
+        fetchArchivedTests(),
         fetchPendingActions(),
       ]);
     } catch (error) {
@@ -88,30 +111,35 @@ const EduAdminDashboard: React.FC = () => {
   };
 
   const fetchStats = async () => {
+    const classStudentIds = getFilterStudentIds();
     try {
       let totalStudents = 0;
       let testsCreated = 0;
       let pendingRequests = 0;
       let submissions = 0;
 
-      // Get total students in this edu center
-      try {
-        const { count: studentsCount, error: studentsError } = await supabase
-          .from("profiles")
-          .select("*", { count: "exact", head: true })
-          .eq("edu_center_id", user?.edu_center_id)
-          .eq("role", "student");
+      // Get total students in this edu center, or in the selected class
+      if (classStudentIds) {
+        totalStudents = classStudentIds.length;
+      } else {
+        try {
+          const { count: studentsCount, error: studentsError } = await supabase
+            .from("profiles")
+            .select("*", { count: "exact", head: true })
+            .eq("edu_center_id", user?.edu_center_id)
+            .eq("role", "student");
 
-        if (studentsError) {
-          console.warn(
-            "Could not fetch students count:",
-            studentsError.message,
-          );
-        } else {
-          totalStudents = studentsCount || 0;
+          if (studentsError) {
+            console.warn(
+              "Could not fetch students count:",
+              studentsError.message,
+            );
+          } else {
+            totalStudents = studentsCount || 0;
+          }
+        } catch (err: any) {
+          console.warn("Students count error:", err?.message || err);
         }
-      } catch (err: any) {
-        console.warn("Students count error:", err?.message || err);
       }
 
       // Get tests created by this edu admin
@@ -119,7 +147,8 @@ const EduAdminDashboard: React.FC = () => {
         const { count: testsCount, error: testsError } = await supabase
           .from("tests")
           .select("*", { count: "exact", head: true })
-          .eq("created_by", user?.id);
+          .eq("created_by", user?.id)
+          .is("archived_at", null);
 
         if (testsError) {
           console.warn("Could not fetch tests count:", testsError.message);
@@ -132,11 +161,16 @@ const EduAdminDashboard: React.FC = () => {
 
       // Get pending test requests
       try {
-        const { count: requestsCount, error: requestsError } = await supabase
+        let requestsQuery = supabase
           .from("test_requests")
           .select("*", { count: "exact", head: true })
           .eq("edu_center_id", user?.edu_center_id)
           .eq("status", "pending");
+        if (classStudentIds) {
+          requestsQuery = requestsQuery.in("student_id", classStudentIds);
+        }
+        const { count: requestsCount, error: requestsError } =
+          await requestsQuery;
 
         if (requestsError) {
           console.warn(
@@ -152,12 +186,16 @@ const EduAdminDashboard: React.FC = () => {
 
       // Get test submissions needing grading
       try {
+        let submissionsQuery = supabase
+          .from("test_submissions")
+          .select("*", { count: "exact", head: true })
+          .eq("edu_center_id", user?.edu_center_id)
+          .eq("status", "submitted");
+        if (classStudentIds) {
+          submissionsQuery = submissionsQuery.in("student_id", classStudentIds);
+        }
         const { count: submissionsCount, error: submissionsError } =
-          await supabase
-            .from("test_submissions")
-            .select("*", { count: "exact", head: true })
-            .eq("edu_center_id", user?.edu_center_id)
-            .eq("status", "submitted");
+          await submissionsQuery;
 
         if (submissionsError) {
           console.warn(
@@ -195,6 +233,7 @@ const EduAdminDashboard: React.FC = () => {
         .from("tests")
         .select("*")
         .eq("created_by", user?.id)
+        .is("archived_at", null)
         .order("created_at", { ascending: false })
         .limit(3);
 
@@ -214,7 +253,33 @@ const EduAdminDashboard: React.FC = () => {
     }
   };
 
+  const fetchArchivedTests = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("tests")
+        .select("*")
+        .eq("created_by", user?.id)
+        .not("archived_at", "is", null)
+        .order("archived_at", { ascending: false });
+
+      if (error) {
+        console.warn("Could not fetch archived tests:", error.message);
+        setArchivedTests([]);
+        return;
+      }
+
+      setArchivedTests(data || []);
+    } catch (error: any) {
+      console.error(
+        "Error fetching archived tests:",
+        error?.message || String(error),
+      );
+      setArchivedTests([]);
+    }
+  };
+
   const fetchPendingActions = async () => {
+    const classStudentIds = getFilterStudentIds();
     try {
       // Initialize empty arrays for fallback
       let requests: any[] = [];
@@ -222,7 +287,7 @@ const EduAdminDashboard: React.FC = () => {
 
       // Try to fetch pending test requests with related data
       try {
-        const { data: requestsData, error: requestsError } = await supabase
+        let requestsQuery = supabase
           .from("test_requests")
           .select(
             `
@@ -243,6 +308,11 @@ const EduAdminDashboard: React.FC = () => {
           .eq("edu_center_id", user?.edu_center_id)
           .eq("status", "pending")
           .limit(5);
+        if (classStudentIds) {
+          requestsQuery = requestsQuery.in("student_id", classStudentIds);
+        }
+        const { data: requestsData, error: requestsError } =
+          await requestsQuery;
 
         if (requestsError) {
           console.warn("Test requests table issue:", requestsError.message);
@@ -258,28 +328,32 @@ const EduAdminDashboard: React.FC = () => {
 
       // Try to fetch submissions needing grading with related data
       try {
-        const { data: submissionsData, error: submissionsError } =
-          await supabase
-            .from("test_submissions")
-            .select(
-              `
-              id,
-              submitted_at,
-              status,
-              student_id,
-              test_id,
-              profiles!test_submissions_student_id_fkey (
-                first_name,
-                last_name
-              ),
-              tests (
-                title
-              )
-            `,
+        let submissionsQuery = supabase
+          .from("test_submissions")
+          .select(
+            `
+            id,
+            submitted_at,
+            status,
+            student_id,
+            test_id,
+            profiles!test_submissions_student_id_fkey (
+              first_name,
+              last_name
+            ),
+            tests (
+              title
             )
-            .eq("edu_center_id", user?.edu_center_id)
-            .eq("status", "submitted")
-            .limit(5);
+          `,
+          )
+          .eq("edu_center_id", user?.edu_center_id)
+          .eq("status", "submitted")
+          .limit(5);
+        if (classStudentIds) {
+          submissionsQuery = submissionsQuery.in("student_id", classStudentIds);
+        }
+        const { data: submissionsData, error: submissionsError } =
+          await submissionsQuery;
 
         if (submissionsError) {
           console.warn(
@@ -347,243 +421,82 @@ const EduAdminDashboard: React.FC = () => {
     return `${diffInDays}d ago`;
   };
 
-  const deleteTest = async (testId: string, testTitle: string) => {
-    // Find the test to check its status
-    const test = recentTests.find((t) => t.id === testId);
-    const isPublished = test?.status === "published";
-
-    const confirmMessage = isPublished
-      ? `Are you sure you want to delete the PUBLISHED test "${testTitle}"? This will remove it for all students and cannot be undone.`
-      : `Are you sure you want to delete "${testTitle}"? This action cannot be undone.`;
+  const handleArchiveTest = async (test: Test) => {
+    const confirmMessage =
+      test.status === "published"
+        ? `Archive the PUBLISHED test "${test.title}"? Students will no longer see it. Submissions and results are kept and you can restore it later.`
+        : `Archive "${test.title}"? You can restore it later from the archived tests.`;
 
     if (!window.confirm(confirmMessage)) {
       return;
     }
 
     try {
-      console.log("Starting comprehensive test deletion for:", testId);
-
-      // Check ALL possible related tables
-      const tablesToCheck = [
-        {
-          name: "test_submissions",
-          query: supabase
-            .from("test_submissions")
-            .select("id")
-            .eq("test_id", testId),
-        },
-        {
-          name: "test_requests",
-          query: supabase
-            .from("test_requests")
-            .select("id")
-            .eq("test_id", testId),
-        },
-        {
-          name: "reading_sections",
-          query: supabase
-            .from("reading_sections")
-            .select("id")
-            .eq("test_id", testId),
-        },
-        {
-          name: "listening_sections",
-          query: supabase
-            .from("listening_sections")
-            .select("id")
-            .eq("test_id", testId),
-        },
-        {
-          name: "writing_tasks",
-          query: supabase
-            .from("writing_tasks")
-            .select("id")
-            .eq("test_id", testId),
-        },
-      ];
-
-      let allRelatedRecords: { [key: string]: any[] } = {};
-      let totalCount = 0;
-
-      // Check each table for related records
-      for (const table of tablesToCheck) {
-        try {
-          const { data, error } = await table.query;
-          if (!error && data && data.length > 0) {
-            allRelatedRecords[table.name] = data;
-            totalCount += data.length;
-            console.log(`Found ${data.length} records in ${table.name}`);
-          }
-        } catch (err) {
-          console.warn(`Could not check ${table.name}:`, err);
-        }
-      }
-
-      // Show user what will be deleted
-      if (totalCount > 0) {
-        const relatedSummary = Object.entries(allRelatedRecords)
-          .map(
-            ([table, records]) =>
-              `${records.length} ${table.replace("_", " ")}`,
-          )
-          .join(", ");
-
-        const confirmDelete = window.confirm(
-          `This test has ${totalCount} related records: ${relatedSummary}. All related data will be permanently deleted. Continue?`,
-        );
-
-        if (!confirmDelete) {
-          return;
-        }
-      }
-
-      // Delete related records in proper order (most dependent first)
-      const deletionOrder = [
-        // Delete questions first (depend on sections)
-        async () => {
-          if (allRelatedRecords.reading_sections?.length > 0) {
-            const sectionIds = allRelatedRecords.reading_sections.map(
-              (s: any) => s.id,
-            );
-            const { error } = await supabase
-              .from("reading_questions")
-              .delete()
-              .in("reading_section_id", sectionIds);
-            if (error)
-              console.warn(
-                "Could not delete reading questions:",
-                error.message,
-              );
-          }
-        },
-        async () => {
-          if (allRelatedRecords.listening_sections?.length > 0) {
-            const sectionIds = allRelatedRecords.listening_sections.map(
-              (s: any) => s.id,
-            );
-            const { error } = await supabase
-              .from("listening_questions")
-              .delete()
-              .in("section_id", sectionIds);
-            if (error)
-              console.warn(
-                "Could not delete listening questions:",
-                error.message,
-              );
-          }
-        },
-        // Then delete sections and tasks
-        async () => {
-          if (allRelatedRecords.test_submissions?.length > 0) {
-            const { error } = await supabase
-              .from("test_submissions")
-              .delete()
-              .eq("test_id", testId);
-            if (error)
-              throw new Error(
-                `Failed to delete test submissions: ${error.message}`,
-              );
-          }
-        },
-        async () => {
-          if (allRelatedRecords.test_requests?.length > 0) {
-            const { error } = await supabase
-              .from("test_requests")
-              .delete()
-              .eq("test_id", testId);
-            if (error)
-              throw new Error(
-                `Failed to delete test requests: ${error.message}`,
-              );
-          }
-        },
-        async () => {
-          if (allRelatedRecords.reading_sections?.length > 0) {
-            const { error } = await supabase
-              .from("reading_sections")
-              .delete()
-              .eq("test_id", testId);
-            if (error)
-              throw new Error(
-                `Failed to delete reading sections: ${error.message}`,
-              );
-          }
-        },
-        async () => {
-          if (allRelatedRecords.listening_sections?.length > 0) {
-            const { error } = await supabase
-              .from("listening_sections")
-              .delete()
-              .eq("test_id", testId);
-            if (error)
-              throw new Error(
-                `Failed to delete listening sections: ${error.message}`,
-              );
-          }
-        },
-        async () => {
-          if (allRelatedRecords.writing_tasks?.length > 0) {
-            const { error } = await supabase
-              .from("writing_tasks")
-              .delete()
-              .eq("test_id", testId);
-            if (error)
-              throw new Error(
-                `Failed to delete writing tasks: ${error.message}`,
-              );
-          }
-        },
-      ];
-
-      // Execute deletions
-      for (const deleteFn of deletionOrder) {
-        await deleteFn();
-      }
+      await archiveTest(test.id, user?.id);
+      await Promise.all([fetchRecentTests(), fetchArchivedTests()]);
+      toast.success(`"${test.title}" archived`);
+    } catch (error: any) {
+      console.error("Error archiving test:", error?.message || String(error));
+      toast.error(
+        `Failed to archive test: ${error?.message || "Please try again."}`,
+      );
+    }
+  };
 
-      // Finally delete the test
-      console.log("Deleting test itself...");
-      const { error } = await supabase
-        .from("tests")
-        .delete()
-        .eq("id", testId)
-        .eq("created_by", user?.id);
+  const handleRestoreTest = async (test: Test) => {
+    try {
+      await restoreTest(test.id);
+      await Promise.all([fetchRecentTests(), fetchArchivedTests()]);
+      toast.success(`"${test.title}" restored`);
+    } catch (error: any) {
+      console.error("Error restoring test:", error?.message || String(error));
+      toast.error(
+        `Failed to restore test: ${error?.message || "Please try again."}`,
+      );
+    }
+  };
 
-      if (error) {
-        console.error("Final test deletion error:", error);
-        throw new Error(
-          `Failed to delete test: ${error.message}. Please run setup_cascade_delete.sql or contact support.`,
-        );
-      }
+  const handleDeleteTest = async (test: Test) => {
+    if (
+      !window.confirm(
+        `Permanently delete "${test.title}"? All submissions, results and requests for this test will be removed. This cannot be undone.`,
+      )
+    ) {
+      return;
+    }
 
-      // Refresh the recent tests
-      await fetchRecentTests();
+    try {
+      const result = await deleteTestPermanently(test.id);
+      await fetchArchivedTests();
 
-      console.log("Test deleted successfully");
-      toast.success("Test and all related data deleted successfully!");
+      console.log("✅ Test deleted:", result);
+      toast.success(
+        `Test deleted with ${result.deletedSubmissions} submissions and ${result.deletedRequests} requests`,
+      );
     } catch (error: any) {
       console.error("Error deleting test:", error?.message || String(error));
-
-      let errorMessage = "Failed to delete test. Please try again.";
-      if (error?.message) {
-        errorMessage = error.message;
-      } else if (error?.code === "23503") {
-        errorMessage =
-          "Cannot delete test because it has related student submissions. Please delete submissions first or contact support.";
-      }
-
-      toast.error(errorMessage);
+      toast.error(
+        `Failed to delete test: ${error?.message || "Please try again."}`,
+      );
     }
   };
 
   return (
     <div className="p-6 max-w-7xl mx-auto">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-foreground">
-          Education Admin Dashboard
-        </h1>
-        <p className="text-muted-foreground">
-          Welcome back, {user?.first_name}! Manage your students and tests.
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">
+            Education Admin Dashboard
+          </h1>
+          <p className="text-muted-foreground">
+            Welcome back, {user?.first_name}! Manage your students and tests.
+          </p>
+        </div>
+        <ClassFilterSelect
+          classes={classes}
+          value={classFilter}
+          onChange={setClassFilter}
+        />
       </div>
 
       {/* Quick Stats */}
@@ -675,10 +588,23 @@ const EduAdminDashboard: React.FC = () => {
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle className="flex items-center gap-2">
-                <FileText className="h-5 w-5" />
-                Recent Tests
+                {showArchived ? (
+                  <Archive className="h-5 w-5" />
+                ) : (
+                  <FileText className="h-5 w-5" />
+                )}
+                {showArchived ? "Archived Tests" : "Recent Tests"}
               </CardTitle>
               <div className="flex space-x-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setShowArchived(!showArchived)}
+                >
+                  {showArchived
+                    ? "Back to Active"
+                    : `Archived (${archivedTests.length})`}
+                </Button>
                 <Button size="sm" asChild>
                   <Link to="/edu-admin/tests/create/advanced">
                     <Plus className="h-4 w-4 mr-2" />
@@ -693,6 +619,51 @@ const EduAdminDashboard: React.FC = () => {
               <div className="flex items-center justify-center py-8">
                 <Loader2 className="h-6 w-6 animate-spin" />
               </div>
+            ) : showArchived ? (
+              archivedTests.length > 0 ? (
+                <div className="space-y-4">
+                  {archivedTests.map((test) => (
+                    <div
+                      key={test.id}
+                      className="flex items-center justify-between p-4 border rounded-lg bg-gray-50"
+                    >
+                      <div>
+                        <h4 className="font-semibold">{test.title}</h4>
+                        <p className="text-sm text-muted-foreground">
+                          Archived {getTimeAgo(test.archived_at!)} • {test.type}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">{test.status}</Badge>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRestoreTest(test)}
+                        >
+                          <ArchiveRestore className="h-4 w-4 mr-2" />
+                          Restore
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => handleDeleteTest(test)}
+                          title="Delete permanently"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Archive className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>No archived tests</p>
+                  <p className="text-sm">
+                    Archived tests are hidden from students and can be restored
+                  </p>
+                </div>
+              )
             ) : recentTests.length > 0 ? (
               <div className="space-y-4">
                 {recentTests.map((test) => (
@@ -725,12 +696,25 @@ const EduAdminDashboard: React.FC = () => {
                       >
                         {test.status === "draft" ? "Continue" : "View"}
                       </Button>
+                      {test.status === "published" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            navigate(`/edu-admin/tests/${test.id}/analysis`)
+                          }
+                          title="Item analysis"
+                        >
+                          <BarChart3 className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         size="sm"
-                        variant="destructive"
-                        onClick={() => deleteTest(test.id, test.title)}
+                        variant="outline"
+                        onClick={() => handleArchiveTest(test)}
+                        title="Archive"
                       >
-                        <Trash2 className="h-4 w-4" />
+                        <Archive className="h-4 w-4" />
                       </Button>
                     </div>
                   </div>
@@ -812,31 +796,25 @@ const EduAdminDashboard: React.FC = () => {
                     <p className="text-sm">No pending actions at the moment</p>
                   </div>
                 )}
-
-                <div className="flex items-center justify-between p-4 border rounded-lg">
-                  <div>
-                    <h4 className="font-semibold">Student Performance</h4>
-                    <p className="text-sm text-muted-foreground">
-                      Analytics and reports available
-                    </p>
-                  </div>
-                  <Button size="sm" variant="outline">
-                    View Reports
-                  </Button>
-                </div>
               </div>
             )}
           </CardContent>
         </Card>
       </div>
 
+      {/* Students below their target band */}
+      <StudentReadinessCard
+        eduCenterId={user?.edu_center_id}
+        studentIds={getFilterStudentIds()}
+      />
+
       {/* Quick Actions */}
       <Card className="mt-8">
         <CardHeader>
           <CardTitle>Quick Actions</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <Button className="h-24 text-left" variant="outline" asChild>
               <Link
                 to="/edu-admin/tests/create/advanced"
@@ -876,6 +854,19 @@ const EduAdminDashboard: React.FC = () => {
               </Link>
             </Button>
 
+            <Button className="h-24 text-left" variant="outline" asChild>
+              <Link
+                to="/edu-admin/classes"
+                className="flex flex-col items-start"
+              >
+                <GraduationCap className="h-6 w-6 mb-2" />
+                <span className="font-semibold">Classes</span>
+                <span className="text-sm text-muted-foreground">
+                  Group students
+                </span>
+              </Link>
+            </Button>
+
             <Button className="h-24 text-left" variant="outline" asChild>
               <Link
                 to="/edu-admin/profile"
@@ -0,0 +1,372 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { motion } from "framer-motion";
+import { ArrowLeft, BarChart3, Check, Plus, RefreshCw } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { parseError, logError } from "@/lib/errorUtils";
+import { useAuth } from "@/contexts/AuthContext";
+import RegradeDialog from "@/components/admin/RegradeDialog";
+import {
+  acceptWrongAnswer,
+  loadItemAnalysis,
+  type ItemAnalysisReport,
+} from "@/lib/itemAnalysisUtils";
+import {
+  ITEM_FLAG_LABELS,
+  getItemFlag,
+  type ItemFlag,
+  type ItemStats,
+} from "@shared/itemAnalysis";
+
+type ItemFilter = "all" | "flagged";
+
+const FLAG_COLORS: Record<ItemFlag, string> = {
+  negative_discrimination: "bg-red-100 text-red-800",
+  too_hard: "bg-orange-100 text-orange-800",
+  too_easy: "bg-blue-100 text-blue-800",
+  low_discrimination: "bg-yellow-100 text-yellow-800",
+};
+
+const ItemAnalysis: React.FC = () => {
+  const { testId } = useParams<{ testId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [testTitle, setTestTitle] = useState("");
+  const [report, setReport] = useState<ItemAnalysisReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ItemFilter>("all");
+  // Answers added to the key during this visit, as "questionId:answer"
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [regradeItem, setRegradeItem] = useState<ItemStats | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!testId) return;
+
+    const loadReport = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [{ data: test }, analysis] = await Promise.all([
+          supabase.from("tests").select("title").eq("id", testId).single(),
+          loadItemAnalysis(testId),
+        ]);
+        setTestTitle(test?.title || "");
+        setReport(analysis);
+      } catch (err: any) {
+        logError("loadItemAnalysis", err);
+        setError(parseError(err));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [testId, reloadKey]);
+
+  const visibleItems = useMemo(
+    () =>
+      (report?.items || []).filter(
+        (item) => filter === "all" || getItemFlag(item) !== null,
+      ),
+    [report, filter],
+  );
+
+  const flaggedCount = (report?.items || []).filter(
+    (item) => getItemFlag(item) !== null,
+  ).length;
+
+  const averageCorrect =
+    report && report.items.length > 0
+      ? Math.round(
+          report.items.reduce((sum, item) => sum + item.percentCorrect, 0) /
+            report.items.length,
+        )
+      : 0;
+
+  const handleAccept = async (item: ItemStats, answer: string) => {
+    if (!testId) return;
+
+    try {
+      const { added, version } = await acceptWrongAnswer(
+        testId,
+        item,
+        answer,
+        user?.id,
+      );
+      setAccepted((prev) => new Set(prev).add(`${item.questionId}:${answer}`));
+      if (added && version) {
+        toast.success(
+          `"${answer}" added to the answer key in version ${version.version_number}. Regrade the question to update scores.`,
+        );
+      } else if (added) {
+        toast.success(
+          `"${answer}" added to the draft answer key; it applies once the test is published.`,
+        );
+      } else {
+        toast.info(`"${answer}" is already accepted by the answer key`);
+      }
+    } catch (err: any) {
+      logError("handleAcceptAnswer", err);
+      toast.error(`Failed to update the answer key: ${parseError(err)}`);
+    }
+  };
+
+  const renderDiscrimination = (value: number | null) =>
+    value === null ? "—" : value.toFixed(2);
+
+  const renderItem = (item: ItemStats) => {
+    const flag = getItemFlag(item);
+    const totalChosen =
+      item.distractors?.reduce((sum, option) => sum + option.count, 0) || 0;
+
+    return (
+      <div key={item.itemId} className="p-4 border rounded-lg space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 mb-1">
+              <Badge variant="outline" className="capitalize">
+                {item.section}
+              </Badge>
+              <span className="text-xs text-muted-foreground">
+                {item.questionType.replace(/_/g, " ")}
+              </span>
+              {flag && (
+                <Badge className={FLAG_COLORS[flag]}>
+                  {ITEM_FLAG_LABELS[flag]}
+                </Badge>
+              )}
+            </div>
+            <p className="font-medium">{item.questionText}</p>
+            <p className="text-sm text-muted-foreground">
+              Answer key: {String(item.correctAnswer)}
+            </p>
+          </div>
+          <div className="flex items-start gap-3 shrink-0">
+            <div className="text-right text-sm">
+              <p>
+                <span className="font-semibold">{item.percentCorrect}%</span>{" "}
+                correct
+              </p>
+              <p className="text-muted-foreground">
+                {item.correct}/{item.responses} • D{" "}
+                {renderDiscrimination(item.discrimination)}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setRegradeItem(item)}
+              title="Regrade this question with its current answer key"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Progress value={item.percentCorrect} className="h-2" />
+
+        {item.distractors && item.distractors.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Chosen options</p>
+            {item.distractors.map((option) => (
+              <div
+                key={option.option}
+                className="flex items-center gap-3 text-sm"
+              >
+                <span
+                  className={`w-1/3 truncate ${option.isCorrect ? "font-semibold text-green-700" : ""}`}
+                >
+                  {option.option}
+                </span>
+                <Progress
+                  value={totalChosen ? (option.count / totalChosen) * 100 : 0}
+                  className="h-2 flex-1"
+                />
+                <span className="w-8 text-right text-muted-foreground">
+                  {option.count}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {item.wrongAnswers && item.wrongAnswers.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Most frequent wrong answers</p>
+            {item.wrongAnswers.map((wrong) => {
+              const isAccepted = accepted.has(
+                `${item.questionId}:${wrong.answer}`,
+              );
+              return (
+                <div
+                  key={wrong.answer}
+                  className="flex items-center justify-between text-sm"
+                >
+                  <span>
+                    "{wrong.answer}"{" "}
+                    <span className="text-muted-foreground">
+                      × {wrong.count}
+                    </span>
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isAccepted}
+                    onClick={() => handleAccept(item, wrong.answer)}
+                  >
+                    {isAccepted ? (
+                      <>
+                        <Check className="h-4 w-4 mr-1" />
+                        Accepted
+                      </>
+                    ) : (
+                      <>
+                        <Plus className="h-4 w-4 mr-1" />
+                        Accept
+                      </>
+                    )}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="mb-8"
+      >
+        <Button
+          variant="ghost"
+          className="mb-4"
+          onClick={() => navigate("/edu-admin/dashboard")}
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Dashboard
+        </Button>
+        <h1 className="text-3xl font-bold mb-2">Item Analysis</h1>
+        <p className="text-muted-foreground">
+          {testTitle ? `${testTitle} • ` : ""}How each question performed
+          across all handed-in submissions
+        </p>
+      </motion.div>
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[300px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <p className="text-red-600">Failed to load the analysis: {error}</p>
+          </CardContent>
+        </Card>
+      ) : !report || report.submissionCount === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">No submissions yet</h3>
+            <p className="text-muted-foreground">
+              Item statistics appear once students hand in this test
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Submissions</p>
+                <p className="text-2xl font-bold">{report.submissionCount}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">
+                  Average correct
+                </p>
+                <p className="text-2xl font-bold">{averageCorrect}%</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Flagged items</p>
+                <p className="text-2xl font-bold">
+                  {flaggedCount} / {report.items.length}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Questions</CardTitle>
+              <Select
+                value={filter}
+                onValueChange={(value) => setFilter(value as ItemFilter)}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All questions</SelectItem>
+                  <SelectItem value="flagged">Flagged only</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              <p className="text-xs text-muted-foreground mb-4">
+                D is the discrimination index: the share of the top 27% of
+                scorers who got the question right minus the share of the
+                bottom 27%. Negative values usually point to a wrong key.
+              </p>
+              {visibleItems.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">
+                  No flagged questions
+                </p>
+              ) : (
+                <div className="space-y-4">{visibleItems.map(renderItem)}</div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <RegradeDialog
+        open={!!regradeItem}
+        onOpenChange={(open) => !open && setRegradeItem(null)}
+        testId={testId}
+        request={
+          regradeItem
+            ? { scope: "question", questionId: regradeItem.questionId }
+            : null
+        }
+        subject={regradeItem?.questionText || "question"}
+        onApplied={() => setReloadKey((key) => key + 1)}
+      />
+    </div>
+  );
+};
+
+export default ItemAnalysis;
@@ -7,6 +7,7 @@ import { Alert, AlertDescription } from '../../components/ui/alert';
 import { Textarea } from '../../components/ui/textarea';
 import { EnhancedBracketParser } from '../../lib/enhancedBracketParser';
 import { supabase } from '../../lib/supabase';
+import { saveManualGrades } from '../../lib/testProgressUtils';
 import { CheckCircle, XCircle, Clock, User, FileText, Award } from 'lucide-react';
 
 interface TestSubmission {
@@ -115,18 +116,11 @@ export default function TestGrading() {
     try {
       const adjustedScore = calculateAdjustedScore();
       
-      const { error: updateError } = await supabase
-        .from('test_submissions')
-        .update({
-          score: adjustedScore,
-          feedback: feedback,
-          manual_overrides: JSON.stringify(manualOverrides),
-          graded_at: new Date().toISOString(),
-          status: 'graded'
-        })
-        .eq('id', submissionId);
-
-      if (updateError) throw updateError;
+      await saveManualGrades(submissionId!, {
+        score: adjustedScore,
+        feedback: feedback,
+        manual_overrides: JSON.stringify(manualOverrides)
+      });
 
       // Reload to show updated data
       await loadSubmission();
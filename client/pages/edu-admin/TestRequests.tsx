@@ -20,6 +20,8 @@ import {
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { toast } from "sonner";
 import { motion } from "framer-motion";
 import {
@@ -30,10 +32,29 @@ import {
   FileText,
   Calendar,
   AlertCircle,
+  Timer,
+  Users,
+  Trash2,
+  Zap,
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
 import { parseError, logError } from "@/lib/errorUtils";
+import AssignTestDialog from "@/components/admin/AssignTestDialog";
+import ClassFilterSelect from "@/components/admin/ClassFilterSelect";
+import ApprovalPoliciesDialog from "@/components/admin/ApprovalPoliciesDialog";
+import { decideTestRequests } from "@/lib/testRequestUtils";
+import { useStudentClasses } from "@/hooks/use-student-classes";
+import {
+  WINDOW_STATE_LABELS,
+  getWindowState,
+  type TestAssignmentGroup,
+} from "@shared/testWindows";
+import {
+  DECISION_RULE_LABELS,
+  isAutoDecision,
+  type DecisionRule,
+} from "@shared/approvalPolicies";
 
 interface TestRequest {
   id: string;
@@ -44,6 +65,8 @@ interface TestRequest {
   approved_at?: string;
   approved_by?: string;
   rejection_reason?: string;
+  decision_rule?: DecisionRule | null;
+  decision_detail?: string | null;
   test: {
     title: string;
     type: string;
@@ -68,11 +91,67 @@ const TestRequests: React.FC = () => {
   );
   const [rejectionReason, setRejectionReason] = useState("");
   const [processing, setProcessing] = useState(false);
+  // Extra minutes per "testId:studentId", from test_time_extensions
+  const [extensions, setExtensions] = useState<Record<string, number>>({});
+  const [extensionRequest, setExtensionRequest] = useState<TestRequest | null>(
+    null,
+  );
+  const [extensionMinutes, setExtensionMinutes] = useState("");
+  const [extensionReason, setExtensionReason] = useState("");
+  const [assignments, setAssignments] = useState<
+    (TestAssignmentGroup & { test?: { title: string } })[]
+  >([]);
+  const [assignDialogOpen, setAssignDialogOpen] = useState(false);
+  const { classes, getClassStudentIds } = useStudentClasses();
+  const [classFilter, setClassFilter] = useState("all");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkMode, setBulkMode] = useState(false);
+  const [policiesOpen, setPoliciesOpen] = useState(false);
 
   useEffect(() => {
     fetchRequests();
+    fetchAssignments();
   }, []);
 
+  const fetchAssignments = async () => {
+    const { data, error } = await supabase
+      .from("test_assignment_groups")
+      .select("*, test:tests (title)")
+      .order("opens_at", { ascending: false });
+
+    if (error) {
+      // Older databases may not have the assignments table yet
+      console.warn("⚠️ Could not load test assignments:", error.message);
+      return;
+    }
+
+    setAssignments(data || []);
+  };
+
+  const handleDeleteAssignment = async (assignment: TestAssignmentGroup) => {
+    if (
+      !window.confirm(
+        `Remove the assignment "${assignment.name}"? Students keep any submissions they already made.`,
+      )
+    ) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("test_assignment_groups")
+      .delete()
+      .eq("id", assignment.id);
+
+    if (error) {
+      logError("handleDeleteAssignment", error);
+      toast.error(`Failed to remove assignment: ${parseError(error)}`);
+      return;
+    }
+
+    setAssignments((prev) => prev.filter((a) => a.id !== assignment.id));
+    toast.success("Assignment removed");
+  };
+
   const fetchRequests = async () => {
     try {
       setLoading(true);
@@ -141,6 +220,7 @@ const TestRequests: React.FC = () => {
       }
 
       setRequests(data || []);
+      await fetchExtensions(data || []);
     } catch (error: any) {
       logError("fetchRequests", error);
       const errorMessage = parseError(error);
@@ -150,6 +230,85 @@ const TestRequests: React.FC = () => {
     }
   };
 
+  const getExtensionKey = (request: Pick<TestRequest, "test_id" | "student_id">) =>
+    `${request.test_id}:${request.student_id}`;
+
+  const fetchExtensions = async (loadedRequests: TestRequest[]) => {
+    const testIds = [...new Set(loadedRequests.map((r) => r.test_id))];
+    if (testIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from("test_time_extensions")
+      .select("test_id, student_id, extra_minutes")
+      .in("test_id", testIds);
+
+    if (error) {
+      // Older databases may not have the extensions table yet
+      console.warn("⚠️ Could not load time extensions:", error.message);
+      return;
+    }
+
+    const byKey: Record<string, number> = {};
+    (data || []).forEach((extension) => {
+      byKey[getExtensionKey(extension)] = extension.extra_minutes;
+    });
+    setExtensions(byKey);
+  };
+
+  const openExtensionDialog = (request: TestRequest) => {
+    setExtensionRequest(request);
+    setExtensionMinutes(String(extensions[getExtensionKey(request)] || ""));
+    setExtensionReason("");
+  };
+
+  const closeExtensionDialog = () => {
+    setExtensionRequest(null);
+    setExtensionMinutes("");
+    setExtensionReason("");
+  };
+
+  const handleSaveExtension = async () => {
+    if (!extensionRequest) return;
+
+    const minutes = parseInt(extensionMinutes, 10);
+    if (isNaN(minutes) || minutes < 0 || minutes > 600) {
+      toast.error("Enter extra time between 0 and 600 minutes");
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      const { error } = await supabase.from("test_time_extensions").upsert(
+        {
+          test_id: extensionRequest.test_id,
+          student_id: extensionRequest.student_id,
+          extra_minutes: minutes,
+          reason: extensionReason.trim() || null,
+          granted_by: user?.id,
+        },
+        { onConflict: "test_id,student_id" },
+      );
+
+      if (error) throw error;
+
+      setExtensions((prev) => ({
+        ...prev,
+        [getExtensionKey(extensionRequest)]: minutes,
+      }));
+      toast.success(
+        minutes > 0
+          ? `${minutes} extra minutes granted to ${extensionRequest.student.first_name}`
+          : "Extra time removed",
+      );
+      closeExtensionDialog();
+    } catch (error: any) {
+      logError("handleSaveExtension", error);
+      toast.error(`Failed to save extra time: ${parseError(error)}`);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const handleAction = async () => {
     if (!selectedRequest || !actionType) return;
 
@@ -169,6 +328,7 @@ const TestRequests: React.FC = () => {
       try {
         updateData.approved_at = new Date().toISOString();
         updateData.approved_by = user?.id;
+        updateData.decision_rule = "manual";
 
         if (actionType === "reject" && rejectionReason) {
           updateData.rejection_reason = rejectionReason;
@@ -258,6 +418,58 @@ const TestRequests: React.FC = () => {
     setRejectionReason("");
   };
 
+  const closeActionDialog = () => {
+    setSelectedRequest(null);
+    setActionType(null);
+    setRejectionReason("");
+    setBulkMode(false);
+  };
+
+  const openBulkDialog = (action: "approve" | "reject") => {
+    setBulkMode(true);
+    setActionType(action);
+    setRejectionReason("");
+  };
+
+  const toggleSelected = (requestId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(requestId)) next.delete(requestId);
+      else next.add(requestId);
+      return next;
+    });
+  };
+
+  const handleBulkAction = async () => {
+    if (!actionType) return;
+
+    // Only act on rows the admin can currently see
+    const ids = visiblePending
+      .filter((r) => selectedIds.has(r.id))
+      .map((r) => r.id);
+
+    setProcessing(true);
+    try {
+      const updated = await decideTestRequests(ids, actionType, {
+        adminId: user?.id,
+        rule: "manual_bulk",
+        reason: rejectionReason,
+      });
+
+      toast.success(
+        `${updated} requests ${actionType === "approve" ? "approved" : "rejected"}`,
+      );
+      setSelectedIds(new Set());
+      closeActionDialog();
+      fetchRequests();
+    } catch (error: any) {
+      logError("handleBulkAction", error);
+      toast.error(`Failed to ${actionType} requests: ${parseError(error)}`);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "pending":
@@ -281,9 +493,24 @@ const TestRequests: React.FC = () => {
     });
   };
 
-  const pendingCount = requests.filter((r) => r.status === "pending").length;
-  const approvedCount = requests.filter((r) => r.status === "approved").length;
-  const rejectedCount = requests.filter((r) => r.status === "rejected").length;
+  const classStudentIds = getClassStudentIds(classFilter);
+  const visibleRequests = classStudentIds
+    ? requests.filter((r) => classStudentIds.has(r.student_id))
+    : requests;
+
+  const visiblePending = visibleRequests.filter((r) => r.status === "pending");
+  const selectedCount = visiblePending.filter((r) => selectedIds.has(r.id)).length;
+  const allPendingSelected =
+    visiblePending.length > 0 && selectedCount === visiblePending.length;
+
+  const toggleAllPending = () =>
+    setSelectedIds(
+      allPendingSelected ? new Set() : new Set(visiblePending.map((r) => r.id)),
+    );
+
+  const pendingCount = visiblePending.length;
+  const approvedCount = visibleRequests.filter((r) => r.status === "approved").length;
+  const rejectedCount = visibleRequests.filter((r) => r.status === "rejected").length;
 
   if (loading) {
     return (
@@ -310,12 +537,29 @@ const TestRequests: React.FC = () => {
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
-        className="mb-8"
+        className="mb-8 flex items-start justify-between"
       >
-        <h1 className="text-3xl font-bold mb-2">Test Requests</h1>
-        <p className="text-muted-foreground">
-          Manage student test access requests
-        </p>
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Test Requests</h1>
+          <p className="text-muted-foreground">
+            Manage student test access requests
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <ClassFilterSelect
+            classes={classes}
+            value={classFilter}
+            onChange={setClassFilter}
+          />
+          <Button variant="outline" onClick={() => setPoliciesOpen(true)}>
+            <Zap className="h-4 w-4 mr-2" />
+            Auto-approval
+          </Button>
+          <Button onClick={() => setAssignDialogOpen(true)}>
+            <Users className="h-4 w-4 mr-2" />
+            Assign to Students
+          </Button>
+        </div>
       </motion.div>
 
       {/* Stats Cards */}
@@ -332,7 +576,7 @@ const TestRequests: React.FC = () => {
                 <p className="text-sm font-medium text-muted-foreground">
                   Total Requests
                 </p>
-                <p className="text-2xl font-bold">{requests.length}</p>
+                <p className="text-2xl font-bold">{visibleRequests.length}</p>
               </div>
               <FileText className="h-8 w-8 text-blue-500" />
             </div>
@@ -382,6 +626,78 @@ const TestRequests: React.FC = () => {
         </Card>
       </motion.div>
 
+      {/* Scheduled Assignments */}
+      {assignments.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+          className="mb-8"
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle>Scheduled Assignments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Assignment</TableHead>
+                    <TableHead>Test</TableHead>
+                    <TableHead>Window</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {assignments.map((assignment) => {
+                    const state = getWindowState(assignment);
+                    return (
+                      <TableRow key={assignment.id}>
+                        <TableCell>
+                          <p className="font-medium">{assignment.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {assignment.student_ids.length} students
+                          </p>
+                        </TableCell>
+                        <TableCell>{assignment.test?.title || "—"}</TableCell>
+                        <TableCell className="text-sm">
+                          {formatDate(assignment.opens_at)} –{" "}
+                          {formatDate(assignment.closes_at)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="secondary"
+                            className={
+                              state === "open"
+                                ? "bg-green-100 text-green-800"
+                                : state === "upcoming"
+                                  ? "bg-blue-100 text-blue-800"
+                                  : "bg-gray-100 text-gray-800"
+                            }
+                          >
+                            {WINDOW_STATE_LABELS[state]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteAssignment(assignment)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+
       {/* Requests Table */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -390,10 +706,31 @@ const TestRequests: React.FC = () => {
       >
         <Card>
           <CardHeader>
-            <CardTitle>Recent Requests</CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle>Recent Requests</CardTitle>
+              {selectedCount > 0 && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">
+                    {selectedCount} selected
+                  </span>
+                  <Button size="sm" onClick={() => openBulkDialog("approve")}>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Approve selected
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => openBulkDialog("reject")}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject selected
+                  </Button>
+                </div>
+              )}
+            </div>
           </CardHeader>
           <CardContent>
-            {requests.length === 0 ? (
+            {visibleRequests.length === 0 ? (
               <div className="text-center py-8">
                 <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <h3 className="text-lg font-medium mb-2">No requests yet</h3>
@@ -405,6 +742,14 @@ const TestRequests: React.FC = () => {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allPendingSelected}
+                        onCheckedChange={toggleAllPending}
+                        disabled={visiblePending.length === 0}
+                        aria-label="Select all pending requests"
+                      />
+                    </TableHead>
                     <TableHead>Student</TableHead>
                     <TableHead>Test</TableHead>
                     <TableHead>Requested</TableHead>
@@ -413,8 +758,17 @@ const TestRequests: React.FC = () => {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {requests.map((request) => (
+                  {visibleRequests.map((request) => (
                     <TableRow key={request.id}>
+                      <TableCell>
+                        {request.status === "pending" && (
+                          <Checkbox
+                            checked={selectedIds.has(request.id)}
+                            onCheckedChange={() => toggleSelected(request.id)}
+                            aria-label="Select request"
+                          />
+                        )}
+                      </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <User className="h-4 w-4 text-muted-foreground" />
@@ -451,6 +805,15 @@ const TestRequests: React.FC = () => {
                           {request.status.charAt(0).toUpperCase() +
                             request.status.slice(1)}
                         </Badge>
+                        {request.decision_rule && (
+                          <p
+                            className={`text-xs mt-1 ${isAutoDecision(request.decision_rule) ? "text-blue-600" : "text-muted-foreground"}`}
+                            title={request.decision_detail || undefined}
+                          >
+                            {DECISION_RULE_LABELS[request.decision_rule] ||
+                              request.decision_rule}
+                          </p>
+                        )}
                       </TableCell>
                       <TableCell>
                         {request.status === "pending" ? (
@@ -475,11 +838,25 @@ const TestRequests: React.FC = () => {
                               Reject
                             </Button>
                           </div>
+                        ) : request.status === "approved" ? (
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openExtensionDialog(request)}
+                            >
+                              <Timer className="h-4 w-4 mr-2" />
+                              Extra time
+                            </Button>
+                            {extensions[getExtensionKey(request)] > 0 && (
+                              <Badge variant="secondary">
+                                +{extensions[getExtensionKey(request)]} min
+                              </Badge>
+                            )}
+                          </div>
                         ) : (
                           <span className="text-sm text-muted-foreground">
-                            {request.status === "approved"
-                              ? "Already approved"
-                              : "Already rejected"}
+                            Already rejected
                           </span>
                         )}
                       </TableCell>
@@ -494,17 +871,14 @@ const TestRequests: React.FC = () => {
 
       {/* Action Dialog */}
       <Dialog
-        open={!!selectedRequest && !!actionType}
-        onOpenChange={() => {
-          setSelectedRequest(null);
-          setActionType(null);
-          setRejectionReason("");
-        }}
+        open={(!!selectedRequest || bulkMode) && !!actionType}
+        onOpenChange={closeActionDialog}
       >
         <DialogContent className="max-w-md">
           <DialogHeader>
             <DialogTitle>
-              {actionType === "approve" ? "Approve" : "Reject"} Test Request
+              {actionType === "approve" ? "Approve" : "Reject"}{" "}
+              {bulkMode ? `${selectedCount} Test Requests` : "Test Request"}
             </DialogTitle>
             <DialogDescription>
               {actionType === "approve"
@@ -513,17 +887,19 @@ const TestRequests: React.FC = () => {
             </DialogDescription>
           </DialogHeader>
 
-          {selectedRequest && (
+          {(selectedRequest || bulkMode) && (
             <div className="space-y-4">
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-medium">
-                  {selectedRequest.student.first_name}{" "}
-                  {selectedRequest.student.last_name}
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  {selectedRequest.test.title}
-                </p>
-              </div>
+              {selectedRequest && (
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-medium">
+                    {selectedRequest.student.first_name}{" "}
+                    {selectedRequest.student.last_name}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {selectedRequest.test.title}
+                  </p>
+                </div>
+              )}
 
               {actionType === "reject" && (
                 <div>
@@ -553,18 +929,11 @@ const TestRequests: React.FC = () => {
           )}
 
           <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => {
-                setSelectedRequest(null);
-                setActionType(null);
-                setRejectionReason("");
-              }}
-            >
+            <Button variant="outline" onClick={closeActionDialog}>
               Cancel
             </Button>
             <Button
-              onClick={handleAction}
+              onClick={bulkMode ? handleBulkAction : handleAction}
               disabled={processing}
               variant={actionType === "approve" ? "default" : "destructive"}
             >
@@ -577,6 +946,81 @@ const TestRequests: React.FC = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <ApprovalPoliciesDialog
+        open={policiesOpen}
+        onOpenChange={setPoliciesOpen}
+        pendingRequests={requests.filter((r) => r.status === "pending")}
+        onApplied={fetchRequests}
+      />
+
+      <AssignTestDialog
+        open={assignDialogOpen}
+        onOpenChange={setAssignDialogOpen}
+        onAssigned={fetchAssignments}
+      />
+
+      {/* Extra Time Dialog */}
+      <Dialog
+        open={!!extensionRequest}
+        onOpenChange={(open) => !open && closeExtensionDialog()}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Extra Time</DialogTitle>
+            <DialogDescription>
+              Added to the test duration for this student only. Set 0 to
+              remove it.
+            </DialogDescription>
+          </DialogHeader>
+
+          {extensionRequest && (
+            <div className="space-y-4">
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="font-medium">
+                  {extensionRequest.student.first_name}{" "}
+                  {extensionRequest.student.last_name}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {extensionRequest.test.title} •{" "}
+                  {extensionRequest.test.duration} min
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="extension_minutes">Extra minutes</Label>
+                <Input
+                  id="extension_minutes"
+                  type="number"
+                  min={0}
+                  max={600}
+                  value={extensionMinutes}
+                  onChange={(e) => setExtensionMinutes(e.target.value)}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="extension_reason">Reason (optional)</Label>
+                <Textarea
+                  id="extension_reason"
+                  placeholder="e.g. Approved access arrangement"
+                  value={extensionReason}
+                  onChange={(e) => setExtensionReason(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeExtensionDialog}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveExtension} disabled={processing}>
+              {processing ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
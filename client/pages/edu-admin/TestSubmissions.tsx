@@ -33,14 +33,24 @@ import {
   Award,
   Star,
   Trash2,
+  RefreshCw,
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
+import { saveManualGrades } from "@/lib/testProgressUtils";
 import { logError, classifyError } from "@/lib/errorUtils";
 import { useAuth } from "@/contexts/AuthContext";
 import SubmissionReviewModal from "@/components/admin/SubmissionReviewModal";
+import ClassFilterSelect from "@/components/admin/ClassFilterSelect";
+import { useStudentClasses } from "@/hooks/use-student-classes";
 import { AnswerReview } from "@/components/ui/answer-review";
 import { AnswerSubmission } from "@/components/ui/answer-submission";
 import WritingGradingModal from "@/components/admin/WritingGradingModal";
+import RegradeDialog from "@/components/admin/RegradeDialog";
+import {
+  getAbsentStudents,
+  type TestAssignmentGroup,
+} from "@shared/testWindows";
+import { parseAttemptPolicy, selectCountedRows } from "@shared/testAttempts";
 
 /*
  * DEMO FEATURES - REMOVE WHEN NOT NEEDED
@@ -64,6 +74,7 @@ interface TestSubmission {
   status: string;
   submitted_at: string;
   answers?: any;
+  is_late?: boolean;
   test: {
     title: string;
     type: string;
@@ -78,6 +89,11 @@ interface TestSubmission {
   reading_score?: number | null;
   listening_score?: number | null;
   writing_score?: number | null;
+  speaking_score?: number | null;
+  overall_band_status?: "complete" | "incomplete" | null;
+  attempt_number?: number | null;
+  // Set when the test's attempt scoring picks an earlier attempt over this one
+  counted_attempt?: { attempt_number: number; total_score: number | null } | null;
 }
 
 const TestSubmissions: React.FC = () => {
@@ -90,6 +106,10 @@ const TestSubmissions: React.FC = () => {
   const [enhancedReviewOpen, setEnhancedReviewOpen] = useState(false);
   const [showWritingGrading, setShowWritingGrading] = useState(false);
   const [writingGradingSubmission, setWritingGradingSubmission] = useState<TestSubmission | null>(null);
+  const [regradeSubmission, setRegradeSubmission] =
+    useState<TestSubmission | null>(null);
+  const { classes, getClassStudentIds } = useStudentClasses();
+  const [classFilter, setClassFilter] = useState("all");
 
   useEffect(() => {
     fetchSubmissions();
@@ -125,7 +145,7 @@ const TestSubmissions: React.FC = () => {
       // Step 1: Get all tests for this edu center
       const { data: centerTests, error: testsError } = await supabase
         .from("tests")
-        .select("id, title, type, edu_center_id")
+        .select("id, title, type, edu_center_id, attempt_scoring")
         .eq("edu_center_id", profile.edu_center_id);
 
       if (testsError) {
@@ -157,7 +177,11 @@ const TestSubmissions: React.FC = () => {
           total_score,
           reading_score,
           listening_score,
-          writing_score
+          writing_score,
+          speaking_score,
+          overall_band_status,
+          is_late,
+          attempt_number
         `,
         )
         .in("test_id", testIds)
@@ -172,6 +196,11 @@ const TestSubmissions: React.FC = () => {
 
       console.log("🔍 Raw submissions from database:", submissions);
 
+      const countedAttempts = await fetchCountedAttempts(
+        centerTests,
+        submissions || [],
+      );
+
       // Step 3: Enrich submissions with test and student data
       const data = await Promise.all(
         (submissions || []).map(async (submission) => {
@@ -184,8 +213,20 @@ const TestSubmissions: React.FC = () => {
             .eq("id", submission.student_id)
             .single();
 
+          const counted = countedAttempts.get(
+            `${submission.test_id}:${submission.student_id}`,
+          );
+
           return {
             ...submission,
+            counted_attempt:
+              counted &&
+              counted.attempt_number !== (submission.attempt_number || 1)
+                ? {
+                    attempt_number: counted.attempt_number,
+                    total_score: counted.total_score ?? null,
+                  }
+                : null,
             test: test || {
               title: "Unknown Test",
               type: "unknown",
@@ -201,7 +242,8 @@ const TestSubmissions: React.FC = () => {
       );
 
       console.log("🔍 Enriched submissions data:", data);
-      setSubmissions(data);
+      const absentRows = await fetchAbsentRows(centerTests, submissions || []);
+      setSubmissions([...data, ...absentRows]);
 
       if (error) {
         console.error("Error fetching submissions:", error);
@@ -271,17 +313,10 @@ const TestSubmissions: React.FC = () => {
     criteriaScores?: any[],
   ): Promise<void> => {
     try {
-      const { error } = await supabase
-        .from("test_submissions")
-        .update({
-          total_score: totalScore,
-          feedback: feedback,
-          status: "graded",
-          graded_at: new Date().toISOString(),
-        })
-        .eq("id", submissionId);
-
-      if (error) throw error;
+      await saveManualGrades(submissionId, {
+        total_score: totalScore,
+        feedback: feedback,
+      });
 
       // Refresh submissions
       await fetchSubmissions();
@@ -300,12 +335,7 @@ const TestSubmissions: React.FC = () => {
     status: string,
   ): Promise<void> => {
     try {
-      const { error } = await supabase
-        .from("test_submissions")
-        .update({ status })
-        .eq("id", submissionId);
-
-      if (error) throw error;
+      await saveManualGrades(submissionId, {}, status);
 
       await fetchSubmissions();
       toast.success("Status updated successfully!");
@@ -343,6 +373,94 @@ const TestSubmissions: React.FC = () => {
     }
   };
 
+  // The attempt that counts for each student on each test, keyed "testId:studentId"
+  const fetchCountedAttempts = async (
+    centerTests: { id: string; attempt_scoring?: string | null }[],
+    submissions: {
+      test_id: string;
+      student_id: string;
+      status: string;
+      attempt_number?: number | null;
+      total_score?: number | null;
+      submitted_at?: string | null;
+    }[],
+  ) => {
+    const { data: attempts, error } = await supabase
+      .from("test_attempts")
+      .select("test_id, student_id, status, attempt_number, total_score, submitted_at")
+      .in(
+        "test_id",
+        centerTests.map((t) => t.id),
+      );
+
+    if (error) {
+      console.warn("⚠️ Could not load previous attempts:", error.message);
+    }
+
+    const counted = selectCountedRows(
+      [
+        ...submissions.map((s) => ({ ...s, attempt_number: s.attempt_number || 1 })),
+        ...(attempts || []),
+      ],
+      Object.fromEntries(
+        centerTests.map((t) => [t.id, parseAttemptPolicy(t).scoring]),
+      ),
+    );
+
+    return new Map(counted.map((row) => [`${row.test_id}:${row.student_id}`, row]));
+  };
+
+  // Assigned students who never submitted before their window closed
+  const fetchAbsentRows = async (
+    centerTests: { id: string; title: string; type: string }[],
+    submissions: { test_id: string; student_id: string }[],
+  ): Promise<TestSubmission[]> => {
+    const { data: groups, error } = await supabase
+      .from("test_assignment_groups")
+      .select("*")
+      .in(
+        "test_id",
+        centerTests.map((t) => t.id),
+      );
+
+    if (error) {
+      console.warn("⚠️ Could not load test assignments:", error.message);
+      return [];
+    }
+
+    const absent = getAbsentStudents(
+      (groups || []) as TestAssignmentGroup[],
+      submissions,
+    );
+    if (absent.length === 0) return [];
+
+    const { data: students } = await supabase
+      .from("profiles")
+      .select("id, first_name, last_name, email")
+      .in("id", [...new Set(absent.map((a) => a.studentId))]);
+
+    return absent.map(({ testId, studentId, group }) => {
+      const test = centerTests.find((t) => t.id === testId);
+      const student = students?.find((p) => p.id === studentId);
+      return {
+        id: `absent-${testId}-${studentId}`,
+        test_id: testId,
+        student_id: studentId,
+        status: "absent",
+        submitted_at: group.closes_at,
+        test: {
+          title: test?.title || "Unknown Test",
+          type: test?.type || "unknown",
+        },
+        student: {
+          first_name: student?.first_name || "Unknown",
+          last_name: student?.last_name || "Student",
+          email: student?.email || "",
+        },
+      };
+    });
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "submitted":
@@ -351,6 +469,10 @@ const TestSubmissions: React.FC = () => {
         return "bg-blue-100 text-blue-800";
       case "graded":
         return "bg-green-100 text-green-800";
+      case "rejected_late":
+        return "bg-red-100 text-red-800";
+      case "absent":
+        return "bg-orange-100 text-orange-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -385,18 +507,30 @@ const TestSubmissions: React.FC = () => {
     );
   }
 
+  const classStudentIds = getClassStudentIds(classFilter);
+  const visibleSubmissions = classStudentIds
+    ? submissions.filter((s) => classStudentIds.has(s.student_id))
+    : submissions;
+
   return (
     <div className="container mx-auto p-6">
       {/* Header */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
-        className="mb-8"
+        className="mb-8 flex items-start justify-between gap-4"
       >
-        <h1 className="text-3xl font-bold mb-2">Test Submissions</h1>
-        <p className="text-muted-foreground">
-          Review and grade student test submissions
-        </p>
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Test Submissions</h1>
+          <p className="text-muted-foreground">
+            Review and grade student test submissions
+          </p>
+        </div>
+        <ClassFilterSelect
+          classes={classes}
+          value={classFilter}
+          onChange={setClassFilter}
+        />
       </motion.div>
 
       {/* Stats Cards */}
@@ -404,7 +538,7 @@ const TestSubmissions: React.FC = () => {
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ delay: 0.1 }}
-        className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8"
+        className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8"
       >
         <Card>
           <CardContent className="p-6">
@@ -413,7 +547,9 @@ const TestSubmissions: React.FC = () => {
                 <p className="text-sm font-medium text-muted-foreground">
                   Total Submissions
                 </p>
-                <p className="text-2xl font-bold">{submissions.length}</p>
+                <p className="text-2xl font-bold">
+                  {visibleSubmissions.filter((s) => s.status !== "absent").length}
+                </p>
               </div>
               <FileText className="h-8 w-8 text-blue-500" />
             </div>
@@ -428,7 +564,7 @@ const TestSubmissions: React.FC = () => {
                   Pending Review
                 </p>
                 <p className="text-2xl font-bold">
-                  {submissions.filter((s) => s.status === "submitted").length}
+                  {visibleSubmissions.filter((s) => s.status === "submitted").length}
                 </p>
               </div>
               <Clock className="h-8 w-8 text-yellow-500" />
@@ -444,13 +580,29 @@ const TestSubmissions: React.FC = () => {
                   Graded
                 </p>
                 <p className="text-2xl font-bold">
-                  {submissions.filter((s) => s.status === "graded").length}
+                  {visibleSubmissions.filter((s) => s.status === "graded").length}
                 </p>
               </div>
               <CheckCircle className="h-8 w-8 text-green-500" />
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">
+                  Absent
+                </p>
+                <p className="text-2xl font-bold">
+                  {visibleSubmissions.filter((s) => s.status === "absent").length}
+                </p>
+              </div>
+              <User className="h-8 w-8 text-orange-500" />
+            </div>
+          </CardContent>
+        </Card>
       </motion.div>
 
       {/* Submissions Table */}
@@ -464,7 +616,7 @@ const TestSubmissions: React.FC = () => {
             <CardTitle>Recent Submissions</CardTitle>
           </CardHeader>
           <CardContent>
-            {submissions.length === 0 ? (
+            {visibleSubmissions.length === 0 ? (
               <div className="text-center py-8">
                 <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <h3 className="text-lg font-medium mb-2">No submissions yet</h3>
@@ -485,7 +637,7 @@ const TestSubmissions: React.FC = () => {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {submissions.map((submission) => (
+                  {visibleSubmissions.map((submission) => (
                     <TableRow key={submission.id}>
                       <TableCell>
                         <div className="flex items-center gap-2">
@@ -521,16 +673,47 @@ const TestSubmissions: React.FC = () => {
                           className={getStatusColor(submission.status)}
                         >
                           {submission.status.charAt(0).toUpperCase() +
-                            submission.status.slice(1)}
+                            submission.status.slice(1).replace("_", " ")}
                         </Badge>
+                        {submission.is_late && (
+                          <Badge
+                            variant="outline"
+                            className="ml-2 text-xs border-red-300 text-red-700"
+                          >
+                            Late
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>
-                        {(submission as any).total_score ? (
+                        {submission.counted_attempt?.total_score ? (
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <Award className="h-4 w-4 text-yellow-500" />
+                              <span className="font-medium">
+                                {submission.counted_attempt.total_score.toFixed(1)}
+                              </span>
+                              <Badge variant="outline" className="text-xs">
+                                Attempt {submission.counted_attempt.attempt_number} counts
+                              </Badge>
+                            </div>
+                            {submission.total_score ? (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                This attempt:{" "}
+                                {submission.total_score.toFixed(1)}
+                              </p>
+                            ) : null}
+                          </div>
+                        ) : submission.total_score ? (
                           <div className="flex items-center gap-2">
                             <Award className="h-4 w-4 text-yellow-500" />
                             <span className="font-medium">
-                              {(submission as any).total_score.toFixed(1)}
+                              {submission.total_score.toFixed(1)}
                             </span>
+                            {submission.overall_band_status === "incomplete" && (
+                              <Badge variant="outline" className="text-xs">
+                                Incomplete
+                              </Badge>
+                            )}
                           </div>
                         ) : (
                           <span className="text-muted-foreground">
@@ -539,35 +722,51 @@ const TestSubmissions: React.FC = () => {
                         )}
                       </TableCell>
                       <TableCell>
-                        <div className="flex items-center gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => openReviewModal(submission)}
-                          >
-                            <Eye className="h-4 w-4 mr-2" />
-                            {submission.status === "submitted"
-                              ? "Grade"
-                              : "Review"}
-                          </Button>
-                          <Button
-                            variant="secondary"
-                            size="sm"
-                            onClick={() => openEnhancedReview(submission)}
-                          >
-                            <Star className="h-4 w-4 mr-2" />
-                            Enhanced
-                          </Button>
-                          <Button
-                            variant="destructive"
-                            size="sm"
-                            onClick={() => handleDeleteSubmission(submission.id)}
-                            className="flex items-center gap-1"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                            Demo Delete
-                          </Button>
-                        </div>
+                        {submission.status === "absent" ? (
+                          <span className="text-sm text-muted-foreground">
+                            No submission before the window closed
+                          </span>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openReviewModal(submission)}
+                            >
+                              <Eye className="h-4 w-4 mr-2" />
+                              {submission.status === "submitted"
+                                ? "Grade"
+                                : "Review"}
+                            </Button>
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              onClick={() => openEnhancedReview(submission)}
+                            >
+                              <Star className="h-4 w-4 mr-2" />
+                              Enhanced
+                            </Button>
+                            {submission.status === "graded" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setRegradeSubmission(submission)}
+                                title="Regrade with the current answer keys"
+                              >
+                                <RefreshCw className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => handleDeleteSubmission(submission.id)}
+                              className="flex items-center gap-1"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              Demo Delete
+                            </Button>
+                          </div>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -578,13 +777,25 @@ const TestSubmissions: React.FC = () => {
         </Card>
       </motion.div>
 
+      <RegradeDialog
+        open={!!regradeSubmission}
+        onOpenChange={(open) => !open && setRegradeSubmission(null)}
+        testId={regradeSubmission?.test_id}
+        request={
+          regradeSubmission
+            ? { scope: "submission", submissionId: regradeSubmission.id }
+            : null
+        }
+        subject="this submission"
+        onApplied={fetchSubmissions}
+      />
+
       {/* Review Modal with Grading */}
       <SubmissionReviewModal
         isOpen={reviewModalOpen}
         onClose={() => setReviewModalOpen(false)}
         submission={selectedSubmission}
         onGraded={handleSubmissionGraded}
-        gradedBy={user?.id || ""}
         onOpenWritingGrading={(submission) => {
           setWritingGradingSubmission(submission);
           setShowWritingGrading(true);
@@ -612,7 +823,7 @@ const TestSubmissions: React.FC = () => {
                 metadata: {}, // Only allowed fields, or leave empty
                 submittedAt: selectedSubmission.submitted_at,
                 status: selectedSubmission.status as any,
-                score: (selectedSubmission as any).total_score,
+                score: selectedSubmission.total_score,
               }}
               gradingCriteria={[
                 {
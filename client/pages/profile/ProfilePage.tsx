@@ -8,6 +8,13 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -25,10 +32,26 @@ import {
   Key,
   Camera,
   CheckCircle,
+  Target,
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
 import { useAuthStore } from "@/store/authStore";
+import { saveTargetProfile } from "@/lib/targetBandUtils";
+import {
+  TARGET_BAND_OPTIONS,
+  parseTargetProfile,
+  validateTargetProfile,
+} from "@shared/targetBands";
+
+// Select value for a target that is not set
+const NO_TARGET = "none";
+
+const toTargetValue = (band: number | null) =>
+  band === null ? NO_TARGET : band.toFixed(1);
+
+const fromTargetValue = (value: string) =>
+  value === NO_TARGET ? null : Number(value);
 
 interface ProfileForm {
   first_name: string;
@@ -62,6 +85,13 @@ const ProfilePage: React.FC = () => {
   const [eduCenter, setEduCenter] = useState<any>(null);
   const [message, setMessage] = useState({ type: "", content: "" });
   const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
+  const [isSavingTarget, setIsSavingTarget] = useState(false);
+  const [targetOverall, setTargetOverall] = useState(
+    toTargetValue(parseTargetProfile(user).overall),
+  );
+  const [targetMin, setTargetMin] = useState(
+    toTargetValue(parseTargetProfile(user).minimum),
+  );
 
   const {
     register: registerProfile,
@@ -187,6 +217,39 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  const handleTargetUpdate = async () => {
+    if (!user) return;
+    const target = {
+      overall: fromTargetValue(targetOverall),
+      minimum: fromTargetValue(targetMin),
+    };
+    const validationError = validateTargetProfile(target);
+    if (validationError) {
+      setMessage({ type: "error", content: validationError });
+      return;
+    }
+
+    setIsSavingTarget(true);
+    setMessage({ type: "", content: "" });
+
+    try {
+      const updatedProfile = await saveTargetProfile(user.id, target);
+      setUser(updatedProfile);
+      setMessage({
+        type: "success",
+        content: "Target bands updated successfully!",
+      });
+    } catch (error) {
+      console.error("Error updating target bands:", error);
+      setMessage({
+        type: "error",
+        content: `Failed to update target bands: ${error instanceof Error ? error.message : "Unknown error"}`,
+      });
+    } finally {
+      setIsSavingTarget(false);
+    }
+  };
+
   const handleImageUpload = async (
     event: React.ChangeEvent<HTMLInputElement>,
   ) => {
@@ -681,6 +744,68 @@ const ProfilePage: React.FC = () => {
         </Card>
       </div>
 
+      {/* IELTS Target (for Students only) */}
+      {user?.role === "student" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              IELTS Target
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Set the band you are aiming for. Your teachers see it, and your
+              dashboard compares your recent results against it.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="target_overall_band">Overall band</Label>
+                <Select value={targetOverall} onValueChange={setTargetOverall}>
+                  <SelectTrigger id="target_overall_band">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TARGET}>No target</SelectItem>
+                    {TARGET_BAND_OPTIONS.map((band) => (
+                      <SelectItem key={band} value={band.toFixed(1)}>
+                        {band.toFixed(1)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="target_min_band">Minimum band per skill</Label>
+                <Select value={targetMin} onValueChange={setTargetMin}>
+                  <SelectTrigger id="target_min_band">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TARGET}>No minimum</SelectItem>
+                    {TARGET_BAND_OPTIONS.map((band) => (
+                      <SelectItem key={band} value={band.toFixed(1)}>
+                        {band.toFixed(1)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Button onClick={handleTargetUpdate} disabled={isSavingTarget}>
+              {isSavingTarget ? (
+                "Saving..."
+              ) : (
+                <>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Target
+                </>
+              )}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Education Center Management (for Edu Admins only) */}
       {user?.role === "edu_admin" && eduCenter && (
         <Card>
@@ -37,6 +37,7 @@ export default function AvailableTests() {
         .select('*')
         .eq('type', 'listening')
         .eq('status', 'draft')
+        .is('archived_at', null)
         .order('created_at', { ascending: false });
 
       if (fetchError) throw fetchError;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,11 +10,29 @@ import {
   Bell,
   FileText,
   BarChart3,
+  TrendingUp,
+  Target,
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 import { parseError, logError } from "@/lib/errorUtils";
+import { loadScoredAttempts } from "@/lib/targetBandUtils";
+import type { ScoredAttempt } from "@shared/progressAnalytics";
+import {
+  READINESS_STATUS_LABELS,
+  estimateReadiness,
+  hasTarget,
+  parseTargetProfile,
+  type ReadinessStatus,
+} from "@shared/targetBands";
+
+const READINESS_COLORS: Record<ReadinessStatus, string> = {
+  on_track: "bg-green-100 text-green-800",
+  close: "bg-yellow-100 text-yellow-800",
+  off_track: "bg-red-100 text-red-800",
+  no_data: "bg-gray-100 text-gray-800",
+};
 
 const StudentDashboard: React.FC = () => {
   const { user } = useAuth();
@@ -33,13 +51,31 @@ const StudentDashboard: React.FC = () => {
   const [testRequests, setTestRequests] = useState<any[]>([]);
   const [completedTests, setCompletedTests] = useState<number>(0);
   const [recentActivity, setRecentActivity] = useState<any[]>([]);
+  const [scoredAttempts, setScoredAttempts] = useState<ScoredAttempt[]>([]);
 
   useEffect(() => {
     if (user) {
       fetchStudentStats();
+      fetchScoredAttempts();
     }
   }, [user]);
 
+  const fetchScoredAttempts = async () => {
+    try {
+      if (!user) return;
+      const attemptsByStudent = await loadScoredAttempts([user.id]);
+      setScoredAttempts(attemptsByStudent[user.id] || []);
+    } catch (error: any) {
+      logError("fetchScoredAttempts", error);
+    }
+  };
+
+  const target = parseTargetProfile(user);
+  const readiness = useMemo(
+    () => estimateReadiness(scoredAttempts, target),
+    [scoredAttempts, target.overall, target.minimum],
+  );
+
   const fetchStudentStats = async () => {
     try {
       if (!user) return;
@@ -174,7 +210,8 @@ const StudentDashboard: React.FC = () => {
         .from("tests")
         .select("id, title, status, type, duration, created_at")
         .eq("status", "published")
-        .eq("edu_center_id", profile.edu_center_id);
+        .eq("edu_center_id", profile.edu_center_id)
+        .is("archived_at", null);
 
       if (testsError) {
         console.error(
@@ -377,6 +414,91 @@ const StudentDashboard: React.FC = () => {
         </Card>
       </div>
 
+      {/* Target Readiness */}
+      <div className="mb-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2">
+                <Target className="h-5 w-5" />
+                Target Readiness
+              </span>
+              {hasTarget(target) && (
+                <Badge className={READINESS_COLORS[readiness.status]}>
+                  {READINESS_STATUS_LABELS[readiness.status]}
+                </Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!hasTarget(target) ? (
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  Set a target band to see how close your recent results are.
+                </p>
+                <Button asChild variant="outline" size="sm">
+                  <Link to="/profile">Set Target</Link>
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Target{" "}
+                  {target.overall !== null &&
+                    `${target.overall.toFixed(1)} overall`}
+                  {target.overall !== null && target.minimum !== null && ", "}
+                  {target.minimum !== null &&
+                    `no band below ${target.minimum.toFixed(1)}`}
+                  . Estimates average your last three results per skill.
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div className="p-4 border rounded-lg">
+                    <p className="text-sm text-muted-foreground">Overall</p>
+                    <p
+                      className={`text-2xl font-bold ${readiness.overallGap !== null && readiness.overallGap < 0 ? "text-red-600" : ""}`}
+                    >
+                      {readiness.overallEstimate?.toFixed(1) ?? "—"}
+                    </p>
+                    {target.overall !== null && (
+                      <p className="text-xs text-muted-foreground">
+                        Target {target.overall.toFixed(1)}
+                      </p>
+                    )}
+                  </div>
+                  {readiness.skills.map((skill) => {
+                    const isBelow = readiness.skillsBelowTarget.includes(
+                      skill.skill,
+                    );
+                    return (
+                      <div
+                        key={skill.skill}
+                        className={`p-4 border rounded-lg ${isBelow ? "border-red-300 bg-red-50" : ""}`}
+                      >
+                        <p className="text-sm text-muted-foreground capitalize">
+                          {skill.skill}
+                        </p>
+                        <p
+                          className={`text-2xl font-bold ${isBelow ? "text-red-600" : ""}`}
+                        >
+                          {skill.estimate?.toFixed(1) ?? "—"}
+                        </p>
+                        {skill.required !== null && (
+                          <p className="text-xs text-muted-foreground">
+                            {isBelow
+                              ? `${Math.abs(skill.gap).toFixed(1)} below target`
+                              : `Target ${skill.required.toFixed(1)}`}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Quick Actions */}
       <div className="mb-8">
         <Card>
@@ -387,7 +509,7 @@ const StudentDashboard: React.FC = () => {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <Button asChild className="h-auto p-4 flex flex-col items-center space-y-2">
                 <Link to="/student/available-tests">
                   <BookOpen className="h-6 w-6" />
@@ -402,6 +524,13 @@ const StudentDashboard: React.FC = () => {
                   <span className="text-xs opacity-80">Check your progress</span>
                 </Link>
               </Button>
+              <Button asChild variant="outline" className="h-auto p-4 flex flex-col items-center space-y-2">
+                <Link to="/student/progress">
+                  <TrendingUp className="h-6 w-6" />
+                  <span>My Progress</span>
+                  <span className="text-xs opacity-80">Band trends and weak areas</span>
+                </Link>
+              </Button>
               <Button asChild variant="outline" className="h-auto p-4 flex flex-col items-center space-y-2">
                 <Link to="/profile">
                   <FileText className="h-6 w-6" />
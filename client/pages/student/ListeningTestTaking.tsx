@@ -4,14 +4,35 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { supabase } from "@/lib/supabase";
 import { parseContentForStudent } from "@/lib/contentParser";
-import { markSectionCompleted, isAllSectionsCompleted } from "@/lib/testProgressUtils";
+import {
+  markSectionCompleted,
+  isAllSectionsCompleted,
+  loadExamContent,
+} from "@/lib/testProgressUtils";
 import { Clock, Headphones, Send, ArrowLeft, ChevronLeft, ChevronRight, CheckCircle } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
+import { useAnswerPersistence } from "@/hooks/use-answer-persistence";
+import { useExamTimer } from "@/hooks/use-exam-timer";
+import { SaveStatusIndicator } from "@/components/ui/save-status-indicator";
 import { Table } from "@tiptap/extension-table";
 import TableRow from "@tiptap/extension-table-row";
 import TableCell from "@tiptap/extension-table-cell";
 import TableHeader from "@tiptap/extension-table-header";
+import {
+  findCompletionBlock,
+  getBankLetter,
+  getCompletionInstructions,
+  parseCompletionBlock,
+} from "@shared/completion";
+import { parseAnswerRules } from "@shared/answerMatching";
+import {
+  formatAnswerLimit,
+  formatQuestionRange,
+  getGroupInstructions,
+  inferQuestionGroup,
+  parseQuestionGroup,
+} from "@shared/questionGroups";
 
 interface StudentAnswer {
   questionNumber: number;
@@ -58,7 +79,6 @@ const ListeningTestTaking: React.FC = () => {
     if (saved) {
       try {
         const parsed = JSON.parse(saved);
-        if (parsed.answers) setStudentAnswers(parsed.answers);
         if (parsed.timeLeft) setTimeLeft(parsed.timeLeft);
         if (parsed.currentSectionIndex !== undefined) setCurrentSectionIndex(parsed.currentSectionIndex);
       } catch {}
@@ -71,14 +91,24 @@ const ListeningTestTaking: React.FC = () => {
     localStorage.setItem(
       localStorageKey,
       JSON.stringify({
-        answers: studentAnswers,
         timeLeft,
         currentSectionIndex,
         testId,
         timestamp: Date.now(),
       })
     );
-  }, [studentAnswers, timeLeft, currentSectionIndex, localStorageKey, testId]);
+  }, [timeLeft, currentSectionIndex, localStorageKey, testId]);
+
+  // Answers are kept on the device and synced to the submission
+  const answerPersistence = useAnswerPersistence({
+    scope: "listening",
+    testId,
+    studentId: user?.id,
+    submissionId,
+    answers: studentAnswers,
+    onRestore: (restored) =>
+      setStudentAnswers((prev) => ({ ...prev, ...restored })),
+  });
 
   const audioRef = useRef<HTMLAudioElement>(null);
 
@@ -263,29 +293,21 @@ const ListeningTestTaking: React.FC = () => {
     const timeoutId = setTimeout(() => controller.abort(), 10000);
 
     try {
-      const { data, error } = await supabase
-        .from("listening_sections")
-        .select(
-          `
-          id,
-          content,
-          audio_url,
-          section_number,
-          listening_questions (
-            id,
-            question_text,
-            question_type,
-            question_number,
-            question_order,
-            options,
-            correct_answer,
-            points
-          )
-        `,
-        )
-        .eq("test_id", testId)
-        .order("section_number")
-        .abortSignal(controller.signal);
+      // Sections and questions of the version being taken; the server
+      // leaves out the answer keys
+      let data: any[] | null = null;
+      let error: any = null;
+      try {
+        const examContent = await loadExamContent(testId, controller.signal);
+        data = examContent.sections.listening.map((section: any) => ({
+          ...section,
+          listening_questions: examContent.questions.listening.filter(
+            (q) => q.section_id === section.id,
+          ),
+        }));
+      } catch (loadError) {
+        error = loadError;
+      }
 
       clearTimeout(timeoutId);
       console.log("🔍 Supabase response:", {
@@ -439,26 +461,33 @@ const ListeningTestTaking: React.FC = () => {
     return currentSection?.listening_questions || [];
   };
 
-  // After fetching the section and questions (wherever section is set):
-  if (currentSection && currentSection.listening_questions) {
-    console.log('DEBUG: Loaded questions:', currentSection.listening_questions.map(q => ({id: q.id, type: q.question_type, text: q.question_text})));
-    currentSection.listening_questions.forEach(q => {
-      if (q.question_type === 'map_labeling' || q.question_type === 'map_diagram') {
-        let mapData = q.correct_answer;
-        if (typeof mapData === 'string') {
-          try { mapData = JSON.parse(mapData); } catch {}
-        }
-        console.log('DEBUG: Map question found:', {id: q.id, type: q.question_type, mapData});
-      }
-    });
-  }
+  // The countdown follows the deadline kept on the submission by the server,
+  // started once the test is loaded so a full test keeps its section allowance
+  const examTimer = useExamTimer(
+    testData ? submissionId : null,
+    testData?.type?.toLowerCase() === "full",
+  );
+
+  useEffect(() => {
+    if (!examTimer.deadline || isSubmitting) return;
+
+    const remaining = examTimer.getRemaining(timeLeft);
+    if (remaining <= 0) {
+      setTimeLeft(0);
+      handleSubmit();
+      return;
+    }
+    // Stored too so the localStorage restore below doesn't bring back the old time
+    localStorage.setItem(`listening-exam-time-${testId}`, remaining.toString());
+    setTimeLeft(remaining);
+  }, [examTimer.deadline]);
 
   // Timer with persistence
   useEffect(() => {
     if (timeLeft > 0 && !isSubmitting) {
       const timer = setInterval(() => {
         setTimeLeft((prev) => {
-          const newTime = prev - 1;
+          const newTime = examTimer.getRemaining(prev - 1);
 
           // Auto-submit when time runs out
           if (newTime <= 0) {
@@ -576,20 +605,6 @@ const ListeningTestTaking: React.FC = () => {
       console.log("Updated student answers:", newAnswers);
       return newAnswers;
     });
-
-    // Debounced save on every answer change
-    if (submissionId) {
-      // Clear existing timeout
-      if ((window as any).saveTimeout) {
-        clearTimeout((window as any).saveTimeout);
-      }
-      
-      // Set new timeout for 2 seconds
-      (window as any).saveTimeout = setTimeout(() => {
-        console.log("Debounced save triggered for answer change");
-        autoSaveAnswers();
-      }, 2000);
-    }
   };
 
   // Handle existing submission and time restoration
@@ -667,7 +682,8 @@ const ListeningTestTaking: React.FC = () => {
         }
 
         setSubmissionId(existingSubmission.id);
-        setStudentAnswers(existingSubmission.answers || {});
+        // Answers restored from this device take precedence until they sync
+        setStudentAnswers((prev) => ({ ...(existingSubmission.answers || {}), ...prev }));
 
         // Restore time - use saved time if available, otherwise use submission time
         const currentTestType = currentTestData?.type?.toLowerCase();
@@ -732,15 +748,16 @@ const ListeningTestTaking: React.FC = () => {
     }
   };
 
-  // Auto-save answers to database
+  // Sync answers and save the remaining time
   const autoSaveAnswers = async () => {
     if (!submissionId) return;
 
+    await answerPersistence.flush();
+
     try {
       const { error } = await supabase
         .from("test_submissions")
         .update({
-          answers: studentAnswers,
           time_remaining_seconds: timeLeft,
         })
         .eq("id", submissionId);
@@ -783,6 +800,13 @@ const ListeningTestTaking: React.FC = () => {
         return;
       }
 
+      // Make sure answers typed offline reach the server first
+      const saveStatus = await answerPersistence.flush();
+      if (saveStatus !== "saved") {
+        toast.error("Your answers could not be saved yet. They are kept on this device, please try again.");
+        return;
+      }
+
       // Get existing submission to merge answers
       const { data: currentSubmission } = await supabase
         .from("test_submissions")
@@ -827,6 +851,7 @@ const ListeningTestTaking: React.FC = () => {
       
       // Clear saved time and answers from localStorage
       if (localStorageKey) localStorage.removeItem(localStorageKey);
+      await answerPersistence.clear();
       
       toast.success("Test submitted successfully!");
 
@@ -1288,7 +1313,7 @@ const ListeningTestTaking: React.FC = () => {
       } else if (q.question_type === 'matching') {
         let matchingData = null;
         try {
-          matchingData = typeof q.correct_answer === 'string' ? JSON.parse(q.correct_answer) : q.correct_answer;
+          matchingData = typeof q.options === 'string' ? JSON.parse(q.options) : q.options;
         } catch {
           matchingData = { left: [] };
         }
@@ -1404,23 +1429,16 @@ const ListeningTestTaking: React.FC = () => {
     let matchingData;
     console.log('DEBUG: Matching question object:', question);
     try {
-      // Always try to parse options first
+      // Options hold the items and the answers to drag onto them
       matchingData =
         typeof question.options === "string"
           ? JSON.parse(question.options)
           : question.options;
-      // If options is empty or invalid, try correct_answer
-      if (!matchingData || (!matchingData.left && !matchingData.right)) {
-        matchingData =
-          typeof question.correct_answer === "string"
-            ? JSON.parse(question.correct_answer)
-            : question.correct_answer;
-      }
     } catch {
       matchingData = { left: [], right: [] };
     }
-    const leftItems = matchingData.left || [];
-    const rightItems = matchingData.right || [];
+    const leftItems = matchingData?.left || [];
+    const rightItems = matchingData?.right || [];
     const questionNumber = question.question_number || key + 1;
     // Inline drag-and-drop UI
     return (
@@ -1485,7 +1503,7 @@ const ListeningTestTaking: React.FC = () => {
     console.log("🔍 Rendering node:", node.type, node);
 
     // Safety check for custom nodes that require attrs
-    if (["short_answer", "mcq", "matching", "map_labeling"].includes(node.type)) {
+    if (["short_answer", "mcq", "matching", "map_labeling", "completion", "bank_gap", "question_group"].includes(node.type)) {
       if (!node.attrs) {
         console.warn("⚠️ Node missing attrs:", node);
         return (
@@ -1609,11 +1627,85 @@ const ListeningTestTaking: React.FC = () => {
           </th>
         );
 
+      case "question_group":
+        const questionGroup = parseQuestionGroup(node.attrs);
+        
+        return (
+          <div key={index} className="mt-6 mb-3">
+            {questionGroup.start && (
+              <h4 className="font-semibold text-lg mb-1">
+                {formatQuestionRange(questionGroup.start, questionGroup.end)}
+              </h4>
+            )}
+            {getGroupInstructions(questionGroup).map((line) => (
+              <p key={line} className="text-gray-700">{line}</p>
+            ))}
+          </div>
+        );
+
+      case "completion":
+        const completionBlock = parseCompletionBlock(node.attrs);
+        
+        return (
+          <div key={index} className="mb-4">
+            <div className="mb-3 p-3 bg-gray-50 rounded text-sm text-gray-700">
+              {getCompletionInstructions(completionBlock).map((line) => (
+                <p key={line}>{line}</p>
+              ))}
+            </div>
+            {completionBlock.mode === "word_bank" && (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 p-3 border rounded">
+                {completionBlock.words.map((word, wordIndex) => (
+                  <div
+                    key={wordIndex}
+                    draggable
+                    onDragStart={(e) => e.dataTransfer.setData("text/plain", getBankLetter(wordIndex))}
+                    className="px-2 py-1 rounded bg-white border cursor-move"
+                  >
+                    <span className="font-medium mr-2">{getBankLetter(wordIndex)}</span>
+                    {word}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+
       // Custom TipTap nodes for questions
+      case "bank_gap":
+        // Answers are keyed by the gap node id, which is saved with the question
+        const gapWords = findCompletionBlock(parsedContent, node.attrs.block_id)?.words || [];
+        
+        return (
+          <select
+            key={index}
+            value={studentAnswers[node.attrs.id] || ""}
+            onChange={(e) => handleAnswerChange(node.attrs.id, e.target.value)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              const letter = e.dataTransfer.getData("text/plain");
+              if (letter.charCodeAt(0) - 65 < gapWords.length) {
+                handleAnswerChange(node.attrs.id, letter);
+              }
+            }}
+            title={`Question ${node.attrs.question_number}`}
+            className="inline-block border border-gray-300 rounded px-2 py-1 mx-1 text-sm"
+          >
+            <option value="">{node.attrs.question_number}</option>
+            {gapWords.map((_, wordIndex) => (
+              <option key={wordIndex} value={getBankLetter(wordIndex)}>
+                {getBankLetter(wordIndex)}
+              </option>
+            ))}
+          </select>
+        );
+
       case "short_answer":
         const shortAnswerQuestion = currentSection?.listening_questions?.find(
           (q: any) => q.id === node.attrs.id
         );
+        const shortAnswerRules = parseAnswerRules(node.attrs.answer_rules);
         return (
             <input
             key={index}
@@ -1621,6 +1713,7 @@ const ListeningTestTaking: React.FC = () => {
             value={studentAnswers[node.attrs.id] || ""}
             onChange={(e) => handleAnswerChange(node.attrs.id, e.target.value)}
             placeholder={node.attrs.placeholder || `Answer ${node.attrs.question_number}`}
+            title={formatAnswerLimit(shortAnswerRules?.maxWords || null, !!shortAnswerRules?.allowNumber) || undefined}
             className="inline-block w-15 border border-gray-300 rounded px-2 py-1 mx-1 text-sm"
             style={{ width: '15ch' }}
           />
@@ -1964,6 +2057,8 @@ const ListeningTestTaking: React.FC = () => {
       (a, b) => a.question_order - b.question_order,
     );
 
+    const notesGroup = inferQuestionGroup("note_completion", questions);
+
     // Try to reconstruct the original context based on question data
     // This creates a natural flow like real IELTS exams
     return (
@@ -1971,10 +2066,10 @@ const ListeningTestTaking: React.FC = () => {
         {/* Main content with inline input fields */}
         <div className="text-lg leading-relaxed">
           <h3 className="font-semibold text-xl mb-4">
-            Questions 1–{questions.length}
+            {formatQuestionRange(notesGroup.start, notesGroup.end)}
           </h3>
           <p className="mb-4">
-            Complete the notes. Write ONE WORD AND/OR A NUMBER for each answer.
+            {getGroupInstructions(notesGroup).join(" ")}
           </p>
 
           <div className="mb-6">
@@ -2049,9 +2144,9 @@ const ListeningTestTaking: React.FC = () => {
         <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
           <h3 className="font-semibold text-blue-800 mb-2">Instructions</h3>
           <p className="text-blue-700 text-sm">
-            Listen to the audio and answer all questions. For short answers,
-            write ONE WORD AND/OR A NUMBER. For multiple choice, select the
-            correct option.
+            Listen to the audio and answer all questions. Keep short answers
+            within the word limit given for each group. For multiple choice,
+            select the correct option.
           </p>
         </div>
 
@@ -2059,22 +2154,16 @@ const ListeningTestTaking: React.FC = () => {
         {Object.entries(questionGroups).map(([type, groupQuestions]) => {
           if (type === "short_answer") {
             // Provide context for short answer questions
-            const firstQ = groupQuestions[0]?.question_number || 1;
-            const lastQ =
-              groupQuestions[groupQuestions.length - 1]?.question_number ||
-              firstQ;
-            const range =
-              firstQ === lastQ
-                ? `Question ${firstQ}`
-                : `Questions ${firstQ}–${lastQ}`;
+            const notesGroup = inferQuestionGroup("note_completion", groupQuestions);
 
             return (
               <div key={type} className="space-y-4">
                 <div className="mb-4">
-                  <h4 className="font-semibold text-lg mb-2">{range}</h4>
+                  <h4 className="font-semibold text-lg mb-2">
+                    {formatQuestionRange(notesGroup.start, notesGroup.end)}
+                  </h4>
                   <p className="text-gray-700 mb-4">
-                    Complete the notes below. Write ONE WORD AND/OR A NUMBER for
-                    each answer.
+                    {getGroupInstructions(notesGroup).join(" ")}
                   </p>
 
                   {/* Create a context box for short answers */}
@@ -2328,6 +2417,13 @@ const ListeningTestTaking: React.FC = () => {
                 </div>
               </div>
 
+              <SaveStatusIndicator
+                status={answerPersistence.status}
+                isOnline={answerPersistence.isOnline}
+                lastSavedAt={answerPersistence.lastSavedAt}
+                onRetry={answerPersistence.flush}
+              />
+
               {/* Audio Status Indicator */}
               {sections.length > 0 && sections[0].audio_url && (
                 <div className="flex items-center space-x-1">
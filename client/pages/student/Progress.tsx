@@ -0,0 +1,408 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress as ProgressBar } from "@/components/ui/progress";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ArrowLeft,
+  BarChart3,
+  Target,
+  TrendingDown,
+  TrendingUp,
+} from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { logError } from "@/lib/errorUtils";
+import type { GradingResult, QuestionResult } from "@shared/grading";
+import {
+  TREND_SKILLS,
+  buildBandTrend,
+  findWeakestAreas,
+  summarizeQuestionTypes,
+  summarizeSkill,
+  type ScoredAttempt,
+} from "@shared/progressAnalytics";
+
+const SCORE_FIELDS =
+  "test_id, status, total_score, reading_score, listening_score, writing_score, speaking_score, graded_at, submitted_at";
+
+const bandChartConfig: ChartConfig = {
+  overall: { label: "Overall", color: "#7c3aed" },
+  reading: { label: "Reading", color: "#2563eb" },
+  listening: { label: "Listening", color: "#16a34a" },
+  writing: { label: "Writing", color: "#ea580c" },
+  speaking: { label: "Speaking", color: "#db2777" },
+};
+
+const accuracyChartConfig: ChartConfig = {
+  accuracy: { label: "Accuracy %", color: "#2563eb" },
+};
+
+const parseGradingData = (raw: any): Partial<GradingResult> | null => {
+  if (!raw) return null;
+  if (typeof raw === "string") {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  return raw;
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+
+const StudentProgress: React.FC = () => {
+  const { user } = useAuth();
+  const [attempts, setAttempts] = useState<ScoredAttempt[]>([]);
+  const [results, setResults] = useState<QuestionResult[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      fetchProgress();
+    }
+  }, [user]);
+
+  const fetchProgress = async () => {
+    try {
+      if (!user) return;
+
+      const [
+        { data: submissions, error },
+        { data: archived, error: archivedError },
+      ] = await Promise.all([
+        supabase
+          .from("test_submissions")
+          .select(`${SCORE_FIELDS}, auto_grading_data`)
+          .eq("student_id", user.id)
+          .eq("status", "graded"),
+        supabase
+          .from("test_attempts")
+          .select(`${SCORE_FIELDS}, snapshot`)
+          .eq("student_id", user.id)
+          .eq("status", "graded"),
+      ]);
+
+      if (error) throw error;
+      if (archivedError) {
+        // Older databases may not have the attempts table yet
+        console.warn("⚠️ Could not load previous attempts:", archivedError.message);
+      }
+
+      // Retakes archive earlier attempts; they belong in the trend too
+      const rows = [
+        ...(submissions || []),
+        ...(archived || []).map((attempt) => ({
+          ...attempt,
+          auto_grading_data: attempt.snapshot?.auto_grading_data,
+        })),
+      ];
+
+      const testIds = [...new Set(rows.map((row) => row.test_id))];
+      const { data: tests } = testIds.length
+        ? await supabase.from("tests").select("id, title").in("id", testIds)
+        : { data: [] };
+
+      setAttempts(
+        rows.map((row) => ({
+          date: row.graded_at || row.submitted_at,
+          testTitle:
+            tests?.find((test) => test.id === row.test_id)?.title ||
+            "Unknown test",
+          reading: row.reading_score,
+          listening: row.listening_score,
+          writing: row.writing_score,
+          speaking: row.speaking_score,
+          overall: row.total_score,
+        })),
+      );
+      setResults(
+        rows.flatMap(
+          (row) =>
+            parseGradingData(row.auto_grading_data)?.detailedResults || [],
+        ),
+      );
+    } catch (error: any) {
+      logError("fetchProgress", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const trend = useMemo(() => buildBandTrend(attempts), [attempts]);
+  const questionTypes = useMemo(
+    () => summarizeQuestionTypes(results),
+    [results],
+  );
+  const weakestAreas = useMemo(
+    () => findWeakestAreas(questionTypes),
+    [questionTypes],
+  );
+
+  // Only chart skills the student has a band for
+  const chartedSkills = TREND_SKILLS.filter(
+    (skill) => summarizeSkill(trend, skill).latest !== null,
+  );
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      {/* Header */}
+      <div className="mb-8">
+        <Button variant="ghost" className="mb-4" asChild>
+          <Link to="/student/dashboard">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold mb-2">My Progress</h1>
+        <p className="text-muted-foreground">
+          Band scores over time and how you do on each type of question
+        </p>
+      </div>
+
+      {trend.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">No graded tests yet</h3>
+            <p className="text-muted-foreground mb-4">
+              Your progress appears here once your first test is graded
+            </p>
+            <Button asChild>
+              <Link to="/student/available-tests">Browse Available Tests</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {/* Latest band per skill */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {TREND_SKILLS.map((skill) => {
+              const summary = summarizeSkill(trend, skill);
+              return (
+                <Card key={skill}>
+                  <CardContent className="pt-6">
+                    <p className="text-sm text-muted-foreground">
+                      {bandChartConfig[skill].label}
+                    </p>
+                    <p className="text-2xl font-bold">
+                      {summary.latest?.toFixed(1) ?? "—"}
+                    </p>
+                    {summary.change !== null && summary.change !== 0 && (
+                      <p
+                        className={`text-xs flex items-center gap-1 ${summary.change > 0 ? "text-green-600" : "text-red-600"}`}
+                      >
+                        {summary.change > 0 ? (
+                          <TrendingUp className="h-3 w-3" />
+                        ) : (
+                          <TrendingDown className="h-3 w-3" />
+                        )}
+                        {summary.change > 0 ? "+" : ""}
+                        {summary.change.toFixed(1)} since last test
+                      </p>
+                    )}
+                    {summary.best !== null && (
+                      <p className="text-xs text-muted-foreground">
+                        Best {summary.best.toFixed(1)}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          {/* Band trend */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="h-5 w-5" />
+                Band Scores Over Time
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer
+                config={bandChartConfig}
+                className="aspect-auto h-[320px] w-full"
+              >
+                <LineChart data={trend} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={formatDate}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis
+                    domain={[0, 9]}
+                    ticks={[0, 3, 4, 5, 6, 7, 8, 9]}
+                    tickLine={false}
+                    axisLine={false}
+                    width={28}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => {
+                          const point = payload?.[0]?.payload;
+                          return point
+                            ? `${point.testTitle} • ${formatDate(point.date)}`
+                            : "";
+                        }}
+                      />
+                    }
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {chartedSkills.map((skill) => (
+                    <Line
+                      key={skill}
+                      dataKey={skill}
+                      type="monotone"
+                      stroke={`var(--color-${skill})`}
+                      strokeWidth={skill === "overall" ? 3 : 2}
+                      dot={{ r: 3 }}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Accuracy per question type */}
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BarChart3 className="h-5 w-5" />
+                  Accuracy by Question Type
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {questionTypes.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">
+                    No reading or listening answers graded yet
+                  </p>
+                ) : (
+                  <ChartContainer
+                    config={accuracyChartConfig}
+                    className="aspect-auto w-full"
+                    style={{ height: Math.max(160, questionTypes.length * 48) }}
+                  >
+                    <BarChart
+                      data={questionTypes}
+                      layout="vertical"
+                      margin={{ left: 24, right: 12 }}
+                    >
+                      <CartesianGrid horizontal={false} />
+                      <XAxis
+                        type="number"
+                        domain={[0, 100]}
+                        tickFormatter={(value) => `${value}%`}
+                        tickLine={false}
+                        axisLine={false}
+                      />
+                      <YAxis
+                        type="category"
+                        dataKey="label"
+                        tickLine={false}
+                        axisLine={false}
+                        width={120}
+                      />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            formatter={(value, _, item) =>
+                              `${value}% (${item.payload.correct} of ${item.payload.total} correct)`
+                            }
+                          />
+                        }
+                      />
+                      <Bar
+                        dataKey="accuracy"
+                        fill="var(--color-accuracy)"
+                        radius={4}
+                      />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Weakest areas */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Target className="h-5 w-5" />
+                  Weakest Areas
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {weakestAreas.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Answer a few more questions of each type to see where to
+                    focus.
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {weakestAreas.map((area) => (
+                      <div key={area.questionType} className="space-y-1">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="font-medium">{area.label}</span>
+                          <span className="text-muted-foreground">
+                            {area.accuracy}%
+                          </span>
+                        </div>
+                        <ProgressBar value={area.accuracy} className="h-2" />
+                        <p className="text-xs text-muted-foreground">
+                          {area.correct} of {area.total} answers correct
+                        </p>
+                      </div>
+                    ))}
+                    <Button asChild variant="outline" className="w-full">
+                      <Link to="/student/available-tests">Practice More</Link>
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudentProgress;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -23,7 +23,6 @@ import {
 import {
   Clock,
   Send,
-  Save,
   Loader2,
   AlertCircle,
   CheckCircle,
@@ -31,13 +30,22 @@ import {
   Flag,
   ChevronLeft,
   ChevronRight,
+  X,
+  Highlighter,
+  StickyNote,
+  Eraser,
+  Trash2,
 } from "lucide-react";
 import { toast } from "sonner";
 import { motion, AnimatePresence } from "framer-motion";
 import { supabase } from "@/lib/supabase";
 import { enhancedSupabase, safeSupabaseOperation } from "@/lib/supabaseClient";
 import { useAuth } from "@/contexts/AuthContext";
-import { markSectionCompleted, isAllSectionsCompleted } from "@/lib/testProgressUtils";
+import {
+  markSectionCompleted,
+  isAllSectionsCompleted,
+  loadExamContent,
+} from "@/lib/testProgressUtils";
 import { parseContentForStudent } from "@/lib/contentParser";
 import {
   parseError,
@@ -47,6 +55,44 @@ import {
   checkNetworkConnectivity,
 } from "@/lib/errorUtils";
 import { formatAndSanitizeText } from "@/lib/textFormatting";
+import { useAnswerPersistence } from "@/hooks/use-answer-persistence";
+import { useExamTimer } from "@/hooks/use-exam-timer";
+import { SaveStatusIndicator } from "@/components/ui/save-status-indicator";
+import {
+  JUDGEMENT_INSTRUCTIONS,
+  JUDGEMENT_OPTIONS,
+  type JudgementQuestionType,
+} from "@shared/trueFalseNotGiven";
+import {
+  getHeadingNumeral,
+  getHeadingText,
+  insertChosenHeadings,
+  parseMatchingHeadings,
+} from "@shared/matchingHeadings";
+import {
+  WORD_BANK_QUESTION_TYPE,
+  findCompletionBlock,
+  getBankLetter,
+  getCompletionInstructions,
+  parseCompletionBlock,
+} from "@shared/completion";
+import { parseAnswerRules } from "@shared/answerMatching";
+import {
+  ANNOTATIONS_ANSWER_KEY,
+  HIGHLIGHT_COLOURS,
+  createPassageAnnotation,
+  highlightHtml,
+  isAnnotationKey,
+  parsePassageAnnotations,
+  type HighlightColour,
+  type PassageAnnotation,
+} from "@shared/passageAnnotations";
+import {
+  formatAnswerLimit,
+  formatQuestionRange,
+  getGroupInstructions,
+  parseQuestionGroup,
+} from "@shared/questionGroups";
 
 interface TestData {
   id: string;
@@ -68,7 +114,7 @@ interface Question {
   question_number: number;
   passage_text?: string;
   passage_title?: string;
-  correct_answer?: any; // Added for matching questions
+  answer_count?: number; // Multiple selection: how many options to pick
 }
 
 interface ReadingPassage {
@@ -93,13 +139,17 @@ const TakeReadingExam: React.FC = () => {
   const [answers, setAnswers] = useState<Record<string, any>>({});
   const [timeRemaining, setTimeRemaining] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [autoSaving, setAutoSaving] = useState(false);
   const [submissionId, setSubmissionId] = useState<string | null>(null);
 
   // Reading passages
   const [passages, setPassages] = useState<ReadingPassage[]>([]);
   const [allQuestions, setAllQuestions] = useState<Question[]>([]);
 
+  // Passage highlights and notes
+  const passageRef = useRef<HTMLDivElement>(null);
+  const [highlightColour, setHighlightColour] = useState<HighlightColour>("yellow");
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+
   // --- Unified localStorage key for all state ---
   const localStorageKey = testId && user?.id ? `reading-test-${testId}-${user.id}` : null;
 
@@ -110,7 +160,6 @@ const TakeReadingExam: React.FC = () => {
     if (saved) {
       try {
         const parsed = JSON.parse(saved);
-        if (parsed.answers) setAnswers(parsed.answers);
         if (parsed.timeRemaining) setTimeRemaining(parsed.timeRemaining);
       } catch {}
     }
@@ -122,13 +171,43 @@ const TakeReadingExam: React.FC = () => {
     localStorage.setItem(
       localStorageKey,
       JSON.stringify({
-        answers,
         timeRemaining,
         testId,
         timestamp: Date.now(),
       })
     );
-  }, [answers, timeRemaining, localStorageKey, testId]);
+  }, [timeRemaining, localStorageKey, testId]);
+
+  // Answers are kept on the device and synced to the submission
+  const answerPersistence = useAnswerPersistence({
+    scope: "reading",
+    testId,
+    studentId: user?.id,
+    submissionId,
+    answers,
+    onRestore: (restored) =>
+      setAnswers((prev) => ({ ...prev, ...restored })),
+  });
+
+  // The countdown follows the deadline kept on the submission by the server,
+  // started once the test is loaded so a full test keeps its section allowance
+  const examTimer = useExamTimer(
+    test ? submissionId : null,
+    test?.type?.toLowerCase() === "full",
+  );
+
+  useEffect(() => {
+    if (!examTimer.deadline || isSubmitting) return;
+
+    const remaining = examTimer.getRemaining(timeRemaining);
+    if (remaining <= 0) {
+      setTimeRemaining(0);
+      handleSubmitTest();
+      return;
+    }
+    setTimeRemaining(remaining);
+    localStorage.setItem(`exam-time-${testId}`, remaining.toString());
+  }, [examTimer.deadline]);
 
   // Auto-save interval
   useEffect(() => {
@@ -146,7 +225,7 @@ const TakeReadingExam: React.FC = () => {
     if (timeRemaining > 0 && !isSubmitting) {
       const interval = setInterval(() => {
         setTimeRemaining((prev) => {
-          const newTime = prev - 1;
+          const newTime = examTimer.getRemaining(prev - 1);
 
           // Auto-submit when time runs out
           if (newTime <= 0) {
@@ -258,7 +337,8 @@ const TakeReadingExam: React.FC = () => {
         }
 
         setSubmissionId(existingSubmission.id);
-        setAnswers(existingSubmission.answers || {});
+        // Answers restored from this device take precedence until they sync
+        setAnswers((prev) => ({ ...(existingSubmission.answers || {}), ...prev }));
 
         // Restore time - use saved time if available, otherwise use submission time
         const testType = currentTestData?.type?.toLowerCase();
@@ -294,19 +374,15 @@ const TakeReadingExam: React.FC = () => {
         setTimeRemaining(defaultTime);
       }
 
-      // Load reading sections and questions
-      const { data: readingSections, error: sectionsError } = await supabase
-        .from("reading_sections")
-        .select(
-          `
-          *,
-          reading_questions(*)
-        `,
-        )
-        .eq("test_id", testId)
-        .order("passage_number");
-
-      if (sectionsError) throw sectionsError;
+      // Load the passages and questions of the version being taken; the
+      // server leaves out the answer keys
+      const examContent = await loadExamContent(testId);
+      const readingSections = examContent.sections.reading.map((section: any) => ({
+        ...section,
+        reading_questions: examContent.questions.reading.filter(
+          (q) => q.section_id === section.id,
+        ),
+      }));
 
 
 
@@ -359,17 +435,7 @@ const TakeReadingExam: React.FC = () => {
                 }
                 return q.options;
               })(),
-              correct_answer: (() => {
-                if (typeof q.correct_answer === 'string') {
-                  try {
-                    return JSON.parse(q.correct_answer);
-                  } catch (error) {
-                    console.warn(`Failed to parse correct_answer for question ${q.id}:`, q.correct_answer);
-                    return q.correct_answer; // Return as string if parsing fails
-                  }
-                }
-                return q.correct_answer;
-              })(),
+              answer_count: q.answer_count,
               section_type: "reading" as const,
               section_number: section.passage_number,
               question_number: q.question_number,
@@ -406,15 +472,14 @@ const TakeReadingExam: React.FC = () => {
   };
 
   const autoSaveAnswers = async () => {
-    if (!submissionId) return;
+    if (!submissionId) return "pending";
 
-    setAutoSaving(true);
+    const status = await answerPersistence.flush();
 
     try {
       await enhancedSupabase.update(
         "test_submissions",
         {
-          answers,
           time_remaining_seconds: timeRemaining,
           updated_at: new Date().toISOString(),
         },
@@ -434,9 +499,9 @@ const TakeReadingExam: React.FC = () => {
           );
         }
       }
-    } finally {
-      setAutoSaving(false);
     }
+
+    return status;
   };
 
   const handleSubmitTest = async () => {
@@ -456,14 +521,13 @@ const TakeReadingExam: React.FC = () => {
         );
       }
 
-      // Final save with retry
-      await retryWithBackoff(
-        async () => {
-          await autoSaveAnswers();
-        },
-        3,
-        1000,
-      );
+      // Final save; the sync already retries with backoff
+      const saveStatus = await autoSaveAnswers();
+      if (saveStatus !== "saved") {
+        throw new Error(
+          "Your answers could not be saved yet. They are kept on this device, please try again.",
+        );
+      }
 
       // Get existing submission to merge answers
       const { data: currentSubmission } = await supabase
@@ -501,6 +565,7 @@ const TakeReadingExam: React.FC = () => {
       // Clear saved time
       localStorage.removeItem(`exam-time-${testId}`);
       localStorageKey && localStorage.removeItem(localStorageKey);
+      await answerPersistence.clear();
 
       // Set submitting to false before navigation to prevent DOM updates
       setIsSubmitting(false);
@@ -651,10 +716,7 @@ const TakeReadingExam: React.FC = () => {
       case "true_false_not_given":
       case "yes_no_not_given":
 
-        const options =
-          question.type === "true_false_not_given"
-            ? ["TRUE", "FALSE", "NOT GIVEN"]
-            : ["YES", "NO", "NOT GIVEN"];
+        const options = JUDGEMENT_OPTIONS[question.type];
 
         return (
           <RadioGroup
@@ -684,17 +746,10 @@ const TakeReadingExam: React.FC = () => {
         // Handle matching questions
         let matchingData = null;
         try {
-          // Try to parse options first (contains left and right arrays)
+          // Options contain the left and right arrays
           matchingData = typeof question.options === "string" 
             ? JSON.parse(question.options) 
             : question.options;
-          
-          // If options is empty or invalid, try correct_answer
-          if (!matchingData || (!matchingData.left && !matchingData.right)) {
-            matchingData = typeof question.correct_answer === "string" 
-              ? JSON.parse(question.correct_answer) 
-              : question.correct_answer;
-          }
         } catch (error) {
           console.error("Error parsing matching data:", error);
           matchingData = { left: [], right: [] };
@@ -755,16 +810,7 @@ const TakeReadingExam: React.FC = () => {
         const currentAnswers = answers[question.id] || [];
         
         // Get the number of correct answers to limit selections
-        let correctAnswerCount = 0;
-        try {
-          const correctAnswers = typeof question.correct_answer === 'string' 
-            ? JSON.parse(question.correct_answer) 
-            : question.correct_answer;
-          correctAnswerCount = Array.isArray(correctAnswers) ? correctAnswers.length : 0;
-        } catch (error) {
-          console.error("Error parsing correct answers:", error);
-          correctAnswerCount = 0;
-        }
+        const correctAnswerCount = question.answer_count || 0;
         
         // Debug logging (commented out to prevent console spam)
         // console.log("🔍 MS Question Input Debug:", {
@@ -864,13 +910,15 @@ const TakeReadingExam: React.FC = () => {
 
     return (
       <div className="space-y-4">
-        {content.content.map((node: any, index: number) => renderNode(node, index))}
+        {content.content.map((node: any, index: number) =>
+          renderNode(node, index, content.content[index - 1])
+        )}
       </div>
     );
   };
 
-  // Function to render individual TipTap nodes
-  const renderNode = (node: any, index: number): React.ReactNode => {
+  // Function to render individual TipTap nodes; previous is the sibling before it
+  const renderNode = (node: any, index: number, previous?: any): React.ReactNode => {
     if (!node) return null;
 
     switch (node.type) {
@@ -878,7 +926,7 @@ const TakeReadingExam: React.FC = () => {
         return (
           <div key={index} className="space-y-4">
             {node.content?.map((child: any, childIndex: number) =>
-              renderNode(child, childIndex)
+              renderNode(child, childIndex, node.content[childIndex - 1])
             )}
           </div>
         );
@@ -954,7 +1002,123 @@ const TakeReadingExam: React.FC = () => {
           </li>
         );
 
+      case "table":
+        return (
+          <table key={index} className="border border-gray-300 my-4 w-full">
+            <tbody>{node.content?.map((row: any, rowIndex: number) => renderNode(row, rowIndex))}</tbody>
+          </table>
+        );
+
+      case "tableRow":
+        return (
+          <tr key={index} className="border-b border-gray-300">
+            {node.content?.map((cell: any, cellIndex: number) => renderNode(cell, cellIndex))}
+          </tr>
+        );
+
+      case "tableCell":
+        return (
+          <td key={index} className="border border-gray-300 p-2">
+            {node.content?.map((child: any, childIndex: number) =>
+              renderNode(child, childIndex)
+            )}
+          </td>
+        );
+
+      case "tableHeader":
+        return (
+          <th key={index} className="border border-gray-300 p-2">
+            {node.content?.map((child: any, childIndex: number) =>
+              renderNode(child, childIndex)
+            )}
+          </th>
+        );
+
+      case "question_group":
+        const questionGroup = parseQuestionGroup(node.attrs);
+        
+        return (
+          <div key={index} className="mt-6 mb-3">
+            {questionGroup.start && (
+              <h4 className="font-semibold mb-1">
+                {formatQuestionRange(questionGroup.start, questionGroup.end)}
+              </h4>
+            )}
+            {getGroupInstructions(questionGroup).map((line) => (
+              <p key={line} className="text-sm text-gray-700">{line}</p>
+            ))}
+          </div>
+        );
+
+      case "completion":
+        const completionBlock = parseCompletionBlock(node.attrs);
+        
+        return (
+          <div key={index} className="mb-4">
+            <div className="mb-3 p-3 bg-gray-50 rounded text-sm text-gray-700">
+              {getCompletionInstructions(completionBlock).map((line) => (
+                <p key={line}>{line}</p>
+              ))}
+            </div>
+            {completionBlock.mode === "word_bank" && (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 p-3 border rounded">
+                {completionBlock.words.map((word, wordIndex) => (
+                  <div
+                    key={wordIndex}
+                    draggable
+                    onDragStart={(e) => e.dataTransfer.setData("text/plain", getBankLetter(wordIndex))}
+                    className="px-2 py-1 rounded bg-white border cursor-move"
+                  >
+                    <span className="font-medium mr-2">{getBankLetter(wordIndex)}</span>
+                    {word}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+
       // Custom TipTap nodes for questions
+      case "bank_gap":
+        // Must match question_number, type, AND section_number (current passage)
+        const gapQuestion = passages.flatMap(p => p.questions).find(
+          (q: any) => q.question_number === node.attrs?.question_number && 
+                      q.type === WORD_BANK_QUESTION_TYPE && 
+                      q.section_number === currentPassage
+        );
+        const gapQuestionId = gapQuestion?.id;
+        const gapBank = findCompletionBlock(
+          passages.find(p => p.number === currentPassage)?.content,
+          node.attrs?.block_id,
+        );
+        const gapWords = gapBank?.words || [];
+        
+        return (
+          <select
+            key={index}
+            value={gapQuestionId ? (answers[gapQuestionId] || "") : ""}
+            onChange={gapQuestionId ? (e) => updateAnswer(gapQuestionId, e.target.value) : undefined}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              const letter = e.dataTransfer.getData("text/plain");
+              if (gapQuestionId && letter.charCodeAt(0) - 65 < gapWords.length) {
+                updateAnswer(gapQuestionId, letter);
+              }
+            }}
+            title={`Question ${node.attrs?.question_number}`}
+            className="inline-block h-7 border border-gray-300 rounded bg-white text-center text-sm font-medium shadow-sm focus:outline-none focus:border-blue-500 mx-1"
+            disabled={!gapQuestionId}
+          >
+            <option value="">{node.attrs?.question_number}</option>
+            {gapWords.map((_, wordIndex) => (
+              <option key={wordIndex} value={getBankLetter(wordIndex)}>
+                {getBankLetter(wordIndex)}
+              </option>
+            ))}
+          </select>
+        );
+
       case "short_answer":
         // Must match question_number, type, AND section_number (current passage)
         const shortAnswerQuestion = passages.flatMap(p => p.questions).find(
@@ -963,6 +1127,7 @@ const TakeReadingExam: React.FC = () => {
                       q.section_number === currentPassage
         );
         const questionId = shortAnswerQuestion?.id;
+        const shortAnswerRules = parseAnswerRules(node.attrs?.answer_rules);
         
         return (
           <input
@@ -971,6 +1136,7 @@ const TakeReadingExam: React.FC = () => {
             value={questionId ? (answers[questionId] || "") : ""}
             onChange={questionId ? (e) => updateAnswer(questionId, e.target.value) : undefined}
             placeholder={node.attrs?.placeholder || `Answer ${node.attrs?.question_number}`}
+            title={formatAnswerLimit(shortAnswerRules?.maxWords || null, !!shortAnswerRules?.allowNumber) || undefined}
             className="inline-block w-20 h-7 border border-gray-300 rounded bg-white text-center text-sm font-medium shadow-sm focus:outline-none focus:border-blue-500 focus:shadow-md mx-1"
             disabled={!questionId}
           />
@@ -1058,6 +1224,144 @@ const TakeReadingExam: React.FC = () => {
           </div>
         );
 
+      case "matching_headings":
+        // Must match question_number, type, AND section_number (current passage)
+        const headingsQuestion = passages.flatMap(p => p.questions).find(
+          (q: any) => q.question_number === (node.attrs?.question_number || node.attrs?.number) && 
+                      q.type === "matching_headings" && 
+                      q.section_number === currentPassage
+        );
+        const headingsQuestionId = headingsQuestion?.id;
+        const headingBank: string[] = node.attrs?.headings || [];
+        const headingParagraphs: string[] = node.attrs?.paragraphs || [];
+        const chosenHeadings = headingParagraphs.map((_, paragraphIndex) =>
+          headingsQuestionId ? answers[`${headingsQuestionId}_${paragraphIndex}`] || "" : ""
+        );
+        const dropHeading = (paragraphIndex: number, e: React.DragEvent) => {
+          e.preventDefault();
+          const numeral = e.dataTransfer.getData("text/plain");
+          if (headingsQuestionId && getHeadingText(headingBank, numeral)) {
+            updateAnswer(`${headingsQuestionId}_${paragraphIndex}`, numeral);
+          }
+        };
+
+        return (
+          <div key={index} className="mb-4">
+            <div className="mb-3 text-sm text-gray-600">
+              Choose the correct heading for each paragraph from the list of headings below.
+              Drag a heading onto a paragraph or pick it from the list. There are more headings than paragraphs.
+            </div>
+            <div className="mb-4 p-3 bg-gray-50 rounded">
+              <h4 className="font-medium text-gray-700 mb-2">List of Headings</h4>
+              {headingBank.map((heading, headingIndex) => {
+                const numeral = getHeadingNumeral(headingIndex);
+                return (
+                  <div
+                    key={numeral}
+                    draggable={!!headingsQuestionId}
+                    onDragStart={(e) => e.dataTransfer.setData("text/plain", numeral)}
+                    className={`mb-1 px-2 py-1 rounded border bg-white cursor-move ${
+                      chosenHeadings.includes(numeral) ? "opacity-50" : ""
+                    }`}
+                  >
+                    <span className="font-medium mr-2">{numeral}</span>
+                    {heading}
+                  </div>
+                );
+              })}
+            </div>
+            {headingParagraphs.map((paragraph, paragraphIndex) => (
+              <div
+                key={paragraphIndex}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => dropHeading(paragraphIndex, e)}
+                className="mb-2 p-2 border border-dashed border-gray-300 rounded flex items-center gap-2"
+              >
+                <span className="font-medium whitespace-nowrap">
+                  {(node.attrs?.question_number || node.attrs?.number) + paragraphIndex}. Paragraph {paragraph}
+                </span>
+                <select
+                  value={chosenHeadings[paragraphIndex]}
+                  onChange={headingsQuestionId ? (e) => updateAnswer(`${headingsQuestionId}_${paragraphIndex}`, e.target.value) : undefined}
+                  className="flex-1 border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  disabled={!headingsQuestionId}
+                >
+                  <option value="">Select heading</option>
+                  {headingBank.map((heading, headingIndex) => (
+                    <option key={headingIndex} value={getHeadingNumeral(headingIndex)}>
+                      {getHeadingNumeral(headingIndex)}. {heading}
+                    </option>
+                  ))}
+                </select>
+                {chosenHeadings[paragraphIndex] && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateAnswer(`${headingsQuestionId}_${paragraphIndex}`, "")}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        );
+
+      case "tfng":
+        // Must match question_number, type, AND section_number (current passage)
+        const tfngType: JudgementQuestionType =
+          node.attrs?.question_type === "yes_no_not_given"
+            ? "yes_no_not_given"
+            : "true_false_not_given";
+        const tfngQuestion = passages.flatMap(p => p.questions).find(
+          (q: any) => q.question_number === (node.attrs?.question_number || node.attrs?.number) && 
+                      q.type === tfngType && 
+                      q.section_number === currentPassage
+        );
+        const tfngQuestionId = tfngQuestion?.id;
+        // Instructions head each run of statements of the same kind
+        const startsGroup =
+          previous?.type !== "tfng" ||
+          (previous.attrs?.question_type || "true_false_not_given") !== tfngType;
+        
+        return (
+          <div key={index} className="mb-4">
+            {startsGroup && (
+              <div className="mb-3 p-3 bg-gray-50 rounded text-sm text-gray-700">
+                <p className="mb-1">
+                  Do the following statements agree with the{" "}
+                  {tfngType === "yes_no_not_given"
+                    ? "claims of the writer"
+                    : "information given in the passage"}
+                  ? Choose
+                </p>
+                {JUDGEMENT_INSTRUCTIONS[tfngType].map((line) => (
+                  <p key={line} className="ml-4">{line}</p>
+                ))}
+              </div>
+            )}
+            <p className="font-medium mb-2">
+              {(node.attrs?.question_number || node.attrs?.number)}. {node.attrs?.question_text}
+            </p>
+            <div className="flex flex-wrap gap-4">
+              {JUDGEMENT_OPTIONS[tfngType].map((option) => (
+                <label key={option} className="flex items-center cursor-pointer">
+                  <input
+                    type="radio"
+                    name={`tfng_${tfngQuestionId}`}
+                    value={option}
+                    checked={tfngQuestionId ? answers[tfngQuestionId] === option : false}
+                    onChange={tfngQuestionId ? (e) => updateAnswer(tfngQuestionId, e.target.value) : undefined}
+                    className="mr-2"
+                    disabled={!tfngQuestionId}
+                  />
+                  <span className="font-medium">{option}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        );
+
       case "ms":
         // Must match question_number, type, AND section_number (current passage)
         const msQuestion = passages.flatMap(p => p.questions).find(
@@ -1070,18 +1374,7 @@ const TakeReadingExam: React.FC = () => {
         const currentAnswers = msQuestionId ? (answers[msQuestionId] || []) : [];
         
         // Get the number of correct answers to limit selections
-        let correctAnswerCount = 0;
-        if (msQuestion) {
-          try {
-            const correctAnswers = typeof msQuestion.correct_answer === 'string' 
-              ? JSON.parse(msQuestion.correct_answer) 
-              : msQuestion.correct_answer;
-            correctAnswerCount = Array.isArray(correctAnswers) ? correctAnswers.length : 0;
-          } catch (error) {
-            console.error("Error parsing correct answers:", error);
-            correctAnswerCount = 0;
-          }
-        }
+        const correctAnswerCount = msQuestion?.answer_count || 0;
         
         // Debug logging (commented out to prevent console spam)
         // console.log("🔍 MS Question Debug:", {
@@ -1277,7 +1570,7 @@ const TakeReadingExam: React.FC = () => {
     let leftItems: string[] = [];
     let rightItems: string[] = [];
 
-    // Parse matching data from question options or correct_answer
+    // Parse matching data from question options
     if (question.options) {
       try {
         const options = typeof question.options === 'string' ? JSON.parse(question.options) : question.options;
@@ -1560,6 +1853,81 @@ const TakeReadingExam: React.FC = () => {
 
   const passageQuestions = getCurrentPassageQuestions();
   const currentQuestion = getCurrentQuestion();
+
+  // Show picked headings above their [para:X] markers for anchored matching headings
+  const getPassageDisplayText = (passage: ReadingPassage) => {
+    let text = passage.passage_text || "";
+    passage.questions
+      .filter((q) => q.type === "matching_headings")
+      .forEach((q) => {
+        const data = parseMatchingHeadings(q);
+        if (!data.anchored) return;
+        const chosen: Record<string, string> = {};
+        data.paragraphs.forEach((paragraph, paragraphIndex) => {
+          const answer = answers[`${q.id}_${paragraphIndex}`];
+          if (answer) chosen[paragraph] = answer;
+        });
+        text = insertChosenHeadings(text, data.headings, chosen);
+      });
+    return text;
+  };
+
+  const annotations = parsePassageAnnotations(answers[ANNOTATIONS_ANSWER_KEY]);
+  const passageAnnotations = annotations.filter((a) => a.passage === currentPassage);
+  const activeAnnotation = passageAnnotations.find((a) => a.id === activeAnnotationId) || null;
+
+  // Annotations are saved with the answers so they survive reloads
+  const saveAnnotations = (next: PassageAnnotation[]) => {
+    updateAnswer(ANNOTATIONS_ANSWER_KEY, next);
+  };
+
+  const updateAnnotation = (id: string, changes: Partial<PassageAnnotation>) => {
+    saveAnnotations(annotations.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+  };
+
+  const removeAnnotation = (id: string) => {
+    saveAnnotations(annotations.filter((a) => a.id !== id));
+    setActiveAnnotationId(null);
+  };
+
+  const clearPassageAnnotations = () => {
+    saveAnnotations(annotations.filter((a) => a.passage !== currentPassage));
+    setActiveAnnotationId(null);
+  };
+
+  // Highlight the selected passage text in the current colour
+  const handlePassageMouseUp = () => {
+    const container = passageRef.current;
+    const selection = window.getSelection();
+    if (!container || !selection || selection.isCollapsed || selection.rangeCount === 0) return;
+
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return;
+
+    // Offsets into the passage's text content
+    const before = document.createRange();
+    before.selectNodeContents(container);
+    before.setEnd(range.startContainer, range.startOffset);
+    const start = before.toString().length;
+
+    const annotation = createPassageAnnotation(
+      container.textContent || "",
+      start,
+      start + range.toString().length,
+      currentPassage,
+      highlightColour,
+    );
+    selection.removeAllRanges();
+    if (!annotation) return;
+
+    saveAnnotations([...annotations, annotation]);
+    setActiveAnnotationId(annotation.id);
+  };
+
+  const handlePassageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const mark = (e.target as HTMLElement).closest("mark[data-annotation-id]");
+    if (mark) setActiveAnnotationId(mark.getAttribute("data-annotation-id"));
+  };
   
   // Calculate total questions from all passages
   const totalQuestions = (() => {
@@ -1578,18 +1946,12 @@ const TakeReadingExam: React.FC = () => {
           } catch (e) {
             total += 1; // Fallback
           }
+        } else if (question.type === "matching_headings") {
+          // For matching headings, count each paragraph as one question
+          total += parseMatchingHeadings(question).paragraphs.length || 1;
         } else if (question.type === "multiple_selection") {
           // For multiple selection, count each correct answer as one question
-          try {
-            const correctAnswers = typeof question.correct_answer === 'string' ? JSON.parse(question.correct_answer) : question.correct_answer;
-            if (Array.isArray(correctAnswers)) {
-              total += correctAnswers.length;
-            } else {
-              total += 1; // Fallback
-            }
-          } catch (e) {
-            total += 1; // Fallback
-          }
+          total += question.answer_count || 1;
         } else {
           // For other question types, count as 1
           total += 1;
@@ -1605,6 +1967,9 @@ const TakeReadingExam: React.FC = () => {
     
     // Go through all answers and extract unique question IDs
     Object.keys(answers).forEach(answerKey => {
+      // Highlights and notes are not answers
+      if (isAnnotationKey(answerKey)) return;
+
       // For matching questions, the key format is "questionId_itemIndex"
       // We need to extract just the questionId part
       if (answerKey.includes('_')) {
@@ -1667,12 +2032,12 @@ const TakeReadingExam: React.FC = () => {
                   <p className="text-xs text-gray-600">Reading Test</p>
                 </div>
               </div>
-              {autoSaving && (
-                <div className="flex items-center gap-2 text-xs text-blue-600">
-                  <Save className="h-3 w-3 animate-pulse" />
-                  <span>Auto-saving...</span>
-                </div>
-              )}
+              <SaveStatusIndicator
+                status={answerPersistence.status}
+                isOnline={answerPersistence.isOnline}
+                lastSavedAt={answerPersistence.lastSavedAt}
+                onRetry={answerPersistence.flush}
+              />
             </div>
 
             {/* Right: Timer and Controls */}
@@ -1747,6 +2112,79 @@ const TakeReadingExam: React.FC = () => {
                   Passage {currentPassage}
                 </Badge>
               </div>
+              <div className="flex items-center gap-2 mt-2 text-sm text-blue-900">
+                <Highlighter className="h-4 w-4" />
+                {(Object.keys(HIGHLIGHT_COLOURS) as HighlightColour[]).map((colour) => (
+                  <button
+                    key={colour}
+                    type="button"
+                    title={`Highlight in ${colour}`}
+                    onClick={() => setHighlightColour(colour)}
+                    className={`h-5 w-5 rounded-full border ${
+                      highlightColour === colour ? "border-blue-900 ring-2 ring-blue-400" : "border-gray-300"
+                    }`}
+                    style={{ backgroundColor: HIGHLIGHT_COLOURS[colour] }}
+                  />
+                ))}
+                <span className="text-xs text-blue-700">Select text to highlight</span>
+                {passageAnnotations.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto h-7 text-blue-900"
+                    onClick={clearPassageAnnotations}
+                  >
+                    <Eraser className="h-4 w-4 mr-1" />
+                    Clear all
+                  </Button>
+                )}
+              </div>
+              {activeAnnotation && (
+                <div className="mt-2 rounded border border-blue-200 bg-white p-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <StickyNote className="h-4 w-4 text-blue-700 flex-shrink-0" />
+                    <span className="truncate italic text-gray-700">"{activeAnnotation.text}"</span>
+                    <div className="ml-auto flex items-center gap-1 flex-shrink-0">
+                      {(Object.keys(HIGHLIGHT_COLOURS) as HighlightColour[]).map((colour) => (
+                        <button
+                          key={colour}
+                          type="button"
+                          title={`Change to ${colour}`}
+                          onClick={() => updateAnnotation(activeAnnotation.id, { colour })}
+                          className={`h-4 w-4 rounded-full border ${
+                            activeAnnotation.colour === colour ? "border-blue-900" : "border-gray-300"
+                          }`}
+                          style={{ backgroundColor: HIGHLIGHT_COLOURS[colour] }}
+                        />
+                      ))}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-1"
+                        title="Remove highlight"
+                        onClick={() => removeAnnotation(activeAnnotation.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-1"
+                        title="Close"
+                        onClick={() => setActiveAnnotationId(null)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <Textarea
+                    value={activeAnnotation.note}
+                    onChange={(e) => updateAnnotation(activeAnnotation.id, { note: e.target.value })}
+                    placeholder="Add a note..."
+                    className="mt-2 min-h-[60px] text-sm"
+                  />
+                </div>
+              )}
             </div>
 
             {/* Passage Content */}
@@ -1754,8 +2192,14 @@ const TakeReadingExam: React.FC = () => {
               <div className="prose prose-lg max-w-none leading-relaxed">
                 {currentPassageData?.passage_text ? (
                   <div
+                    ref={passageRef}
+                    onMouseUp={handlePassageMouseUp}
+                    onClick={handlePassageClick}
                     dangerouslySetInnerHTML={{
-                      __html: formatAndSanitizeText(currentPassageData.passage_text),
+                      __html: highlightHtml(
+                        formatAndSanitizeText(getPassageDisplayText(currentPassageData)),
+                        passageAnnotations,
+                      ),
                     }}
                   />
                 ) : (
@@ -1813,7 +2257,7 @@ const TakeReadingExam: React.FC = () => {
             
             // Check if passage has any answers (handle matching questions properly)
             const hasAnswers = passage.questions.some((q) => {
-              if (q.type === "matching") {
+              if (q.type === "matching" || q.type === "matching_headings") {
                 // For matching questions, check if any answers exist for this question
                 return Object.keys(answers).some(answerKey => 
                   answerKey.startsWith(`${q.id}_`)
@@ -1829,7 +2273,7 @@ const TakeReadingExam: React.FC = () => {
             });
             
             const allAnswered = passage.questions.every((q) => {
-              if (q.type === "matching") {
+              if (q.type === "matching" || q.type === "matching_headings") {
                 // For matching questions, check if any answers exist for this question
                 return Object.keys(answers).some(answerKey => 
                   answerKey.startsWith(`${q.id}_`)
@@ -0,0 +1,360 @@
+import React, { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, CheckCircle, Clock, Loader2, Mic } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { AudioRecorder } from "@/components/ui/answer-submission";
+import { SpeakingRecordingPlayer } from "@/components/ui/speaking-recording-player";
+import { markSectionCompleted, isAllSectionsCompleted } from "@/lib/testProgressUtils";
+import {
+  SPEAKING_PARTS,
+  loadSpeakingTasks,
+  uploadSpeakingRecording,
+  type SpeakingResponse,
+  type SpeakingTask,
+} from "@/lib/speakingUtils";
+
+const TakeSpeakingTest: React.FC = () => {
+  const { testId } = useParams<{ testId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [tasks, setTasks] = useState<SpeakingTask[]>([]);
+  const [testData, setTestData] = useState<any>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, SpeakingResponse>>({});
+  const [preparationRemaining, setPreparationRemaining] = useState(0);
+  const [uploadingTaskId, setUploadingTaskId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const localStorageKey = testId ? `speaking-test-${testId}` : null;
+
+  useEffect(() => {
+    if (!testId) return;
+    setLoading(true);
+    (async () => {
+      try {
+        const { data: test, error: testError } = await supabase
+          .from("tests")
+          .select("*")
+          .eq("id", testId)
+          .single();
+        if (testError) throw testError;
+        setTestData(test);
+
+        const tasksData = await loadSpeakingTasks(testId);
+        if (tasksData.length === 0) {
+          throw new Error("No speaking tasks found for this test");
+        }
+        setTasks(tasksData);
+      } catch (error: any) {
+        toast.error(`Failed to load test: ${error.message}`);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [testId]);
+
+  // Restore uploaded recordings if the student reloads the page
+  useEffect(() => {
+    if (!localStorageKey) return;
+    const saved = localStorage.getItem(localStorageKey);
+    if (saved) {
+      try {
+        const parsed = JSON.parse(saved);
+        if (parsed.answers) setAnswers(parsed.answers);
+      } catch {}
+    }
+  }, [localStorageKey]);
+
+  useEffect(() => {
+    if (!localStorageKey) return;
+    localStorage.setItem(
+      localStorageKey,
+      JSON.stringify({ answers, testId, timestamp: Date.now() }),
+    );
+  }, [answers, localStorageKey, testId]);
+
+  const currentTask = tasks[currentIndex];
+
+  // The cue card preparation timer starts as soon as the card is shown
+  useEffect(() => {
+    if (!currentTask || answers[currentTask.id]) {
+      setPreparationRemaining(0);
+      return;
+    }
+
+    setPreparationRemaining(currentTask.preparation_seconds || 0);
+    if (!currentTask.preparation_seconds) return;
+
+    const interval = setInterval(() => {
+      setPreparationRemaining((prev) => {
+        if (prev <= 1) {
+          clearInterval(interval);
+          return 0;
+        }
+        return prev - 1;
+      });
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [currentTask?.id]);
+
+  const handleRecordingComplete = async (audioBlob: Blob, duration: number) => {
+    if (!currentTask || !user?.id) return;
+    const taskId = currentTask.id;
+
+    setUploadingTaskId(taskId);
+    try {
+      const result = await uploadSpeakingRecording(audioBlob, user.id, taskId);
+      if (!result.success || !(result.path || result.url)) {
+        throw new Error(result.error || "Upload failed");
+      }
+
+      setAnswers((prev) => ({
+        ...prev,
+        [taskId]: {
+          ...(result.path ? { audio_path: result.path } : { audio_url: result.url }),
+          duration,
+          recorded_at: new Date().toISOString(),
+        },
+      }));
+      toast.success("Recording saved");
+    } catch (error: any) {
+      console.error("Failed to upload speaking recording", error);
+      toast.error(`Failed to upload recording: ${error.message || error}`);
+    } finally {
+      setUploadingTaskId(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (submitting) return;
+
+    const unanswered = tasks.filter((task) => !answers[task.id]).length;
+    if (
+      unanswered > 0 &&
+      !confirm(
+        `${unanswered} question${unanswered > 1 ? "s have" : " has"} no recording. Submit anyway?`,
+      )
+    ) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      // Get existing submission to merge answers
+      const { data: currentSubmission } = await supabase
+        .from("test_submissions")
+        .select("answers")
+        .eq("test_id", testId)
+        .eq("student_id", user?.id)
+        .single();
+
+      const { data: upsertResult, error } = await supabase
+        .from("test_submissions")
+        .upsert(
+          {
+            test_id: testId!,
+            student_id: user?.id!,
+            answers: {
+              ...(currentSubmission?.answers || {}), // Keep existing answers from other sections
+              ...answers,
+            },
+            submitted_at: new Date().toISOString(),
+            status: "submitted",
+          },
+          { onConflict: "test_id,student_id" },
+        )
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      if (user?.id && testId) {
+        await markSectionCompleted(testId, user.id, "speaking");
+
+        const { triggerAutoGrading } = await import("@/lib/testProgressUtils");
+        const isAllCompleted = await isAllSectionsCompleted(testId, user.id);
+        if (isAllCompleted && upsertResult?.id) {
+          await triggerAutoGrading(upsertResult.id);
+        }
+      }
+
+      if (localStorageKey) localStorage.removeItem(localStorageKey);
+
+      if (testData?.type?.toLowerCase() === "full") {
+        toast.info("Speaking section completed! Continue with remaining sections.");
+        navigate(`/student/test/${testId}`);
+      } else {
+        toast.success("Speaking test submitted. Your teacher will mark your recordings.");
+        navigate("/student/tests/history");
+      }
+    } catch (error: any) {
+      console.error("Failed to submit speaking test", error);
+      toast.error(`Failed to submit test: ${error.message || error}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading speaking test...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!currentTask) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-600 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            No Speaking Tasks Found
+          </h3>
+          <p className="text-gray-600 mb-6">
+            This test does not have any speaking tasks assigned. Please contact your instructor.
+          </p>
+          <Button onClick={() => navigate("/student/tests")}>Back to Tests</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const partInfo = SPEAKING_PARTS[currentTask.part_number];
+  const isLastTask = currentIndex === tasks.length - 1;
+  const currentAnswer = answers[currentTask.id];
+  const answeredCount = tasks.filter((task) => answers[task.id]).length;
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col">
+      <div className="bg-white border-b-2 border-gray-300 shadow-sm">
+        <div className="px-4 py-2 flex items-center justify-between">
+          <h1 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <Mic className="h-5 w-5" />
+            IELTS Speaking Test
+          </h1>
+          <Badge variant="outline">
+            {answeredCount}/{tasks.length} recorded
+          </Badge>
+        </div>
+        <Progress value={((currentIndex + 1) / tasks.length) * 100} className="h-1" />
+      </div>
+
+      <div className="flex-1 p-6 max-w-3xl w-full mx-auto space-y-6">
+        <Card>
+          <CardHeader>
+            <p className="text-sm text-muted-foreground">{partInfo.title}</p>
+            <CardTitle className="text-xl">{currentTask.prompt}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {currentTask.cue_card_points && currentTask.cue_card_points.length > 0 && (
+              <div className="p-4 border rounded-lg bg-yellow-50">
+                <p className="font-medium mb-2">You should say:</p>
+                <ul className="list-disc pl-6 space-y-1">
+                  {currentTask.cue_card_points.map((point, index) => (
+                    <li key={index}>{point}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {preparationRemaining > 0 && (
+              <div className="flex items-center justify-between p-4 border rounded-lg bg-blue-50">
+                <div className="flex items-center gap-2">
+                  <Clock className="h-5 w-5 text-blue-600" />
+                  <span>
+                    Preparation time: <span className="font-mono font-semibold">{formatTime(preparationRemaining)}</span>
+                  </span>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setPreparationRemaining(0)}>
+                  Start Speaking Now
+                </Button>
+              </div>
+            )}
+
+            {currentAnswer ? (
+              <div className="p-4 border rounded-lg bg-green-50 space-y-2">
+                <div className="flex items-center gap-2 text-green-700">
+                  <CheckCircle className="h-5 w-5" />
+                  <span className="font-medium">
+                    Answer recorded ({formatTime(currentAnswer.duration)})
+                  </span>
+                </div>
+                <SpeakingRecordingPlayer response={currentAnswer} className="w-full" />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setAnswers((prev) => {
+                      const { [currentTask.id]: _removed, ...rest } = prev;
+                      return rest;
+                    })
+                  }
+                >
+                  Record Again
+                </Button>
+              </div>
+            ) : uploadingTaskId === currentTask.id ? (
+              <div className="flex items-center justify-center gap-2 py-4 text-gray-600">
+                <Loader2 className="h-5 w-5 animate-spin" />
+                Uploading recording...
+              </div>
+            ) : (
+              <AudioRecorder
+                key={currentTask.id}
+                onRecordingComplete={handleRecordingComplete}
+                maxDuration={currentTask.response_seconds || partInfo.responseSeconds}
+                disabled={preparationRemaining > 0 || submitting}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="px-6 py-4 flex gap-4 justify-between items-center bg-white border-t">
+        <Button
+          variant="outline"
+          onClick={() => setCurrentIndex((prev) => prev - 1)}
+          disabled={currentIndex === 0 || !!uploadingTaskId}
+        >
+          Previous
+        </Button>
+        {isLastTask ? (
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || !!uploadingTaskId}
+            className="bg-green-600 hover:bg-green-700 text-white"
+            size="lg"
+          >
+            {submitting ? "Submitting..." : "Submit Speaking Test"}
+          </Button>
+        ) : (
+          <Button
+            onClick={() => setCurrentIndex((prev) => prev + 1)}
+            disabled={!!uploadingTaskId}
+          >
+            Next
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TakeSpeakingTest;
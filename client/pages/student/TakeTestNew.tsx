@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -41,6 +41,10 @@ import { useAuth } from "@/contexts/AuthContext";
 import { parseError, logError } from "@/lib/errorUtils";
 import { formatAndSanitizeText } from "@/lib/textFormatting";
 import { testNetworkConnectivity, logNetworkInfo } from "@/lib/networkUtils";
+import { useAnswerPersistence } from "@/hooks/use-answer-persistence";
+import { SaveStatusIndicator } from "@/components/ui/save-status-indicator";
+import { loadExamContent } from "@/lib/testProgressUtils";
+import { useExamTimer } from "@/hooks/use-exam-timer";
 
 interface TestData {
   id: string;
@@ -81,6 +85,7 @@ const TakeTestNew: React.FC = () => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<string, any>>({});
   const [timeRemaining, setTimeRemaining] = useState(0);
+  const autoSubmittedRef = useRef(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [autoSaving, setAutoSaving] = useState(false);
   const [submissionId, setSubmissionId] = useState<string | null>(null);
@@ -102,6 +107,16 @@ const TakeTestNew: React.FC = () => {
   const [currentWritingTask, setCurrentWritingTask] = useState(1);
   const [wordCounts, setWordCounts] = useState<Record<string, number>>({});
 
+  // Answers are kept on the device and synced to the submission
+  const answerPersistence = useAnswerPersistence({
+    scope: "test",
+    testId,
+    studentId: user?.id,
+    submissionId,
+    answers,
+    onRestore: (restored) => setAnswers((prev) => ({ ...prev, ...restored })),
+  });
+
   // Load test data from localStorage as fallback
   const loadTestDataFromLocalStorage = (
     testId: string,
@@ -176,21 +191,28 @@ const TakeTestNew: React.FC = () => {
     }
   }, [testId]);
 
+  // Start or resume the server-side clock once the submission exists
+  const examTimer = useExamTimer(test?.hasAccess ? submissionId : null);
+  const deadline = examTimer.deadline;
+
   // Timer logic
   useEffect(() => {
-    if (timeRemaining > 0 && test?.hasAccess) {
+    if ((timeRemaining > 0 || deadline) && test?.hasAccess) {
       console.log("⏰ Starting timer with", timeRemaining, "seconds remaining");
 
       const timer = setInterval(() => {
         setTimeRemaining((prev) => {
-          console.log("Timer tick:", prev, "seconds left");
+          const remaining = examTimer.getRemaining(prev - 1);
 
-          if (prev <= 1) {
-            console.log("⏰ TIME'S UP! Auto-submitting...");
-            handleAutoSubmit();
+          if (remaining <= 0) {
+            if (!autoSubmittedRef.current) {
+              autoSubmittedRef.current = true;
+              console.log("⏰ TIME'S UP! Auto-submitting...");
+              handleAutoSubmit();
+            }
             return 0;
           }
-          return prev - 1;
+          return remaining;
         });
       }, 1000);
 
@@ -204,7 +226,7 @@ const TakeTestNew: React.FC = () => {
         hasAccess: test?.hasAccess,
       });
     }
-  }, [test?.hasAccess]);
+  }, [test?.hasAccess, deadline]);
 
   // Set initial section to first available section after questions are loaded
   useEffect(() => {
@@ -425,7 +447,8 @@ const TakeTestNew: React.FC = () => {
         console.log("Test duration (minutes):", testData.duration);
         console.log("============================");
 
-        setAnswers(savedAnswers);
+        // Answers restored from this device take precedence until they sync
+        setAnswers((prev) => ({ ...savedAnswers, ...prev }));
 
         // Restore time properly - use saved time if exists, otherwise use full duration
         if (savedTime && savedTime > 0) {
@@ -552,6 +575,9 @@ const TakeTestNew: React.FC = () => {
       let listeningSections = [];
       let writingTasks = [];
 
+      // Questions of the version being taken, without answer keys
+      const { questions: examQuestions } = await loadExamContent(testId);
+
       // Load reading sections only if test includes reading
       if (
         testType === "reading" ||
@@ -568,15 +594,7 @@ const TakeTestNew: React.FC = () => {
               id,
               title,
               passage_text,
-              passage_number,
-              reading_questions (
-                id,
-                question_number,
-                question_type,
-                question_text,
-                options,
-                correct_answer
-              )
+              passage_number
             `,
             )
             .eq("test_id", testId)
@@ -597,7 +615,12 @@ const TakeTestNew: React.FC = () => {
             console.error("📝 Reading error message:", errorMessage);
             toast.error(`Reading sections error: ${errorMessage}`);
           } else {
-            readingSections = data || [];
+            readingSections = (data || []).map((section) => ({
+              ...section,
+              reading_questions: examQuestions.reading.filter(
+                (q) => q.section_id === section.id,
+              ),
+            }));
             console.log("✅ Reading sections loaded:", readingSections.length);
 
             if (readingSections.length > 0) {
@@ -698,15 +721,7 @@ const TakeTestNew: React.FC = () => {
             audio_url,
             audio_file_url,
             section_number,
-            instructions,
-            listening_questions (
-              id,
-              question_number,
-              question_type,
-              question_text,
-              options,
-              correct_answer
-            )
+            instructions
           `,
           )
           .eq("test_id", testId)
@@ -743,7 +758,12 @@ const TakeTestNew: React.FC = () => {
             toast.error(`Listening sections error: ${errorMessage}`);
           }
         } else {
-          listeningSections = data || [];
+          listeningSections = (data || []).map((section) => ({
+            ...section,
+            listening_questions: examQuestions.listening.filter(
+              (q) => q.section_id === section.id,
+            ),
+          }));
           console.log(
             "✅ Listening sections loaded:",
             listeningSections.length,
@@ -1424,27 +1444,29 @@ const TakeTestNew: React.FC = () => {
   };
 
   const autoSaveAnswers = useCallback(async () => {
-    if (!submissionId) return;
+    if (!submissionId) return "pending";
 
     setAutoSaving(true);
     try {
+      const status = await answerPersistence.flush();
+
       const { error } = await supabase
         .from("test_submissions")
         .update({
-          answers,
           time_remaining_seconds: timeRemaining,
-          auto_saved_at: new Date().toISOString(),
         })
         .eq("id", submissionId);
 
       if (error) throw error;
-      console.log("Auto-save successful");
+      console.log("Auto-save finished with status:", status);
+      return status;
     } catch (error: any) {
       console.error("Auto-save error:", parseError(error));
+      return "failed";
     } finally {
       setAutoSaving(false);
     }
-  }, [submissionId, answers, timeRemaining]);
+  }, [submissionId, timeRemaining, answerPersistence.flush]);
 
   const handleAnswerChange = (questionId: string, answer: any) => {
     setAnswers((prev) => ({ ...prev, [questionId]: answer }));
@@ -1569,6 +1591,15 @@ const TakeTestNew: React.FC = () => {
       );
       console.log("👤 Current user:", user?.id);
 
+      // Make sure answers typed offline reach the server first
+      const saveStatus = await answerPersistence.flush();
+      if (saveStatus !== "saved") {
+        toast.error(
+          "Your answers could not be saved yet. They are kept on this device, please try again.",
+        );
+        return;
+      }
+
       const updateData: any = {
         status: "submitted",
         submitted_at: new Date().toISOString(),
@@ -1604,6 +1635,7 @@ const TakeTestNew: React.FC = () => {
       }
 
       console.log("✅ Test submitted successfully");
+      await answerPersistence.clear();
       toast.success("Test submitted successfully!");
       
       // Check if this is a combined test with multiple sections
@@ -1715,6 +1747,7 @@ const TakeTestNew: React.FC = () => {
           is_completed: true,
         })
         .eq("id", submissionId);
+      await answerPersistence.clear();
 
       toast.info("Time's up! Test submitted automatically.");
       
@@ -2174,12 +2207,12 @@ const TakeTestNew: React.FC = () => {
               <Badge variant="outline" className="capitalize">
                 {currentSection}
               </Badge>
-              {autoSaving && (
-                <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                  <Save className="h-4 w-4" />
-                  Auto-saving...
-                </div>
-              )}
+              <SaveStatusIndicator
+                status={answerPersistence.status}
+                isOnline={answerPersistence.isOnline}
+                lastSavedAt={answerPersistence.lastSavedAt}
+                onRetry={answerPersistence.flush}
+              />
               {!submissionId && (
                 <div className="flex items-center gap-2 text-sm text-red-600">
                   <AlertCircle className="h-4 w-4" />
@@ -2200,10 +2233,11 @@ const TakeTestNew: React.FC = () => {
 
               <Button
                 onClick={async () => {
-                  setAutoSaving(true);
-                  await autoSaveAnswers();
-                  if (!autoSaving) {
+                  const status = await autoSaveAnswers();
+                  if (status === "saved") {
                     toast.success("Progress saved!");
+                  } else {
+                    toast.warning("Progress is saved on this device and will sync when you're back online.");
                   }
                 }}
                 variant="outline"
@@ -7,6 +7,7 @@ import { toast } from "sonner";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
 import { markSectionCompleted, isAllSectionsCompleted } from "@/lib/testProgressUtils";
+import { useExamTimer } from "@/hooks/use-exam-timer";
 import Split from "react-split/dist/react-split";
 
 interface WritingTask {
@@ -51,6 +52,7 @@ const TakeWritingTest: React.FC = () => {
   const localStorageKey = testId ? `writing-test-${testId}` : null;
   const [submitted, setSubmitted] = useState(false);
   const [uiError, setUiError] = useState<string | null>(null);
+  const [submissionId, setSubmissionId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!testId) return;
@@ -82,6 +84,60 @@ const TakeWritingTest: React.FC = () => {
     })();
   }, [testId]);
 
+  // The exam clock runs on the submission, so open one before the countdown starts
+  useEffect(() => {
+    if (!testId || !user?.id) return;
+    (async () => {
+      try {
+        const { data: existing, error: fetchError } = await supabase
+          .from("test_submissions")
+          .select("id")
+          .eq("test_id", testId)
+          .eq("student_id", user.id)
+          .maybeSingle();
+        if (fetchError) throw fetchError;
+        if (existing) {
+          setSubmissionId(existing.id);
+          return;
+        }
+
+        const { data: created, error: createError } = await supabase
+          .from("test_submissions")
+          .insert({
+            test_id: testId,
+            student_id: user.id,
+            status: "in_progress",
+            answers: {},
+          })
+          .select("id")
+          .single();
+        if (createError) throw createError;
+        setSubmissionId(created.id);
+      } catch (error: any) {
+        console.warn("⚠️ Could not open the submission, using local timer:", error);
+      }
+    })();
+  }, [testId, user?.id]);
+
+  // The countdown follows the deadline kept on the submission by the server,
+  // started once the test is loaded so a full test keeps its section allowance
+  const examTimer = useExamTimer(
+    testData ? submissionId : null,
+    testData?.type?.toLowerCase() === "full",
+  );
+
+  useEffect(() => {
+    if (!examTimer.deadline || submitted) return;
+
+    const remaining = examTimer.getRemaining(timeRemaining);
+    if (remaining <= 0) {
+      setTimeRemaining(0);
+      handleSubmit(true);
+      return;
+    }
+    setTimeRemaining(remaining);
+  }, [examTimer.deadline]);
+
   // On mount, restore from localStorage (answers and time)
   useEffect(() => {
     if (!localStorageKey) return;
@@ -140,7 +196,8 @@ const TakeWritingTest: React.FC = () => {
     let interval: NodeJS.Timeout | null = null;
     interval = setInterval(() => {
       setTimeRemaining((prev) => {
-        if (prev <= 1) {
+        const next = examTimer.getRemaining(prev - 1);
+        if (next <= 0) {
           handleSubmit(true);
           return 0;
         }
@@ -150,13 +207,13 @@ const TakeWritingTest: React.FC = () => {
           JSON.stringify({
             answers,
             wordCounts,
-            timeRemaining: prev - 1,
+            timeRemaining: next,
             testId,
             timestamp: Date.now(),
             submitted: false,
           })
         );
-        return prev - 1;
+        return next;
       });
     }, 1000);
     return () => interval && clearInterval(interval);
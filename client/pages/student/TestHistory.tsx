@@ -19,14 +19,24 @@ import {
   Trophy,
   FileText,
   ArrowLeft,
+  TrendingUp,
+  TrendingDown,
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
 import { Link } from "react-router-dom";
 import { toast } from "sonner";
+import {
+  ATTEMPT_SCORING_LABELS,
+  getCountedAttempt,
+  getScoreTrend,
+  parseAttemptPolicy,
+} from "@shared/testAttempts";
 
 interface TestSubmission {
   id: string;
+  test_id?: string;
+  attempt_number?: number;
   status: string;
   total_score?: number;
   reading_score?: number;
@@ -38,9 +48,15 @@ interface TestSubmission {
     id: string;
     title: string;
     type: string;
+    attempt_scoring?: string;
   };
 }
 
+interface AttemptGroup {
+  testId: string;
+  attempts: TestSubmission[];
+}
+
 const TestHistory: React.FC = () => {
   const { user } = useAuth();
   const [submissions, setSubmissions] = useState<TestSubmission[]>([]);
@@ -71,13 +87,14 @@ const TestHistory: React.FC = () => {
           writing_score,
           graded_at,
           submitted_at,
-          test_id
+          test_id,
+          attempt_number
         `,
         )
         .eq("student_id", user.id)
         .order("submitted_at", { ascending: false });
 
-      let data = submissionsData;
+      let data: any[] | null = submissionsData;
 
       if (error) {
         console.error("Error fetching test history:", error);
@@ -121,14 +138,29 @@ const TestHistory: React.FC = () => {
         data = fallbackData;
       }
 
+      // Earlier attempts are archived when a student retakes a test
+      const { data: archivedAttempts, error: attemptsError } = await supabase
+        .from("test_attempts")
+        .select(
+          "id, status, total_score, reading_score, listening_score, writing_score, submitted_at, test_id, attempt_number",
+        )
+        .eq("student_id", user.id);
+
+      if (attemptsError) {
+        // Older databases may not have the attempts table yet
+        console.warn("⚠️ Could not load previous attempts:", attemptsError.message);
+      } else if (archivedAttempts?.length) {
+        data = [...(data || []), ...archivedAttempts];
+      }
+
       // Get test details separately for all submissions
       if (data && data.length > 0) {
         const testIds = data.map((s) => s.test_id).filter(Boolean);
         if (testIds.length > 0) {
           const { data: testDetails, error: testDetailsError } = await supabase
             .from("tests")
-            .select("id, title, type")
-            .in("id", testIds);
+            .select("*")
+            .in("id", [...new Set(testIds)]);
 
           if (testDetailsError) {
             console.error("Error fetching test details:", testDetailsError);
@@ -182,6 +214,38 @@ const TestHistory: React.FC = () => {
     return matchesSearch && matchesFilter;
   });
 
+  // One group per test, most recently taken first, attempts in order
+  const attemptGroups: AttemptGroup[] = Object.values(
+    filteredSubmissions.reduce<Record<string, AttemptGroup>>(
+      (groups, submission) => {
+        const testId = submission.test_id || submission.id;
+        groups[testId] ??= { testId, attempts: [] };
+        groups[testId].attempts.push(submission);
+        return groups;
+      },
+      {},
+    ),
+  )
+    .map((group) => ({
+      ...group,
+      attempts: [...group.attempts].sort(
+        (a, b) => (a.attempt_number || 1) - (b.attempt_number || 1),
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        Math.max(...b.attempts.map((s) => new Date(s.submitted_at).getTime() || 0)) -
+        Math.max(...a.attempts.map((s) => new Date(s.submitted_at).getTime() || 0)),
+    );
+
+  const toAttemptSummaries = (attempts: TestSubmission[]) =>
+    attempts.map((attempt) => ({
+      attemptNumber: attempt.attempt_number || 1,
+      status: attempt.status,
+      totalScore: attempt.status === "graded" ? attempt.total_score : null,
+      submittedAt: attempt.submitted_at,
+    }));
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case "completed":
@@ -309,7 +373,7 @@ const TestHistory: React.FC = () => {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Test Name</TableHead>
+                  <TableHead>Test / Attempt</TableHead>
                   <TableHead>Type</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Overall Score</TableHead>
@@ -320,61 +384,123 @@ const TestHistory: React.FC = () => {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredSubmissions.map((submission) => (
-                  <TableRow key={submission.id}>
-                    <TableCell className="font-medium">
-                      {submission.tests?.title || "Unknown Test"}
-                    </TableCell>
-                    <TableCell className="capitalize">
-                      {submission.tests?.type || "Unknown"}
-                    </TableCell>
-                    <TableCell>{getStatusBadge(submission.status)}</TableCell>
-                    <TableCell>
-                      {submission.status === "graded" ? (
-                        <div className="flex items-center gap-1">
-                          <Trophy className="h-4 w-4 text-yellow-500" />
-                          <span className="font-semibold">
-                            {formatScore(submission.total_score)}
-                          </span>
-                        </div>
-                      ) : (
-                        <span className="text-muted-foreground">-</span>
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      {submission.status === "graded"
-                        ? formatScore(submission.reading_score)
-                        : "-"}
-                    </TableCell>
-                    <TableCell>
-                      {submission.status === "graded"
-                        ? formatScore(submission.listening_score)
-                        : "-"}
-                    </TableCell>
-                    <TableCell>
-                      {submission.status === "graded"
-                        ? formatScore(submission.writing_score)
-                        : "-"}
-                    </TableCell>
-                    <TableCell>
-                      <div className="text-sm">
-                        <div>
-                          {new Date(
-                            submission.submitted_at,
-                          ).toLocaleDateString()}
-                        </div>
-                        {submission.graded_at && (
-                          <div className="text-muted-foreground text-xs">
-                            Graded:{" "}
-                            {new Date(
-                              submission.graded_at,
-                            ).toLocaleDateString()}
+                {attemptGroups.map((group) => {
+                  const test = group.attempts[0].tests;
+                  const summaries = toAttemptSummaries(group.attempts);
+                  const scoring = parseAttemptPolicy(test).scoring;
+                  const counted = getCountedAttempt(summaries, scoring);
+                  const trend = getScoreTrend(summaries);
+                  const scoreHistory = summaries
+                    .filter((attempt) => attempt.totalScore != null)
+                    .map((attempt) => formatScore(attempt.totalScore));
+
+                  return (
+                    <React.Fragment key={group.testId}>
+                      <TableRow className="bg-gray-50">
+                        <TableCell className="font-semibold">
+                          {test?.title || "Unknown Test"}
+                          <div className="text-xs font-normal text-muted-foreground">
+                            {group.attempts.length} attempt
+                            {group.attempts.length > 1 ? "s" : ""}
                           </div>
-                        )}
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))}
+                        </TableCell>
+                        <TableCell className="capitalize">
+                          {test?.type || "Unknown"}
+                        </TableCell>
+                        <TableCell colSpan={6}>
+                          {counted ? (
+                            <div className="flex flex-wrap items-center gap-3 text-sm">
+                              <span className="flex items-center gap-1">
+                                <Trophy className="h-4 w-4 text-yellow-500" />
+                                <span className="font-semibold">
+                                  {formatScore(counted.totalScore)}
+                                </span>
+                                <span className="text-muted-foreground">
+                                  ({ATTEMPT_SCORING_LABELS[scoring].toLowerCase()})
+                                </span>
+                              </span>
+                              {scoreHistory.length > 1 && (
+                                <span className="text-muted-foreground">
+                                  {scoreHistory.join(" → ")}
+                                </span>
+                              )}
+                              {trend !== null && trend !== 0 && (
+                                <span
+                                  className={`flex items-center gap-1 ${trend > 0 ? "text-green-600" : "text-red-600"}`}
+                                >
+                                  {trend > 0 ? (
+                                    <TrendingUp className="h-4 w-4" />
+                                  ) : (
+                                    <TrendingDown className="h-4 w-4" />
+                                  )}
+                                  {trend > 0 ? "+" : ""}
+                                  {trend.toFixed(1)}
+                                </span>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">
+                              Not graded yet
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {group.attempts.map((submission) => (
+                        <TableRow key={submission.id}>
+                          <TableCell className="pl-8 text-muted-foreground">
+                            Attempt {submission.attempt_number || 1}
+                          </TableCell>
+                          <TableCell />
+                          <TableCell>{getStatusBadge(submission.status)}</TableCell>
+                          <TableCell>
+                            {submission.status === "graded" ? (
+                              <div className="flex items-center gap-1">
+                                <Trophy className="h-4 w-4 text-yellow-500" />
+                                <span className="font-semibold">
+                                  {formatScore(submission.total_score)}
+                                </span>
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {submission.status === "graded"
+                              ? formatScore(submission.reading_score)
+                              : "-"}
+                          </TableCell>
+                          <TableCell>
+                            {submission.status === "graded"
+                              ? formatScore(submission.listening_score)
+                              : "-"}
+                          </TableCell>
+                          <TableCell>
+                            {submission.status === "graded"
+                              ? formatScore(submission.writing_score)
+                              : "-"}
+                          </TableCell>
+                          <TableCell>
+                            <div className="text-sm">
+                              <div>
+                                {new Date(
+                                  submission.submitted_at,
+                                ).toLocaleDateString()}
+                              </div>
+                              {submission.graded_at && (
+                                <div className="text-muted-foreground text-xs">
+                                  Graded:{" "}
+                                  {new Date(
+                                    submission.graded_at,
+                                  ).toLocaleDateString()}
+                                </div>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </React.Fragment>
+                  );
+                })}
               </TableBody>
             </Table>
           )}
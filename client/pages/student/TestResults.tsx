@@ -7,6 +7,14 @@ import { Badge } from '../../components/ui/badge';
 import { BracketParser } from '../../lib/bracketParser';
 import { supabase } from '../../lib/supabase';
 import { toast } from "sonner";
+import { READING_MODULE_LABELS, type GradingResult, type ReadingModule } from '@shared/grading';
+import {
+  WRITING_CRITERIA,
+  getWritingCriterionLabel,
+  parseWritingGradingData,
+  resolveDescriptorEvidence,
+} from '@shared/writingRubric';
+import { AnnotatedEssay } from '../../components/ui/essay-annotations';
 
 /*
  * DEMO FEATURES - REMOVE WHEN NOT NEEDED
@@ -35,9 +43,20 @@ interface TestSubmission {
     is_correct: boolean;
   }>;
   created_at: string;
+  reading_score?: number | null;
+  listening_score?: number | null;
+  writing_score?: number | null;
+  speaking_score?: number | null;
+  total_score?: number | null;
+  overall_band_status?: 'complete' | 'incomplete' | null;
+  auto_grading_data?: string | GradingResult | null;
+  answers?: Record<string, any> | null;
+  writing_grading_data?: string | null;
+  final_comments?: string | null;
   tests: {
     title: string;
     description: string;
+    ielts_module?: ReadingModule | null;
   };
 }
 
@@ -66,7 +85,8 @@ export default function TestResults() {
           *,
           tests (
             title,
-            description
+            description,
+            ielts_module
           )
         `)
         .eq('id', submissionId)
@@ -155,6 +175,28 @@ export default function TestResults() {
 
   const correctAnswers = submission.submission_data.filter(item => item.is_correct).length;
   const totalQuestions = submission.submission_data.length;
+  const readingModule: ReadingModule = submission.tests.ielts_module === 'general_training' ? 'general_training' : 'academic';
+  const hasBandScores = submission.reading_score != null || submission.listening_score != null
+    || submission.writing_score != null || submission.speaking_score != null;
+
+  // Bands from tests that are not 40 questions are scaled or custom, so only estimates
+  let gradingBreakdown: GradingResult['breakdown'] | null = null;
+  try {
+    const gradingData = typeof submission.auto_grading_data === 'string'
+      ? JSON.parse(submission.auto_grading_data)
+      : submission.auto_grading_data;
+    gradingBreakdown = gradingData?.breakdown || null;
+  } catch {
+    gradingBreakdown = null;
+  }
+  const isReadingEstimate = !!gradingBreakdown?.reading?.isEstimate;
+  const isListeningEstimate = !!gradingBreakdown?.listening?.isEstimate;
+
+  // Teachers tick band descriptors as evidence when marking writing
+  const writingGrading = parseWritingGradingData(submission.writing_grading_data);
+  const writingTaskIds = Object.keys(writingGrading?.taskGrades || {}).sort(
+    (a, b) => (writingGrading?.taskNumbers?.[a] || 1) - (writingGrading?.taskNumbers?.[b] || 1)
+  );
 
   return (
     <div className="container mx-auto p-6 max-w-4xl">
@@ -200,9 +242,128 @@ export default function TestResults() {
               <p className="text-gray-500 mt-1">Status</p>
             </div>
           </div>
+
+          {hasBandScores && (
+            <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4 border-t pt-4">
+              {submission.reading_score != null && (
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-gray-700">{submission.reading_score}</div>
+                  <p className="text-gray-500">Reading Band</p>
+                  <Badge variant="outline" className="mt-1">
+                    {READING_MODULE_LABELS[readingModule]} conversion table
+                  </Badge>
+                  {isReadingEstimate && (
+                    <Badge variant="secondary" className="mt-1 ml-1">Estimated band</Badge>
+                  )}
+                </div>
+              )}
+              {submission.listening_score != null && (
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-gray-700">{submission.listening_score}</div>
+                  <p className="text-gray-500">Listening Band</p>
+                  {isListeningEstimate && (
+                    <Badge variant="secondary" className="mt-1">Estimated band</Badge>
+                  )}
+                </div>
+              )}
+              {submission.writing_score != null && (
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-gray-700">{submission.writing_score}</div>
+                  <p className="text-gray-500">Writing Band</p>
+                </div>
+              )}
+              {submission.speaking_score != null && (
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-gray-700">{submission.speaking_score}</div>
+                  <p className="text-gray-500">Speaking Band</p>
+                </div>
+              )}
+              {submission.total_score != null && (
+                <div className="md:col-span-2 text-center border-t pt-4">
+                  <div className="text-3xl font-bold text-blue-600">{submission.total_score}</div>
+                  <p className="text-gray-500">Overall Band</p>
+                  {submission.overall_band_status === 'incomplete' && (
+                    <Badge variant="secondary" className="mt-1">
+                      Incomplete: not all four skills have been marked yet
+                    </Badge>
+                  )}
+                </div>
+              )}
+              {(isReadingEstimate || isListeningEstimate) && (
+                <p className="md:col-span-2 text-sm text-gray-500 text-center">
+                  This test does not have the full 40 questions, so the band is an estimate
+                  converted from a scaled score or the test's own conversion table.
+                </p>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {/* Writing Feedback */}
+      {writingGrading && writingTaskIds.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Writing Feedback</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {writingTaskIds.map((taskId) => {
+              const taskNumber = writingGrading.taskNumbers?.[taskId] || 1;
+              const grades = writingGrading.taskGrades[taskId];
+              const essay = submission.answers?.[taskId];
+              return (
+                <div key={taskId} className="space-y-3">
+                  <h3 className="font-semibold">
+                    Task {taskNumber}
+                    {taskNumber === 2 && (
+                      <span className="text-sm font-normal text-gray-500"> (counts double)</span>
+                    )}
+                  </h3>
+                  {typeof essay === 'string' && essay && (
+                    <AnnotatedEssay text={essay} annotations={writingGrading.annotations?.[taskId]} />
+                  )}
+                  {WRITING_CRITERIA.map((criterion) => {
+                    const evidence = resolveDescriptorEvidence(
+                      criterion,
+                      taskNumber,
+                      writingGrading.descriptorEvidence?.[taskId]?.[criterion]
+                    );
+                    return (
+                      <div key={criterion} className="border rounded-lg p-3">
+                        <div className="flex justify-between items-center">
+                          <span className="font-medium">{getWritingCriterionLabel(criterion, taskNumber)}</span>
+                          <Badge variant="outline">{grades?.[criterion] ?? '-'}</Badge>
+                        </div>
+                        {evidence.length > 0 && (
+                          <ul className="mt-2 list-disc pl-5 text-sm text-gray-600 space-y-1">
+                            {evidence.map((descriptor) => (
+                              <li key={descriptor.id}>
+                                {descriptor.text} <span className="text-gray-400">(band {descriptor.band})</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {writingGrading.taskComments?.[taskId] && (
+                    <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded">
+                      {writingGrading.taskComments[taskId]}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+            {submission.final_comments && (
+              <div className="border-t pt-4">
+                <p className="text-sm text-gray-600">Teacher comments:</p>
+                <p className="whitespace-pre-wrap">{submission.final_comments}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Detailed Results */}
       <Card className="mb-8">
         <CardHeader>
@@ -10,21 +10,39 @@ import {
   BookOpen,
   Volume2,
   PenTool,
+  Mic,
   Play,
   Users,
   AlertCircle,
   CheckCircle,
   Loader2,
   ArrowRight,
+  RotateCcw,
 } from "lucide-react";
 import { motion } from "framer-motion";
 import { toast } from "sonner";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
-import { getTestProgress, getSectionStatuses, isAllSectionsCompleted } from "@/lib/testProgressUtils";
+import {
+  getTestProgress,
+  getSectionStatuses,
+  getStudentAttempts,
+  isAllSectionsCompleted,
+  loadExamContent,
+  startRetake,
+} from "@/lib/testProgressUtils";
+import { getActiveAssignment, getWindowState } from "@shared/testWindows";
+import type { ExamContentResponse } from "@shared/api";
+import {
+  ATTEMPT_SCORING_LABELS,
+  checkRetakeEligibility,
+  isAttemptFinished,
+  parseAttemptPolicy,
+  type AttemptPolicy,
+} from "@shared/testAttempts";
 
 interface TestSection {
-  type: "reading" | "listening" | "writing";
+  type: "reading" | "listening" | "writing" | "speaking";
   title: string;
   icon: any;
   duration: number;
@@ -34,6 +52,13 @@ interface TestSection {
   estimatedTime: string;
 }
 
+interface RetakeOffer {
+  title: string;
+  finishedAttempt: number;
+  nextAttempt: number;
+  policy: AttemptPolicy;
+}
+
 interface TestInfo {
   id: string;
   title: string;
@@ -51,6 +76,8 @@ const TestStart: React.FC = () => {
   const [testInfo, setTestInfo] = useState<TestInfo | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [retakeOffer, setRetakeOffer] = useState<RetakeOffer | null>(null);
+  const [startingRetake, setStartingRetake] = useState(false);
 
   useEffect(() => {
     if (testId) {
@@ -62,6 +89,7 @@ const TestStart: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
+      setRetakeOffer(null);
 
       // Check network connectivity
       if (!navigator.onLine) {
@@ -84,12 +112,55 @@ const TestStart: React.FC = () => {
         return;
       }
 
-      // Load all sections
-      const [readingSections, listeningSections, writingSections] =
+      // Archived tests are kept for their results but can't be taken
+      if (test.archived_at) {
+        setError("This test has been archived and is no longer available.");
+        return;
+      }
+
+      // Tests assigned to a class can only be started inside their window
+      const windowError = await checkAssignmentWindow();
+      if (windowError) {
+        setError(windowError);
+        return;
+      }
+
+      // A finished test can only be taken again within its attempt policy
+      if (user?.id) {
+        const attempts = await getStudentAttempts(testId, user.id);
+        const latest = attempts[attempts.length - 1];
+
+        if (latest && isAttemptFinished(latest)) {
+          const policy = parseAttemptPolicy(test);
+          const eligibility = checkRetakeEligibility(policy, attempts);
+          if (eligibility.allowed === false) {
+            setError(
+              eligibility.availableAt
+                ? `You can retake this test from ${new Date(eligibility.availableAt).toLocaleString()}.`
+                : eligibility.message,
+            );
+            return;
+          }
+
+          setRetakeOffer({
+            title: test.title || "IELTS Practice Test",
+            finishedAttempt: latest.attemptNumber,
+            nextAttempt: eligibility.nextAttempt,
+            policy,
+          });
+          return;
+        }
+      }
+
+      // Load all sections; reading and listening come from the version the
+      // student takes, without answer keys
+      const examContent = loadExamContent(testId!);
+      const [readingSections, listeningSections, writingSections, speakingTasks] =
         await Promise.all([
-          loadReadingSections(),
-          loadListeningSections(),
+          loadReadingSections(examContent),
+          loadListeningSections(examContent),
           loadWritingSections(),
+          loadSpeakingSections(),
         ]);
 
       // Check for completed sections
@@ -146,6 +217,21 @@ const TestStart: React.FC = () => {
         });
       }
 
+      if (speakingTasks.length > 0) {
+        const isCompleted = completedSections.has("speaking");
+        const parts = new Set(speakingTasks.map((task) => task.part_number));
+        sections.push({
+          type: "speaking",
+          title: "Speaking",
+          icon: Mic,
+          duration: 15,
+          questionCount: speakingTasks.length,
+          description: `${parts.size} part${parts.size > 1 ? "s" : ""} with recorded answers`,
+          status: isCompleted ? "completed" : "available",
+          estimatedTime: "11-14 minutes",
+        });
+      }
+
       setTestInfo({
         id: testId,
         title: test?.title || "IELTS Practice Test",
@@ -188,23 +274,17 @@ const TestStart: React.FC = () => {
     });
   };
 
-  const loadReadingSections = async () => {
+  const loadReadingSections = async (examContent: Promise<ExamContentResponse>) => {
     try {
-      const { data, error } = await supabase
-        .from("reading_sections")
-        .select(
-          `
-          id, title, passage_number,
-          reading_questions(id)
-        `,
-        )
-        .eq("test_id", testId);
-
-      if (error) throw error;
-
-      return (data || []).map((section) => ({
-        ...section,
-        questionCount: section.reading_questions?.length || 0,
+      const { sections, questions } = await examContent;
+
+      return sections.reading.map((section: any) => ({
+        id: section.id,
+        title: section.title,
+        passage_number: section.passage_number,
+        questionCount: questions.reading.filter(
+          (question) => question.section_id === section.id,
+        ).length,
       }));
     } catch (error) {
       console.warn("Could not load reading sections:", error);
@@ -212,46 +292,25 @@ const TestStart: React.FC = () => {
     }
   };
 
-  const loadListeningSections = async () => {
+  const loadListeningSections = async (examContent: Promise<ExamContentResponse>) => {
     try {
-      const { data, error } = await supabase
-        .from("listening_sections")
-        .select(
-          `
-          id, title, section_number,
-          listening_questions(id, question_type, correct_answer, options)
-        `,
-        )
-        .eq("test_id", testId);
-
-      if (error) throw error;
+      const { sections, questions: examQuestions } = await examContent;
 
-      return (data || []).map((section) => {
+      return sections.listening.map((section: any) => {
         // Calculate expanded question count
         let totalQuestions = 0;
-        
-        if (section.listening_questions) {
-          section.listening_questions.forEach((question: any) => {
+        const questions = examQuestions.listening.filter(
+          (question) => question.section_id === section.id,
+        );
+
+        if (questions.length > 0) {
+          questions.forEach((question: any) => {
             if (question.question_type === "matching") {
               // For matching questions, count each pair as a separate question
-              try {
-                const pairs = typeof question.correct_answer === "string" 
-                  ? JSON.parse(question.correct_answer) 
-                  : question.correct_answer;
-                totalQuestions += Array.isArray(pairs) ? pairs.length : 1;
-              } catch {
-                totalQuestions += 1; // Fallback
-              }
+              totalQuestions += question.options?.left?.length || 1;
             } else if (question.question_type === "map_labeling" || question.question_type === "map_diagram") {
               // For map/diagram questions, count each label/box as a separate question
-              try {
-                const boxes = typeof question.correct_answer === "string" 
-                  ? JSON.parse(question.correct_answer) 
-                  : question.correct_answer;
-                totalQuestions += Array.isArray(boxes) ? boxes.length : 1;
-              } catch {
-                totalQuestions += 1; // Fallback
-              }
+              totalQuestions += question.answer_count || 1;
             } else {
               // Regular questions (short_answer, multiple_choice) = 1 question each
               totalQuestions += 1;
@@ -260,7 +319,9 @@ const TestStart: React.FC = () => {
         }
         
         return {
-          ...section,
+          id: section.id,
+          title: section.title,
+          section_number: section.section_number,
           questionCount: totalQuestions,
         };
       });
@@ -306,6 +367,74 @@ const TestStart: React.FC = () => {
     }
   };
 
+  const loadSpeakingSections = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("speaking_tasks")
+        .select("id, part_number")
+        .eq("test_id", testId);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.warn("Could not load speaking tasks:", error);
+      return [];
+    }
+  };
+
+  const checkAssignmentWindow = async (): Promise<string | null> => {
+    if (!user?.id || !testId) return null;
+
+    const [{ data: groups, error: groupsError }, { data: request }] =
+      await Promise.all([
+        supabase
+          .from("test_assignment_groups")
+          .select("*")
+          .eq("test_id", testId)
+          .contains("student_ids", [user.id]),
+        supabase
+          .from("test_requests")
+          .select("status")
+          .eq("test_id", testId)
+          .eq("student_id", user.id)
+          .maybeSingle(),
+      ]);
+
+    if (groupsError) {
+      console.warn("Could not check assignment window:", groupsError.message);
+      return null;
+    }
+
+    // An individually approved request still grants access
+    const assignment = getActiveAssignment(groups || [], testId, user.id);
+    if (!assignment || request?.status === "approved") return null;
+
+    switch (getWindowState(assignment)) {
+      case "upcoming":
+        return `This test opens on ${new Date(assignment.opens_at).toLocaleString()}.`;
+      case "closed":
+        return `This test closed on ${new Date(assignment.closes_at).toLocaleString()}.`;
+      default:
+        return null;
+    }
+  };
+
+  const handleStartRetake = async () => {
+    if (!testId) return;
+
+    setStartingRetake(true);
+    try {
+      const result = await startRetake(testId);
+      toast.success(`Attempt ${result.nextAttempt} is ready to start`);
+      await loadTestInfo();
+    } catch (error: any) {
+      console.error("Error starting retake:", error);
+      toast.error(error?.message || "Failed to start a new attempt");
+    } finally {
+      setStartingRetake(false);
+    }
+  };
+
   const startSection = (sectionType: string) => {
     console.log(`🚀 Starting ${sectionType} section for test ${testId}`);
 
@@ -320,6 +449,9 @@ const TestStart: React.FC = () => {
       case "writing":
         navigate(`/student/test/${testId}/writing`);
         break;
+      case "speaking":
+        navigate(`/student/test/${testId}/speaking`);
+        break;
       default:
         // Fallback to old interface
         navigate(`/student/test/${testId}`);
@@ -371,6 +503,59 @@ const TestStart: React.FC = () => {
     );
   }
 
+  if (retakeOffer && !error) {
+    const { policy } = retakeOffer;
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+        <Card className="max-w-md w-full mx-4">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              {retakeOffer.title}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-gray-600">
+              You have finished attempt {retakeOffer.finishedAttempt} of this
+              test.
+            </p>
+            <div className="text-sm text-gray-500 space-y-1">
+              <p>
+                Attempts used: {retakeOffer.finishedAttempt}
+                {policy.maxAttempts !== null
+                  ? ` of ${policy.maxAttempts}`
+                  : " (no limit)"}
+              </p>
+              <p>Your score counts from: {ATTEMPT_SCORING_LABELS[policy.scoring]}</p>
+              {policy.cooldownHours > 0 && (
+                <p>
+                  Wait {policy.cooldownHours} hour
+                  {policy.cooldownHours > 1 ? "s" : ""} between attempts
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleStartRetake} disabled={startingRetake}>
+                {startingRetake ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                )}
+                Start Attempt {retakeOffer.nextAttempt}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => navigate("/student/tests/history")}
+              >
+                View Results
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (error || !testInfo) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-red-50 to-pink-100">
@@ -20,10 +20,18 @@ import {
   FileText,
   Volume2,
   PenTool,
+  Timer,
 } from "lucide-react";
 import { motion } from "framer-motion";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
+import {
+  formatCountdown,
+  getActiveAssignment,
+  getSecondsUntilWindowChange,
+  getWindowState,
+  type TestAssignmentGroup,
+} from "@shared/testWindows";
 
 interface Test {
   id: string;
@@ -45,12 +53,22 @@ const Tests: React.FC = () => {
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [testRequests, setTestRequests] = useState<any[]>([]);
+  const [assignments, setAssignments] = useState<TestAssignmentGroup[]>([]);
+  const [now, setNow] = useState(new Date());
 
   useEffect(() => {
     fetchTests();
     fetchTestRequests();
+    fetchAssignments();
   }, [user]);
 
+  // Tick once a second for the window countdowns
+  useEffect(() => {
+    if (assignments.length === 0) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [assignments.length]);
+
   const fetchTests = async () => {
     try {
       if (!user) return;
@@ -82,7 +100,8 @@ const Tests: React.FC = () => {
         .from("tests")
         .select("*")
         .eq("status", "published")
-        .eq("edu_center_id", profile.edu_center_id);
+        .eq("edu_center_id", profile.edu_center_id)
+        .is("archived_at", null);
 
       if (error) {
         console.error("Error fetching tests:", error.message || error);
@@ -134,6 +153,19 @@ const Tests: React.FC = () => {
     if (!error && data) setTestRequests(data);
   };
 
+  const fetchAssignments = async () => {
+    if (!user) return;
+    const { data, error } = await supabase
+      .from("test_assignment_groups")
+      .select("*")
+      .contains("student_ids", [user.id]);
+    if (error) {
+      console.warn("Could not load test assignments:", error.message);
+      return;
+    }
+    setAssignments(data || []);
+  };
+
   const handleRequestAccess = async (testId: string) => {
     if (!user) return;
     const { error } = await supabase
@@ -302,6 +334,12 @@ const Tests: React.FC = () => {
         >
           {filteredTests.map((test, index) => {
             const request = testRequests.find((r) => r.test_id === test.id);
+            const assignment = user
+              ? getActiveAssignment(assignments, test.id, user.id, now)
+              : null;
+            const windowState = assignment
+              ? getWindowState(assignment, now)
+              : null;
             return (
               <motion.div
                 key={test.id}
@@ -340,6 +378,22 @@ const Tests: React.FC = () => {
                         </div>
                       </div>
 
+                      {assignment && windowState !== "closed" && (
+                        <div
+                          className={`flex items-center gap-2 text-sm rounded-md px-3 py-2 ${
+                            windowState === "open"
+                              ? "bg-green-50 text-green-800"
+                              : "bg-blue-50 text-blue-800"
+                          }`}
+                        >
+                          <Timer className="h-4 w-4" />
+                          {windowState === "open" ? "Closes in " : "Opens in "}
+                          {formatCountdown(
+                            getSecondsUntilWindowChange(assignment, now),
+                          )}
+                        </div>
+                      )}
+
                       <div className="flex items-center justify-between">
                         <Badge
                           variant="secondary"
@@ -357,10 +411,19 @@ const Tests: React.FC = () => {
                         <Button className="w-full" disabled>
                           Completed
                         </Button>
-                      ) : request && request.status === "approved" ? (
+                      ) : (request && request.status === "approved") ||
+                        windowState === "open" ? (
                         <Button className="w-full" asChild>
                           <Link to={`/student/test/${test.id}`}>Start</Link>
                         </Button>
+                      ) : windowState === "upcoming" ? (
+                        <Button className="w-full" disabled>
+                          Not open yet
+                        </Button>
+                      ) : windowState === "closed" ? (
+                        <Button className="w-full" disabled>
+                          Closed
+                        </Button>
                       ) : request && request.status === "pending" ? (
                         <Button className="w-full" disabled>
                           Waiting
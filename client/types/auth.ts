@@ -9,6 +9,9 @@ export interface User {
   phone: string;
   role: UserRole;
   edu_center_id?: string;
+  // IELTS goal for students: overall band and the lowest band any skill may have
+  target_overall_band?: number | null;
+  target_min_band?: number | null;
   created_at: string;
   updated_at: string;
 }
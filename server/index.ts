@@ -1,6 +1,16 @@
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
+import {
+  handleApplyRegrade,
+  handleGradeSubmission,
+  handleManualGrade,
+  handlePreviewGrading,
+  handlePreviewRegrade,
+} from "./routes/grading";
+import { handleStartExamTimer } from "./routes/examTimer";
+import { handleGetExamContent } from "./routes/examContent";
+import { handleDeleteTest, handleStartRetake } from "./routes/tests";
 
 export function createServer() {
   const app = express();
@@ -17,5 +27,26 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  // Grading runs on the server so answer keys stay out of the browser
+  app.post("/api/grading/submissions", handleGradeSubmission);
+  app.post("/api/grading/submissions/preview", handlePreviewGrading);
+  app.post("/api/grading/submissions/manual", handleManualGrade);
+
+  // Regrades are previewed first; applying them is audited and notifies students
+  app.post("/api/tests/:testId/regrade/preview", handlePreviewRegrade);
+  app.post("/api/tests/:testId/regrade", handleApplyRegrade);
+
+  // The exam clock runs on server time so reloads and clock changes don't add time
+  app.post("/api/exam-timer/start", handleStartExamTimer);
+
+  // Students get the questions from here, without the answer keys
+  app.get("/api/tests/:testId/exam-content", handleGetExamContent);
+
+  // Hard delete runs as one database transaction; the dashboard archives by default
+  app.delete("/api/tests/:testId", handleDeleteTest);
+
+  // Retakes archive the finished attempt only when the test's attempt policy allows
+  app.post("/api/tests/:testId/retake", handleStartRetake);
+
   return app;
 }
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  calculateExamDeadline,
+  parseLatePolicy,
+  type LateSubmissionPolicy,
+} from "../../shared/examTimer";
+
+export interface ExamTiming {
+  durationMinutes: number;
+  extensionMinutes: number;
+  latePolicy: LateSubmissionPolicy;
+  deadline: Date | null;
+}
+
+// Full tests without a duration run for the standard 2 h 45 min
+const DEFAULT_DURATION_MINUTES = 165;
+
+// Duration, extension and late policy for a submission, and its deadline once started
+export const loadExamTiming = async (
+  supabase: SupabaseClient,
+  submission: { test_id: string; student_id: string; started_at?: string | null },
+): Promise<ExamTiming> => {
+  const [{ data: test }, { data: extension }] = await Promise.all([
+    supabase
+      .from("tests")
+      .select("duration, late_submission_policy")
+      .eq("id", submission.test_id)
+      .single(),
+    supabase
+      .from("test_time_extensions")
+      .select("extra_minutes")
+      .eq("test_id", submission.test_id)
+      .eq("student_id", submission.student_id)
+      .maybeSingle(),
+  ]);
+
+  const durationMinutes = Number(test?.duration) || DEFAULT_DURATION_MINUTES;
+  const extensionMinutes = Number(extension?.extra_minutes) || 0;
+
+  return {
+    durationMinutes,
+    extensionMinutes,
+    latePolicy: parseLatePolicy(test?.late_submission_policy),
+    deadline: submission.started_at
+      ? calculateExamDeadline(
+          submission.started_at,
+          durationMinutes,
+          extensionMinutes,
+        )
+      : null,
+  };
+};
@@ -0,0 +1,39 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let adminClient: SupabaseClient | null = null;
+
+// Service-role client for server-side work; bypasses RLS, so never expose it
+export const getSupabaseAdmin = (): SupabaseClient => {
+  if (adminClient) return adminClient;
+
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !serviceRoleKey) {
+    throw new Error(
+      "SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set for server-side grading",
+    );
+  }
+
+  adminClient = createClient(url, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+
+  return adminClient;
+};
+
+// Resolve the signed-in user from a "Bearer <access token>" header
+export const getRequestUser = async (authorization?: string) => {
+  const token = authorization?.startsWith("Bearer ")
+    ? authorization.slice("Bearer ".length)
+    : null;
+  if (!token) return null;
+
+  const { data, error } = await getSupabaseAdmin().auth.getUser(token);
+  if (error || !data.user) return null;
+
+  return data.user;
+};
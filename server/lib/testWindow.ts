@@ -0,0 +1,54 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getActiveAssignment,
+  getWindowState,
+  type TestAssignmentGroup,
+  type WindowState,
+} from "../../shared/testWindows";
+
+export interface AssignmentWindow {
+  assignment: TestAssignmentGroup;
+  state: WindowState;
+  // Why the student can't take the test right now; null while the window is open
+  message: string | null;
+}
+
+// The group window that decides a student's access to a test at `at`, or null
+// when the test isn't assigned to them through a group (or their own request
+// was approved, which still grants access)
+export const loadAssignmentWindow = async (
+  supabase: SupabaseClient,
+  testId: string,
+  studentId: string,
+  at: Date = new Date(),
+): Promise<AssignmentWindow | null> => {
+  const [{ data: groups, error: groupsError }, { data: request }] =
+    await Promise.all([
+      supabase
+        .from("test_assignment_groups")
+        .select("*")
+        .eq("test_id", testId)
+        .contains("student_ids", [studentId]),
+      supabase
+        .from("test_requests")
+        .select("status")
+        .eq("test_id", testId)
+        .eq("student_id", studentId)
+        .maybeSingle(),
+    ]);
+
+  if (groupsError) throw groupsError;
+
+  const assignment = getActiveAssignment(groups || [], testId, studentId, at);
+  if (!assignment || request?.status === "approved") return null;
+
+  const state = getWindowState(assignment, at);
+  const message =
+    state === "upcoming"
+      ? `This test opens on ${new Date(assignment.opens_at).toUTCString()}.`
+      : state === "closed"
+        ? `This test closed on ${new Date(assignment.closes_at).toUTCString()}.`
+        : null;
+
+  return { assignment, state, message };
+};
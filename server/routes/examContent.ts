@@ -0,0 +1,87 @@
+import { RequestHandler, Response } from "express";
+import { ApiErrorResponse, ExamContentResponse } from "@shared/api";
+import { toExamQuestionSet } from "../../shared/examContent";
+import { loadVersionContent } from "../../shared/testVersions";
+import { getRequestUser, getSupabaseAdmin } from "../lib/supabaseAdmin";
+
+const sendError = (res: Response, status: number, message: string) => {
+  const body: ApiErrorResponse = { error: message };
+  res.status(status).json(body);
+};
+
+/**
+ * The questions and sections of a test for students of its center, without
+ * answer keys. Students see the version their submission is pinned to, or
+ * the test's current version before they have started.
+ */
+export const handleGetExamContent: RequestHandler = async (req, res) => {
+  const { testId } = req.params;
+  if (!testId) {
+    return sendError(res, 400, "testId is required");
+  }
+
+  try {
+    const user = await getRequestUser(req.headers.authorization);
+    if (!user) {
+      return sendError(res, 401, "Not authenticated");
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const [{ data: profile }, { data: test, error: testError }] =
+      await Promise.all([
+        supabase
+          .from("profiles")
+          .select("role, edu_center_id")
+          .eq("id", user.id)
+          .single(),
+        supabase
+          .from("tests")
+          .select("id, edu_center_id, archived_at, current_version_id")
+          .eq("id", testId)
+          .single(),
+      ]);
+
+    if (testError || !test) {
+      return sendError(res, 404, "Test not found");
+    }
+
+    const isSuperAdmin = profile?.role === "super_admin";
+    if (!isSuperAdmin && profile?.edu_center_id !== test.edu_center_id) {
+      return sendError(res, 403, "Not allowed to take this test");
+    }
+
+    if (test.archived_at) {
+      return sendError(res, 409, "This test is no longer available");
+    }
+
+    const { data: submissions, error: submissionError } = await supabase
+      .from("test_submissions")
+      .select("test_version_id")
+      .eq("test_id", testId)
+      .eq("student_id", user.id)
+      .order("attempt_number", { ascending: false })
+      .limit(1);
+
+    if (submissionError) throw submissionError;
+
+    const versionId =
+      submissions?.[0]?.test_version_id || test.current_version_id || null;
+    const { questions, sections } = await loadVersionContent(
+      supabase,
+      testId,
+      versionId,
+    );
+
+    const response: ExamContentResponse = {
+      testId,
+      versionId,
+      sections,
+      questions: toExamQuestionSet(questions),
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Exam content error:", error);
+    sendError(res, 500, "Failed to load the test questions");
+  }
+};
@@ -0,0 +1,102 @@
+import { RequestHandler, Response } from "express";
+import {
+  ApiErrorResponse,
+  ExamTimerResponse,
+  StartExamTimerRequest,
+} from "@shared/api";
+import { getRemainingSeconds } from "../../shared/examTimer";
+import { loadExamTiming } from "../lib/examTiming";
+import { loadAssignmentWindow } from "../lib/testWindow";
+import { getRequestUser, getSupabaseAdmin } from "../lib/supabaseAdmin";
+
+const sendError = (res: Response, status: number, message: string) => {
+  const body: ApiErrorResponse = { error: message };
+  res.status(status).json(body);
+};
+
+// Start the exam clock on first call; later calls (e.g. after a reload) return the same deadline
+export const handleStartExamTimer: RequestHandler = async (req, res) => {
+  const { submissionId } = (req.body || {}) as StartExamTimerRequest;
+  if (!submissionId) {
+    return sendError(res, 400, "submissionId is required");
+  }
+
+  try {
+    const user = await getRequestUser(req.headers.authorization);
+    if (!user) {
+      return sendError(res, 401, "Not authenticated");
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data: submission, error: submissionError } = await supabase
+      .from("test_submissions")
+      .select("id, test_id, student_id, started_at")
+      .eq("id", submissionId)
+      .single();
+
+    if (submissionError || !submission) {
+      return sendError(res, 404, "Submission not found");
+    }
+
+    if (submission.student_id !== user.id) {
+      return sendError(res, 403, "Not allowed to start this exam");
+    }
+
+    let startedAt: string = submission.started_at;
+    if (!startedAt) {
+      // A test assigned through a group can only be started while its window is open
+      const assignmentWindow = await loadAssignmentWindow(
+        supabase,
+        submission.test_id,
+        user.id,
+      );
+      if (assignmentWindow?.message) {
+        return sendError(res, 409, assignmentWindow.message);
+      }
+
+      // Only set it if still empty so two tabs can't restart the clock
+      const now = new Date().toISOString();
+      const { data: started, error: startError } = await supabase
+        .from("test_submissions")
+        .update({ started_at: now })
+        .eq("id", submissionId)
+        .is("started_at", null)
+        .select("started_at")
+        .maybeSingle();
+
+      if (startError) throw startError;
+
+      if (started?.started_at) {
+        startedAt = started.started_at;
+      } else {
+        const { data: current } = await supabase
+          .from("test_submissions")
+          .select("started_at")
+          .eq("id", submissionId)
+          .single();
+        startedAt = current?.started_at || now;
+      }
+    }
+
+    const timing = await loadExamTiming(supabase, {
+      ...submission,
+      started_at: startedAt,
+    });
+    const serverNow = new Date();
+
+    const response: ExamTimerResponse = {
+      submissionId,
+      startedAt,
+      deadline: timing.deadline!.toISOString(),
+      serverNow: serverNow.toISOString(),
+      remainingSeconds: getRemainingSeconds(timing.deadline!, serverNow),
+      durationMinutes: timing.durationMinutes,
+      extensionMinutes: timing.extensionMinutes,
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Exam timer error:", error);
+    sendError(res, 500, "Failed to start the exam timer");
+  }
+};
@@ -0,0 +1,586 @@
+import { RequestHandler, Response } from "express";
+import {
+  ApiErrorResponse,
+  GradeSubmissionRequest,
+  GradeSubmissionResponse,
+  GradingPreviewResponse,
+  ManualGradeRequest,
+  ManualGradeResponse,
+  RegradeChange,
+  RegradePreviewResponse,
+  RegradeRequest,
+  RegradeResponse,
+} from "@shared/api";
+import {
+  MANUAL_GRADE_STATUSES,
+  buildGradedSubmissionUpdate,
+  gradeAnswers,
+  parseSpeakingCriteria,
+  pickManualGrades,
+} from "../../shared/grading";
+import {
+  loadGradingInput,
+  publishDraftIfChanged,
+} from "../../shared/testVersions";
+import {
+  buildRegradeUpdate,
+  describeScoreChange,
+  getSubmissionScores,
+  haveScoresChanged,
+  replaceQuestion,
+} from "../../shared/regrade";
+import { LATE_GRACE_SECONDS, isSubmissionLate } from "../../shared/examTimer";
+import { loadExamTiming } from "../lib/examTiming";
+import { loadAssignmentWindow } from "../lib/testWindow";
+import { getRequestUser, getSupabaseAdmin } from "../lib/supabaseAdmin";
+
+const sendError = (res: Response, status: number, message: string) => {
+  const body: ApiErrorResponse = { error: message };
+  res.status(status).json(body);
+};
+
+// Grading another student's submission or regrading needs an admin of the
+// test's edu center (or a super admin)
+const loadAdminTest = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  userId: string,
+  testId: string,
+) => {
+  const [{ data: profile }, { data: test }] = await Promise.all([
+    supabase
+      .from("profiles")
+      .select("role, edu_center_id")
+      .eq("id", userId)
+      .single(),
+    supabase
+      .from("tests")
+      .select("id, title, edu_center_id")
+      .eq("id", testId)
+      .single(),
+  ]);
+
+  const isSuperAdmin = profile?.role === "super_admin";
+  const isCenterAdmin =
+    profile?.role === "edu_admin" &&
+    profile.edu_center_id === test?.edu_center_id;
+
+  return { test, allowed: isSuperAdmin || isCenterAdmin };
+};
+
+// Grade a submission's answers against the version the student took
+const gradeSubmission = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  submission: any,
+) => {
+  const { questions, options } = await loadGradingInput(
+    supabase,
+    submission.test_id,
+    submission.test_version_id,
+  );
+  return gradeAnswers(submission.answers || {}, questions, {
+    ...options,
+    speakingCriteria: parseSpeakingCriteria(submission.speaking_criteria),
+  });
+};
+
+export const handleGradeSubmission: RequestHandler = async (req, res) => {
+  const { submissionId } = (req.body || {}) as GradeSubmissionRequest;
+  if (!submissionId) {
+    return sendError(res, 400, "submissionId is required");
+  }
+
+  try {
+    const user = await getRequestUser(req.headers.authorization);
+    if (!user) {
+      return sendError(res, 401, "Not authenticated");
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data: submission, error: submissionError } = await supabase
+      .from("test_submissions")
+      .select("*")
+      .eq("id", submissionId)
+      .single();
+
+    if (submissionError || !submission) {
+      return sendError(res, 404, "Submission not found");
+    }
+
+    // Students may only grade their own submission; admins only those of
+    // their own edu center
+    if (submission.student_id !== user.id) {
+      const { allowed } = await loadAdminTest(
+        supabase,
+        user.id,
+        submission.test_id,
+      );
+      if (!allowed) {
+        return sendError(res, 403, "Not allowed to grade this submission");
+      }
+    }
+
+    // Grading again would replace the teacher's writing and speaking bands;
+    // graded submissions change only through a regrade
+    if (submission.status === "graded") {
+      return sendError(res, 409, "Submission has already been graded");
+    }
+
+    // Answers handed in after the student's assignment window closed (allowing
+    // for the final autosave) are not graded
+    const submittedAt = new Date(submission.submitted_at || Date.now());
+    const assignmentWindow = await loadAssignmentWindow(
+      supabase,
+      submission.test_id,
+      submission.student_id,
+      new Date(submittedAt.getTime() - LATE_GRACE_SECONDS * 1000),
+    );
+
+    if (assignmentWindow?.state === "closed") {
+      await supabase
+        .from("test_submissions")
+        .update({ is_late: true, status: "rejected_late" })
+        .eq("id", submissionId);
+      return sendError(
+        res,
+        409,
+        "Submission was made after the test window closed",
+      );
+    }
+
+    // Both times come from the server: submitted_at is stamped by the database
+    const timing = await loadExamTiming(supabase, submission);
+    const isLate =
+      !!timing.deadline &&
+      isSubmissionLate(
+        submission.submitted_at || new Date().toISOString(),
+        timing.deadline,
+      );
+
+    if (isLate && timing.latePolicy === "reject") {
+      await supabase
+        .from("test_submissions")
+        .update({ is_late: true, status: "rejected_late" })
+        .eq("id", submissionId);
+      return sendError(res, 409, "Submission was made after the deadline");
+    }
+
+    const gradingResult = await gradeSubmission(supabase, submission);
+    const update = buildGradedSubmissionUpdate(gradingResult, "system");
+
+    const { error: updateError } = await supabase
+      .from("test_submissions")
+      .update({ ...update, is_late: isLate })
+      .eq("id", submissionId);
+
+    if (updateError) throw updateError;
+
+    const response: GradeSubmissionResponse = {
+      submissionId,
+      status: "graded",
+      readingBandScore: gradingResult.readingBandScore,
+      listeningBandScore: gradingResult.listeningBandScore,
+      writingBandScore: gradingResult.writingBandScore,
+      speakingBandScore: gradingResult.speakingBandScore,
+      overallBandScore: gradingResult.overallBandScore,
+      overallBandStatus: gradingResult.overallBandStatus,
+      isLate,
+      gradedAt: update.graded_at,
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Server grading error:", error);
+    sendError(res, 500, "Failed to grade submission");
+  }
+};
+
+// Grade a submission without saving, for the admin review screen
+export const handlePreviewGrading: RequestHandler = async (req, res) => {
+  const { submissionId } = (req.body || {}) as GradeSubmissionRequest;
+  if (!submissionId) {
+    return sendError(res, 400, "submissionId is required");
+  }
+
+  try {
+    const user = await getRequestUser(req.headers.authorization);
+    if (!user) {
+      return sendError(res, 401, "Not authenticated");
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data: submission, error: submissionError } = await supabase
+      .from("test_submissions")
+      .select("id, test_id, answers, test_version_id, speaking_criteria")
+      .eq("id", submissionId)
+      .single();
+
+    if (submissionError || !submission) {
+      return sendError(res, 404, "Submission not found");
+    }
+
+    const { allowed } = await loadAdminTest(
+      supabase,
+      user.id,
+      submission.test_id,
+    );
+    if (!allowed) {
+      return sendError(res, 403, "Not allowed to review this submission");
+    }
+
+    const response: GradingPreviewResponse = {
+      submissionId,
+      result: await gradeSubmission(supabase, submission),
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Grading preview error:", error);
+    sendError(res, 500, "Failed to grade submission");
+  }
+};
+
+// Save a teacher's marks; score columns are only written from the server
+export const handleManualGrade: RequestHandler = async (req, res) => {
+  const {
+    submissionId,
+    grades,
+    status = "graded",
+  } = (req.body || {}) as ManualGradeRequest;
+  if (!submissionId) {
+    return sendError(res, 400, "submissionId is required");
+  }
+  if (!MANUAL_GRADE_STATUSES.includes(status)) {
+    return sendError(res, 400, `status must be one of ${MANUAL_GRADE_STATUSES.join(", ")}`);
+  }
+
+  try {
+    const user = await getRequestUser(req.headers.authorization);
+    if (!user) {
+      return sendError(res, 401, "Not authenticated");
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data: submission, error: submissionError } = await supabase
+      .from("test_submissions")
+      .select("id, test_id")
+      .eq("id", submissionId)
+      .single();
+
+    if (submissionError || !submission) {
+      return sendError(res, 404, "Submission not found");
+    }
+
+    const { allowed } = await loadAdminTest(
+      supabase,
+      user.id,
+      submission.test_id,
+    );
+    if (!allowed) {
+      return sendError(res, 403, "Not allowed to grade this submission");
+    }
+
+    const gradedAt = status === "graded" ? new Date().toISOString() : null;
+    const update: Record<string, any> = { ...pickManualGrades(grades || {}), status };
+    if (gradedAt) {
+      update.graded_at = gradedAt;
+      update.graded_by = user.id;
+    }
+
+    const { error: updateError } = await supabase
+      .from("test_submissions")
+      .update(update)
+      .eq("id", submissionId);
+
+    if (updateError) throw updateError;
+
+    const response: ManualGradeResponse = { submissionId, status, gradedAt };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Manual grading error:", error);
+    sendError(res, 500, "Failed to save grades");
+  }
+};
+
+type GradingInput = Awaited<ReturnType<typeof loadGradingInput>>;
+
+interface PlannedRegrade extends RegradeChange {
+  update: ReturnType<typeof buildRegradeUpdate>["update"];
+}
+
+const validateRegradeRequest = (request: RegradeRequest) => {
+  if (!["test", "question", "submission"].includes(request.scope)) {
+    return "scope must be test, question or submission";
+  }
+  if (request.scope === "question" && !request.questionId) {
+    return "questionId is required for a question regrade";
+  }
+  if (request.scope === "submission" && !request.submissionId) {
+    return "submissionId is required for a submission regrade";
+  }
+  return null;
+};
+
+// Grade every graded submission in scope and keep the ones whose scores change
+const planRegrade = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  testId: string,
+  request: RegradeRequest,
+  versionId: string | null,
+) => {
+  let query = supabase
+    .from("test_submissions")
+    .select(
+      "id, student_id, answers, test_version_id, speaking_criteria, reading_score, listening_score, writing_score, speaking_score, total_score, auto_grading_data",
+    )
+    .eq("test_id", testId)
+    .eq("status", "graded");
+  if (request.scope === "submission") {
+    query = query.eq("id", request.submissionId);
+  }
+
+  const { data: submissions, error } = await query;
+  if (error) throw error;
+
+  const target = await loadGradingInput(supabase, testId, versionId);
+
+  // Question regrades keep everything else as each submission was graded
+  const ownInputs = new Map<string, Promise<GradingInput>>();
+  const loadOwnInput = (submissionVersionId: string | null) => {
+    const key = submissionVersionId || "live";
+    if (!ownInputs.has(key)) {
+      ownInputs.set(
+        key,
+        loadGradingInput(supabase, testId, submissionVersionId),
+      );
+    }
+    return ownInputs.get(key)!;
+  };
+
+  let checked = 0;
+  const planned: PlannedRegrade[] = [];
+
+  for (const submission of submissions || []) {
+    let input: GradingInput = target;
+    if (request.scope === "question") {
+      const own = await loadOwnInput(submission.test_version_id);
+      const { questions, found } = replaceQuestion(
+        own.questions,
+        target.questions,
+        request.questionId!,
+      );
+      if (!found) continue;
+      input = { questions, options: own.options };
+    }
+
+    checked++;
+    const result = gradeAnswers(submission.answers || {}, input.questions, {
+      ...input.options,
+      speakingCriteria: parseSpeakingCriteria(submission.speaking_criteria),
+    });
+    const before = getSubmissionScores(submission);
+    const { scores: after, update } = buildRegradeUpdate(submission, result);
+
+    if (haveScoresChanged(before, after)) {
+      planned.push({
+        submissionId: submission.id,
+        studentId: submission.student_id,
+        studentName: "",
+        before,
+        after,
+        update,
+      });
+    }
+  }
+
+  const studentIds = [...new Set(planned.map((change) => change.studentId))];
+  if (studentIds.length > 0) {
+    const { data: students } = await supabase
+      .from("profiles")
+      .select("id, first_name, last_name")
+      .in("id", studentIds);
+
+    planned.forEach((change) => {
+      const student = students?.find((s) => s.id === change.studentId);
+      change.studentName = student
+        ? `${student.first_name} ${student.last_name}`
+        : "Unknown student";
+    });
+  }
+
+  return {
+    checked,
+    changes: planned,
+    submissionIds: (submissions || []).map((submission) => submission.id),
+  };
+};
+
+const checkRegradeVersion = async (
+  supabase: ReturnType<typeof getSupabaseAdmin>,
+  testId: string,
+  versionId?: string,
+) => {
+  if (!versionId) return true;
+  const { data: version } = await supabase
+    .from("test_versions")
+    .select("id")
+    .eq("id", versionId)
+    .eq("test_id", testId)
+    .maybeSingle();
+  return !!version;
+};
+
+// Show which submissions a regrade would change, without writing anything
+export const handlePreviewRegrade: RequestHandler = async (req, res) => {
+  const { testId } = req.params;
+  const request = (req.body || {}) as RegradeRequest;
+  const validationError = validateRegradeRequest(request);
+  if (validationError) {
+    return sendError(res, 400, validationError);
+  }
+
+  try {
+    const user = await getRequestUser(req.headers.authorization);
+    if (!user) {
+      return sendError(res, 401, "Not authenticated");
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { test, allowed } = await loadAdminTest(supabase, user.id, testId);
+    if (!test) {
+      return sendError(res, 404, "Test not found");
+    }
+    if (!allowed) {
+      return sendError(res, 403, "Not allowed to regrade this test");
+    }
+    if (!(await checkRegradeVersion(supabase, testId, request.versionId))) {
+      return sendError(res, 404, "Test version not found");
+    }
+
+    const plan = await planRegrade(
+      supabase,
+      testId,
+      request,
+      request.versionId || null,
+    );
+
+    const response: RegradePreviewResponse = {
+      testId,
+      checked: plan.checked,
+      changes: plan.changes.map(({ update, ...change }) => change),
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Regrade preview error:", error);
+    sendError(res, 500, "Failed to preview regrade");
+  }
+};
+
+// Apply a regrade: update changed submissions, audit them and notify students
+export const handleApplyRegrade: RequestHandler = async (req, res) => {
+  const { testId } = req.params;
+  const request = (req.body || {}) as RegradeRequest;
+  const validationError = validateRegradeRequest(request);
+  if (validationError) {
+    return sendError(res, 400, validationError);
+  }
+
+  try {
+    const user = await getRequestUser(req.headers.authorization);
+    if (!user) {
+      return sendError(res, 401, "Not authenticated");
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { test, allowed } = await loadAdminTest(supabase, user.id, testId);
+    if (!test) {
+      return sendError(res, 404, "Test not found");
+    }
+    if (!allowed) {
+      return sendError(res, 403, "Not allowed to regrade this test");
+    }
+    if (!(await checkRegradeVersion(supabase, testId, request.versionId))) {
+      return sendError(res, 404, "Test version not found");
+    }
+
+    // Regrades run against a published version so the audit can name it.
+    // Whole submissions are re-pinned to it; a question regrade only patches
+    // that question into each submission's own version (see replaceQuestion)
+    const repin = request.scope !== "question";
+    const versionId =
+      request.versionId ||
+      (await publishDraftIfChanged(supabase, testId, user.id)).id;
+
+    const plan = await planRegrade(supabase, testId, request, versionId);
+
+    for (const change of plan.changes) {
+      const { error: updateError } = await supabase
+        .from("test_submissions")
+        .update(change.update)
+        .eq("id", change.submissionId);
+
+      if (updateError) throw updateError;
+    }
+
+    // Every submission checked, changed or not, now belongs to that version
+    if (repin && plan.submissionIds.length > 0) {
+      const { error: pinError } = await supabase
+        .from("test_submissions")
+        .update({ test_version_id: versionId })
+        .in("id", plan.submissionIds);
+
+      if (pinError) throw pinError;
+    }
+
+    let notified = 0;
+    if (plan.changes.length > 0) {
+      const { error: auditError } = await supabase
+        .from("submission_regrades")
+        .insert(
+          plan.changes.map((change) => ({
+            submission_id: change.submissionId,
+            test_id: testId,
+            student_id: change.studentId,
+            edu_center_id: test.edu_center_id,
+            scope: request.scope,
+            question_id: request.scope === "question" ? request.questionId : null,
+            version_id: versionId,
+            previous_scores: change.before,
+            new_scores: change.after,
+            regraded_by: user.id,
+          })),
+        );
+
+      if (auditError) throw auditError;
+
+      const { error: notifyError } = await supabase.from("notifications").insert(
+        plan.changes.map((change) => ({
+          user_id: change.studentId,
+          title: "Score updated",
+          message: describeScoreChange(test.title, change.before, change.after),
+          type: "score_updated",
+          read: false,
+        })),
+      );
+
+      // Scores are already saved; a missing notification is not worth failing for
+      if (notifyError) {
+        console.warn("Could not send score notifications:", notifyError.message);
+      } else {
+        notified = plan.changes.length;
+      }
+    }
+
+    const response: RegradeResponse = {
+      testId,
+      checked: plan.checked,
+      updated: plan.changes.length,
+      notified,
+      versionId,
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Regrade error:", error);
+    sendError(res, 500, "Failed to regrade submissions");
+  }
+};
@@ -0,0 +1,189 @@
+import { RequestHandler, Response } from "express";
+import {
+  ApiErrorResponse,
+  DeleteTestResponse,
+  StartRetakeResponse,
+} from "@shared/api";
+import { getRequestUser, getSupabaseAdmin } from "../lib/supabaseAdmin";
+import { loadAssignmentWindow } from "../lib/testWindow";
+import {
+  checkRetakeEligibility,
+  parseAttemptPolicy,
+} from "../../shared/testAttempts";
+
+const sendError = (res: Response, status: number, message: string) => {
+  const body: ApiErrorResponse = { error: message };
+  res.status(status).json(body);
+};
+
+// Permanently delete a test; only archived tests of the admin's own center qualify
+export const handleDeleteTest: RequestHandler = async (req, res) => {
+  const { testId } = req.params;
+  if (!testId) {
+    return sendError(res, 400, "testId is required");
+  }
+
+  try {
+    const user = await getRequestUser(req.headers.authorization);
+    if (!user) {
+      return sendError(res, 401, "Not authenticated");
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const [{ data: profile }, { data: test, error: testError }] =
+      await Promise.all([
+        supabase
+          .from("profiles")
+          .select("role, edu_center_id")
+          .eq("id", user.id)
+          .single(),
+        supabase
+          .from("tests")
+          .select("id, edu_center_id, archived_at")
+          .eq("id", testId)
+          .single(),
+      ]);
+
+    if (testError || !test) {
+      return sendError(res, 404, "Test not found");
+    }
+
+    const isSuperAdmin = profile?.role === "super_admin";
+    const isCenterAdmin =
+      profile?.role === "edu_admin" &&
+      profile.edu_center_id === test.edu_center_id;
+    if (!isSuperAdmin && !isCenterAdmin) {
+      return sendError(res, 403, "Not allowed to delete this test");
+    }
+
+    if (!test.archived_at) {
+      return sendError(res, 409, "Archive the test before deleting it");
+    }
+
+    const { data: deleted, error: deleteError } = await supabase.rpc(
+      "delete_test_cascade",
+      { p_test_id: testId },
+    );
+
+    if (deleteError) throw deleteError;
+
+    const response: DeleteTestResponse = {
+      testId,
+      deletedSubmissions: deleted?.submissions ?? 0,
+      deletedRequests: deleted?.requests ?? 0,
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Delete test error:", error);
+    sendError(res, 500, "Failed to delete test");
+  }
+};
+
+// Archive the student's finished submission so they can start another attempt
+export const handleStartRetake: RequestHandler = async (req, res) => {
+  const { testId } = req.params;
+  if (!testId) {
+    return sendError(res, 400, "testId is required");
+  }
+
+  try {
+    const user = await getRequestUser(req.headers.authorization);
+    if (!user) {
+      return sendError(res, 401, "Not authenticated");
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const [
+      { data: test, error: testError },
+      { data: submissions, error: submissionError },
+      { data: archived, error: archivedError },
+    ] = await Promise.all([
+      supabase
+        .from("tests")
+        .select(
+          "id, archived_at, max_attempts, retake_cooldown_hours, attempt_scoring",
+        )
+        .eq("id", testId)
+        .single(),
+      supabase
+        .from("test_submissions")
+        .select("id, status, attempt_number, total_score, submitted_at")
+        .eq("test_id", testId)
+        .eq("student_id", user.id)
+        .order("attempt_number", { ascending: false })
+        .limit(1),
+      supabase
+        .from("test_attempts")
+        .select("attempt_number, status, total_score, submitted_at")
+        .eq("test_id", testId)
+        .eq("student_id", user.id),
+    ]);
+
+    if (testError || !test) {
+      return sendError(res, 404, "Test not found");
+    }
+
+    if (test.archived_at) {
+      return sendError(res, 409, "This test is no longer available");
+    }
+
+    if (submissionError) throw submissionError;
+    if (archivedError) throw archivedError;
+
+    const submission = submissions?.[0];
+    if (!submission) {
+      return sendError(res, 409, "There is no finished attempt to retake");
+    }
+
+    const attempts = [
+      ...(archived || []).map((attempt) => ({
+        attemptNumber: attempt.attempt_number,
+        status: attempt.status,
+        totalScore: attempt.total_score,
+        submittedAt: attempt.submitted_at,
+      })),
+      {
+        attemptNumber: submission.attempt_number || 1,
+        status: submission.status,
+        totalScore: submission.total_score,
+        submittedAt: submission.submitted_at,
+      },
+    ];
+
+    const eligibility = checkRetakeEligibility(
+      parseAttemptPolicy(test),
+      attempts,
+    );
+    if (eligibility.allowed === false) {
+      return sendError(res, 409, eligibility.message);
+    }
+
+    const assignmentWindow = await loadAssignmentWindow(
+      supabase,
+      testId,
+      user.id,
+    );
+    if (assignmentWindow?.message) {
+      return sendError(res, 409, assignmentWindow.message);
+    }
+
+    const { data: archivedAttempt, error: archiveError } = await supabase.rpc(
+      "archive_test_attempt",
+      { p_submission_id: submission.id },
+    );
+
+    if (archiveError) throw archiveError;
+
+    const response: StartRetakeResponse = {
+      testId,
+      archivedAttempt: archivedAttempt ?? attempts.length,
+      nextAttempt: eligibility.nextAttempt,
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Start retake error:", error);
+    sendError(res, 500, "Failed to start a new attempt");
+  }
+};
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { addAcceptableAnswer, matchAnswerWithRules } from "./answerMatching";
+
+describe("matchAnswerWithRules", () => {
+  it("should reject answers over the word limit", () => {
+    const outcome = matchAnswerWithRules("the old car park", "car park", {
+      optionalArticles: true,
+      maxWords: 2,
+    });
+    expect(outcome.isCorrect).toBe(false);
+    expect(outcome.explanation).toContain("word limit");
+  });
+
+  it("should not count one number against an AND/OR A NUMBER limit", () => {
+    expect(
+      matchAnswerWithRules("3 bedrooms", "3 bedrooms", { maxWords: 1, allowNumber: true })
+        .isCorrect,
+    ).toBe(true);
+    expect(
+      matchAnswerWithRules("3 bedrooms", "3 bedrooms", { maxWords: 1 }).isCorrect,
+    ).toBe(false);
+  });
+
+  it("should name the rule that accepted the answer", () => {
+    expect(
+      matchAnswerWithRules("the museum", "museum", { optionalArticles: true }),
+    ).toEqual({ isCorrect: true, explanation: "Accepted by optional articles" });
+  });
+
+  it("should treat numbers and number words as equal", () => {
+    expect(
+      matchAnswerWithRules("twenty-five", '["25"]', { numberWords: true })
+        .isCorrect,
+    ).toBe(true);
+  });
+
+  it("should accept British and American spellings", () => {
+    expect(
+      matchAnswerWithRules("color", "colour", { spellingVariants: true })
+        .isCorrect,
+    ).toBe(true);
+  });
+
+  it("should ignore hyphens when asked to", () => {
+    expect(
+      matchAnswerWithRules("well known", "well-known", { ignoreHyphens: true })
+        .isCorrect,
+    ).toBe(true);
+  });
+
+  it("should not apply rules that are switched off", () => {
+    expect(matchAnswerWithRules("color", "colour", {}).isCorrect).toBe(false);
+  });
+});
+
+describe("addAcceptableAnswer", () => {
+  it("should join the first element of a JSON array key", () => {
+    expect(addAcceptableAnswer('["car park"]', "parking lot")).toBe(
+      '["car park, parking lot"]',
+    );
+  });
+
+  it("should append to a plain comma-separated key", () => {
+    expect(addAcceptableAnswer("car park", "Parking lot")).toBe(
+      "car park, Parking lot",
+    );
+  });
+
+  it("should skip answers that are already accepted or contain commas", () => {
+    expect(addAcceptableAnswer('["car park, parking lot"]', "Parking Lot")).toBeNull();
+    expect(addAcceptableAnswer("car park", "lot, park")).toBeNull();
+    expect(addAcceptableAnswer("car park", "  ")).toBeNull();
+  });
+});
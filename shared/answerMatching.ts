@@ -0,0 +1,312 @@
+/**
+ * Per-question answer matching rules for free-text answers.
+ * Teachers set these in the question editors; they are stored in the
+ * `answer_rules` column next to `correct_answer` and applied by the grader.
+ */
+
+export interface AnswerMatchingRules {
+  // Accept British and American spellings of the same word (colour / color)
+  spellingVariants?: boolean;
+  // Ignore a, an and the
+  optionalArticles?: boolean;
+  // Treat "3" and "three" as the same answer
+  numberWords?: boolean;
+  // Treat "well-known", "well known" and "wellknown" as the same answer
+  ignoreHyphens?: boolean;
+  // "NO MORE THAN TWO WORDS": longer answers are marked wrong
+  maxWords?: number | null;
+  // "AND/OR A NUMBER": one number may be written on top of the word limit
+  allowNumber?: boolean;
+}
+
+export interface AnswerMatchOutcome {
+  isCorrect: boolean;
+  explanation: string;
+}
+
+export const DEFAULT_ANSWER_RULES: AnswerMatchingRules = {
+  spellingVariants: false,
+  optionalArticles: false,
+  numberWords: false,
+  ignoreHyphens: false,
+  maxWords: null,
+  allowNumber: false,
+};
+
+export const hasAnswerRules = (rules?: AnswerMatchingRules | null): boolean =>
+  !!rules &&
+  (!!rules.spellingVariants ||
+    !!rules.optionalArticles ||
+    !!rules.numberWords ||
+    !!rules.ignoreHyphens ||
+    !!rules.maxWords);
+
+// Rules may arrive as a JSON string straight from the database
+export const parseAnswerRules = (raw: any): AnswerMatchingRules | null => {
+  if (!raw) return null;
+  if (typeof raw === "string") {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  return raw;
+};
+
+// British spelling -> American spelling for words common in IELTS answers
+const SPELLING_VARIANTS: Record<string, string> = {
+  analyse: "analyze",
+  behaviour: "behavior",
+  catalogue: "catalog",
+  centre: "center",
+  cheque: "check",
+  colour: "color",
+  defence: "defense",
+  dialogue: "dialog",
+  enrol: "enroll",
+  enrolment: "enrollment",
+  favour: "favor",
+  favourite: "favorite",
+  flavour: "flavor",
+  fulfil: "fulfill",
+  grey: "gray",
+  harbour: "harbor",
+  honour: "honor",
+  humour: "humor",
+  jewellery: "jewelry",
+  labour: "labor",
+  licence: "license",
+  litre: "liter",
+  metre: "meter",
+  neighbour: "neighbor",
+  neighbourhood: "neighborhood",
+  offence: "offense",
+  organisation: "organization",
+  organise: "organize",
+  practise: "practice",
+  programme: "program",
+  realise: "realize",
+  recognise: "recognize",
+  rumour: "rumor",
+  theatre: "theater",
+  travelled: "traveled",
+  traveller: "traveler",
+  travelling: "traveling",
+  tyre: "tire",
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+const ARTICLES = new Set(["a", "an", "the"]);
+
+const tokenize = (value: string): string[] =>
+  value.split(/\s+/).filter((word) => word.length > 0);
+
+// Words as IELTS counts them: hyphenated words and numbers count once
+export const countWords = (answer: any): number =>
+  tokenize(String(answer ?? "").trim()).length;
+
+const applySpelling = (value: string): string =>
+  tokenize(value)
+    .map((word) => SPELLING_VARIANTS[word] || word)
+    .join(" ");
+
+const applyArticles = (value: string): string =>
+  tokenize(value)
+    .filter((word) => !ARTICLES.has(word))
+    .join(" ");
+
+// Compares with hyphens and spaces removed, so this must run last
+const applyHyphens = (value: string): string => value.replace(/[\s-]+/g, "");
+
+// "twenty five" / "twenty-five" -> "25", "three" -> "3"
+const applyNumbers = (value: string): string => {
+  const words = tokenize(value.replace(/(\w)-(\w)/g, "$1 $2"));
+  const result: string[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const current = NUMBER_WORDS[words[i]];
+    if (current === undefined) {
+      result.push(words[i]);
+      continue;
+    }
+
+    const next = NUMBER_WORDS[words[i + 1]];
+    if (current >= 20 && current % 10 === 0 && next !== undefined && next < 10) {
+      result.push(String(current + next));
+      i++;
+    } else {
+      result.push(String(current));
+    }
+  }
+
+  return result.join(" ");
+};
+
+type Transform = {
+  rule: keyof AnswerMatchingRules;
+  label: string;
+  apply: (value: string) => string;
+};
+
+// Applied cumulatively, so the first step that produces a match names the rule
+const TRANSFORMS: Transform[] = [
+  { rule: "optionalArticles", label: "optional articles", apply: applyArticles },
+  { rule: "numberWords", label: "number/word equivalence", apply: applyNumbers },
+  { rule: "spellingVariants", label: "British/American spelling", apply: applySpelling },
+  { rule: "ignoreHyphens", label: "hyphen handling", apply: applyHyphens },
+];
+
+const normalize = (value: any): string =>
+  String(value ?? "")
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, " ");
+
+// Split a stored key into its acceptable answers (array, JSON array or commas)
+export const acceptableAnswers = (correctAnswer: any): string[] => {
+  if (Array.isArray(correctAnswer)) {
+    return correctAnswer.flatMap((answer) => acceptableAnswers(answer));
+  }
+  if (typeof correctAnswer === "string") {
+    const trimmed = correctAnswer.trim();
+    if (trimmed.startsWith("[")) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        if (Array.isArray(parsed)) return acceptableAnswers(parsed);
+      } catch {
+        // Not JSON, fall through to comma splitting
+      }
+    }
+    return trimmed
+      .split(",")
+      .map((answer) => normalize(answer))
+      .filter((answer) => answer.length > 0);
+  }
+  if (correctAnswer === null || correctAnswer === undefined) return [];
+  return [normalize(correctAnswer)];
+};
+
+// Words counted against the limit; with allowNumber one number is free
+const countLimitedWords = (answer: string, rules: AnswerMatchingRules): number => {
+  const words = countWords(answer);
+  if (!rules.allowNumber) return words;
+  return tokenize(answer).some((word) => /^\d[\d.,:/-]*$/.test(word)) ? words - 1 : words;
+};
+
+// Match a free-text answer against its key using the question's rules
+export const matchAnswerWithRules = (
+  userAnswer: any,
+  correctAnswer: any,
+  rules: AnswerMatchingRules,
+): AnswerMatchOutcome => {
+  const user = normalize(userAnswer);
+  if (!user) {
+    return { isCorrect: false, explanation: "Rejected: no answer given" };
+  }
+
+  if (rules.maxWords && countLimitedWords(user, rules) > rules.maxWords) {
+    return {
+      isCorrect: false,
+      explanation: `Rejected by word limit: ${countLimitedWords(user, rules)} words, no more than ${rules.maxWords} allowed`,
+    };
+  }
+
+  const keys = acceptableAnswers(correctAnswer);
+  if (keys.length === 0) {
+    return { isCorrect: false, explanation: "Rejected: no correct answer set" };
+  }
+
+  if (keys.includes(user)) {
+    return { isCorrect: true, explanation: "Accepted: exact match" };
+  }
+
+  let userValue = user;
+  let keyValues = keys;
+  for (const transform of TRANSFORMS) {
+    if (!rules[transform.rule]) continue;
+
+    userValue = transform.apply(userValue);
+    keyValues = keyValues.map((key) => transform.apply(key));
+
+    if (userValue && keyValues.includes(userValue)) {
+      return {
+        isCorrect: true,
+        explanation: `Accepted by ${transform.label}`,
+      };
+    }
+  }
+
+  return {
+    isCorrect: false,
+    explanation: "Rejected: does not match any acceptable answer",
+  };
+};
+
+/**
+ * Add an answer to a stored short-answer key, keeping the key's format.
+ * The grader reads the first element of a JSON array key, so the answer joins
+ * that element. Returns null for empty answers, answers already accepted and
+ * answers containing commas (commas separate acceptable answers).
+ */
+export const addAcceptableAnswer = (
+  correctAnswer: any,
+  answer: string,
+): string | null => {
+  const trimmed = String(answer ?? "").trim();
+  if (!trimmed || trimmed.includes(",")) return null;
+  if (acceptableAnswers(correctAnswer).includes(normalize(trimmed))) return null;
+
+  const append = (key: any) => {
+    const existing = String(key ?? "").trim();
+    return existing ? `${existing}, ${trimmed}` : trimmed;
+  };
+
+  let keys: any[] | null = Array.isArray(correctAnswer) ? correctAnswer : null;
+  if (!keys && typeof correctAnswer === "string" && correctAnswer.trim().startsWith("[")) {
+    try {
+      const parsed = JSON.parse(correctAnswer);
+      if (Array.isArray(parsed)) keys = parsed;
+    } catch {
+      // Not JSON, treat it as a plain comma-separated key
+    }
+  }
+
+  if (keys) {
+    return JSON.stringify(
+      keys.length > 0 ? [append(keys[0]), ...keys.slice(1)] : [trimmed],
+    );
+  }
+
+  return append(correctAnswer);
+};
@@ -3,6 +3,10 @@
  * Useful to share types between client and server
  * and/or small pure JS functions that can be used on both client and server
  */
+import type { ExamQuestionSet } from "./examContent";
+import type { GradingResult } from "./grading";
+import type { TestSectionSet } from "./testVersions";
+import type { RegradeScope, RegradeScores } from "./regrade";
 
 /**
  * Example response type for /api/demo
@@ -10,3 +14,171 @@
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * Error body returned by any /api route that fails
+ */
+export interface ApiErrorResponse {
+  error: string;
+}
+
+/**
+ * Request body for POST /api/grading/submissions
+ */
+export interface GradeSubmissionRequest {
+  submissionId: string;
+}
+
+/**
+ * Response for POST /api/grading/submissions.
+ * Only band scores are returned so answer keys never reach the browser.
+ */
+export interface GradeSubmissionResponse {
+  submissionId: string;
+  status: "graded";
+  readingBandScore: number;
+  listeningBandScore: number;
+  writingBandScore: number;
+  speakingBandScore: number;
+  overallBandScore: number;
+  // "incomplete" until all four skills, including speaking, have a band
+  overallBandStatus: "complete" | "incomplete";
+  // Submitted after the deadline plus grace period
+  isLate: boolean;
+  gradedAt: string;
+}
+
+/**
+ * Response for POST /api/grading/submissions/preview (admins only).
+ * The full result, per-question answer keys included; nothing is saved.
+ */
+export interface GradingPreviewResponse {
+  submissionId: string;
+  result: GradingResult;
+}
+
+/**
+ * Request body for POST /api/grading/submissions/manual (admins only).
+ * `grades` holds the teacher's marks keyed by submission column; columns that
+ * are not grading columns are ignored. `status` defaults to "graded".
+ */
+export interface ManualGradeRequest {
+  submissionId: string;
+  grades?: Record<string, any>;
+  status?: string;
+}
+
+/**
+ * Response for POST /api/grading/submissions/manual
+ */
+export interface ManualGradeResponse {
+  submissionId: string;
+  status: string;
+  gradedAt: string | null;
+}
+
+/**
+ * Request body for POST /api/exam-timer/start
+ */
+export interface StartExamTimerRequest {
+  submissionId: string;
+}
+
+/**
+ * Response for POST /api/exam-timer/start.
+ * Times come from the server clock; the client only counts down to `deadline`
+ * after correcting its own clock by `serverNow`.
+ */
+export interface ExamTimerResponse {
+  submissionId: string;
+  startedAt: string;
+  deadline: string;
+  serverNow: string;
+  remainingSeconds: number;
+  durationMinutes: number;
+  extensionMinutes: number;
+}
+
+/**
+ * Response for GET /api/tests/:testId/exam-content.
+ * The sections and questions a student is shown, answer keys removed, taken
+ * from `versionId` (null for a test that was never published).
+ */
+export interface ExamContentResponse {
+  testId: string;
+  versionId: string | null;
+  sections: TestSectionSet;
+  questions: ExamQuestionSet;
+}
+
+/**
+ * Response for DELETE /api/tests/:testId.
+ * The test and all of its data are removed in a single database transaction.
+ */
+export interface DeleteTestResponse {
+  testId: string;
+  deletedSubmissions: number;
+  deletedRequests: number;
+}
+
+/**
+ * Response for POST /api/tests/:testId/retake.
+ * The finished submission is archived as `archivedAttempt`; the student's next
+ * submission for the test becomes attempt `nextAttempt`.
+ */
+export interface StartRetakeResponse {
+  testId: string;
+  archivedAttempt: number;
+  nextAttempt: number;
+}
+
+/**
+ * Request body for POST /api/tests/:testId/regrade and /regrade/preview.
+ * Graded submissions are regraded against `versionId`, or against the test's
+ * current questions when it is omitted. Applying a regrade against the current
+ * questions publishes them as a new version first. Test- and submission-wide
+ * regrades re-pin submissions to the version; a question regrade leaves each
+ * submission on its own version.
+ */
+export interface RegradeRequest {
+  scope: RegradeScope;
+  // Required for scope "question": only this question's key is re-applied
+  questionId?: string;
+  // Required for scope "submission"
+  submissionId?: string;
+  versionId?: string;
+}
+
+/**
+ * One submission whose scores a regrade changes
+ */
+export interface RegradeChange {
+  submissionId: string;
+  studentId: string;
+  studentName: string;
+  before: RegradeScores;
+  after: RegradeScores;
+}
+
+/**
+ * Response for POST /api/tests/:testId/regrade/preview.
+ * Nothing is written; `checked` counts the graded submissions in scope.
+ */
+export interface RegradePreviewResponse {
+  testId: string;
+  checked: number;
+  changes: RegradeChange[];
+}
+
+/**
+ * Response for POST /api/tests/:testId/regrade.
+ * Changed submissions get an audit record and their student a notification.
+ */
+export interface RegradeResponse {
+  testId: string;
+  checked: number;
+  updated: number;
+  notified: number;
+  // Version graded against
+  versionId: string;
+}
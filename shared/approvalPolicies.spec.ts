@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateApprovalPolicy,
+  isAutoDecision,
+  validateApprovalPolicy,
+  type ApprovalPolicy,
+} from "./approvalPolicies";
+
+const makePolicy = (overrides: Partial<ApprovalPolicy>): ApprovalPolicy => ({
+  test_id: "t1",
+  mode: "always",
+  ...overrides,
+});
+
+const noContext = { classNames: {}, attemptCount: 0 };
+
+describe("evaluateApprovalPolicy", () => {
+  it("should leave requests pending without a policy", () => {
+    expect(evaluateApprovalPolicy(null, noContext)).toBeNull();
+  });
+
+  it("should approve every request with the always policy", () => {
+    expect(evaluateApprovalPolicy(makePolicy({}), noContext)).toEqual({
+      rule: "auto_always",
+      detail: "Test approves all requests",
+    });
+  });
+
+  it("should approve members of the policy class only", () => {
+    const policy = makePolicy({ mode: "class", class_id: "c1" });
+
+    expect(
+      evaluateApprovalPolicy(policy, {
+        classNames: { c1: "Evening 6.5" },
+        attemptCount: 0,
+      }),
+    ).toEqual({ rule: "auto_class", detail: "Member of Evening 6.5" });
+    expect(
+      evaluateApprovalPolicy(policy, {
+        classNames: { c2: "Morning" },
+        attemptCount: 0,
+      }),
+    ).toBeNull();
+  });
+
+  it("should approve until the attempt limit is reached", () => {
+    const policy = makePolicy({ mode: "max_attempts", max_attempts: 2 });
+
+    expect(
+      evaluateApprovalPolicy(policy, { classNames: {}, attemptCount: 1 }),
+    ).toEqual({ rule: "auto_attempts", detail: "Attempt 2 of 2" });
+    expect(
+      evaluateApprovalPolicy(policy, { classNames: {}, attemptCount: 2 }),
+    ).toBeNull();
+  });
+});
+
+describe("validateApprovalPolicy", () => {
+  it("should require a class for the class policy", () => {
+    expect(validateApprovalPolicy({ mode: "class" })).toMatch(/class/);
+    expect(validateApprovalPolicy({ mode: "class", class_id: "c1" })).toBeNull();
+  });
+
+  it("should require a positive whole number of attempts", () => {
+    expect(
+      validateApprovalPolicy({ mode: "max_attempts", max_attempts: 0 }),
+    ).not.toBeNull();
+    expect(
+      validateApprovalPolicy({ mode: "max_attempts", max_attempts: 1.5 }),
+    ).not.toBeNull();
+    expect(
+      validateApprovalPolicy({ mode: "max_attempts", max_attempts: 3 }),
+    ).toBeNull();
+  });
+});
+
+describe("isAutoDecision", () => {
+  it("should tell automatic rules from manual ones", () => {
+    expect(isAutoDecision("auto_class")).toBe(true);
+    expect(isAutoDecision("manual_bulk")).toBe(false);
+    expect(isAutoDecision(null)).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Auto-approval policies for test requests (`test_approval_policies`).
+ * The database trigger applies a test's policy to new requests; the same
+ * rules live here so a freshly saved policy can be run over the requests
+ * that were already waiting.
+ */
+
+export type ApprovalPolicyMode = "always" | "class" | "max_attempts";
+
+export interface ApprovalPolicy {
+  id?: string;
+  test_id: string;
+  edu_center_id?: string;
+  mode: ApprovalPolicyMode;
+  class_id?: string | null;
+  max_attempts?: number | null;
+  updated_by?: string | null;
+  updated_at?: string;
+}
+
+export type DecisionRule =
+  | "manual"
+  | "manual_bulk"
+  | "auto_always"
+  | "auto_class"
+  | "auto_attempts";
+
+export const APPROVAL_POLICY_LABELS: Record<ApprovalPolicyMode, string> = {
+  always: "Always approve",
+  class: "Approve students in a class",
+  max_attempts: "Approve up to N attempts",
+};
+
+export const DECISION_RULE_LABELS: Record<DecisionRule, string> = {
+  manual: "Manual",
+  manual_bulk: "Bulk",
+  auto_always: "Auto: always",
+  auto_class: "Auto: class",
+  auto_attempts: "Auto: attempts",
+};
+
+export interface ApprovalDecision {
+  rule: DecisionRule;
+  detail: string;
+}
+
+export interface ApprovalContext {
+  // Classes the student belongs to, by id
+  classNames: Record<string, string>;
+  // Submissions the student already has for the test
+  attemptCount: number;
+}
+
+/**
+ * The automatic approval a policy grants, or null when the request
+ * has to wait for an admin. Mirrors `apply_test_approval_policy()`.
+ */
+export const evaluateApprovalPolicy = (
+  policy: ApprovalPolicy | null | undefined,
+  context: ApprovalContext,
+): ApprovalDecision | null => {
+  if (!policy) return null;
+
+  switch (policy.mode) {
+    case "always":
+      return { rule: "auto_always", detail: "Test approves all requests" };
+    case "class": {
+      const className = policy.class_id
+        ? context.classNames[policy.class_id]
+        : undefined;
+      if (!className) return null;
+      return { rule: "auto_class", detail: `Member of ${className}` };
+    }
+    case "max_attempts": {
+      if (!policy.max_attempts || context.attemptCount >= policy.max_attempts) {
+        return null;
+      }
+      return {
+        rule: "auto_attempts",
+        detail: `Attempt ${context.attemptCount + 1} of ${policy.max_attempts}`,
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Check a policy before saving; returns an error message or null
+ */
+export const validateApprovalPolicy = (
+  policy: Pick<ApprovalPolicy, "mode" | "class_id" | "max_attempts">,
+): string | null => {
+  if (policy.mode === "class" && !policy.class_id) {
+    return "Choose the class whose students are approved";
+  }
+  if (
+    policy.mode === "max_attempts" &&
+    (!Number.isInteger(policy.max_attempts) || (policy.max_attempts ?? 0) < 1)
+  ) {
+    return "The number of attempts must be a whole number of at least 1";
+  }
+  return null;
+};
+
+export const isAutoDecision = (rule?: string | null) =>
+  !!rule && rule.startsWith("auto_");
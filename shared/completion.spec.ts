@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  findCompletionBlock,
+  formatWordLimit,
+  getCompletionInstructions,
+  gradeWordBankGap,
+  normalizeBankAnswer,
+  parseCompletionBlock,
+  validateCompletionBlock,
+} from "./completion";
+
+const words = ["river", "bridge", "market", "harbour"];
+
+const gap = {
+  id: "row-1",
+  question_type: "word_bank_completion",
+  question_text: "Question 21",
+  options: JSON.stringify({ words, gapId: "gap_1" }),
+  correct_answer: "C",
+};
+
+describe("formatWordLimit", () => {
+  it("should spell out small limits", () => {
+    expect(formatWordLimit(1)).toBe("NO MORE THAN ONE WORD");
+    expect(formatWordLimit(3)).toBe("NO MORE THAN THREE WORDS");
+    expect(formatWordLimit(7)).toBe("NO MORE THAN 7 WORDS");
+  });
+});
+
+describe("getCompletionInstructions", () => {
+  it("should name the letter range of the bank", () => {
+    const block = parseCompletionBlock({ id: "c1", kind: "summary", mode: "word_bank", words });
+    expect(getCompletionInstructions(block)).toEqual([
+      "Complete the summary below.",
+      "Choose the correct letter, A–D.",
+    ]);
+  });
+
+  it("should state the word limit for free text", () => {
+    const block = parseCompletionBlock({ id: "c2", kind: "flow_chart", mode: "free_text", max_words: 2 });
+    expect(getCompletionInstructions(block)).toEqual([
+      "Complete the flow-chart below.",
+      "Write NO MORE THAN TWO WORDS for each answer.",
+    ]);
+  });
+});
+
+describe("validateCompletionBlock", () => {
+  it("should require a bank in word bank mode only", () => {
+    expect(validateCompletionBlock(parseCompletionBlock({ mode: "word_bank", words: ["one"] }))).toMatch(
+      /at least two words/,
+    );
+    expect(validateCompletionBlock(parseCompletionBlock({ mode: "free_text" }))).toBeNull();
+  });
+});
+
+describe("findCompletionBlock", () => {
+  it("should find blocks nested in the document", () => {
+    const doc = {
+      type: "doc",
+      content: [
+        { type: "paragraph", content: [{ type: "text", text: "Intro" }] },
+        { type: "completion", attrs: { id: "c1", kind: "table", mode: "word_bank", words } },
+      ],
+    };
+    expect(findCompletionBlock(doc, "c1")).toMatchObject({ kind: "table", words });
+    expect(findCompletionBlock(doc, "missing")).toBeNull();
+  });
+});
+
+describe("normalizeBankAnswer", () => {
+  it("should accept letters in any case and the words themselves", () => {
+    expect(normalizeBankAnswer("c", words)).toBe("C");
+    expect(normalizeBankAnswer(" Bridge ", words)).toBe("B");
+    expect(normalizeBankAnswer("F", words)).toBe("");
+  });
+});
+
+describe("gradeWordBankGap", () => {
+  it("should grade by letter", () => {
+    expect(gradeWordBankGap(gap, { "row-1": "c" })).toMatchObject({
+      isCorrect: true,
+      userAnswer: "C",
+      correctAnswer: "C",
+    });
+    expect(gradeWordBankGap(gap, { "row-1": "A" }).isCorrect).toBe(false);
+  });
+
+  it("should find listening answers under the editor node id", () => {
+    const result = gradeWordBankGap(gap, { gap_1: "market" }, "listening");
+    expect(result).toMatchObject({ isCorrect: true, section: "listening" });
+  });
+});
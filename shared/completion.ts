@@ -0,0 +1,165 @@
+import type { QuestionResult } from "./grading";
+
+/**
+ * Summary, note, table and flow-chart completion. A completion block sits
+ * above rich text or a table that contains the blanks and says how they are
+ * answered: from a lettered word bank (A, B, C…) or as free text with a word
+ * limit.
+ *
+ * Free-text blanks are ordinary short answers whose `answer_rules.maxWords`
+ * carries the limit. Word-bank blanks are `word_bank_completion` questions:
+ * `options` holds `{ words, gapId }` and `correct_answer` the letter.
+ */
+
+export type CompletionKind = "summary" | "note" | "table" | "flow_chart";
+
+export const COMPLETION_KIND_LABELS: Record<CompletionKind, string> = {
+  summary: "Summary",
+  note: "Notes",
+  table: "Table",
+  flow_chart: "Flow-chart",
+};
+
+export type CompletionAnswerMode = "word_bank" | "free_text";
+
+export const WORD_BANK_QUESTION_TYPE = "word_bank_completion";
+
+// One letter per word, A to Z
+export const MAX_WORD_BANK_SIZE = 26;
+
+export interface CompletionBlock {
+  id: string;
+  kind: CompletionKind;
+  mode: CompletionAnswerMode;
+  words: string[];
+  maxWords: number | null;
+}
+
+const LIMIT_WORDS = ["ONE", "TWO", "THREE", "FOUR", "FIVE"];
+
+export const getBankLetter = (index: number) => String.fromCharCode(65 + index);
+
+// "NO MORE THAN TWO WORDS", as printed in IELTS instructions
+export const formatWordLimit = (maxWords: number): string =>
+  `NO MORE THAN ${LIMIT_WORDS[maxWords - 1] || maxWords} ${maxWords === 1 ? "WORD" : "WORDS"}`;
+
+/**
+ * Read a completion block from TipTap node attributes
+ */
+export const parseCompletionBlock = (attrs: any): CompletionBlock => ({
+  id: attrs?.id || "",
+  kind: (COMPLETION_KIND_LABELS[attrs?.kind] ? attrs.kind : "summary") as CompletionKind,
+  mode: attrs?.mode === "free_text" ? "free_text" : "word_bank",
+  words: Array.isArray(attrs?.words)
+    ? attrs.words.map((word: any) => String(word ?? "").trim()).filter((word: string) => word)
+    : [],
+  maxWords: Number(attrs?.max_words ?? attrs?.maxWords) || null,
+});
+
+export const getCompletionInstructions = (block: CompletionBlock): string[] => {
+  const target =
+    block.kind === "flow_chart" ? "flow-chart" : COMPLETION_KIND_LABELS[block.kind].toLowerCase();
+  const lines = [`Complete the ${target} below.`];
+
+  if (block.mode === "word_bank") {
+    lines.push(
+      block.words.length > 0
+        ? `Choose the correct letter, A–${getBankLetter(block.words.length - 1)}.`
+        : "Choose the correct letter.",
+    );
+  } else if (block.maxWords) {
+    lines.push(`Write ${formatWordLimit(block.maxWords)} for each answer.`);
+  }
+  return lines;
+};
+
+export const validateCompletionBlock = (block: CompletionBlock): string | null => {
+  if (block.mode === "word_bank") {
+    if (block.words.length < 2) return "Add at least two words to the bank";
+    if (block.words.length > MAX_WORD_BANK_SIZE) {
+      return `The bank can hold at most ${MAX_WORD_BANK_SIZE} words`;
+    }
+  } else if (block.maxWords !== null && block.maxWords < 1) {
+    return "The word limit must be at least one word";
+  }
+  return null;
+};
+
+/**
+ * Find a completion block by id anywhere in a TipTap document
+ */
+export const findCompletionBlock = (doc: any, blockId: string): CompletionBlock | null => {
+  if (!doc || !blockId) return null;
+  if (doc.type === "completion" && doc.attrs?.id === blockId) {
+    return parseCompletionBlock(doc.attrs);
+  }
+  for (const child of Array.isArray(doc.content) ? doc.content : []) {
+    const found = findCompletionBlock(child, blockId);
+    if (found) return found;
+  }
+  return null;
+};
+
+/**
+ * The letter a student chose. Accepts the letter in any case or the word
+ * itself, so typed answers and picked answers grade the same way.
+ */
+export const normalizeBankAnswer = (answer: any, words: string[]): string => {
+  const value = String(answer ?? "").trim();
+  if (!value) return "";
+  if (/^[a-z]$/i.test(value)) {
+    const letter = value.toUpperCase();
+    return letter.charCodeAt(0) - 65 < words.length || words.length === 0 ? letter : "";
+  }
+  const index = words.findIndex((word) => word.toLowerCase() === value.toLowerCase());
+  return index >= 0 ? getBankLetter(index) : "";
+};
+
+const parseJson = (raw: any): any => {
+  if (typeof raw !== "string") return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+export const parseWordBankGap = (question: any) => {
+  const options = parseJson(question?.options) || {};
+  const words: string[] = Array.isArray(options.words) ? options.words.map(String) : [];
+  return {
+    words,
+    // Listening answers are keyed by the editor node id rather than the row id
+    gapId: options.gapId ? String(options.gapId) : null,
+    correctAnswer: normalizeBankAnswer(parseJson(question?.correct_answer), words),
+  };
+};
+
+export const findWordBankAnswer = (question: any, userAnswers: Record<string, any>): any => {
+  const { gapId } = parseWordBankGap(question);
+  const answer = userAnswers[question.id] ?? (gapId ? userAnswers[gapId] : undefined);
+  return answer !== undefined && answer !== "" ? answer : null;
+};
+
+export const gradeWordBankGap = (
+  question: any,
+  userAnswers: Record<string, any>,
+  section: QuestionResult["section"] = "reading",
+  questionText: string = question.question_text,
+): QuestionResult => {
+  const { words, correctAnswer } = parseWordBankGap(question);
+  const chosen = normalizeBankAnswer(findWordBankAnswer(question, userAnswers), words);
+  const isCorrect = chosen !== "" && chosen === correctAnswer;
+
+  return {
+    questionId: question.id,
+    questionText,
+    questionType: WORD_BANK_QUESTION_TYPE,
+    userAnswer: chosen || "No answer provided",
+    correctAnswer: correctAnswer || "No correct answer set",
+    isCorrect,
+    points: isCorrect ? question.points || 1 : 0,
+    section,
+    explanation: question.explanation,
+  };
+};
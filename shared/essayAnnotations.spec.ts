@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  countAnnotationsByCriterion,
+  splitEssayByAnnotations,
+  suggestBandCeiling,
+  type EssayAnnotation,
+} from "./essayAnnotations";
+
+const annotation = (
+  start: number,
+  end: number,
+  category: EssayAnnotation["category"] = "grammar",
+): EssayAnnotation => ({
+  id: `${start}-${end}`,
+  start,
+  end,
+  category,
+  comment: "",
+});
+
+describe("splitEssayByAnnotations", () => {
+  it("should split the essay into plain and highlighted segments", () => {
+    const segments = splitEssayByAnnotations("He go to school.", [
+      annotation(3, 5),
+    ]);
+    expect(segments.map((segment) => segment.text)).toEqual([
+      "He ",
+      "go",
+      " to school.",
+    ]);
+    expect(segments[1].annotation?.id).toBe("3-5");
+  });
+
+  it("should skip overlapping and out-of-range annotations", () => {
+    const segments = splitEssayByAnnotations("abcdef", [
+      annotation(0, 3),
+      annotation(2, 4),
+      annotation(5, 20),
+    ]);
+    expect(segments.map((segment) => segment.text)).toEqual(["abc", "def"]);
+  });
+});
+
+describe("countAnnotationsByCriterion", () => {
+  it("should count spelling under Lexical Resource and ignore rewrites", () => {
+    expect(
+      countAnnotationsByCriterion([
+        annotation(0, 1, "spelling"),
+        annotation(1, 2, "vocabulary"),
+        annotation(2, 3, "grammar"),
+        annotation(3, 4, "rewrite"),
+      ]),
+    ).toEqual({ lexicalResource: 2, grammarAccuracy: 1 });
+  });
+});
+
+describe("suggestBandCeiling", () => {
+  it("should lower the ceiling as errors get denser", () => {
+    expect(suggestBandCeiling(1, 250)).toBe(9);
+    expect(suggestBandCeiling(8, 250)).toBe(7);
+    expect(suggestBandCeiling(30, 250)).toBe(4);
+  });
+
+  it("should not suggest anything without errors", () => {
+    expect(suggestBandCeiling(0, 250)).toBeNull();
+  });
+});
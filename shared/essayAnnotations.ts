@@ -0,0 +1,156 @@
+/**
+ * Inline annotations on student essays.
+ * Teachers select a span of the essay and attach a typed comment; the list is
+ * saved per task in `writing_grading_data.annotations` and rendered as
+ * highlights on the student's results page.
+ */
+
+import type { WritingCriterion } from "./writingRubric";
+
+export type AnnotationCategory =
+  | "grammar"
+  | "vocabulary"
+  | "coherence"
+  | "spelling"
+  | "rewrite";
+
+export interface EssayAnnotation {
+  id: string;
+  // Character offsets into the essay text, end exclusive
+  start: number;
+  end: number;
+  category: AnnotationCategory;
+  comment: string;
+  // Suggested replacement text, mainly for "rewrite"
+  suggestion?: string;
+}
+
+export interface EssaySegment {
+  text: string;
+  annotation?: EssayAnnotation;
+}
+
+export const ANNOTATION_CATEGORIES: AnnotationCategory[] = [
+  "grammar",
+  "vocabulary",
+  "coherence",
+  "spelling",
+  "rewrite",
+];
+
+export const ANNOTATION_CATEGORY_LABELS: Record<AnnotationCategory, string> = {
+  grammar: "Grammar",
+  vocabulary: "Vocabulary",
+  coherence: "Coherence",
+  spelling: "Spelling",
+  rewrite: "Suggested rewrite",
+};
+
+// Tailwind classes used for the highlight of each category
+export const ANNOTATION_CATEGORY_STYLES: Record<AnnotationCategory, string> = {
+  grammar: "bg-red-100 border-b-2 border-red-400",
+  vocabulary: "bg-yellow-100 border-b-2 border-yellow-400",
+  coherence: "bg-purple-100 border-b-2 border-purple-400",
+  spelling: "bg-orange-100 border-b-2 border-orange-400",
+  rewrite: "bg-green-100 border-b-2 border-green-400",
+};
+
+// Spelling is marked under Lexical Resource; rewrites are advice, not errors
+export const ANNOTATION_CRITERION: Record<
+  AnnotationCategory,
+  WritingCriterion | null
+> = {
+  grammar: "grammarAccuracy",
+  vocabulary: "lexicalResource",
+  coherence: "coherenceCohesion",
+  spelling: "lexicalResource",
+  rewrite: null,
+};
+
+export const countAnnotationsByCategory = (
+  annotations: EssayAnnotation[] = [],
+): Record<AnnotationCategory, number> => {
+  const counts = Object.fromEntries(
+    ANNOTATION_CATEGORIES.map((category) => [category, 0]),
+  ) as Record<AnnotationCategory, number>;
+
+  annotations.forEach((annotation) => {
+    if (annotation.category in counts) counts[annotation.category]++;
+  });
+  return counts;
+};
+
+export const countAnnotationsByCriterion = (
+  annotations: EssayAnnotation[] = [],
+): Partial<Record<WritingCriterion, number>> => {
+  const counts: Partial<Record<WritingCriterion, number>> = {};
+  annotations.forEach((annotation) => {
+    const criterion = ANNOTATION_CRITERION[annotation.category];
+    if (criterion) counts[criterion] = (counts[criterion] || 0) + 1;
+  });
+  return counts;
+};
+
+// Errors per 100 words -> highest band the criterion would normally reach
+const ERROR_DENSITY_CEILINGS: { maxDensity: number; band: number }[] = [
+  { maxDensity: 1, band: 9 },
+  { maxDensity: 2, band: 8 },
+  { maxDensity: 3.5, band: 7 },
+  { maxDensity: 5, band: 6 },
+  { maxDensity: 7, band: 5 },
+];
+
+/**
+ * Suggested ceiling for a criterion from the number of errors marked on it.
+ * Returns null when there is nothing to suggest (no errors or no words).
+ */
+export const suggestBandCeiling = (
+  errorCount: number,
+  wordCount: number,
+): number | null => {
+  if (errorCount <= 0 || wordCount <= 0) return null;
+
+  const density = (errorCount / wordCount) * 100;
+  const ceiling = ERROR_DENSITY_CEILINGS.find(
+    (entry) => density <= entry.maxDensity,
+  );
+  return ceiling ? ceiling.band : 4;
+};
+
+/**
+ * Split the essay into plain and highlighted segments in text order.
+ * Overlapping annotations are skipped so every character is rendered once.
+ */
+export const splitEssayByAnnotations = (
+  text: string,
+  annotations: EssayAnnotation[] = [],
+): EssaySegment[] => {
+  const sorted = annotations
+    .filter(
+      (annotation) =>
+        annotation.start >= 0 &&
+        annotation.end <= text.length &&
+        annotation.start < annotation.end,
+    )
+    .sort((a, b) => a.start - b.start);
+
+  const segments: EssaySegment[] = [];
+  let cursor = 0;
+
+  sorted.forEach((annotation) => {
+    if (annotation.start < cursor) return;
+    if (annotation.start > cursor) {
+      segments.push({ text: text.slice(cursor, annotation.start) });
+    }
+    segments.push({
+      text: text.slice(annotation.start, annotation.end),
+      annotation,
+    });
+    cursor = annotation.end;
+  });
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor) });
+  }
+  return segments;
+};
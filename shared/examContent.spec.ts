@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { toExamQuestion, toExamQuestionSet } from "./examContent";
+
+describe("toExamQuestion", () => {
+  it("should drop the answer key and explanation but keep the word limit", () => {
+    const question = toExamQuestion({
+      id: "q1",
+      question_type: "short_answer",
+      question_text: "The meeting is on ______",
+      correct_answer: "Monday",
+      answer_rules: { maxWords: 1 },
+      explanation: "Said at 1:20",
+    });
+
+    expect(question).toEqual({
+      id: "q1",
+      question_type: "short_answer",
+      question_text: "The meeting is on ______",
+      answer_rules: { maxWords: 1 },
+    });
+  });
+
+  it("should give multiple selection questions the number of answers only", () => {
+    const question = toExamQuestion({
+      id: "q2",
+      question_type: "multiple_selection",
+      options: JSON.stringify({ options: ["A", "B", "C", "D"] }),
+      correct_answer: JSON.stringify(["A", "C"]),
+    });
+
+    expect(question.correct_answer).toBeUndefined();
+    expect(question.answer_count).toBe(2);
+  });
+
+  it("should count the labels of a map without their answers", () => {
+    const question = toExamQuestion({
+      id: "q6",
+      question_type: "map_labeling",
+      correct_answer: JSON.stringify([
+        { id: "b1", answer: "Bank" },
+        { id: "b2", answer: "Park" },
+      ]),
+    });
+
+    expect(question.correct_answer).toBeUndefined();
+    expect(question.answer_count).toBe(2);
+  });
+
+  it("should keep reading matching items but not their pairing", () => {
+    const question = toExamQuestion({
+      id: "q3",
+      question_type: "matching",
+      correct_answer: JSON.stringify({
+        left: ["Paris", "Rome"],
+        right: ["Italy", "France"],
+      }),
+    });
+
+    expect(question.correct_answer).toBeUndefined();
+    expect(question.options).toEqual({
+      left: ["Paris", "Rome"],
+      right: ["France", "Italy"],
+    });
+  });
+
+  it("should read listening matching pairs", () => {
+    const question = toExamQuestion({
+      id: "q4",
+      question_type: "matching",
+      correct_answer: [
+        { left: "Library", right: "C" },
+        { left: "Cafe", right: "A" },
+        { left: "Gym", right: "C" },
+      ],
+    });
+
+    expect(question.options).toEqual({
+      left: ["Library", "Cafe", "Gym"],
+      right: ["A", "C"],
+    });
+  });
+
+  it("should keep the paragraphs of matching headings without the answers", () => {
+    const question = toExamQuestion({
+      id: "q5",
+      question_type: "matching_headings",
+      options: JSON.stringify({ headings: ["Early history", "Costs"] }),
+      correct_answer: JSON.stringify({ paragraphs: ["A", "B"], answers: ["ii", "i"] }),
+    });
+
+    expect(question.correct_answer).toBeUndefined();
+    expect(question.options).toEqual({
+      headings: ["Early history", "Costs"],
+      paragraphs: ["A", "B"],
+      anchored: false,
+    });
+  });
+});
+
+describe("toExamQuestionSet", () => {
+  it("should strip every section", () => {
+    const set = toExamQuestionSet({
+      reading: [{ id: "r1", question_type: "true_false_not_given", correct_answer: "TRUE" }],
+      listening: [{ id: "l1", question_type: "multiple_choice", correct_answer: "B" }],
+      writing: [{ id: "w1", question_type: "task1" }],
+    });
+
+    expect(set.reading[0]).toEqual({ id: "r1", question_type: "true_false_not_given" });
+    expect(set.listening[0]).toEqual({ id: "l1", question_type: "multiple_choice" });
+    expect(set.writing[0]).toEqual({ id: "w1", question_type: "task1" });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Question rows as served to a student taking an exam.
+ * Answer keys stay on the server: the key columns are dropped and only the
+ * structure the exam pages render is kept (matching items, how many answers
+ * a multiple selection or map question takes, the paragraphs to give headings to).
+ */
+import type { GradingQuestionSet } from "./grading";
+import { parseMatchingHeadings } from "./matchingHeadings";
+
+export type ExamQuestion = Record<string, any> & {
+  // Multiple selection and map questions: how many answers the student gives
+  answer_count?: number;
+};
+
+export interface ExamQuestionSet {
+  reading: ExamQuestion[];
+  listening: ExamQuestion[];
+  writing: ExamQuestion[];
+}
+
+// Columns that give the answer away; answer_rules stay since they hold the word limit
+const ANSWER_KEY_FIELDS = ["correct_answer", "explanation"];
+
+const parseJson = (raw: any): any => {
+  if (typeof raw !== "string") return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+};
+
+const toStringArray = (value: any): string[] =>
+  Array.isArray(value) ? value.map((item) => String(item ?? "")) : [];
+
+// Sorted so the order of the options doesn't follow the order of the items
+const toOptionList = (values: string[]) =>
+  [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b));
+
+/**
+ * Items and options of a matching question without the pairing. Reading
+ * stores `{ left, right }` and listening an array of `{ left, right }` pairs;
+ * `options` may already hold the items.
+ */
+const getMatchingItems = (question: any) => {
+  const options = parseJson(question.options);
+  const key = parseJson(question.correct_answer);
+  const source =
+    options && (options.left || options.right)
+      ? options
+      : Array.isArray(key)
+        ? {
+            left: key.map((pair: any) => pair?.left),
+            right: key.map((pair: any) => pair?.right),
+          }
+        : key || {};
+
+  return {
+    ...(options && typeof options === "object" && !Array.isArray(options) ? options : {}),
+    left: toStringArray(source.left),
+    right: toOptionList(toStringArray(source.right)),
+  };
+};
+
+// Drop the answer key from one question row
+export const toExamQuestion = (question: any): ExamQuestion => {
+  const examQuestion: ExamQuestion = { ...question };
+  ANSWER_KEY_FIELDS.forEach((field) => delete examQuestion[field]);
+
+  if (question.question_type === "multiple_selection") {
+    const key = parseJson(question.correct_answer);
+    examQuestion.answer_count = Array.isArray(key) ? key.length : 0;
+  } else if (
+    question.question_type === "map_labeling" ||
+    question.question_type === "map_diagram"
+  ) {
+    const key = parseJson(question.correct_answer);
+    const boxes = Array.isArray(key) ? key : key?.boxes;
+    examQuestion.answer_count = Array.isArray(boxes) ? boxes.length : 0;
+  } else if (question.question_type === "matching") {
+    examQuestion.options = getMatchingItems(question);
+  } else if (question.question_type === "matching_headings") {
+    const { headings, paragraphs, anchored } = parseMatchingHeadings(question);
+    examQuestion.options = { headings, paragraphs, anchored };
+  }
+
+  return examQuestion;
+};
+
+export const toExamQuestionSet = (questions: GradingQuestionSet): ExamQuestionSet => ({
+  reading: questions.reading.map(toExamQuestion),
+  listening: questions.listening.map(toExamQuestion),
+  writing: questions.writing.map(toExamQuestion),
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateExamDeadline,
+  getRemainingSeconds,
+  isSubmissionLate,
+  parseLatePolicy,
+} from "./examTimer";
+
+describe("calculateExamDeadline", () => {
+  it("should add the duration to the start time", () => {
+    expect(
+      calculateExamDeadline("2024-05-01T09:00:00.000Z", 60).toISOString(),
+    ).toBe("2024-05-01T10:00:00.000Z");
+  });
+
+  it("should add a granted extension", () => {
+    expect(
+      calculateExamDeadline("2024-05-01T09:00:00.000Z", 60, 15).toISOString(),
+    ).toBe("2024-05-01T10:15:00.000Z");
+  });
+
+  it("should ignore negative extensions", () => {
+    expect(
+      calculateExamDeadline("2024-05-01T09:00:00.000Z", 60, -10).toISOString(),
+    ).toBe("2024-05-01T10:00:00.000Z");
+  });
+});
+
+describe("getRemainingSeconds", () => {
+  it("should count down to the deadline", () => {
+    expect(
+      getRemainingSeconds(
+        "2024-05-01T10:00:00.000Z",
+        new Date("2024-05-01T09:58:30.000Z"),
+      ),
+    ).toBe(90);
+  });
+
+  it("should never go below zero", () => {
+    expect(
+      getRemainingSeconds(
+        "2024-05-01T10:00:00.000Z",
+        new Date("2024-05-01T10:05:00.000Z"),
+      ),
+    ).toBe(0);
+  });
+});
+
+describe("isSubmissionLate", () => {
+  const deadline = "2024-05-01T10:00:00.000Z";
+
+  it("should allow submissions within the grace period", () => {
+    expect(isSubmissionLate("2024-05-01T10:00:45.000Z", deadline)).toBe(false);
+  });
+
+  it("should flag submissions after the grace period", () => {
+    expect(isSubmissionLate("2024-05-01T10:01:30.000Z", deadline)).toBe(true);
+  });
+});
+
+describe("parseLatePolicy", () => {
+  it("should default to marking late", () => {
+    expect(parseLatePolicy(null)).toBe("mark_late");
+    expect(parseLatePolicy("something")).toBe("mark_late");
+  });
+
+  it("should keep the reject policy", () => {
+    expect(parseLatePolicy("reject")).toBe("reject");
+  });
+});
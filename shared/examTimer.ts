@@ -0,0 +1,46 @@
+/**
+ * Exam timing shared by the timer API, the grading API and the exam pages.
+ * The server records `started_at` on the submission; the deadline is that time
+ * plus the test duration and any extension granted to the student.
+ */
+
+export type LateSubmissionPolicy = "mark_late" | "reject";
+
+export const LATE_SUBMISSION_POLICY_LABELS: Record<LateSubmissionPolicy, string> =
+  {
+    mark_late: "Accept and mark late",
+    reject: "Reject late submissions",
+  };
+
+// Allowance for the final autosave and network latency after time runs out
+export const LATE_GRACE_SECONDS = 60;
+
+export const calculateExamDeadline = (
+  startedAt: string | Date,
+  durationMinutes: number,
+  extensionMinutes = 0,
+): Date =>
+  new Date(
+    new Date(startedAt).getTime() +
+      (durationMinutes + Math.max(0, extensionMinutes)) * 60 * 1000,
+  );
+
+export const getRemainingSeconds = (
+  deadline: string | Date,
+  now: Date = new Date(),
+): number =>
+  Math.max(
+    0,
+    Math.floor((new Date(deadline).getTime() - now.getTime()) / 1000),
+  );
+
+export const isSubmissionLate = (
+  submittedAt: string | Date,
+  deadline: string | Date,
+  graceSeconds = LATE_GRACE_SECONDS,
+): boolean =>
+  new Date(submittedAt).getTime() >
+  new Date(deadline).getTime() + graceSeconds * 1000;
+
+export const parseLatePolicy = (raw: any): LateSubmissionPolicy =>
+  raw === "reject" ? "reject" : "mark_late";
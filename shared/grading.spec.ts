@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import {
+  answersMatch,
+  calculateOverallBand,
+  calculateSpeakingBandScore,
+  convertRawScore,
+  getBandScore,
+  gradeAnswers,
+  pickManualGrades,
+  roundOverallBand,
+} from "./grading";
+
+describe("answersMatch", () => {
+  it("should ignore case and surrounding whitespace", () => {
+    expect(answersMatch("  London ", "london")).toBe(true);
+  });
+
+  it("should accept any comma-separated alternative", () => {
+    expect(answersMatch("colour", "color, colour")).toBe(true);
+  });
+
+  it("should reject empty answers", () => {
+    expect(answersMatch("", "london")).toBe(false);
+  });
+});
+
+describe("getBandScore", () => {
+  it("should convert raw scores with the listening table", () => {
+    expect(getBandScore(30, 40, "listening")).toBe(7.0);
+  });
+});
+
+describe("gradeAnswers", () => {
+  it("should grade short answers by question id", () => {
+    const result = gradeAnswers(
+      { q1: "river" },
+      {
+        reading: [
+          {
+            id: "q1",
+            question_number: 1,
+            question_type: "short_answer",
+            question_text: "Where?",
+            correct_answer: "river",
+          },
+        ],
+        listening: [],
+        writing: [],
+      },
+    );
+
+    expect(result.breakdown.reading).toEqual({
+      correct: 1,
+      total: 1,
+      percentage: 100,
+      module: "academic",
+      conversion: "scaled",
+      isEstimate: true,
+    });
+  });
+
+  it("should grade TRUE/FALSE/NOT GIVEN statements by label", () => {
+    const statement = (id: string, correct_answer: string) => ({
+      id,
+      question_number: Number(id.slice(1)),
+      question_type: "true_false_not_given",
+      question_text: "Statement",
+      correct_answer,
+    });
+    const result = gradeAnswers(
+      { q1: "NOT GIVEN", q2: "TRUE" },
+      {
+        reading: [statement("q1", "NOT GIVEN"), statement("q2", "FALSE"), statement("q3", "TRUE")],
+        listening: [],
+        writing: [],
+      },
+    );
+
+    expect(result.detailedResults.map((r) => r.isCorrect)).toEqual([true, false, false]);
+    expect(result.detailedResults[2].userAnswer).toBe("No answer provided");
+  });
+});
+
+describe("getBandScore with General Training", () => {
+  it("should use the General Training reading table", () => {
+    expect(getBandScore(30, 40, "reading", "general_training")).toBe(6.0);
+    expect(getBandScore(30, 40, "reading", "academic")).toBe(7.0);
+  });
+});
+
+describe("convertRawScore", () => {
+  it("should scale short tests to a 40-question equivalent", () => {
+    expect(convertRawScore(20, 20, "reading")).toEqual({
+      band: 9.0,
+      method: "scaled",
+      isEstimate: true,
+    });
+  });
+
+  it("should use the official table for full-length tests", () => {
+    expect(convertRawScore(30, 40, "listening")).toEqual({
+      band: 7.0,
+      method: "official",
+      isEstimate: false,
+    });
+  });
+
+  it("should prefer the test's custom table when one is set", () => {
+    const bandConversion = {
+      mode: "custom" as const,
+      listening: [
+        { min: 10, max: 13, band: 6.5 },
+        { min: 0, max: 9, band: 4.0 },
+      ],
+    };
+
+    expect(
+      convertRawScore(11, 13, "listening", { bandConversion }),
+    ).toEqual({ band: 6.5, method: "custom", isEstimate: true });
+  });
+});
+
+describe("roundOverallBand", () => {
+  it("should round .25 up to .5 and .75 up to the next band", () => {
+    expect(roundOverallBand(6.125)).toBe(6.0);
+    expect(roundOverallBand(6.25)).toBe(6.5);
+    expect(roundOverallBand(6.625)).toBe(6.5);
+    expect(roundOverallBand(6.75)).toBe(7.0);
+  });
+});
+
+describe("calculateOverallBand", () => {
+  it("should average all four skills", () => {
+    expect(
+      calculateOverallBand({
+        reading: 6.5,
+        listening: 6.5,
+        writing: 5.0,
+        speaking: 7.0,
+      }),
+    ).toEqual({ band: 6.5, status: "complete", missingSkills: [] });
+  });
+
+  it("should be incomplete while a skill is missing", () => {
+    expect(
+      calculateOverallBand({ reading: 7.0, listening: 6.0, writing: 6.0 }),
+    ).toEqual({ band: 6.5, status: "incomplete", missingSkills: ["speaking"] });
+  });
+});
+
+describe("calculateSpeakingBandScore", () => {
+  it("should round the criteria average down to a half band", () => {
+    expect(
+      calculateSpeakingBandScore({
+        fluencyCoherence: 7,
+        lexicalResource: 6,
+        grammaticalRange: 6,
+        pronunciation: 6,
+      }),
+    ).toBe(6.0);
+  });
+
+  it("should return 0 until every criterion is marked", () => {
+    expect(
+      calculateSpeakingBandScore({
+        fluencyCoherence: 7,
+        lexicalResource: 0,
+        grammaticalRange: 6,
+        pronunciation: 6,
+      }),
+    ).toBe(0);
+  });
+});
+
+describe("pickManualGrades", () => {
+  it("should keep grading columns and drop everything else", () => {
+    expect(
+      pickManualGrades({
+        writing_score: 6.5,
+        feedback: "Good structure",
+        answers: { q1: "A" },
+        student_id: "someone-else",
+      }),
+    ).toEqual({ writing_score: 6.5, feedback: "Good structure" });
+  });
+});
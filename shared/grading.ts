@@ -0,0 +1,1436 @@
+/**
+ * IELTS grading logic shared by the browser and the Express grading API.
+ * Everything here is pure: callers load the submission and questions and
+ * persist the result themselves.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  hasAnswerRules,
+  matchAnswerWithRules,
+  parseAnswerRules,
+} from "./answerMatching";
+import {
+  isJudgementQuestion,
+  judgementAnswersMatch,
+  normalizeJudgementAnswer,
+} from "./trueFalseNotGiven";
+import { gradeMatchingHeadings } from "./matchingHeadings";
+import {
+  WORD_BANK_QUESTION_TYPE,
+  findWordBankAnswer,
+  gradeWordBankGap,
+} from "./completion";
+
+// IELTS Reading comes in two modules that convert raw scores differently
+export type ReadingModule = "academic" | "general_training";
+
+export const READING_MODULE_LABELS: Record<ReadingModule, string> = {
+  academic: "Academic",
+  general_training: "General Training",
+};
+
+export interface BandRange {
+  min: number;
+  max: number;
+  band: number;
+}
+
+// How a raw score became a band: the official 40-question table, that table
+// after scaling the raw score to 40 questions, or the test's own table
+export type BandConversionMethod = "official" | "scaled" | "custom";
+
+// Stored on tests.band_conversion for practice tests that are not 40 questions
+export interface BandConversionSettings {
+  mode: "scaled" | "custom";
+  reading?: BandRange[];
+  listening?: BandRange[];
+}
+
+export interface BandConversion {
+  band: number;
+  method: BandConversionMethod;
+  isEstimate: boolean;
+}
+
+// Official IELTS Reading and Listening papers have 40 questions
+export const FULL_TEST_QUESTION_COUNT = 40;
+
+export type IeltsSkill = "reading" | "listening" | "writing" | "speaking";
+
+// Speaking is marked by the teacher against the four public band descriptors
+export interface SpeakingCriteria {
+  fluencyCoherence: number;
+  lexicalResource: number;
+  grammaticalRange: number;
+  pronunciation: number;
+}
+
+export const SPEAKING_CRITERIA_LABELS: Record<keyof SpeakingCriteria, string> = {
+  fluencyCoherence: "Fluency and Coherence",
+  lexicalResource: "Lexical Resource",
+  grammaticalRange: "Grammatical Range and Accuracy",
+  pronunciation: "Pronunciation",
+};
+
+export type SkillBands = Partial<Record<IeltsSkill, number | null>>;
+
+// The overall band is only official once all four skills have a band
+export interface OverallBand {
+  band: number;
+  status: "complete" | "incomplete";
+  missingSkills: IeltsSkill[];
+}
+
+// Per-test settings that change how raw scores become bands
+export interface GradingOptions {
+  readingModule?: ReadingModule;
+  bandConversion?: BandConversionSettings | null;
+  // Teacher-entered speaking marks for the submission being graded
+  speakingCriteria?: SpeakingCriteria | null;
+}
+
+export interface GradingResult {
+  readingScore: number;
+  listeningScore: number;
+  writingScore: number;
+  totalScore: number;
+  readingBandScore: number;
+  listeningBandScore: number;
+  writingBandScore: number;
+  speakingBandScore: number;
+  overallBandScore: number;
+  overallBandStatus: OverallBand["status"];
+  missingSkills: IeltsSkill[];
+  breakdown: {
+    reading: {
+      correct: number;
+      total: number;
+      percentage: number;
+      module: ReadingModule;
+      conversion: BandConversionMethod;
+      isEstimate: boolean;
+    };
+    listening: {
+      correct: number;
+      total: number;
+      percentage: number;
+      conversion: BandConversionMethod;
+      isEstimate: boolean;
+    };
+    writing: {
+      score: number;
+      criteria: {
+        taskAchievement: number;
+        coherenceCohesion: number;
+        lexicalResource: number;
+        grammarAccuracy: number;
+      };
+    };
+    speaking: {
+      score: number;
+      criteria: SpeakingCriteria | null;
+    };
+  };
+  detailedResults: QuestionResult[];
+}
+
+export interface QuestionResult {
+  questionId: string;
+  questionText: string;
+  questionType: string;
+  userAnswer: any;
+  correctAnswer: any;
+  isCorrect: boolean;
+  points: number;
+  section: "reading" | "listening" | "writing";
+  explanation?: string;
+}
+
+// IELTS Band Score conversion tables
+const READING_BAND_SCORES: Record<ReadingModule, BandRange[]> = {
+  academic: [
+    { min: 39, max: 40, band: 9.0 },
+    { min: 37, max: 38, band: 8.5 },
+    { min: 35, max: 36, band: 8.0 },
+    { min: 33, max: 34, band: 7.5 },
+    { min: 30, max: 32, band: 7.0 },
+    { min: 27, max: 29, band: 6.5 },
+    { min: 23, max: 26, band: 6.0 },
+    { min: 19, max: 22, band: 5.5 },
+    { min: 15, max: 18, band: 5.0 },
+    { min: 11, max: 14, band: 4.5 },
+    { min: 8, max: 10, band: 4.0 },
+    { min: 5, max: 7, band: 3.5 },
+    { min: 3, max: 4, band: 3.0 },
+    { min: 1, max: 2, band: 2.5 },
+    { min: 0, max: 0, band: 1.0 },
+  ],
+  general_training: [
+    { min: 40, max: 40, band: 9.0 },
+    { min: 39, max: 39, band: 8.5 },
+    { min: 37, max: 38, band: 8.0 },
+    { min: 36, max: 36, band: 7.5 },
+    { min: 34, max: 35, band: 7.0 },
+    { min: 32, max: 33, band: 6.5 },
+    { min: 30, max: 31, band: 6.0 },
+    { min: 27, max: 29, band: 5.5 },
+    { min: 23, max: 26, band: 5.0 },
+    { min: 19, max: 22, band: 4.5 },
+    { min: 15, max: 18, band: 4.0 },
+    { min: 12, max: 14, band: 3.5 },
+    { min: 9, max: 11, band: 3.0 },
+    { min: 6, max: 8, band: 2.5 },
+    { min: 3, max: 5, band: 2.0 },
+    { min: 0, max: 2, band: 1.0 },
+  ],
+};
+
+const LISTENING_BAND_SCORES: BandRange[] = [
+  { min: 39, max: 40, band: 9.0 },
+  { min: 37, max: 38, band: 8.5 },
+  { min: 35, max: 36, band: 8.0 },
+  { min: 32, max: 34, band: 7.5 },
+  { min: 30, max: 31, band: 7.0 },
+  { min: 26, max: 29, band: 6.5 },
+  { min: 23, max: 25, band: 6.0 },
+  { min: 18, max: 22, band: 5.5 },
+  { min: 16, max: 17, band: 5.0 },
+  { min: 13, max: 15, band: 4.5 },
+  { min: 10, max: 12, band: 4.0 },
+  { min: 6, max: 9, band: 3.5 },
+  { min: 4, max: 5, band: 3.0 },
+  { min: 3, max: 3, band: 2.5 },
+  { min: 0, max: 2, band: 1.0 },
+];
+
+// Helper function to normalize answers for comparison
+const normalizeAnswer = (answer: any): string => {
+  if (answer === null || answer === undefined) return "";
+  return String(answer).toLowerCase().trim();
+};
+
+// Check if two answers match (handles multiple acceptable answers)
+export const answersMatch = (userAnswer: any, correctAnswer: any): boolean => {
+  // Handle null/undefined cases
+  if (userAnswer === null || userAnswer === undefined || userAnswer === "") {
+    return false;
+  }
+  
+  if (correctAnswer === null || correctAnswer === undefined || correctAnswer === "") {
+    return false;
+  }
+
+  const userNormalized = normalizeAnswer(userAnswer);
+  const correctNormalized = normalizeAnswer(correctAnswer);
+
+  // Handle array of correct answers (multiple acceptable answers)
+  if (Array.isArray(correctAnswer)) {
+    const result = correctAnswer.some((correct) => answersMatch(userAnswer, correct));
+    return result;
+  }
+
+  // Handle comma-separated answers
+  if (typeof correctAnswer === "string" && correctAnswer.includes(",")) {
+    const acceptableAnswers = correctAnswer
+      .split(",")
+      .map((ans) => ans.trim().toLowerCase());
+    const result = acceptableAnswers.includes(userNormalized);
+    return result;
+  }
+
+  // Exact match (most strict)
+  if (userNormalized === correctNormalized) {
+    return true;
+  }
+
+  // For very short answers (1-2 chars), only allow exact match
+  if (correctNormalized.length <= 2) {
+    return false;
+  }
+
+  // For longer answers, allow some flexibility only if it's a perfect word match
+  // This prevents "child" matching "childs" by requiring word boundaries
+  const userWords = userNormalized.split(/\s+/);
+  const correctWords = correctNormalized.split(/\s+/);
+
+  // Only match if user answer contains all correct words as complete words
+  if (correctWords.length === 1) {
+    const result = userWords.includes(correctNormalized);
+    return result;
+  }
+
+  return false;
+};
+
+// Grade a free-text answer, honouring the question's matching rules if it has any
+const gradeFreeTextAnswer = (
+  question: any,
+  userAnswer: any,
+  correctAnswer: any,
+): { isCorrect: boolean; explanation?: string } => {
+  const rules = parseAnswerRules(question.answer_rules);
+  if (hasAnswerRules(rules)) {
+    // Rules see every acceptable answer, not just the first one
+    return matchAnswerWithRules(userAnswer, question.correct_answer, rules);
+  }
+
+  return {
+    isCorrect: answersMatch(userAnswer, correctAnswer),
+    explanation: question.explanation,
+  };
+};
+
+const lookupBand = (bandTable: BandRange[], correct: number): number => {
+  for (const range of bandTable) {
+    if (correct >= range.min && correct <= range.max) {
+      return range.band;
+    }
+  }
+
+  return 1.0; // Minimum band score
+};
+
+// Convert a raw score to a band, scaling tests that are not 40 questions
+export const convertRawScore = (
+  correct: number,
+  total: number,
+  section: "reading" | "listening",
+  options: GradingOptions = {},
+): BandConversion => {
+  const customTable =
+    options.bandConversion?.mode === "custom"
+      ? options.bandConversion[section]
+      : undefined;
+
+  if (customTable && customTable.length > 0) {
+    return {
+      band: lookupBand(customTable, correct),
+      method: "custom",
+      isEstimate: true,
+    };
+  }
+
+  const bandTable =
+    section === "reading"
+      ? READING_BAND_SCORES[options.readingModule || "academic"] ||
+        READING_BAND_SCORES.academic
+      : LISTENING_BAND_SCORES;
+
+  if (total > 0 && total !== FULL_TEST_QUESTION_COUNT) {
+    const scaled = Math.round((correct / total) * FULL_TEST_QUESTION_COUNT);
+    return {
+      band: lookupBand(bandTable, scaled),
+      method: "scaled",
+      isEstimate: true,
+    };
+  }
+
+  return {
+    band: lookupBand(bandTable, correct),
+    method: "official",
+    isEstimate: false,
+  };
+};
+
+// Convert raw score to IELTS band score
+export const getBandScore = (
+  correct: number,
+  total: number,
+  section: "reading" | "listening",
+  readingModule: ReadingModule = "academic",
+): number => convertRawScore(correct, total, section, { readingModule }).band;
+
+// Calculate overall band score from individual sections
+// Official rounding: .25 rounds up to .5 and .75 rounds up to the next band
+export const roundOverallBand = (average: number): number => {
+  const whole = Math.floor(average);
+  const fraction = average - whole;
+
+  if (fraction >= 0.75) return whole + 1;
+  if (fraction >= 0.25) return whole + 0.5;
+  return whole;
+};
+
+// Examiners report the speaking band as the criteria average, rounded down to a half band
+export const calculateSpeakingBandScore = (
+  criteria?: SpeakingCriteria | null,
+): number => {
+  if (!criteria) return 0;
+
+  const scores = (Object.keys(SPEAKING_CRITERIA_LABELS) as (keyof SpeakingCriteria)[]).map(
+    (key) => Number(criteria[key]) || 0,
+  );
+  if (scores.some((score) => score <= 0)) return 0;
+
+  const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  return Math.floor(average * 2) / 2;
+};
+
+// Criteria may arrive as a JSON string straight from the database
+export const parseSpeakingCriteria = (raw: any): SpeakingCriteria | null => {
+  if (!raw) return null;
+  if (typeof raw === "string") {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  return raw;
+};
+
+// Average all four skills with the official rounding. While a skill is missing
+// the band covers only the skills that have one and is marked incomplete.
+export const calculateOverallBand = (bands: SkillBands): OverallBand => {
+  const skills: IeltsSkill[] = ["reading", "listening", "writing", "speaking"];
+  const missingSkills = skills.filter((skill) => !(Number(bands[skill]) > 0));
+  const validBands = skills
+    .filter((skill) => !missingSkills.includes(skill))
+    .map((skill) => Number(bands[skill]));
+
+  if (validBands.length === 0) {
+    return { band: 0, status: "incomplete", missingSkills };
+  }
+
+  const average =
+    validBands.reduce((sum, band) => sum + band, 0) / validBands.length;
+
+  return {
+    band: roundOverallBand(average),
+    status: missingSkills.length === 0 ? "complete" : "incomplete",
+    missingSkills,
+  };
+};
+
+// Helper function to map dynamic question IDs to database question IDs
+const mapDynamicIdToDatabaseId = (dynamicId: string, questions: any[]): string | null => {
+  // Extract the question type and timestamp from the dynamic ID
+  const parts = dynamicId.split('_');
+  if (parts.length < 2) return null;
+  
+  const questionType = parts[0]; // mcq, q, matching, map, etc.
+  
+  // Find the question that matches this dynamic ID
+  // We'll use the question type and try to match by content similarity
+  const matchingQuestion = questions.find(question => {
+    // For MCQ questions, check if the question type matches
+    if (questionType === 'mcq' && question.question_type === 'multiple_choice') {
+      return true;
+    }
+    // For short answer questions, check if the question type matches
+    if (questionType === 'q' && question.question_type === 'short_answer') {
+      return true;
+    }
+    // For matching questions, check if the question type matches
+    if (questionType === 'matching' && question.question_type === 'matching') {
+      return true;
+    }
+    // For map questions, check if the question type matches
+    if (questionType === 'map' && question.question_type === 'map_labeling') {
+      return true;
+    }
+    return false;
+  });
+  
+  if (matchingQuestion) {
+    return matchingQuestion.id;
+  }
+  
+  return null;
+};
+
+// Helper function to find student answer for a question, handling both database IDs and dynamic IDs
+const findStudentAnswer = (question: any, userAnswers: any): any => {
+  // Get all answer keys that could match this question
+  const answerKeys = Object.keys(userAnswers);
+
+  // For MCQ questions, first try exact question ID match, then look for mcq_* keys
+  if (question.question_type === 'multiple_choice') {
+    // First try exact question ID match
+    if (userAnswers[question.id]) {
+      return userAnswers[question.id];
+    }
+    
+    // Try to find by question number in any key
+    const questionNumberStr = question.question_number?.toString();
+    if (questionNumberStr) {
+      const numberMatch = answerKeys.find(key => 
+        key.includes(questionNumberStr) && (key.startsWith('mcq_') || key.includes('TRUE') || key.includes('FALSE'))
+      );
+      if (numberMatch) {
+        return userAnswers[numberMatch];
+      }
+    }
+    
+    // Fallback: look for mcq_* keys
+    const mcqKey = answerKeys.find(key => key.startsWith('mcq_'));
+    if (mcqKey) {
+      return userAnswers[mcqKey];
+    }
+    
+    // Final fallback: look for any key that contains TRUE/FALSE/NOT GIVEN
+    const tfngKey = answerKeys.find(key => 
+      userAnswers[key] === 'TRUE' || userAnswers[key] === 'FALSE' || userAnswers[key] === 'NOT GIVEN'
+    );
+    if (tfngKey) {
+      return userAnswers[tfngKey];
+    }
+  }
+  
+  // For short answer questions, look for the specific question ID
+  if (question.question_type === 'short_answer') {
+    // First try to find exact question ID match
+    const exactMatch = answerKeys.find(key => key === question.id);
+    if (exactMatch) {
+      return userAnswers[exactMatch];
+    }
+    
+    // If no exact match, look for q_* keys that contain the question ID
+    const questionIdStr = question.id.toString();
+    const qKeyMatch = answerKeys.find(key => 
+      key.startsWith('q_') && key.includes(questionIdStr)
+    );
+    if (qKeyMatch) {
+      return userAnswers[qKeyMatch];
+    }
+    
+    // Additional fallback: try to match by question number in q_* keys
+    const questionNumberStr = question.question_number?.toString();
+    if (questionNumberStr) {
+      const numberMatch = answerKeys.find(key => 
+        key.startsWith('q_') && key.includes(questionNumberStr)
+      );
+      if (numberMatch) {
+        return userAnswers[numberMatch];
+      }
+    }
+    
+    // Final fallback: look for any q_* key (for dynamic keys)
+    // But be more careful - try to match by question order
+    const qKeys = answerKeys.filter(key => key.startsWith('q_'));
+    if (qKeys.length === 1) {
+      return userAnswers[qKeys[0]];
+    } else if (qKeys.length > 1) {
+      // Try to match by question order - assume q_* keys are in order
+      const sortedQKeys = qKeys.sort();
+      const questionIndex = question.question_number - 1; // Convert to 0-based index
+      if (questionIndex >= 0 && questionIndex < sortedQKeys.length) {
+        const selectedKey = sortedQKeys[questionIndex];
+        return userAnswers[selectedKey];
+      } else {
+        // If order doesn't work, try to match by passage/section
+        // Look for keys that haven't been used yet
+        const unusedQKeys = qKeys.filter(key => 
+          !Object.keys(userAnswers).some(existingKey => 
+            existingKey !== key && userAnswers[existingKey] === userAnswers[key]
+          )
+        );
+        if (unusedQKeys.length > 0) {
+          const selectedKey = unusedQKeys[0];
+          return userAnswers[selectedKey];
+        }
+      }
+    }
+    
+  }
+  
+  // TRUE/FALSE/NOT GIVEN and YES/NO/NOT GIVEN answers are stored under the question ID
+  if (isJudgementQuestion(question.question_type)) {
+    const judgementAnswer = userAnswers[question.id];
+    return judgementAnswer !== undefined && judgementAnswer !== "" ? judgementAnswer : null;
+  }
+
+  // Word bank blanks are stored under the question ID, or the editor node ID in listening
+  if (question.question_type === WORD_BANK_QUESTION_TYPE) {
+    return findWordBankAnswer(question, userAnswers);
+  }
+
+  // For matching questions, we'll handle them separately in the main processing
+  if (question.question_type === 'matching' || question.question_type === 'matching_headings') {
+    return null;
+  }
+
+  // For multiple selection questions
+  if (question.question_type === 'multiple_selection') {
+    const msAnswer = userAnswers[question.id];
+    if (Array.isArray(msAnswer)) {
+      return msAnswer;
+    } else if (msAnswer) {
+      // If it's a single value, convert to array
+      return [msAnswer];
+    }
+    return null;
+  }
+  
+  // For map questions, collect all map_* keys
+  if (question.question_type === 'map_labeling') {
+    const mapKeys = answerKeys.filter(key => key.startsWith('map_'));
+    if (mapKeys.length > 0) {
+      const mapAnswers = mapKeys.map(key => ({
+        key: key,
+        answer: userAnswers[key]
+      }));
+      return mapAnswers;
+    }
+  }
+
+  return null;
+};
+
+export interface GradingQuestionSet {
+  reading: any[];
+  listening: any[];
+  writing: any[];
+}
+
+// Load every gradable question of a test, flattened per section type
+export const loadGradingQuestions = async (
+  client: SupabaseClient,
+  testId: string,
+): Promise<GradingQuestionSet> => {
+  const [readingData, listeningData, writingData] = await Promise.all([
+    // Reading questions
+    client
+      .from("reading_sections")
+      .select(
+        `
+        id,
+        reading_questions (*)
+      `,
+      )
+      .eq("test_id", testId),
+
+    // Listening questions
+    client
+      .from("listening_sections")
+      .select(
+        `
+        id,
+        listening_questions (*)
+      `,
+      )
+      .eq("test_id", testId),
+
+    // Writing questions
+    client
+      .from("writing_sections")
+      .select(
+        `
+        id,
+        writing_questions (*)
+      `,
+      )
+      .eq("test_id", testId),
+  ]);
+
+  return {
+    reading:
+      readingData.data?.flatMap(
+        (section: any) => section.reading_questions || [],
+      ) || [],
+    listening:
+      listeningData.data?.flatMap(
+        (section: any) => section.listening_questions || [],
+      ) || [],
+    writing:
+      writingData.data?.flatMap(
+        (section: any) => section.writing_questions || [],
+      ) || [],
+  };
+};
+
+// Load the test-level settings that affect band conversion
+export const loadGradingOptions = async (
+  client: SupabaseClient,
+  testId: string,
+): Promise<GradingOptions> => {
+  const { data: test, error } = await client
+    .from("tests")
+    .select("ielts_module, band_conversion")
+    .eq("id", testId)
+    .single();
+
+  if (error) {
+    console.warn("Could not load grading options, using defaults:", error.message);
+    return {};
+  }
+
+  return {
+    readingModule: test?.ielts_module === "general_training" ? "general_training" : "academic",
+    bandConversion: test?.band_conversion || null,
+  };
+};
+
+// Grade a submission's answers against the loaded questions
+export const gradeAnswers = (
+  userAnswers: Record<string, any>,
+  questions: GradingQuestionSet,
+  options: GradingOptions = {},
+): GradingResult => {
+  const readingModule = options.readingModule || "academic";
+
+  // Process reading questions
+  const readingQuestions = [...questions.reading];
+
+  // Sort questions by question_number to ensure proper order
+  readingQuestions.sort((a: any, b: any) => a.question_number - b.question_number);
+
+  const readingResults: QuestionResult[] = [];
+  const processedQuestionIds = new Set<string>();
+  
+  readingQuestions.forEach((question: any) => {
+    // Skip if already processed
+    if (processedQuestionIds.has(question.id)) {
+      return;
+    }
+    processedQuestionIds.add(question.id);
+    
+    // Use the same helper function for reading questions
+    const userAnswer = findStudentAnswer(question, userAnswers);
+    
+    // Process MCQ questions
+    if (question.question_type === "multiple_choice") {
+
+      // Handle different MCQ answer formats
+      let correctAnswer = "";
+      
+      // First, try to parse options (they're stored as JSON strings)
+      let options: string[] = [];
+      try {
+        if (typeof question.options === 'string') {
+          options = JSON.parse(question.options);
+        } else if (Array.isArray(question.options)) {
+          options = question.options;
+        } else {
+          options = [];
+        }
+      } catch (error) {
+        console.error("🔍 Error parsing MCQ options:", error);
+        options = [];
+      }
+      
+      // Check if correct_answer is a numeric index
+      if (question.correct_answer !== null && question.correct_answer !== undefined && question.correct_answer !== "") {
+        const correctAnswerValue = question.correct_answer;
+        
+        // Check if it's a numeric index
+        if (!isNaN(parseInt(correctAnswerValue.toString()))) {
+          const correctIndex = parseInt(correctAnswerValue.toString());
+          
+          if (correctIndex >= 0 && correctIndex < options.length) {
+            correctAnswer = options[correctIndex];
+          } else {
+            console.warn("Invalid reading MCQ correct answer index for question:", question.id);
+            correctAnswer = options[0] || "";
+          }
+        } else {
+          // It's a string answer, use it directly
+          correctAnswer = correctAnswerValue.toString();
+        }
+      } else if (question.correct_index !== null && question.correct_index !== undefined) {
+        // If correct_index is provided, get the answer from options
+        const correctIndex = parseInt(question.correct_index.toString());
+        
+        if (correctIndex >= 0 && correctIndex < options.length) {
+          correctAnswer = options[correctIndex];
+        } else {
+          console.warn("Invalid reading MCQ correct answer index for question:", question.id);
+          correctAnswer = options[0] || "";
+        }
+      } else {
+        console.warn("No correct answer found for MCQ question:", question.id);
+        correctAnswer = options[0] || "";
+      }
+
+      const isCorrect = answersMatch(userAnswer, correctAnswer);
+      
+      readingResults.push({
+        questionId: question.id,
+        questionText: question.question_text,
+        questionType: question.question_type,
+        userAnswer,
+        correctAnswer,
+        isCorrect,
+        points: isCorrect ? question.points || 1 : 0,
+        section: "reading" as const,
+      });
+    } else if (question.question_type === "multiple_selection") {
+
+      // Parse options
+      let options: string[] = [];
+      try {
+        if (typeof question.options === 'string') {
+          options = JSON.parse(question.options);
+        } else if (Array.isArray(question.options)) {
+          options = question.options;
+        } else {
+          options = [];
+        }
+      } catch (error) {
+        console.error("🔍 Error parsing MS options:", error);
+        options = [];
+      }
+
+      // Parse correct answers (array of actual values, not indices)
+      let correctAnswers: string[] = [];
+      try {
+        if (typeof question.correct_answer === 'string') {
+          correctAnswers = JSON.parse(question.correct_answer);
+        } else if (Array.isArray(question.correct_answer)) {
+          correctAnswers = question.correct_answer;
+        } else {
+          correctAnswers = [];
+        }
+      } catch (error) {
+        console.error("🔍 Error parsing MS correct answers:", error);
+        correctAnswers = [];
+      }
+
+      // Ensure userAnswer is an array
+      let userAnswersArray: string[] = [];
+      if (Array.isArray(userAnswer)) {
+        userAnswersArray = userAnswer;
+      } else if (userAnswer) {
+        // If it's a single value, convert to array
+        userAnswersArray = [userAnswer];
+      }
+
+      // Create results in the correct order: correct matches first, then wrong ones
+      const results: QuestionResult[] = [];
+      const usedUserAnswers = new Set<string>();
+      const usedCorrectAnswers = new Set<string>();
+
+      // First, find all correct matches and create questions for each correct answer
+      correctAnswers.forEach((correctAnswer, index) => {
+        const userSelectedThisAnswer = userAnswersArray.includes(correctAnswer);
+        
+        if (userSelectedThisAnswer) {
+          usedUserAnswers.add(correctAnswer);
+          usedCorrectAnswers.add(correctAnswer);
+        }
+        
+        results.push({
+          questionId: `${question.id}_${index}`,
+          questionText: `Question ${question.question_number + index}`,
+          questionType: question.question_type,
+          userAnswer: userSelectedThisAnswer ? correctAnswer : null,
+          correctAnswer: correctAnswer,
+          isCorrect: userSelectedThisAnswer,
+          points: userSelectedThisAnswer ? 1 : 0,
+          section: "reading",
+        });
+      });
+
+      // Now handle any remaining user answers that weren't matched to correct answers
+      userAnswersArray.forEach((userAnswer) => {
+        if (!usedUserAnswers.has(userAnswer)) {
+          // Find a correct answer that hasn't been used yet
+          const unusedCorrectAnswer = correctAnswers.find(ca => !usedCorrectAnswers.has(ca));
+          
+          if (unusedCorrectAnswer) {
+            usedCorrectAnswers.add(unusedCorrectAnswer);
+            usedUserAnswers.add(userAnswer);
+            
+            // Find the index of this correct answer to get the right question number
+            const correctAnswerIndex = correctAnswers.indexOf(unusedCorrectAnswer);
+            const questionNumber = question.question_number + correctAnswerIndex;
+            
+            // Update the existing result for this correct answer
+            const existingResultIndex = results.findIndex(r => r.correctAnswer === unusedCorrectAnswer);
+            if (existingResultIndex !== -1) {
+              results[existingResultIndex] = {
+                ...results[existingResultIndex],
+                userAnswer: userAnswer,
+                isCorrect: false,
+                points: 0,
+              };
+            }
+          }
+        }
+      });
+
+      // Add all results to readingResults
+      readingResults.push(...results);
+
+    }
+    
+    // Special handling for matching questions
+    else if (question.question_type === "matching") {
+      
+      try {
+        let matchingData;
+        try {
+          if (typeof question.correct_answer === "string") {
+            matchingData = JSON.parse(question.correct_answer);
+          } else {
+            matchingData = question.correct_answer;
+          }
+        } catch (parseError) {
+          console.error("Error parsing reading matching correct_answer:", parseError);
+          matchingData = null;
+        }
+        
+        // For reading matching questions, the correct_answer is stored as {"left": [...], "right": [...]}
+        if (matchingData && matchingData.left && matchingData.right) {
+          const leftItems = matchingData.left;
+          const rightItems = matchingData.right;
+          
+          // Process each pair individually like listening system
+          leftItems.forEach((leftItem: string, index: number) => {
+            // Try different answer key formats
+            let studentAnswer = null;
+            let studentAnswerKey = null;
+            
+            // First try the standard format: questionId_index
+            const standardKey = `${question.id}_${index}`;
+            if (userAnswers[standardKey]) {
+              studentAnswer = userAnswers[standardKey];
+              studentAnswerKey = standardKey;
+            } else {
+              // Try dynamic matching keys (matching_*) that contain the question ID
+              const questionIdStr = question.id.toString();
+              const dynamicKeyWithId = Object.keys(userAnswers).find(key => 
+                key.startsWith('matching_') && key.includes(questionIdStr) && key.includes(`_${index}`)
+              );
+              if (dynamicKeyWithId) {
+                studentAnswer = userAnswers[dynamicKeyWithId];
+                studentAnswerKey = dynamicKeyWithId;
+              } else {
+                // Try any matching_* key with the right index, but be more specific
+                // Look for keys that match the pattern matching_timestamp_index
+                const dynamicKey = Object.keys(userAnswers).find(key => 
+                  key.startsWith('matching_') && key.includes(`_${index}`) && 
+                  // Make sure it's not already used by another question
+                  !readingResults.some(result => result.questionId === key)
+                );
+                if (dynamicKey) {
+                  studentAnswer = userAnswers[dynamicKey];
+                  studentAnswerKey = dynamicKey;
+                }
+              }
+            }
+            
+            const correctAnswer = rightItems[index];
+            const isCorrect = answersMatch(studentAnswer, correctAnswer);
+            
+            readingResults.push({
+              questionId: studentAnswerKey || `${question.id}_${index}`,
+              questionText: `${question.question_number}. ${leftItem}`,
+              questionType: "matching",
+              userAnswer: studentAnswer || "No answer provided",
+              correctAnswer: correctAnswer || "No correct answer set",
+              isCorrect,
+              points: isCorrect ? question.points || 1 : 0,
+              section: "reading" as const,
+              explanation: question.explanation,
+            });
+          });
+        } else {
+          console.warn("Invalid matching data structure for question:", question.id);
+        }
+      } catch (error) {
+        console.error("🔍 Error processing reading matching question:", error);
+      }
+    }
+    
+    // Matching headings: every paragraph is its own question
+    else if (question.question_type === "matching_headings") {
+      readingResults.push(...gradeMatchingHeadings(question, userAnswers));
+    }
+
+    // Completion blanks answered with a letter from a word bank
+    else if (question.question_type === WORD_BANK_QUESTION_TYPE) {
+      readingResults.push(gradeWordBankGap(question, userAnswers));
+    }
+
+    // TRUE/FALSE/NOT GIVEN and YES/NO/NOT GIVEN statements
+    else if (isJudgementQuestion(question.question_type)) {
+      const correctAnswer = normalizeJudgementAnswer(
+        question.correct_answer,
+        question.question_type,
+      );
+      const isCorrect = judgementAnswersMatch(
+        userAnswer,
+        correctAnswer,
+        question.question_type,
+      );
+
+      readingResults.push({
+        questionId: question.id,
+        questionText: question.question_text,
+        questionType: question.question_type,
+        userAnswer:
+          normalizeJudgementAnswer(userAnswer, question.question_type) ||
+          userAnswer ||
+          "No answer provided",
+        correctAnswer: correctAnswer || "No correct answer set",
+        isCorrect,
+        points: isCorrect ? question.points || 1 : 0,
+        section: "reading" as const,
+        explanation: question.explanation,
+      });
+    }
+
+    // Special handling for short answer questions
+    else if (question.question_type === "short_answer") {
+      try {
+        let correctAnswer = question.correct_answer;
+        
+        // Parse correct answer if it's stored as JSON
+        if (typeof correctAnswer === "string") {
+          try {
+            const parsed = JSON.parse(correctAnswer);
+            if (Array.isArray(parsed) && parsed.length > 0) {
+              correctAnswer = parsed[0]; // Take the first answer if it's an array
+            }
+          } catch (e) {
+            // If parsing fails, use as is
+            correctAnswer = question.correct_answer;
+          }
+        } else if (Array.isArray(correctAnswer) && correctAnswer.length > 0) {
+          correctAnswer = correctAnswer[0]; // Take the first answer if it's an array
+        }
+        
+        const { isCorrect, explanation } = gradeFreeTextAnswer(
+          question,
+          userAnswer,
+          correctAnswer,
+        );
+        
+        readingResults.push({
+          questionId: question.id,
+          questionText: question.question_text,
+          questionType: question.question_type,
+          userAnswer: userAnswer || "No answer provided",
+          correctAnswer: correctAnswer || "No correct answer set",
+          isCorrect,
+          points: isCorrect ? question.points || 1 : 0,
+          section: "reading" as const,
+          explanation,
+        });
+      } catch (error) {
+        console.error("🔍 Error processing reading short answer question:", error);
+      }
+    }
+    
+    // Default processing for other question types
+    else {
+      const isCorrect = answersMatch(userAnswer, question.correct_answer);
+      
+      readingResults.push({
+        questionId: question.id,
+        questionText: question.question_text,
+        questionType: question.question_type,
+        userAnswer,
+        correctAnswer: question.correct_answer,
+        isCorrect,
+        points: isCorrect ? question.points || 1 : 0,
+        section: "reading" as const,
+        explanation: question.explanation,
+      });
+    }
+  });
+
+  // Process listening questions
+  const listeningQuestions = questions.listening;
+
+  const listeningResults: QuestionResult[] = [];
+  let questionCounter = 1; // Track sequential question numbers
+  
+  listeningQuestions.forEach((question: any) => {
+    // Use the new helper function to find student answer
+    const userAnswer = findStudentAnswer(question, userAnswers);
+    
+    // Handle different question types
+    if (question.question_type === "map_labeling" || question.question_type === "map_diagram") {
+      // Map/diagram questions: userAnswer is now an array from findStudentAnswer
+      
+      try {
+        let mapData;
+        try {
+          if (typeof question.correct_answer === "string") {
+            mapData = JSON.parse(question.correct_answer);
+          } else {
+            mapData = question.correct_answer;
+          }
+        } catch (parseError) {
+          console.error("Error parsing map correct_answer:", parseError);
+          mapData = [];
+        }
+        
+        const boxes = Array.isArray(mapData) ? mapData : (mapData?.boxes || []);
+        
+        // If userAnswer is an array from findStudentAnswer, use it
+        if (Array.isArray(userAnswer)) {
+          userAnswer.forEach((answerObj: any, index: number) => {
+            const box = boxes[index] || {};
+            const correctAnswer = box.answer || box.label || "No answer set";
+            const isCorrect = answersMatch(answerObj.answer, correctAnswer);
+            
+            listeningResults.push({
+              questionId: answerObj.key,
+              questionText: `Question ${questionCounter}: ${question.question_text} - Label ${index + 1}`,
+              questionType: "map_labeling",
+              userAnswer: answerObj.answer || "No answer provided",
+              correctAnswer: correctAnswer,
+              isCorrect,
+              points: isCorrect ? question.points || 1 : 0,
+              section: "listening" as const,
+              explanation: question.explanation,
+            });
+            questionCounter++;
+          });
+        } else {
+          // Fallback: treat as single question
+          const isCorrect = answersMatch(userAnswer, question.correct_answer);
+          
+          listeningResults.push({
+            questionId: question.id,
+            questionText: `Question ${questionCounter}: ${question.question_text || 'Unknown'}`,
+            questionType: question.question_type || 'unknown',
+            userAnswer: userAnswer !== undefined && userAnswer !== null ? userAnswer : "No answer provided",
+            correctAnswer: question.correct_answer || "No correct answer set",
+            isCorrect,
+            points: isCorrect ? question.points || 1 : 0,
+            section: "listening" as const,
+            explanation: question.explanation,
+          });
+          questionCounter++;
+        }
+      } catch (error) {
+        console.error("🔍 Error parsing map data:", error);
+        // Fallback: treat as single question
+        const isCorrect = answersMatch(userAnswer, question.correct_answer);
+        
+        listeningResults.push({
+          questionId: question.id,
+          questionText: `Question ${questionCounter}: ${question.question_text || 'Unknown'}`,
+          questionType: question.question_type || 'unknown',
+          userAnswer: userAnswer !== undefined && userAnswer !== null ? userAnswer : "No answer provided",
+          correctAnswer: question.correct_answer || "No correct answer set",
+          isCorrect,
+          points: isCorrect ? question.points || 1 : 0,
+          section: "listening" as const,
+          explanation: question.explanation,
+        });
+        questionCounter++;
+      }
+    } else if (question.question_type === "matching") {
+      // Matching questions: userAnswer is now an array from findStudentAnswer
+      try {
+        
+        let matchingData;
+        try {
+          if (typeof question.correct_answer === "string") {
+            matchingData = JSON.parse(question.correct_answer);
+          } else {
+            matchingData = question.correct_answer;
+          }
+        } catch (parseError) {
+          console.error("Error parsing matching correct_answer:", parseError);
+          matchingData = [];
+        }
+        
+        // Handle the format where pairs are stored directly as an array
+        const pairs = Array.isArray(matchingData) ? matchingData : [];
+        
+        // Process each pair and find the corresponding student answer
+        pairs.forEach((pair: any, pairIndex: number) => {
+          // Try to find the student answer for this pair
+          const answerKeys = Object.keys(userAnswers).filter(key => key.startsWith('matching_'));
+          const studentAnswer = answerKeys[pairIndex] ? userAnswers[answerKeys[pairIndex]] : null;
+          const correctAnswer = pair.right || "No answer set";
+          const isCorrect = answersMatch(studentAnswer, correctAnswer);
+          
+          listeningResults.push({
+            questionId: answerKeys[pairIndex] || `matching_${pairIndex}`,
+            questionText: `Question ${questionCounter}: ${pair.left || `Matching ${pairIndex + 1}`}`,
+            questionType: "matching",
+            userAnswer: studentAnswer || "No answer provided",
+            correctAnswer: correctAnswer,
+            isCorrect,
+            points: isCorrect ? question.points || 1 : 0,
+            section: "listening" as const,
+            explanation: question.explanation,
+          });
+          questionCounter++;
+        });
+      } catch (error) {
+        console.error("🔍 Error parsing matching data:", error);
+        // Fallback: treat as single question
+        const isCorrect = answersMatch(userAnswer, question.correct_answer);
+        
+        listeningResults.push({
+          questionId: question.id,
+          questionText: `Question ${questionCounter}: ${question.question_text || 'Unknown'}`,
+          questionType: question.question_type || 'unknown',
+          userAnswer: userAnswer !== undefined && userAnswer !== null ? userAnswer : "No answer provided",
+          correctAnswer: question.correct_answer || "No correct answer set",
+          isCorrect,
+          points: isCorrect ? question.points || 1 : 0,
+          section: "listening" as const,
+          explanation: question.explanation,
+        });
+        questionCounter++;
+      }
+    } else if (question.question_type === WORD_BANK_QUESTION_TYPE) {
+      listeningResults.push(
+        gradeWordBankGap(
+          question,
+          userAnswers,
+          "listening",
+          `Question ${questionCounter}: ${question.question_text || 'Unknown'}`,
+        ),
+      );
+      questionCounter++;
+    } else {
+      // Regular questions (short_answer, multiple_choice, etc.)
+      // userAnswer is already set by findStudentAnswer function above
+      let correctAnswer = question.correct_answer;
+      
+      // Special handling for MCQ questions
+      if (question.question_type === "multiple_choice") {
+        
+        // For MCQ questions, the correct_answer is stored as an index
+        // but the student answer is stored as the actual option text
+        // We need to convert the index to the actual option text for comparison
+        try {
+          let options = question.options;
+          if (typeof options === "string") {
+            options = JSON.parse(options);
+          }
+          
+          if (Array.isArray(options) && options.length > 0) {
+            const correctIndex = parseInt(correctAnswer);
+            if (!isNaN(correctIndex) && correctIndex >= 0 && correctIndex < options.length) {
+              correctAnswer = options[correctIndex];
+            }
+          }
+        } catch (error) {
+          console.error("🔍 Error processing MCQ options:", error);
+        }
+      }
+      
+      // Try to parse JSON for short answer questions that might have multiple answers
+      if (question.question_type === "short_answer" && typeof correctAnswer === "string") {
+        try {
+          const parsed = JSON.parse(correctAnswer);
+          if (Array.isArray(parsed)) {
+            correctAnswer = parsed.join(", ");
+          }
+        } catch (e) {
+          // If parsing fails, use the original string
+        }
+      }
+      
+      const { isCorrect, explanation } =
+        question.question_type === "short_answer"
+          ? gradeFreeTextAnswer(question, userAnswer, correctAnswer)
+          : isJudgementQuestion(question.question_type)
+            ? {
+                isCorrect: judgementAnswersMatch(
+                  userAnswer,
+                  correctAnswer,
+                  question.question_type,
+                ),
+                explanation: question.explanation,
+              }
+            : {
+              isCorrect: answersMatch(userAnswer, correctAnswer),
+              explanation: question.explanation,
+            };
+      
+      listeningResults.push({
+        questionId: question.id,
+        questionText: `Question ${questionCounter}: ${question.question_text || 'Unknown'}`,
+        questionType: question.question_type || 'unknown',
+        userAnswer: userAnswer !== undefined && userAnswer !== null ? userAnswer : "No answer provided",
+        correctAnswer: correctAnswer || "No correct answer set",
+        isCorrect,
+        points: isCorrect ? question.points || 1 : 0,
+        section: "listening" as const,
+        explanation,
+      });
+      questionCounter++;
+    }
+  });
+
+  // Process writing questions (basic scoring - would need AI for full assessment)
+  const writingQuestions = questions.writing;
+
+  const writingResults = writingQuestions.map((question: any) => {
+    const userAnswer = userAnswers[question.id];
+    const hasAnswer = userAnswer && String(userAnswer).trim().length > 0;
+
+    // Basic writing scoring - assign partial credit for having an answer
+    const points = hasAnswer ? Math.max(1, question.points || 1) * 0.6 : 0;
+
+    return {
+      questionId: question.id,
+      questionText: question.question_text,
+      questionType: question.question_type,
+      userAnswer,
+      correctAnswer: "Writing requires manual assessment",
+      isCorrect: hasAnswer,
+      points,
+      section: "writing" as const,
+      explanation: "Writing tasks require manual grading by instructor",
+    };
+  });
+
+  // Calculate scores
+  const readingCorrect = readingResults.filter((r) => r.isCorrect).length;
+  const readingTotal = readingResults.length;
+  const readingPercentage =
+    readingTotal > 0 ? (readingCorrect / readingTotal) * 100 : 0;
+  const readingConversion = convertRawScore(
+    readingCorrect,
+    readingTotal,
+    "reading",
+    { ...options, readingModule },
+  );
+  const readingBandScore = readingTotal > 0 ? readingConversion.band : 0;
+
+  const listeningCorrect = listeningResults.filter((r) => r.isCorrect).length;
+  const listeningTotal = listeningResults.length;
+  const listeningPercentage =
+    listeningTotal > 0 ? (listeningCorrect / listeningTotal) * 100 : 0;
+  const listeningConversion = convertRawScore(
+    listeningCorrect,
+    listeningTotal,
+    "listening",
+    options,
+  );
+  const listeningBandScore = listeningTotal > 0 ? listeningConversion.band : 0;
+
+  const writingScore = writingResults.reduce((sum, r) => sum + r.points, 0);
+  const writingMaxScore = writingResults.reduce(
+    (sum, r) =>
+      sum +
+      (r.questionId
+        ? writingQuestions.find((q) => q.id === r.questionId)?.points || 1
+        : 1),
+    0,
+  );
+  const writingBandScore =
+    writingMaxScore > 0
+      ? Math.min(9, Math.max(1, (writingScore / writingMaxScore) * 9))
+      : 0;
+
+  const speakingCriteria = options.speakingCriteria || null;
+  const speakingBandScore = calculateSpeakingBandScore(speakingCriteria);
+
+  const overallBand = calculateOverallBand({
+    reading: readingBandScore,
+    listening: listeningBandScore,
+    writing: writingBandScore,
+    speaking: speakingBandScore,
+  });
+  const overallBandScore = overallBand.band;
+
+  return {
+    readingScore: readingPercentage,
+    listeningScore: listeningPercentage,
+    writingScore:
+      writingMaxScore > 0 ? (writingScore / writingMaxScore) * 100 : 0,
+    totalScore: overallBandScore * 10, // Convert to 0-100 scale
+    readingBandScore,
+    listeningBandScore,
+    writingBandScore,
+    speakingBandScore,
+    overallBandScore,
+    overallBandStatus: overallBand.status,
+    missingSkills: overallBand.missingSkills,
+    breakdown: {
+      reading: {
+        correct: readingCorrect,
+        total: readingTotal,
+        percentage: readingPercentage,
+        module: readingModule,
+        conversion: readingConversion.method,
+        isEstimate: readingConversion.isEstimate,
+      },
+      listening: {
+        correct: listeningCorrect,
+        total: listeningTotal,
+        percentage: listeningPercentage,
+        conversion: listeningConversion.method,
+        isEstimate: listeningConversion.isEstimate,
+      },
+      writing: {
+        score: writingScore,
+        criteria: {
+          taskAchievement: writingBandScore,
+          coherenceCohesion: writingBandScore,
+          lexicalResource: writingBandScore,
+          grammarAccuracy: writingBandScore,
+        },
+      },
+      speaking: {
+        score: speakingBandScore,
+        criteria: speakingCriteria,
+      },
+    },
+    detailedResults: [
+      ...readingResults,
+      ...listeningResults,
+      ...writingResults,
+    ],
+  };
+};
+
+// Submission columns a teacher may set when marking by hand
+export const MANUAL_GRADE_FIELDS = [
+  "reading_score",
+  "listening_score",
+  "writing_score",
+  "speaking_score",
+  "speaking_criteria",
+  "total_score",
+  "score",
+  "overall_band_status",
+  "feedback",
+  "final_comments",
+  "auto_grading_data",
+  "writing_grading_data",
+  "manual_overrides",
+];
+
+// Statuses a teacher may move a submission to
+export const MANUAL_GRADE_STATUSES = ["submitted", "graded", "draft"];
+
+// Keep only the grading columns of a teacher's update
+export const pickManualGrades = (grades: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(
+    Object.entries(grades || {}).filter(([field]) =>
+      MANUAL_GRADE_FIELDS.includes(field),
+    ),
+  );
+
+// Build the test_submissions update that stores a grading result
+export const buildGradedSubmissionUpdate = (
+  gradingResult: GradingResult,
+  gradedBy: string,
+) => {
+  // Create submission_data from detailed results
+  const submissionData = gradingResult.detailedResults.map((result, index) => ({
+    question_number: index + 1,
+    student_answer: result.userAnswer ? JSON.stringify(result.userAnswer) : "",
+    correct_answer: result.correctAnswer ? JSON.stringify(result.correctAnswer) : "",
+    is_correct: result.isCorrect,
+  }));
+
+  return {
+    reading_score: gradingResult.readingBandScore,
+    listening_score: gradingResult.listeningBandScore,
+    writing_score: gradingResult.writingBandScore,
+    speaking_score: gradingResult.speakingBandScore || null,
+    total_score: gradingResult.overallBandScore,
+    overall_band_status: gradingResult.overallBandStatus,
+    status: "graded",
+    graded_at: new Date().toISOString(),
+    graded_by: gradedBy,
+    auto_grading_data: JSON.stringify(gradingResult),
+    submission_data: submissionData,
+  };
+};
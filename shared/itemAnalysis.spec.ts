@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import type { QuestionResult } from "./grading";
+import {
+  analyzeItems,
+  getBaseQuestionId,
+  getItemFlag,
+  type GradedResponse,
+  type ItemStats,
+} from "./itemAnalysis";
+
+const result = (
+  questionId: string,
+  isCorrect: boolean,
+  userAnswer: any,
+  overrides: Partial<QuestionResult> = {},
+): QuestionResult => ({
+  questionId,
+  questionText: `Question ${questionId}`,
+  questionType: "multiple_choice",
+  userAnswer,
+  correctAnswer: "B",
+  isCorrect,
+  points: isCorrect ? 1 : 0,
+  section: "reading",
+  ...overrides,
+});
+
+const response = (
+  submissionId: string,
+  results: QuestionResult[],
+): GradedResponse => ({ submissionId, results });
+
+const questions = {
+  q1: { id: "q1", questionNumber: 1, options: ["A", "B", "C"] },
+  q2: { id: "q2", questionNumber: 2, options: [] },
+};
+
+describe("getBaseQuestionId", () => {
+  it("should strip the slot suffix of multiple selection items", () => {
+    expect(getBaseQuestionId("abc-123_2")).toBe("abc-123");
+    expect(getBaseQuestionId("abc-123")).toBe("abc-123");
+  });
+});
+
+describe("analyzeItems", () => {
+  it("should report percent correct and the chosen options", () => {
+    const [item] = analyzeItems(
+      [
+        response("s1", [result("q1", true, "B")]),
+        response("s2", [result("q1", false, "A")]),
+        response("s3", [result("q1", false, "A")]),
+        response("s4", [result("q1", false, null)]),
+      ],
+      questions,
+    );
+
+    expect(item.percentCorrect).toBe(25);
+    expect(item.distractors).toEqual([
+      { option: "A", count: 2, isCorrect: false },
+      { option: "B", count: 1, isCorrect: true },
+      { option: "C", count: 0, isCorrect: false },
+      { option: "No answer", count: 1, isCorrect: false },
+    ]);
+  });
+
+  it("should compare the top and bottom scorers", () => {
+    const shortAnswer = { questionType: "short_answer" };
+    const items = analyzeItems(
+      [
+        response("s1", [result("q1", true, "B"), result("q2", false, "x", shortAnswer), result("q3", true, "B")]),
+        response("s2", [result("q1", true, "B"), result("q2", false, "x", shortAnswer), result("q3", true, "B")]),
+        response("s3", [result("q1", false, "A"), result("q2", false, "x", shortAnswer), result("q3", true, "B")]),
+        response("s4", [result("q1", false, "C"), result("q2", true, "y", shortAnswer), result("q3", false, "A")]),
+      ],
+      questions,
+    );
+
+    const byId = Object.fromEntries(items.map((item) => [item.itemId, item]));
+    expect(byId.q1.discrimination).toBe(1);
+    expect(byId.q2.discrimination).toBe(-1);
+  });
+
+  it("should rank the most frequent wrong short answers", () => {
+    const shortAnswer = { questionType: "short_answer", correctAnswer: "library" };
+    const [item] = analyzeItems(
+      [
+        response("s1", [result("q2", false, "Libary", shortAnswer)]),
+        response("s2", [result("q2", false, "libary ", shortAnswer)]),
+        response("s3", [result("q2", false, "museum", shortAnswer)]),
+        response("s4", [result("q2", false, "No answer provided", shortAnswer)]),
+        response("s5", [result("q2", true, "library", shortAnswer)]),
+      ],
+      questions,
+    );
+
+    expect(item.wrongAnswers).toEqual([
+      { answer: "Libary", count: 2 },
+      { answer: "museum", count: 1 },
+    ]);
+  });
+
+  it("should pool multiple selection slots into one distribution", () => {
+    const selection = { questionType: "multiple_selection" };
+    const items = analyzeItems(
+      [
+        response("s1", [
+          result("ms_0", true, "A", { ...selection, correctAnswer: "A" }),
+          result("ms_1", false, "D", { ...selection, correctAnswer: "C" }),
+        ]),
+      ],
+      { ms: { id: "ms", questionNumber: 3, options: ["A", "B", "C", "D"] } },
+    );
+
+    expect(items).toHaveLength(2);
+    expect(items[0].distractors).toEqual([
+      { option: "A", count: 1, isCorrect: true },
+      { option: "B", count: 0, isCorrect: false },
+      { option: "C", count: 0, isCorrect: true },
+      { option: "D", count: 1, isCorrect: false },
+    ]);
+  });
+
+  it("should leave out writing tasks", () => {
+    expect(
+      analyzeItems(
+        [response("s1", [result("w1", false, "essay", { section: "writing" })])],
+        questions,
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("getItemFlag", () => {
+  const item = (percentCorrect: number, discrimination: number | null) =>
+    ({ percentCorrect, discrimination }) as ItemStats;
+
+  it("should flag a likely wrong key before difficulty", () => {
+    expect(getItemFlag(item(95, -0.5))).toBe("negative_discrimination");
+  });
+
+  it("should flag items that are too easy, too hard or weak", () => {
+    expect(getItemFlag(item(95, 0.1))).toBe("too_easy");
+    expect(getItemFlag(item(10, 0.1))).toBe("too_hard");
+    expect(getItemFlag(item(60, 0.1))).toBe("low_discrimination");
+    expect(getItemFlag(item(60, 0.5))).toBeNull();
+  });
+});
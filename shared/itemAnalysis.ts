@@ -0,0 +1,270 @@
+import type { QuestionResult } from "./grading";
+import { JUDGEMENT_OPTIONS, isJudgementQuestion } from "./trueFalseNotGiven";
+import { WORD_BANK_QUESTION_TYPE } from "./completion";
+
+/**
+ * Item analysis for a test: how hard each question was, how well it separates
+ * strong from weak students, and which wrong answers students chose.
+ * Built from the `QuestionResult`s the grader produces for every submission.
+ */
+
+export interface ItemQuestionMeta {
+  id: string;
+  questionNumber?: number | null;
+  options: string[];
+}
+
+export interface GradedResponse {
+  submissionId: string;
+  results: QuestionResult[];
+}
+
+export interface OptionCount {
+  option: string;
+  count: number;
+  isCorrect: boolean;
+}
+
+export interface WrongAnswerCount {
+  answer: string;
+  count: number;
+}
+
+export interface ItemStats {
+  // Multiple selection questions are graded as one item per correct answer
+  itemId: string;
+  questionId: string;
+  questionText: string;
+  questionType: string;
+  section: QuestionResult["section"];
+  correctAnswer: any;
+  responses: number;
+  correct: number;
+  percentCorrect: number;
+  // Share correct in the top group minus share correct in the bottom group
+  discrimination: number | null;
+  distractors: OptionCount[] | null;
+  wrongAnswers: WrongAnswerCount[] | null;
+}
+
+export type ItemFlag =
+  | "too_easy"
+  | "too_hard"
+  | "negative_discrimination"
+  | "low_discrimination";
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  too_easy: "Too easy",
+  too_hard: "Too hard",
+  negative_discrimination: "Check the key",
+  low_discrimination: "Weak discrimination",
+};
+
+// Classic item analysis compares the top and bottom 27% of scorers
+export const DISCRIMINATION_GROUP_SHARE = 0.27;
+
+const MAX_WRONG_ANSWERS = 5;
+const NO_ANSWER = "No answer";
+
+// The grader fills blanks with placeholder text for free-text answers
+const BLANK_ANSWERS = new Set(["", "no answer provided"]);
+
+export const isBlankAnswer = (answer: any): boolean =>
+  answer === null ||
+  answer === undefined ||
+  BLANK_ANSWERS.has(String(answer).trim().toLowerCase());
+
+const normalize = (answer: any) =>
+  String(answer ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+
+export const getBaseQuestionId = (itemId: string) =>
+  itemId.replace(/_\d+$/, "");
+
+const percentage = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+
+const countCorrect = (results: QuestionResult[]) =>
+  results.filter((result) => result.isCorrect).length;
+
+const shareCorrect = (responses: GradedResponse[], itemId: string) => {
+  const answered = responses
+    .map((response) => response.results.find((r) => r.questionId === itemId))
+    .filter((result): result is QuestionResult => !!result);
+  if (answered.length === 0) return null;
+  return answered.filter((result) => result.isCorrect).length / answered.length;
+};
+
+const countOptions = (
+  chosen: any[],
+  options: string[],
+  correctAnswers: any[],
+): OptionCount[] => {
+  const correct = new Set(correctAnswers.map(normalize));
+  const counts = new Map<string, OptionCount>(
+    options.map((option) => [
+      normalize(option),
+      { option, count: 0, isCorrect: correct.has(normalize(option)) },
+    ]),
+  );
+
+  chosen.forEach((answer) => {
+    const key = isBlankAnswer(answer) ? NO_ANSWER : normalize(answer);
+    const entry = counts.get(key) || {
+      option: isBlankAnswer(answer) ? NO_ANSWER : String(answer),
+      count: 0,
+      isCorrect: false,
+    };
+    entry.count += 1;
+    counts.set(key, entry);
+  });
+
+  return [...counts.values()];
+};
+
+const countWrongAnswers = (results: QuestionResult[]): WrongAnswerCount[] => {
+  const counts = new Map<string, WrongAnswerCount>();
+  results
+    .filter((result) => !result.isCorrect && !isBlankAnswer(result.userAnswer))
+    .forEach((result) => {
+      const key = normalize(result.userAnswer);
+      const entry = counts.get(key) || {
+        answer: String(result.userAnswer).trim(),
+        count: 0,
+      };
+      entry.count += 1;
+      counts.set(key, entry);
+    });
+
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.answer.localeCompare(b.answer))
+    .slice(0, MAX_WRONG_ANSWERS);
+};
+
+/**
+ * Per-item statistics over every graded response to a test.
+ * Writing results are left out: they are marked by hand, not item by item.
+ */
+export const analyzeItems = (
+  responses: GradedResponse[],
+  questions: Record<string, ItemQuestionMeta>,
+): ItemStats[] => {
+  const gradable = responses.map((response) => ({
+    ...response,
+    results: response.results.filter((result) => result.section !== "writing"),
+  }));
+
+  // Rank students by raw score to form the top and bottom groups
+  const ranked = [...gradable].sort(
+    (a, b) => countCorrect(b.results) - countCorrect(a.results),
+  );
+  const groupSize = Math.max(
+    1,
+    Math.round(ranked.length * DISCRIMINATION_GROUP_SHARE),
+  );
+  const topGroup = ranked.slice(0, groupSize);
+  const bottomGroup = ranked.slice(-groupSize);
+
+  const itemResults = new Map<string, QuestionResult[]>();
+  gradable.forEach((response) =>
+    response.results.forEach((result) => {
+      const list = itemResults.get(result.questionId) || [];
+      list.push(result);
+      itemResults.set(result.questionId, list);
+    }),
+  );
+
+  const stats: ItemStats[] = [];
+  itemResults.forEach((results, itemId) => {
+    const first = results[0];
+    const questionId = getBaseQuestionId(itemId);
+    const meta = questions[questionId];
+    const correct = countCorrect(results);
+
+    const top = shareCorrect(topGroup, itemId);
+    const bottom = shareCorrect(bottomGroup, itemId);
+    const discrimination =
+      ranked.length >= 2 && top !== null && bottom !== null
+        ? Math.round((top - bottom) * 100) / 100
+        : null;
+
+    let distractors: OptionCount[] | null = null;
+    if (
+      first.questionType === "multiple_choice" ||
+      first.questionType === "matching_headings" ||
+      first.questionType === WORD_BANK_QUESTION_TYPE
+    ) {
+      distractors = countOptions(
+        results.map((result) => result.userAnswer),
+        meta?.options || [],
+        [first.correctAnswer],
+      );
+    } else if (isJudgementQuestion(first.questionType)) {
+      distractors = countOptions(
+        results.map((result) => result.userAnswer),
+        JUDGEMENT_OPTIONS[first.questionType],
+        [first.correctAnswer],
+      );
+    } else if (first.questionType === "multiple_selection") {
+      // Every slot of the question shares one distribution of chosen options
+      const slots = [...itemResults.entries()].filter(
+        ([id]) => getBaseQuestionId(id) === questionId,
+      );
+      distractors = countOptions(
+        slots.flatMap(([, slotResults]) =>
+          slotResults
+            .map((result) => result.userAnswer)
+            .filter((answer) => !isBlankAnswer(answer)),
+        ),
+        meta?.options || [],
+        slots.map(([, slotResults]) => slotResults[0].correctAnswer),
+      );
+    }
+
+    stats.push({
+      itemId,
+      questionId,
+      questionText: first.questionText,
+      questionType: first.questionType,
+      section: first.section,
+      correctAnswer: first.correctAnswer,
+      responses: results.length,
+      correct,
+      percentCorrect: percentage(correct, results.length),
+      discrimination,
+      distractors,
+      wrongAnswers:
+        first.questionType === "short_answer"
+          ? countWrongAnswers(results)
+          : null,
+    });
+  });
+
+  const order = (item: ItemStats) =>
+    questions[item.questionId]?.questionNumber ?? Number.MAX_SAFE_INTEGER;
+
+  return stats.sort(
+    (a, b) =>
+      a.section.localeCompare(b.section) ||
+      order(a) - order(b) ||
+      a.itemId.localeCompare(b.itemId),
+  );
+};
+
+/**
+ * The most pressing problem with an item, if any. Negative discrimination
+ * usually means a wrong answer key; it outranks difficulty.
+ */
+export const getItemFlag = (item: ItemStats): ItemFlag | null => {
+  if (item.discrimination !== null && item.discrimination < 0) {
+    return "negative_discrimination";
+  }
+  if (item.percentCorrect >= 90) return "too_easy";
+  if (item.percentCorrect <= 20) return "too_hard";
+  if (item.discrimination !== null && item.discrimination < 0.2) {
+    return "low_discrimination";
+  }
+  return null;
+};
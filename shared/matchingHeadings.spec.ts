@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  gradeMatchingHeadings,
+  insertChosenHeadings,
+  parseMatchingHeadings,
+  toRomanNumeral,
+  validateMatchingHeadings,
+} from "./matchingHeadings";
+
+const question = {
+  id: "h1",
+  question_number: 14,
+  question_type: "matching_headings",
+  options: JSON.stringify({
+    headings: ["Early history", "A new approach", "Costs", "Future plans"],
+    anchored: true,
+  }),
+  correct_answer: JSON.stringify({ paragraphs: ["A", "B"], answers: ["ii", "IV"] }),
+};
+
+describe("toRomanNumeral", () => {
+  it("should write lower-case numerals", () => {
+    expect([1, 4, 9, 12].map(toRomanNumeral)).toEqual(["i", "iv", "ix", "xii"]);
+  });
+});
+
+describe("parseMatchingHeadings", () => {
+  it("should read the bank and key from JSON columns", () => {
+    expect(parseMatchingHeadings(question)).toEqual({
+      headings: ["Early history", "A new approach", "Costs", "Future plans"],
+      paragraphs: ["A", "B"],
+      answers: ["ii", "iv"],
+      anchored: true,
+    });
+  });
+});
+
+describe("validateMatchingHeadings", () => {
+  it("should require a heading from the bank for every paragraph", () => {
+    const data = parseMatchingHeadings(question);
+    expect(validateMatchingHeadings(data)).toBeNull();
+    expect(validateMatchingHeadings({ ...data, answers: ["ii", "vii"] })).toMatch(
+      /paragraph B/,
+    );
+    expect(
+      validateMatchingHeadings({ ...data, headings: ["Only one"], answers: ["i", "i"] }),
+    ).toMatch(/as many headings/);
+  });
+});
+
+describe("gradeMatchingHeadings", () => {
+  it("should mark each paragraph on its own", () => {
+    const results = gradeMatchingHeadings(question, { h1_0: "ii", h1_1: "iii" });
+
+    expect(results.map((r) => [r.questionId, r.questionText, r.isCorrect])).toEqual([
+      ["h1_0", "14. Paragraph A", true],
+      ["h1_1", "15. Paragraph B", false],
+    ]);
+  });
+
+  it("should treat a missing answer as wrong", () => {
+    const results = gradeMatchingHeadings(question, {});
+    expect(results[0]).toMatchObject({ isCorrect: false, userAnswer: "No answer provided" });
+  });
+});
+
+describe("insertChosenHeadings", () => {
+  it("should place picked headings above their paragraph markers", () => {
+    const text = "[para:A] First paragraph.\n[para:B] Second paragraph.";
+    expect(insertChosenHeadings(text, ["Early history", "Costs"], { A: "ii" })).toBe(
+      "[heading]ii. Costs[/heading]\n[para:A] First paragraph.\n[para:B] Second paragraph.",
+    );
+  });
+});
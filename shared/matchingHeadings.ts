@@ -0,0 +1,155 @@
+import type { QuestionResult } from "./grading";
+
+/**
+ * Matching Headings: one bank of headings numbered i, ii, iii… shared by
+ * several paragraphs. The bank usually has more headings than paragraphs, so
+ * some go unused. Each paragraph is a separate numbered question whose answer
+ * is a heading numeral, stored under `${questionId}_${paragraphIndex}`.
+ *
+ * Paragraphs can be anchored to `[para:A]` markers in the passage text, where
+ * the heading a student picks is shown above the paragraph.
+ */
+
+export interface MatchingHeadingsData {
+  headings: string[];
+  // Paragraph labels, e.g. "A" or "B"
+  paragraphs: string[];
+  // Correct heading numeral per paragraph
+  answers: string[];
+  anchored: boolean;
+}
+
+// [para:A] at the start of a paragraph in the passage text
+export const PARAGRAPH_MARKER_PATTERN = /\[para:([A-Za-z0-9]+)\]/g;
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [10, "x"],
+  [9, "ix"],
+  [5, "v"],
+  [4, "iv"],
+  [1, "i"],
+];
+
+/**
+ * Lower-case roman numeral for a 1-based heading number
+ */
+export const toRomanNumeral = (value: number): string => {
+  let remaining = Math.floor(value);
+  let numeral = "";
+  ROMAN_NUMERALS.forEach(([amount, symbol]) => {
+    while (remaining >= amount) {
+      numeral += symbol;
+      remaining -= amount;
+    }
+  });
+  return numeral;
+};
+
+export const getHeadingNumeral = (headingIndex: number) =>
+  toRomanNumeral(headingIndex + 1);
+
+// Heading text for a numeral, or "" when the numeral is not in the bank
+export const getHeadingText = (headings: string[], numeral: any): string => {
+  const index = headings.findIndex(
+    (_, i) => getHeadingNumeral(i) === String(numeral ?? "").trim().toLowerCase(),
+  );
+  return index >= 0 ? headings[index] : "";
+};
+
+const parseJson = (raw: any): any => {
+  if (typeof raw !== "string") return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+};
+
+const toStringArray = (value: any): string[] =>
+  Array.isArray(value) ? value.map((item) => String(item ?? "")) : [];
+
+/**
+ * Read a question row: the bank lives in `options` and the key in
+ * `correct_answer`, both possibly still JSON strings.
+ */
+export const parseMatchingHeadings = (question: any): MatchingHeadingsData => {
+  const options = parseJson(question?.options) || {};
+  const key = parseJson(question?.correct_answer) || {};
+  const paragraphs = toStringArray(key.paragraphs ?? options.paragraphs);
+
+  return {
+    headings: toStringArray(options.headings ?? key.headings),
+    paragraphs,
+    answers: paragraphs.map((_, index) =>
+      String(toStringArray(key.answers)[index] ?? "").trim().toLowerCase(),
+    ),
+    anchored: !!options.anchored,
+  };
+};
+
+export const validateMatchingHeadings = (
+  data: MatchingHeadingsData,
+): string | null => {
+  if (data.headings.length === 0) return "Add at least one heading";
+  if (data.paragraphs.length === 0) return "Add at least one paragraph";
+  if (data.headings.length < data.paragraphs.length) {
+    return "The bank needs at least as many headings as paragraphs";
+  }
+  if (new Set(data.paragraphs).size !== data.paragraphs.length) {
+    return "Paragraph labels must be unique";
+  }
+  const missing = data.paragraphs.findIndex(
+    (_, index) => !getHeadingText(data.headings, data.answers[index]),
+  );
+  if (missing >= 0) {
+    return `Choose a heading for paragraph ${data.paragraphs[missing]}`;
+  }
+  return null;
+};
+
+/**
+ * One result per paragraph, so each target is marked independently
+ */
+export const gradeMatchingHeadings = (
+  question: any,
+  userAnswers: Record<string, any>,
+  section: QuestionResult["section"] = "reading",
+): QuestionResult[] => {
+  const data = parseMatchingHeadings(question);
+  const startNumber = Number(question.question_number) || 1;
+
+  return data.paragraphs.map((paragraph, index) => {
+    const questionId = `${question.id}_${index}`;
+    const chosen = String(userAnswers[questionId] ?? "").trim().toLowerCase();
+    const correct = data.answers[index];
+    const isCorrect = chosen !== "" && chosen === correct;
+
+    return {
+      questionId,
+      questionText: `${startNumber + index}. Paragraph ${paragraph}`,
+      questionType: "matching_headings",
+      userAnswer: chosen || "No answer provided",
+      correctAnswer: correct || "No correct answer set",
+      isCorrect,
+      points: isCorrect ? 1 : 0,
+      section,
+      explanation: question.explanation,
+    };
+  });
+};
+
+/**
+ * Show the heading a student picked above its anchored paragraph marker.
+ * `chosen` maps paragraph labels to heading numerals.
+ */
+export const insertChosenHeadings = (
+  text: string,
+  headings: string[],
+  chosen: Record<string, string>,
+): string =>
+  text.replace(PARAGRAPH_MARKER_PATTERN, (marker, label: string) => {
+    const heading = getHeadingText(headings, chosen[label]);
+    return heading
+      ? `[heading]${chosen[label]}. ${heading}[/heading]\n${marker}`
+      : marker;
+  });
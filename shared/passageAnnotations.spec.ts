@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import {
+  createPassageAnnotation,
+  getHtmlText,
+  highlightHtml,
+  parsePassageAnnotations,
+  resolvePassageAnnotation,
+} from "./passageAnnotations";
+
+const passage = "The river rose. Farmers moved inland. The river fell again.";
+
+describe("createPassageAnnotation", () => {
+  it("should trim the selection and remember the text before it", () => {
+    const annotation = createPassageAnnotation(passage, 37, 47, 1, "green");
+    expect(annotation).toMatchObject({ text: "The river", start: 38, prefix: "The river rose. Farmers moved inland. ".slice(-24) });
+    expect(createPassageAnnotation(passage, 15, 16, 1, "yellow")).toBeNull();
+  });
+});
+
+describe("resolvePassageAnnotation", () => {
+  it("should follow its text when the passage shifts", () => {
+    const annotation = createPassageAnnotation(passage, 38, 47, 1, "yellow");
+    const shifted = "Heading\n" + passage;
+    expect(resolvePassageAnnotation(shifted, annotation)).toEqual({ start: 46, end: 55 });
+    expect(resolvePassageAnnotation("Something else entirely", annotation)).toBeNull();
+  });
+});
+
+describe("highlightHtml", () => {
+  it("should wrap highlights across tags and decode entities", () => {
+    const html = "<p>Salt &amp; pepper</p><p>were traded</p>";
+    expect(getHtmlText(html)).toBe("Salt & pepperwere traded");
+    const [annotation] = parsePassageAnnotations([
+      { id: "a1", passage: 1, text: "& pepperwere", prefix: "Salt ", start: 5, colour: "pink", note: "" },
+    ]);
+    const result = highlightHtml(html, [annotation]);
+    expect(result.replace(/ style="[^"]*"/g, "")).toBe(
+      '<p>Salt <mark data-annotation-id="a1">&amp; pepper</mark></p><p><mark data-annotation-id="a1">were</mark> traded</p>',
+    );
+    expect(result).toContain("#fbcfe8");
+  });
+
+  it("should escape notes into the title", () => {
+    const annotation = { ...createPassageAnnotation(passage, 0, 9, 1, "blue"), note: 'see "Q3"' };
+    expect(highlightHtml(passage, [annotation])).toContain('title="see &quot;Q3&quot;"');
+  });
+});
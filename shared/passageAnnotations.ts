@@ -0,0 +1,211 @@
+/**
+ * Highlights and notes students make on reading passages during the exam.
+ *
+ * They travel with the answers under ANNOTATIONS_ANSWER_KEY, so they are
+ * saved on the device, synced and restored exactly like answers, and teachers
+ * can look at them when reviewing the attempt. Graders never read the key.
+ *
+ * An annotation is anchored by its text and the characters just before it,
+ * with the offset only as a tie-breaker, so it stays on the right words when
+ * the passage shifts around it (for example when a chosen heading is shown
+ * above a paragraph).
+ */
+
+export type HighlightColour = "yellow" | "green" | "blue" | "pink";
+
+export const HIGHLIGHT_COLOURS: Record<HighlightColour, string> = {
+  yellow: "#fef08a",
+  green: "#bbf7d0",
+  blue: "#bfdbfe",
+  pink: "#fbcfe8",
+};
+
+// Kept free of digits and the q_/matching_ prefixes that graders search answer keys for
+export const ANNOTATIONS_ANSWER_KEY = "passage_annotations";
+
+const PREFIX_LENGTH = 24;
+
+export interface PassageAnnotation {
+  id: string;
+  // Passage number within the test
+  passage: number;
+  text: string;
+  prefix: string;
+  // Offset in the passage text when the annotation was made
+  start: number;
+  colour: HighlightColour;
+  note: string;
+  createdAt: string;
+}
+
+export const isAnnotationKey = (key: string) => key === ANNOTATIONS_ANSWER_KEY;
+
+/**
+ * Read annotations from the answers record, dropping anything malformed
+ */
+export const parsePassageAnnotations = (raw: any): PassageAnnotation[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((item) => item && typeof item.text === "string" && item.text.length > 0)
+    .map((item) => ({
+      id: String(item.id),
+      passage: Number(item.passage) || 1,
+      text: item.text,
+      prefix: typeof item.prefix === "string" ? item.prefix : "",
+      start: Number(item.start) || 0,
+      colour: (HIGHLIGHT_COLOURS[item.colour] ? item.colour : "yellow") as HighlightColour,
+      note: typeof item.note === "string" ? item.note : "",
+      createdAt: item.createdAt || "",
+    }));
+};
+
+/**
+ * Anchor a selection of the passage text. Surrounding whitespace is trimmed;
+ * returns null when nothing but whitespace was selected.
+ */
+export const createPassageAnnotation = (
+  passageText: string,
+  start: number,
+  end: number,
+  passage: number,
+  colour: HighlightColour,
+): PassageAnnotation | null => {
+  const selected = passageText.slice(start, end);
+  const text = selected.trim();
+  if (!text) return null;
+
+  const trimmedStart = start + (selected.length - selected.trimStart().length);
+  return {
+    id: `annotation_${Date.now()}`,
+    passage,
+    text,
+    prefix: passageText.slice(Math.max(0, trimmedStart - PREFIX_LENGTH), trimmedStart),
+    start: trimmedStart,
+    colour,
+    note: "",
+    createdAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Where the annotation sits in the passage text now, or null if its words are
+ * no longer there
+ */
+export const resolvePassageAnnotation = (
+  passageText: string,
+  annotation: PassageAnnotation,
+): { start: number; end: number } | null => {
+  let best = -1;
+  let bestScore = -1;
+  let bestDistance = Infinity;
+
+  for (
+    let index = passageText.indexOf(annotation.text);
+    index >= 0;
+    index = passageText.indexOf(annotation.text, index + 1)
+  ) {
+    // Count how much of the stored prefix still precedes this occurrence
+    let score = 0;
+    while (
+      score < annotation.prefix.length &&
+      passageText[index - 1 - score] === annotation.prefix[annotation.prefix.length - 1 - score]
+    ) {
+      score++;
+    }
+    const distance = Math.abs(index - annotation.start);
+    if (score > bestScore || (score === bestScore && distance < bestDistance)) {
+      best = index;
+      bestScore = score;
+      bestDistance = distance;
+    }
+  }
+
+  return best >= 0 ? { start: best, end: best + annotation.text.length } : null;
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const HTML_TOKEN = /<[^>]*>|&(?:[a-z]+|#\d+|#x[0-9a-f]+);|[\s\S]/gi;
+
+const decodeEntity = (token: string): string => {
+  const name = token.slice(1, -1).toLowerCase();
+  if (name.startsWith("#x")) return String.fromCodePoint(parseInt(name.slice(2), 16));
+  if (name.startsWith("#")) return String.fromCodePoint(parseInt(name.slice(1), 10));
+  return ENTITIES[name] ?? token;
+};
+
+// Tags and text characters of an HTML string, with entities decoded
+const tokenizeHtml = (html: string) =>
+  (html.match(HTML_TOKEN) || []).map((token) =>
+    token.length > 1 && token.startsWith("<")
+      ? { tag: token, text: "" }
+      : { tag: null, text: token.startsWith("&") && token.length > 1 ? decodeEntity(token) : token },
+  );
+
+/**
+ * The text of an HTML string as the browser shows it, matching the element's
+ * textContent, which is what selection offsets are measured against
+ */
+export const getHtmlText = (html: string): string =>
+  tokenizeHtml(html)
+    .map((token) => token.text)
+    .join("");
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Wrap annotated text in <mark> elements. Marks are closed around every tag so
+ * the markup stays well formed; where annotations overlap the newest wins.
+ */
+export const highlightHtml = (html: string, annotations: PassageAnnotation[]): string => {
+  if (!html || annotations.length === 0) return html;
+
+  const tokens = tokenizeHtml(html);
+  const text = tokens.map((token) => token.text).join("");
+
+  const owner: (PassageAnnotation | null)[] = new Array(text.length).fill(null);
+  annotations.forEach((annotation) => {
+    const range = resolvePassageAnnotation(text, annotation);
+    if (!range) return;
+    for (let i = range.start; i < range.end; i++) owner[i] = annotation;
+  });
+
+  const openMark = (annotation: PassageAnnotation) =>
+    `<mark data-annotation-id="${escapeAttribute(annotation.id)}" style="background-color: ${
+      HIGHLIGHT_COLOURS[annotation.colour]
+    };${annotation.note ? " border-bottom: 2px dotted #92400e;" : ""} cursor: pointer;"${
+      annotation.note ? ` title="${escapeAttribute(annotation.note)}"` : ""
+    }>`;
+
+  let output = "";
+  let offset = 0;
+  let open: PassageAnnotation | null = null;
+  const raw = html.match(HTML_TOKEN) || [];
+
+  tokens.forEach((token, index) => {
+    if (token.tag) {
+      output += (open ? "</mark>" : "") + token.tag + (open ? openMark(open) : "");
+      return;
+    }
+    const current = owner[offset];
+    if (current !== open) {
+      if (open) output += "</mark>";
+      if (current) output += openMark(current);
+      open = current;
+    }
+    output += raw[index];
+    offset += token.text.length;
+  });
+  if (open) output += "</mark>";
+
+  // Drop marks left empty by back-to-back tags
+  return output.replace(/<mark [^>]*><\/mark>/g, "");
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import type { QuestionResult } from "./grading";
+import {
+  buildBandTrend,
+  findWeakestAreas,
+  getQuestionTypeLabel,
+  summarizeQuestionTypes,
+  summarizeSkill,
+} from "./progressAnalytics";
+
+const result = (
+  questionType: string,
+  isCorrect: boolean,
+  section: QuestionResult["section"] = "reading",
+): QuestionResult => ({
+  questionId: `${questionType}-${Math.random()}`,
+  questionText: "",
+  questionType,
+  userAnswer: "",
+  correctAnswer: "",
+  isCorrect,
+  points: isCorrect ? 1 : 0,
+  section,
+});
+
+const repeat = (count: number, make: () => QuestionResult) =>
+  Array.from({ length: count }, make);
+
+describe("buildBandTrend", () => {
+  it("should order attempts by date and drop skills that were not taken", () => {
+    const trend = buildBandTrend([
+      { date: "2024-03-01", testTitle: "Mock 2", reading: 7, listening: 0, overall: 7 },
+      { date: "2024-01-01", testTitle: "Mock 1", reading: 6, listening: 6.5, overall: 6.5 },
+    ]);
+
+    expect(trend.map((point) => point.testTitle)).toEqual(["Mock 1", "Mock 2"]);
+    expect(trend[1]).toMatchObject({ reading: 7, listening: null, writing: null });
+  });
+});
+
+describe("summarizeSkill", () => {
+  it("should report the latest, best and last change", () => {
+    const trend = buildBandTrend([
+      { date: "2024-01-01", testTitle: "A", reading: 6 },
+      { date: "2024-02-01", testTitle: "B", reading: 7 },
+      { date: "2024-03-01", testTitle: "C", reading: 6.5 },
+    ]);
+
+    expect(summarizeSkill(trend, "reading")).toEqual({
+      latest: 6.5,
+      best: 7,
+      change: -0.5,
+    });
+    expect(summarizeSkill(trend, "speaking")).toEqual({
+      latest: null,
+      best: null,
+      change: null,
+    });
+  });
+});
+
+describe("summarizeQuestionTypes", () => {
+  it("should compute accuracy per type without writing", () => {
+    const stats = summarizeQuestionTypes([
+      result("matching", true),
+      result("matching", false),
+      result("matching", false),
+      result("short_answer", true, "listening"),
+      result("essay", false, "writing"),
+    ]);
+
+    expect(stats).toEqual([
+      { questionType: "matching", label: "Matching", correct: 1, total: 3, accuracy: 33.3 },
+      { questionType: "short_answer", label: "Short answer", correct: 1, total: 1, accuracy: 100 },
+    ]);
+  });
+});
+
+describe("findWeakestAreas", () => {
+  it("should rank types answered often enough by accuracy", () => {
+    const stats = summarizeQuestionTypes([
+      ...repeat(4, () => result("matching", false)),
+      ...repeat(5, () => result("short_answer", false)),
+      ...repeat(5, () => result("multiple_choice", true)),
+      ...repeat(6, () => result("map_labeling", true)),
+      ...repeat(4, () => result("map_labeling", false)),
+    ]);
+
+    expect(findWeakestAreas(stats).map((entry) => entry.questionType)).toEqual([
+      "short_answer",
+      "map_labeling",
+    ]);
+  });
+});
+
+describe("getQuestionTypeLabel", () => {
+  it("should fall back to a readable name for unknown types", () => {
+    expect(getQuestionTypeLabel("sentence_completion")).toBe("Sentence completion");
+  });
+});
@@ -0,0 +1,162 @@
+import type { IeltsSkill, QuestionResult } from "./grading";
+
+/**
+ * Progress analytics for a student: band trends per skill over time and
+ * accuracy per question type, built from graded submissions and their
+ * stored `QuestionResult`s.
+ */
+
+export type TrendSkill = IeltsSkill | "overall";
+
+export const TREND_SKILLS: TrendSkill[] = [
+  "overall",
+  "reading",
+  "listening",
+  "writing",
+  "speaking",
+];
+
+export interface ScoredAttempt {
+  date: string;
+  testTitle: string;
+  reading?: number | null;
+  listening?: number | null;
+  writing?: number | null;
+  speaking?: number | null;
+  overall?: number | null;
+}
+
+// A band of 0 means the skill was not part of that test, so it is left out
+export type BandTrendPoint = {
+  date: string;
+  testTitle: string;
+} & Record<TrendSkill, number | null>;
+
+export interface SkillSummary {
+  latest: number | null;
+  best: number | null;
+  // Latest band minus the one before it
+  change: number | null;
+}
+
+export interface QuestionTypeStats {
+  questionType: string;
+  label: string;
+  correct: number;
+  total: number;
+  accuracy: number;
+}
+
+export const QUESTION_TYPE_LABELS: Record<string, string> = {
+  multiple_choice: "Multiple choice",
+  multiple_selection: "Multiple selection",
+  short_answer: "Short answer",
+  matching: "Matching",
+  matching_headings: "Matching headings",
+  word_bank_completion: "Word bank completion",
+  map_labeling: "Map labelling",
+  map_diagram: "Diagram labelling",
+  true_false_not_given: "True/False/Not Given",
+  yes_no_not_given: "Yes/No/Not Given",
+};
+
+// Fewer answers than this say more about luck than about a weakness
+export const MIN_WEAK_AREA_ANSWERS = 5;
+
+export const getQuestionTypeLabel = (questionType: string) =>
+  QUESTION_TYPE_LABELS[questionType] ||
+  questionType
+    .split("_")
+    .filter(Boolean)
+    .map((word, index) =>
+      index === 0 ? word.charAt(0).toUpperCase() + word.slice(1) : word,
+    )
+    .join(" ");
+
+const toBand = (value: any): number | null => {
+  const band = Number(value);
+  return Number.isFinite(band) && band > 0 ? band : null;
+};
+
+/**
+ * One point per graded attempt, oldest first
+ */
+export const buildBandTrend = (attempts: ScoredAttempt[]): BandTrendPoint[] =>
+  [...attempts]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map((attempt) => ({
+      date: attempt.date,
+      testTitle: attempt.testTitle,
+      overall: toBand(attempt.overall),
+      reading: toBand(attempt.reading),
+      listening: toBand(attempt.listening),
+      writing: toBand(attempt.writing),
+      speaking: toBand(attempt.speaking),
+    }));
+
+export const summarizeSkill = (
+  trend: BandTrendPoint[],
+  skill: TrendSkill,
+): SkillSummary => {
+  const bands = trend
+    .map((point) => point[skill])
+    .filter((band): band is number => band !== null);
+
+  if (bands.length === 0) return { latest: null, best: null, change: null };
+
+  const latest = bands[bands.length - 1];
+  return {
+    latest,
+    best: Math.max(...bands),
+    change:
+      bands.length > 1
+        ? Math.round((latest - bands[bands.length - 2]) * 10) / 10
+        : null,
+  };
+};
+
+/**
+ * Accuracy per question type over every auto-graded answer, most answered
+ * types first. Writing tasks are marked by hand and left out.
+ */
+export const summarizeQuestionTypes = (
+  results: QuestionResult[],
+): QuestionTypeStats[] => {
+  const stats = new Map<string, QuestionTypeStats>();
+
+  results
+    .filter((result) => result.section !== "writing" && result.questionType)
+    .forEach((result) => {
+      const entry = stats.get(result.questionType) || {
+        questionType: result.questionType,
+        label: getQuestionTypeLabel(result.questionType),
+        correct: 0,
+        total: 0,
+        accuracy: 0,
+      };
+      entry.total += 1;
+      if (result.isCorrect) entry.correct += 1;
+      stats.set(result.questionType, entry);
+    });
+
+  return [...stats.values()]
+    .map((entry) => ({
+      ...entry,
+      accuracy: Math.round((entry.correct / entry.total) * 1000) / 10,
+    }))
+    .sort((a, b) => b.total - a.total || a.label.localeCompare(b.label));
+};
+
+/**
+ * Question types with the lowest accuracy among those answered often enough
+ */
+export const findWeakestAreas = (
+  stats: QuestionTypeStats[],
+  limit = 3,
+): QuestionTypeStats[] =>
+  stats
+    .filter(
+      (entry) => entry.total >= MIN_WEAK_AREA_ANSWERS && entry.accuracy < 100,
+    )
+    .sort((a, b) => a.accuracy - b.accuracy || b.total - a.total)
+    .slice(0, limit);
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  findQuestionGroups,
+  formatAnswerLimit,
+  formatQuestionRange,
+  getGroupInstructions,
+  parseQuestionGroup,
+  planQuestionNumbers,
+} from "./questionGroups";
+
+// Nodes in document order, as the editor walks them
+const nodes = [
+  { type: "question_group", attrs: { id: "g1", group_type: "note_completion", max_words: 1, allow_number: true } },
+  { type: "paragraph", attrs: {} },
+  { type: "short_answer", attrs: { id: "s1", question_number: 1, answers: ["Smith"] } },
+  { type: "short_answer", attrs: { id: "s2", question_number: 9, answers: ["Tuesday"] } },
+  { type: "question_group", attrs: { id: "g2", group_type: "matching" } },
+  { type: "matching", attrs: { id: "m1", question_number: 3, left: ["a", "b", "c"], right: ["x", "y", "z"] } },
+  { type: "mcq", attrs: { id: "q1", question_number: 26 } },
+];
+
+describe("formatQuestionRange", () => {
+  it("should use an en dash for ranges", () => {
+    expect(formatQuestionRange(14, 20)).toBe("Questions 14–20");
+    expect(formatQuestionRange(7, 7)).toBe("Question 7");
+    expect(formatQuestionRange(null, null)).toBe("");
+  });
+});
+
+describe("formatAnswerLimit", () => {
+  it("should print the limit as IELTS does", () => {
+    expect(formatAnswerLimit(1, true)).toBe("ONE WORD AND/OR A NUMBER");
+    expect(formatAnswerLimit(1)).toBe("ONE WORD ONLY");
+    expect(formatAnswerLimit(2, true)).toBe("NO MORE THAN TWO WORDS AND/OR A NUMBER");
+    expect(formatAnswerLimit(null)).toBeNull();
+  });
+});
+
+describe("getGroupInstructions", () => {
+  it("should leave the word limit out of letter-answer groups", () => {
+    expect(getGroupInstructions(parseQuestionGroup({ group_type: "table_completion", max_words: 3 }))).toEqual([
+      "Complete the table below.",
+      "Write NO MORE THAN THREE WORDS for each answer.",
+    ]);
+    expect(getGroupInstructions(parseQuestionGroup({ group_type: "multiple_choice", max_words: 3 }))).toEqual([
+      "Choose the correct letter.",
+    ]);
+  });
+});
+
+describe("planQuestionNumbers", () => {
+  it("should number questions in document order from the starting number", () => {
+    const patches = planQuestionNumbers(nodes, 21);
+    expect(patches[0]).toMatchObject({ start_number: 21, end_number: 22 });
+    expect(patches[1]).toBeNull();
+    expect(patches[2]).toMatchObject({ question_number: 21 });
+    expect(patches[3]).toMatchObject({ question_number: 22 });
+    expect(patches[4]).toEqual({ start_number: 23, end_number: 26 });
+    expect(patches[5]).toEqual({ question_number: 23 });
+    // Already numbered correctly
+    expect(patches[6]).toBeNull();
+  });
+
+  it("should give blanks the group's word limit and keep their other rules", () => {
+    const patches = planQuestionNumbers(
+      [
+        nodes[0],
+        {
+          type: "short_answer",
+          attrs: { id: "s1", question_number: 1, answer_rules: { optionalArticles: true, maxWords: 3 } },
+        },
+      ],
+      1,
+    );
+    expect(patches[1]).toEqual({
+      answer_rules: { optionalArticles: true, maxWords: 1, allowNumber: true },
+    });
+  });
+
+  it("should clear the range of a group with no questions", () => {
+    const patches = planQuestionNumbers(
+      [{ type: "question_group", attrs: { id: "g1", start_number: 1, end_number: 4 } }],
+      1,
+    );
+    expect(patches[0]).toEqual({ start_number: null, end_number: null });
+  });
+});
+
+describe("findQuestionGroups", () => {
+  it("should find groups nested in the document", () => {
+    const doc = {
+      type: "doc",
+      content: [
+        { type: "paragraph", content: [{ type: "text", text: "Intro" }] },
+        { type: "question_group", attrs: { id: "g1", group_type: "form_completion", start_number: 1, end_number: 5 } },
+      ],
+    };
+    expect(findQuestionGroups(doc)).toEqual([
+      { id: "g1", type: "form_completion", maxWords: null, allowNumber: false, start: 1, end: 5 },
+    ]);
+  });
+});
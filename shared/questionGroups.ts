@@ -0,0 +1,259 @@
+import { formatWordLimit } from "./completion";
+import { parseAnswerRules, type AnswerMatchingRules } from "./answerMatching";
+
+/**
+ * Question groups: the "Questions 14–20 / Complete the notes below. Write ONE
+ * WORD AND/OR A NUMBER for each answer." header that introduces a run of
+ * questions. A group is a `question_group` node in the editor content; every
+ * question after it belongs to the group until the next one.
+ *
+ * Numbers are assigned in document order from the section's starting number,
+ * so inserting or removing a question renumbers everything after it. The
+ * group's word limit is copied into the `answer_rules` of its free-text
+ * blanks, which is what the grader checks.
+ */
+
+export type QuestionGroupType =
+  | "note_completion"
+  | "form_completion"
+  | "table_completion"
+  | "sentence_completion"
+  | "summary_completion"
+  | "short_answer"
+  | "multiple_choice"
+  | "matching"
+  | "map_labelling"
+  | "true_false_not_given"
+  | "yes_no_not_given"
+  | "matching_headings";
+
+interface QuestionGroupTypeInfo {
+  label: string;
+  instruction: string;
+  // Whether answers are written, so a word limit applies
+  freeText: boolean;
+}
+
+export const QUESTION_GROUP_TYPES: Record<QuestionGroupType, QuestionGroupTypeInfo> = {
+  note_completion: { label: "Note completion", instruction: "Complete the notes below.", freeText: true },
+  form_completion: { label: "Form completion", instruction: "Complete the form below.", freeText: true },
+  table_completion: { label: "Table completion", instruction: "Complete the table below.", freeText: true },
+  sentence_completion: {
+    label: "Sentence completion",
+    instruction: "Complete the sentences below.",
+    freeText: true,
+  },
+  summary_completion: { label: "Summary completion", instruction: "Complete the summary below.", freeText: true },
+  short_answer: { label: "Short answer", instruction: "Answer the questions below.", freeText: true },
+  multiple_choice: { label: "Multiple choice", instruction: "Choose the correct letter.", freeText: false },
+  matching: {
+    label: "Matching",
+    instruction: "Choose your answers from the box and write the correct letter next to each question.",
+    freeText: false,
+  },
+  map_labelling: { label: "Map / plan labelling", instruction: "Label the map below.", freeText: true },
+  true_false_not_given: {
+    label: "True / False / Not Given",
+    instruction: "Do the following statements agree with the information given in the reading passage?",
+    freeText: false,
+  },
+  yes_no_not_given: {
+    label: "Yes / No / Not Given",
+    instruction: "Do the following statements agree with the views of the writer in the reading passage?",
+    freeText: false,
+  },
+  matching_headings: {
+    label: "Matching headings",
+    instruction: "Choose the correct heading for each paragraph from the list of headings below.",
+    freeText: false,
+  },
+};
+
+export interface QuestionGroup {
+  id: string;
+  type: QuestionGroupType;
+  maxWords: number | null;
+  // "AND/OR A NUMBER": a number may be written on top of the word limit
+  allowNumber: boolean;
+  // Filled in by numbering; null while the group has no questions
+  start: number | null;
+  end: number | null;
+}
+
+export const QUESTION_GROUP_NODE = "question_group";
+
+/**
+ * Read a question group from TipTap node attributes
+ */
+export const parseQuestionGroup = (attrs: any): QuestionGroup => ({
+  id: attrs?.id || "",
+  type: (QUESTION_GROUP_TYPES[attrs?.group_type] ? attrs.group_type : "note_completion") as QuestionGroupType,
+  maxWords: Number(attrs?.max_words ?? attrs?.maxWords) || null,
+  allowNumber: !!(attrs?.allow_number ?? attrs?.allowNumber),
+  start: Number(attrs?.start_number) || null,
+  end: Number(attrs?.end_number) || null,
+});
+
+// "Questions 14–20", or "Question 14" for a single question
+export const formatQuestionRange = (start: number | null, end: number | null): string => {
+  if (!start) return "";
+  return !end || end === start ? `Question ${start}` : `Questions ${start}–${end}`;
+};
+
+/**
+ * The limit as printed in the instructions: "ONE WORD ONLY",
+ * "ONE WORD AND/OR A NUMBER", "NO MORE THAN TWO WORDS AND/OR A NUMBER"…
+ */
+export const formatAnswerLimit = (maxWords: number | null, allowNumber = false): string | null => {
+  if (!maxWords) return allowNumber ? "A NUMBER" : null;
+  const words = maxWords === 1 ? "ONE WORD" : formatWordLimit(maxWords);
+  if (allowNumber) return `${words} AND/OR A NUMBER`;
+  return maxWords === 1 ? "ONE WORD ONLY" : words;
+};
+
+export const getGroupInstructions = (group: QuestionGroup): string[] => {
+  const info = QUESTION_GROUP_TYPES[group.type];
+  const lines = [info.instruction];
+  const limit = info.freeText ? formatAnswerLimit(group.maxWords, group.allowNumber) : null;
+  if (limit) lines.push(`Write ${limit} for each answer.`);
+  return lines;
+};
+
+export const validateQuestionGroup = (group: QuestionGroup): string | null => {
+  if (group.maxWords !== null && group.maxWords < 1) {
+    return "The word limit must be at least one word";
+  }
+  return null;
+};
+
+/**
+ * A group for saved questions that have no group node, taking the word limit
+ * from their answer rules
+ */
+export const inferQuestionGroup = (type: QuestionGroupType, questions: any[]): QuestionGroup => {
+  const numbers = questions.map((q) => Number(q?.question_number)).filter((n) => n > 0);
+  const rules = questions
+    .map((q) => parseAnswerRules(q?.answer_rules))
+    .find((r) => r && (r.maxWords || r.allowNumber));
+  return {
+    id: "",
+    type,
+    maxWords: rules?.maxWords || null,
+    allowNumber: !!rules?.allowNumber,
+    start: numbers.length > 0 ? Math.min(...numbers) : null,
+    end: numbers.length > 0 ? Math.max(...numbers) : null,
+  };
+};
+
+/**
+ * Answer rules for a blank inside the group. The group's limit replaces the
+ * blank's own; other matching rules are kept.
+ */
+export const applyGroupAnswerRules = (
+  group: QuestionGroup,
+  rules: AnswerMatchingRules | null,
+): AnswerMatchingRules | null => {
+  if (!QUESTION_GROUP_TYPES[group.type].freeText || (!group.maxWords && !group.allowNumber)) {
+    return rules;
+  }
+  return { ...(rules || {}), maxWords: group.maxWords, allowNumber: group.allowNumber };
+};
+
+/**
+ * How many question numbers an editor node takes up: one per matching pair,
+ * paragraph, map label or correct option, otherwise one.
+ */
+export const countNodeQuestions = (type: string, attrs: any): number => {
+  const length = (value: any) => (Array.isArray(value) && value.length > 0 ? value.length : 1);
+  switch (type) {
+    case "short_answer":
+    case "mcq":
+    case "tfng":
+    case "bank_gap":
+      return 1;
+    case "matching":
+      return length(attrs?.left);
+    case "matching_headings":
+      return length(attrs?.paragraphs);
+    case "ms":
+      return length(attrs?.correct_answers);
+    case "map_labeling":
+      return length(attrs?.boxes);
+    default:
+      return 0;
+  }
+};
+
+export interface NumberingNode {
+  type: string;
+  attrs: any;
+}
+
+/**
+ * Number the questions of one section in document order. Returns, for each
+ * node, the attributes to change, or null when it is already up to date.
+ */
+export const planQuestionNumbers = (
+  nodes: NumberingNode[],
+  startingNumber: number,
+): (Record<string, any> | null)[] => {
+  const patches: (Record<string, any> | null)[] = nodes.map(() => null);
+  let nextNumber = startingNumber;
+  let group: QuestionGroup | null = null;
+  let groupIndex = -1;
+
+  const closeGroup = () => {
+    if (groupIndex < 0) return;
+    const start = group.start;
+    const end = start ? nextNumber - 1 : null;
+    const attrs = nodes[groupIndex].attrs || {};
+    if ((attrs.start_number ?? null) !== start || (attrs.end_number ?? null) !== end) {
+      patches[groupIndex] = { start_number: start, end_number: end };
+    }
+  };
+
+  nodes.forEach((node, index) => {
+    if (node.type === QUESTION_GROUP_NODE) {
+      closeGroup();
+      group = { ...parseQuestionGroup(node.attrs), start: null, end: null };
+      groupIndex = index;
+      return;
+    }
+
+    const count = countNodeQuestions(node.type, node.attrs);
+    if (count === 0) return;
+
+    const patch: Record<string, any> = {};
+    if (node.attrs?.question_number !== nextNumber) {
+      patch.question_number = nextNumber;
+    }
+    if (group) {
+      if (!group.start) group.start = nextNumber;
+      if (node.type === "short_answer") {
+        const rules = applyGroupAnswerRules(group, node.attrs?.answer_rules || null);
+        if (JSON.stringify(rules) !== JSON.stringify(node.attrs?.answer_rules || null)) {
+          patch.answer_rules = rules;
+        }
+      }
+    }
+    if (Object.keys(patch).length > 0) patches[index] = patch;
+    nextNumber += count;
+  });
+  closeGroup();
+
+  return patches;
+};
+
+/**
+ * Question groups in a TipTap document, in order
+ */
+export const findQuestionGroups = (doc: any): QuestionGroup[] => {
+  const groups: QuestionGroup[] = [];
+  const traverse = (node: any) => {
+    if (!node) return;
+    if (node.type === QUESTION_GROUP_NODE) groups.push(parseQuestionGroup(node.attrs));
+    (Array.isArray(node.content) ? node.content : []).forEach(traverse);
+  };
+  traverse(doc);
+  return groups;
+};
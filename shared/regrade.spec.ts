@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildRegradeUpdate,
+  describeScoreChange,
+  getSubmissionScores,
+  haveScoresChanged,
+  replaceQuestion,
+  type RegradeScores,
+} from "./regrade";
+import type { GradingResult } from "./grading";
+
+const scores = (overrides: Partial<RegradeScores> = {}): RegradeScores => ({
+  reading: 6,
+  listening: 6.5,
+  overall: 6.5,
+  readingCorrect: 25,
+  listeningCorrect: 28,
+  ...overrides,
+});
+
+describe("replaceQuestion", () => {
+  const base = {
+    reading: [
+      { id: "q1", correct_answer: "old" },
+      { id: "q2", correct_answer: "keep" },
+    ],
+    listening: [],
+    writing: [],
+  };
+
+  it("should swap only the chosen question", () => {
+    const { questions, found } = replaceQuestion(
+      base,
+      {
+        reading: [
+          { id: "q1", correct_answer: "new" },
+          { id: "q2", correct_answer: "edited" },
+        ],
+        listening: [],
+        writing: [],
+      },
+      "q1",
+    );
+
+    expect(found).toBe(true);
+    expect(questions.reading).toEqual([
+      { id: "q1", correct_answer: "new" },
+      { id: "q2", correct_answer: "keep" },
+    ]);
+  });
+
+  it("should not add questions the submission was not graded on", () => {
+    const { questions, found } = replaceQuestion(
+      base,
+      { reading: [{ id: "q3" }], listening: [], writing: [] },
+      "q3",
+    );
+
+    expect(found).toBe(false);
+    expect(questions).toEqual(base);
+  });
+});
+
+describe("getSubmissionScores", () => {
+  it("should read bands and stored raw counts", () => {
+    expect(
+      getSubmissionScores({
+        reading_score: 6,
+        listening_score: 6.5,
+        total_score: 6.5,
+        auto_grading_data: JSON.stringify({
+          breakdown: { reading: { correct: 25 }, listening: { correct: 28 } },
+        }),
+      }),
+    ).toEqual(scores());
+  });
+
+  it("should leave raw counts unknown without grading data", () => {
+    expect(getSubmissionScores({ reading_score: 6 })).toMatchObject({
+      readingCorrect: null,
+      listening: null,
+    });
+  });
+});
+
+describe("buildRegradeUpdate", () => {
+  it("should keep writing and speaking bands in the overall band", () => {
+    const result = {
+      readingBandScore: 7,
+      listeningBandScore: 7,
+      breakdown: { reading: { correct: 30 }, listening: { correct: 31 } },
+      detailedResults: [],
+    } as unknown as GradingResult;
+
+    const { scores: after, update } = buildRegradeUpdate(
+      { writing_score: 6, speaking_score: 6 },
+      result,
+    );
+
+    expect(after.overall).toBe(6.5);
+    expect(update).toMatchObject({
+      reading_score: 7,
+      listening_score: 7,
+      total_score: 6.5,
+      overall_band_status: "complete",
+    });
+  });
+});
+
+describe("haveScoresChanged", () => {
+  it("should detect band and raw count changes", () => {
+    expect(haveScoresChanged(scores(), scores())).toBe(false);
+    expect(haveScoresChanged(scores(), scores({ reading: 6.5 }))).toBe(true);
+    expect(haveScoresChanged(scores(), scores({ readingCorrect: 26 }))).toBe(true);
+  });
+
+  it("should ignore raw counts that were never stored", () => {
+    expect(
+      haveScoresChanged(scores({ readingCorrect: null }), scores({ readingCorrect: 26 })),
+    ).toBe(false);
+  });
+});
+
+describe("describeScoreChange", () => {
+  it("should list the bands that moved", () => {
+    expect(
+      describeScoreChange("Mock 1", scores(), scores({ reading: 6.5, overall: 7 })),
+    ).toBe(
+      'Your results for "Mock 1" were updated after an answer key correction: Reading 6.0 → 6.5, Overall 6.5 → 7.0.',
+    );
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Regrading graded submissions after an answer key changes.
+ * Only the auto-graded skills (reading and listening) are recomputed; writing
+ * and speaking bands come from teachers and are carried over into the new
+ * overall band.
+ */
+import {
+  buildGradedSubmissionUpdate,
+  calculateOverallBand,
+  type GradingQuestionSet,
+  type GradingResult,
+} from "./grading";
+
+export type RegradeScope = "test" | "question" | "submission";
+
+export interface RegradeScores {
+  reading: number | null;
+  listening: number | null;
+  overall: number | null;
+  // Raw correct answers; null for submissions graded before this was stored
+  readingCorrect: number | null;
+  listeningCorrect: number | null;
+}
+
+const SECTIONS: (keyof GradingQuestionSet)[] = ["reading", "listening", "writing"];
+
+const toBand = (value: any): number | null =>
+  value === null || value === undefined || value === "" ? null : Number(value);
+
+const parseGradingData = (raw: any): Partial<GradingResult> | null => {
+  if (!raw) return null;
+  if (typeof raw === "string") {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  return raw;
+};
+
+/**
+ * Swap one question of a submission's grading input for its version in
+ * `target`, leaving every other question as the student was graded on it.
+ * `found` is false when either side lacks the question.
+ *
+ * The patched set only exists for that regrade: the submission stays pinned
+ * to its own version, and the audit row (question_id, version_id) records
+ * where the fix came from. A later test or submission regrade grades against
+ * its target version as a whole, which carries the fix when that is the
+ * version the question was taken from.
+ */
+export const replaceQuestion = (
+  base: GradingQuestionSet,
+  target: GradingQuestionSet,
+  questionId: string,
+): { questions: GradingQuestionSet; found: boolean } => {
+  const questions = { ...base };
+  let found = false;
+
+  SECTIONS.forEach((section) => {
+    const replacement = (target[section] || []).find((q) => q.id === questionId);
+    if (!replacement) return;
+    if (!(base[section] || []).some((q) => q.id === questionId)) return;
+
+    questions[section] = base[section].map((q) =>
+      q.id === questionId ? replacement : q,
+    );
+    found = true;
+  });
+
+  return { questions, found };
+};
+
+// Scores as currently stored on a test_submissions row
+export const getSubmissionScores = (submission: any): RegradeScores => {
+  const gradingData = parseGradingData(submission.auto_grading_data);
+
+  return {
+    reading: toBand(submission.reading_score),
+    listening: toBand(submission.listening_score),
+    overall: toBand(submission.total_score),
+    readingCorrect: gradingData?.breakdown?.reading?.correct ?? null,
+    listeningCorrect: gradingData?.breakdown?.listening?.correct ?? null,
+  };
+};
+
+/**
+ * The submission update for a regrade, plus the scores it would store.
+ * The overall band keeps the submission's writing and speaking bands.
+ */
+export const buildRegradeUpdate = (submission: any, result: GradingResult) => {
+  const overall = calculateOverallBand({
+    reading: result.readingBandScore,
+    listening: result.listeningBandScore,
+    writing: toBand(submission.writing_score),
+    speaking: toBand(submission.speaking_score),
+  });
+  const { auto_grading_data, submission_data } = buildGradedSubmissionUpdate(
+    result,
+    "system",
+  );
+
+  const scores: RegradeScores = {
+    reading: result.readingBandScore,
+    listening: result.listeningBandScore,
+    overall: overall.band,
+    readingCorrect: result.breakdown.reading.correct,
+    listeningCorrect: result.breakdown.listening.correct,
+  };
+
+  return {
+    scores,
+    update: {
+      reading_score: scores.reading,
+      listening_score: scores.listening,
+      total_score: scores.overall,
+      overall_band_status: overall.status,
+      auto_grading_data,
+      submission_data,
+    },
+  };
+};
+
+// Raw counts only count as a change when the old count is known
+export const haveScoresChanged = (
+  before: RegradeScores,
+  after: RegradeScores,
+): boolean =>
+  (["reading", "listening", "overall"] as const).some(
+    (key) => before[key] !== after[key],
+  ) ||
+  (["readingCorrect", "listeningCorrect"] as const).some(
+    (key) => before[key] !== null && before[key] !== after[key],
+  );
+
+const formatBand = (band: number | null) =>
+  band === null ? "—" : band.toFixed(1);
+
+/**
+ * Notification text for a student whose results changed
+ */
+export const describeScoreChange = (
+  testTitle: string,
+  before: RegradeScores,
+  after: RegradeScores,
+): string => {
+  const changes = (
+    [
+      ["Reading", "reading"],
+      ["Listening", "listening"],
+      ["Overall", "overall"],
+    ] as const
+  )
+    .filter(([, key]) => before[key] !== after[key])
+    .map(
+      ([label, key]) =>
+        `${label} ${formatBand(before[key])} → ${formatBand(after[key])}`,
+    );
+
+  return changes.length > 0
+    ? `Your results for "${testTitle}" were updated after an answer key correction: ${changes.join(", ")}.`
+    : `Your answers for "${testTitle}" were rechecked after an answer key correction. Your bands did not change.`;
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  estimateReadiness,
+  parseTargetProfile,
+  validateTargetProfile,
+} from "./targetBands";
+
+const target = { overall: 7, minimum: 6.5 };
+
+describe("parseTargetProfile", () => {
+  it("should read target columns and treat empty values as unset", () => {
+    expect(
+      parseTargetProfile({ target_overall_band: "7.0", target_min_band: null }),
+    ).toEqual({ overall: 7, minimum: null });
+    expect(parseTargetProfile(null)).toEqual({ overall: null, minimum: null });
+  });
+});
+
+describe("validateTargetProfile", () => {
+  it("should accept half bands with the minimum at or below the overall", () => {
+    expect(validateTargetProfile(target)).toBeNull();
+    expect(validateTargetProfile({ overall: null, minimum: 6 })).toBeNull();
+  });
+
+  it("should reject bands off the half-band scale", () => {
+    expect(validateTargetProfile({ overall: 7.25, minimum: null })).toMatch(
+      /half bands/,
+    );
+  });
+
+  it("should reject a minimum above the overall target", () => {
+    expect(validateTargetProfile({ overall: 6.5, minimum: 7 })).toMatch(
+      /minimum/,
+    );
+  });
+});
+
+describe("estimateReadiness", () => {
+  it("should average the most recent bands per skill", () => {
+    const readiness = estimateReadiness(
+      [
+        { date: "2024-01-01", testTitle: "A", reading: 5 },
+        { date: "2024-02-01", testTitle: "B", reading: 7 },
+        { date: "2024-03-01", testTitle: "C", reading: 7.5, listening: 7 },
+        { date: "2024-04-01", testTitle: "D", reading: 7, listening: 0 },
+      ],
+      target,
+    );
+
+    const reading = readiness.skills.find((skill) => skill.skill === "reading");
+    expect(reading).toMatchObject({ estimate: 7, required: 6.5, gap: 0.5 });
+    expect(readiness.overallEstimate).toBe(7);
+    expect(readiness.status).toBe("on_track");
+  });
+
+  it("should flag skills below the minimum band", () => {
+    const readiness = estimateReadiness(
+      [
+        {
+          date: "2024-01-01",
+          testTitle: "A",
+          reading: 8,
+          listening: 8,
+          writing: 6,
+          speaking: 7,
+        },
+      ],
+      target,
+    );
+
+    expect(readiness.skillsBelowTarget).toEqual(["writing"]);
+    expect(readiness.overallGap).toBe(0.5);
+    expect(readiness.status).toBe("close");
+  });
+
+  it("should be off track when a skill is more than half a band short", () => {
+    const readiness = estimateReadiness(
+      [{ date: "2024-01-01", testTitle: "A", reading: 5.5, listening: 7 }],
+      { overall: 7, minimum: null },
+    );
+
+    expect(readiness.skillsBelowTarget).toEqual(["reading"]);
+    expect(readiness.status).toBe("off_track");
+  });
+
+  it("should report no data without results or a target", () => {
+    expect(estimateReadiness([], target).status).toBe("no_data");
+    expect(
+      estimateReadiness([{ date: "2024-01-01", testTitle: "A", reading: 6 }], {
+        overall: null,
+        minimum: null,
+      }).status,
+    ).toBe("no_data");
+  });
+});
@@ -0,0 +1,162 @@
+import { calculateOverallBand, type IeltsSkill } from "./grading";
+import type { ScoredAttempt } from "./progressAnalytics";
+
+/**
+ * Target band goals and a readiness estimate.
+ * Students set an overall target and a minimum band every skill must reach
+ * (many universities ask for e.g. 7.0 overall with no band below 6.5). The
+ * estimate averages each skill's most recent bands.
+ */
+
+export interface TargetProfile {
+  overall: number | null;
+  minimum: number | null;
+}
+
+export type ReadinessStatus = "on_track" | "close" | "off_track" | "no_data";
+
+export const READINESS_STATUS_LABELS: Record<ReadinessStatus, string> = {
+  on_track: "On track",
+  close: "Close to target",
+  off_track: "Off track",
+  no_data: "No results yet",
+};
+
+export interface SkillReadiness {
+  skill: IeltsSkill;
+  estimate: number | null;
+  required: number | null;
+  // Estimate minus required band; negative when below target
+  gap: number | null;
+}
+
+export interface Readiness {
+  status: ReadinessStatus;
+  overallEstimate: number | null;
+  overallGap: number | null;
+  skills: SkillReadiness[];
+  skillsBelowTarget: IeltsSkill[];
+}
+
+export const READINESS_SKILLS: IeltsSkill[] = [
+  "reading",
+  "listening",
+  "writing",
+  "speaking",
+];
+
+// Bands a target can be set to
+export const TARGET_BAND_OPTIONS = [4, 4.5, 5, 5.5, 6, 6.5, 7, 7.5, 8, 8.5, 9];
+
+// Results averaged per skill for the estimate
+export const READINESS_RECENT_RESULTS = 3;
+
+// Gaps up to half a band count as close rather than off track
+const CLOSE_GAP = 0.5;
+
+const toBand = (value: any): number | null => {
+  const band = Number(value);
+  return value !== null && value !== undefined && Number.isFinite(band) && band > 0
+    ? band
+    : null;
+};
+
+const roundToHalfBand = (value: number) => Math.round(value * 2) / 2;
+
+export const parseTargetProfile = (profile: any): TargetProfile => ({
+  overall: toBand(profile?.target_overall_band),
+  minimum: toBand(profile?.target_min_band),
+});
+
+export const hasTarget = (target: TargetProfile) =>
+  target.overall !== null || target.minimum !== null;
+
+export const validateTargetProfile = (target: TargetProfile): string | null => {
+  const bands = [target.overall, target.minimum].filter(
+    (band): band is number => band !== null,
+  );
+  if (bands.some((band) => !TARGET_BAND_OPTIONS.includes(band))) {
+    return "Targets must be half bands between 4.0 and 9.0";
+  }
+  if (
+    target.overall !== null &&
+    target.minimum !== null &&
+    target.minimum > target.overall
+  ) {
+    return "The minimum band cannot be above the overall target";
+  }
+  return null;
+};
+
+/**
+ * Estimate each skill from its most recent bands and compare with the target.
+ * A skill must reach the minimum band, or the overall target when no minimum
+ * is set.
+ */
+export const estimateReadiness = (
+  attempts: ScoredAttempt[],
+  target: TargetProfile,
+  recentResults = READINESS_RECENT_RESULTS,
+): Readiness => {
+  const newestFirst = [...attempts].sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
+  );
+  const required = target.minimum ?? target.overall;
+
+  const skills: SkillReadiness[] = READINESS_SKILLS.map((skill) => {
+    const recent = newestFirst
+      .map((attempt) => toBand(attempt[skill]))
+      .filter((band): band is number => band !== null)
+      .slice(0, recentResults);
+
+    const estimate =
+      recent.length > 0
+        ? roundToHalfBand(recent.reduce((sum, band) => sum + band, 0) / recent.length)
+        : null;
+
+    return {
+      skill,
+      estimate,
+      required,
+      gap:
+        estimate !== null && required !== null
+          ? Math.round((estimate - required) * 10) / 10
+          : null,
+    };
+  });
+
+  const estimateOf = (skill: IeltsSkill) =>
+    skills.find((entry) => entry.skill === skill)?.estimate ?? null;
+  const overallBand = calculateOverallBand({
+    reading: estimateOf("reading"),
+    listening: estimateOf("listening"),
+    writing: estimateOf("writing"),
+    speaking: estimateOf("speaking"),
+  }).band;
+  const overallEstimate = overallBand > 0 ? overallBand : null;
+  const overallGap =
+    overallEstimate !== null && target.overall !== null
+      ? Math.round((overallEstimate - target.overall) * 10) / 10
+      : null;
+
+  const skillsBelowTarget = skills
+    .filter((skill) => skill.gap !== null && skill.gap < 0)
+    .map((skill) => skill.skill);
+
+  const gaps = [overallGap, ...skills.map((skill) => skill.gap)].filter(
+    (gap): gap is number => gap !== null,
+  );
+
+  let status: ReadinessStatus;
+  if (overallEstimate === null || gaps.length === 0) {
+    status = "no_data";
+  } else if (gaps.every((gap) => gap >= 0)) {
+    status = "on_track";
+  } else if (gaps.every((gap) => gap >= -CLOSE_GAP)) {
+    status = "close";
+  } else {
+    status = "off_track";
+  }
+
+  return { status, overallEstimate, overallGap, skills, skillsBelowTarget };
+};
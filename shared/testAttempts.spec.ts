@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkRetakeEligibility,
+  getCountedAttempt,
+  getScoreTrend,
+  parseAttemptPolicy,
+  selectCountedRows,
+  type AttemptSummary,
+} from "./testAttempts";
+
+const attempt = (
+  attemptNumber: number,
+  totalScore: number | null,
+  submittedAt = "2024-05-01T08:00:00.000Z",
+  status = "graded",
+): AttemptSummary => ({ attemptNumber, totalScore, submittedAt, status });
+
+const now = new Date("2024-05-01T10:00:00.000Z");
+
+describe("parseAttemptPolicy", () => {
+  it("should default to unlimited attempts counting the latest", () => {
+    expect(parseAttemptPolicy({})).toEqual({
+      maxAttempts: null,
+      cooldownHours: 0,
+      scoring: "latest",
+    });
+  });
+
+  it("should read the test settings", () => {
+    expect(
+      parseAttemptPolicy({
+        max_attempts: 3,
+        retake_cooldown_hours: 24,
+        attempt_scoring: "best",
+      }),
+    ).toEqual({ maxAttempts: 3, cooldownHours: 24, scoring: "best" });
+  });
+});
+
+describe("checkRetakeEligibility", () => {
+  const unlimited = { maxAttempts: null, cooldownHours: 0, scoring: "latest" as const };
+
+  it("should allow the first attempt", () => {
+    expect(checkRetakeEligibility(unlimited, [], now)).toEqual({
+      allowed: true,
+      nextAttempt: 1,
+    });
+  });
+
+  it("should block while an attempt is in progress", () => {
+    const result = checkRetakeEligibility(
+      unlimited,
+      [attempt(1, null, undefined, "in_progress")],
+      now,
+    );
+    expect(result).toMatchObject({ allowed: false, reason: "in_progress" });
+  });
+
+  it("should block once the attempt limit is used", () => {
+    const result = checkRetakeEligibility(
+      { ...unlimited, maxAttempts: 2 },
+      [attempt(1, 6), attempt(2, 6.5)],
+      now,
+    );
+    expect(result).toMatchObject({ allowed: false, reason: "max_attempts" });
+  });
+
+  it("should block during the cooldown and report when it ends", () => {
+    const result = checkRetakeEligibility(
+      { ...unlimited, cooldownHours: 24 },
+      [attempt(1, 6)],
+      now,
+    );
+    expect(result).toMatchObject({
+      allowed: false,
+      reason: "cooldown",
+      availableAt: "2024-05-02T08:00:00.000Z",
+    });
+  });
+
+  it("should allow a retake after the cooldown", () => {
+    expect(
+      checkRetakeEligibility({ ...unlimited, cooldownHours: 1 }, [attempt(1, 6)], now),
+    ).toEqual({ allowed: true, nextAttempt: 2 });
+  });
+});
+
+describe("getCountedAttempt", () => {
+  const attempts = [attempt(1, 6), attempt(2, 7), attempt(3, 6.5), attempt(4, null)];
+
+  it("should pick the attempt matching the scoring rule", () => {
+    expect(getCountedAttempt(attempts, "best")?.attemptNumber).toBe(2);
+    expect(getCountedAttempt(attempts, "first")?.attemptNumber).toBe(1);
+    expect(getCountedAttempt(attempts, "latest")?.attemptNumber).toBe(3);
+  });
+
+  it("should return null without scored attempts", () => {
+    expect(getCountedAttempt([attempt(1, null)], "best")).toBeNull();
+  });
+});
+
+describe("selectCountedRows", () => {
+  const row = (test_id: string, student_id: string, attempt_number: number, total_score: number | null) => ({
+    test_id,
+    student_id,
+    attempt_number,
+    total_score,
+    status: total_score === null ? "submitted" : "graded",
+  });
+
+  it("should keep one row per student and test using each test's rule", () => {
+    const rows = [
+      row("t1", "s1", 1, 7),
+      row("t1", "s1", 2, 6),
+      row("t2", "s1", 1, 7),
+      row("t2", "s1", 2, 6),
+      row("t1", "s2", 1, 5),
+    ];
+    expect(selectCountedRows(rows, { t1: "best" })).toEqual([rows[0], rows[3], rows[4]]);
+  });
+
+  it("should keep the latest row when nothing is scored", () => {
+    const rows = [row("t1", "s1", 2, null), row("t1", "s1", 1, null)];
+    expect(selectCountedRows(rows, { t1: "best" })).toEqual([rows[0]]);
+  });
+});
+
+describe("getScoreTrend", () => {
+  it("should compare the last two scored attempts", () => {
+    expect(getScoreTrend([attempt(2, 6.5), attempt(1, 6), attempt(3, null)])).toBe(0.5);
+  });
+
+  it("should be null with a single scored attempt", () => {
+    expect(getScoreTrend([attempt(1, 6)])).toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Attempt limits and retake policy per test.
+ * A student has one live submission per test; starting a retake archives it
+ * into `test_attempts` so earlier attempts keep their scores.
+ */
+
+export type AttemptScoring = "best" | "latest" | "first";
+
+export const ATTEMPT_SCORING_LABELS: Record<AttemptScoring, string> = {
+  best: "Best attempt",
+  latest: "Latest attempt",
+  first: "First attempt",
+};
+
+export interface AttemptPolicy {
+  // null means unlimited attempts
+  maxAttempts: number | null;
+  cooldownHours: number;
+  scoring: AttemptScoring;
+}
+
+export interface AttemptSummary {
+  attemptNumber: number;
+  status: string;
+  totalScore?: number | null;
+  submittedAt?: string | null;
+}
+
+export type RetakeBlockReason = "in_progress" | "max_attempts" | "cooldown";
+
+export type RetakeEligibility =
+  | { allowed: true; nextAttempt: number }
+  | {
+      allowed: false;
+      reason: RetakeBlockReason;
+      message: string;
+      availableAt?: string;
+    };
+
+export const parseAttemptPolicy = (test: any): AttemptPolicy => {
+  const maxAttempts = Number(test?.max_attempts);
+  const cooldownHours = Number(test?.retake_cooldown_hours);
+  const scoring = test?.attempt_scoring;
+
+  return {
+    maxAttempts:
+      Number.isInteger(maxAttempts) && maxAttempts > 0 ? maxAttempts : null,
+    cooldownHours:
+      Number.isFinite(cooldownHours) && cooldownHours > 0 ? cooldownHours : 0,
+    scoring: scoring === "best" || scoring === "first" ? scoring : "latest",
+  };
+};
+
+// Anything past in_progress has been handed in, graded or not
+export const isAttemptFinished = (attempt: Pick<AttemptSummary, "status">) =>
+  attempt.status !== "in_progress";
+
+/**
+ * Whether a student may start another attempt, given every attempt so far
+ * (archived ones and the live submission). Messages are shown to students;
+ * a cooldown also returns when it ends (ISO) for the client to format.
+ */
+export const checkRetakeEligibility = (
+  policy: AttemptPolicy,
+  attempts: AttemptSummary[],
+  now: Date = new Date(),
+): RetakeEligibility => {
+  if (attempts.some((attempt) => !isAttemptFinished(attempt))) {
+    return {
+      allowed: false,
+      reason: "in_progress",
+      message: "Finish your current attempt before starting a new one.",
+    };
+  }
+
+  if (policy.maxAttempts !== null && attempts.length >= policy.maxAttempts) {
+    return {
+      allowed: false,
+      reason: "max_attempts",
+      message: `You have used all ${policy.maxAttempts} attempt${policy.maxAttempts > 1 ? "s" : ""} allowed for this test.`,
+    };
+  }
+
+  const lastSubmittedAt = attempts
+    .map((attempt) => attempt.submittedAt)
+    .filter((date): date is string => !!date)
+    .map((date) => new Date(date).getTime())
+    .reduce((latest, time) => Math.max(latest, time), 0);
+
+  if (policy.cooldownHours > 0 && lastSubmittedAt > 0) {
+    const availableAt = new Date(
+      lastSubmittedAt + policy.cooldownHours * 60 * 60 * 1000,
+    );
+    if (availableAt.getTime() > now.getTime()) {
+      return {
+        allowed: false,
+        reason: "cooldown",
+        message: "You can retake this test once the cooldown between attempts has passed.",
+        availableAt: availableAt.toISOString(),
+      };
+    }
+  }
+
+  return { allowed: true, nextAttempt: attempts.length + 1 };
+};
+
+/**
+ * The attempt whose score counts for the test, or null before any is scored
+ */
+export const getCountedAttempt = <T extends AttemptSummary>(
+  attempts: T[],
+  scoring: AttemptScoring,
+): T | null => {
+  const scored = attempts
+    .filter(
+      (attempt) =>
+        attempt.totalScore !== null && attempt.totalScore !== undefined,
+    )
+    .sort((a, b) => a.attemptNumber - b.attemptNumber);
+
+  if (scored.length === 0) return null;
+
+  switch (scoring) {
+    case "best":
+      // Ties go to the earlier attempt
+      return scored.reduce((best, attempt) =>
+        (attempt.totalScore as number) > (best.totalScore as number)
+          ? attempt
+          : best,
+      );
+    case "first":
+      return scored[0];
+    default:
+      return scored[scored.length - 1];
+  }
+};
+
+// A live submission or archived attempt row as stored in the database
+export interface AttemptRow {
+  test_id: string;
+  student_id: string;
+  status: string;
+  attempt_number?: number | null;
+  total_score?: number | null;
+  submitted_at?: string | null;
+}
+
+/**
+ * Keep the row that counts for each student on each test under the test's
+ * scoring rule. Rows may mix live submissions and archived attempts; a
+ * student with nothing scored yet keeps their latest row.
+ */
+export const selectCountedRows = <T extends AttemptRow>(
+  rows: T[],
+  scoringByTest: Record<string, AttemptScoring>,
+): T[] => {
+  const groups = new Map<string, T[]>();
+  rows.forEach((row) => {
+    const key = `${row.test_id}:${row.student_id}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+
+  return [...groups.values()].map((group) => {
+    const attempts = group.map((row) => ({
+      row,
+      attemptNumber: Number(row.attempt_number) || 1,
+      status: row.status,
+      totalScore: row.total_score,
+      submittedAt: row.submitted_at,
+    }));
+    const counted =
+      getCountedAttempt(attempts, scoringByTest[group[0].test_id] || "latest") ||
+      attempts.reduce((latest, attempt) =>
+        attempt.attemptNumber > latest.attemptNumber ? attempt : latest,
+      );
+    return counted.row;
+  });
+};
+
+/**
+ * Change between the last two scored attempts; null with fewer than two
+ */
+export const getScoreTrend = (attempts: AttemptSummary[]): number | null => {
+  const scored = attempts
+    .filter(
+      (attempt) =>
+        attempt.totalScore !== null && attempt.totalScore !== undefined,
+    )
+    .sort((a, b) => a.attemptNumber - b.attemptNumber);
+
+  if (scored.length < 2) return null;
+
+  const last = scored[scored.length - 1].totalScore as number;
+  const previous = scored[scored.length - 2].totalScore as number;
+  return Math.round((last - previous) * 10) / 10;
+};
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  diffTestSnapshots,
+  isSnapshotDiffEmpty,
+  parseTestSnapshot,
+  replaceAnswerKey,
+  type TestSnapshot,
+} from "./testVersions";
+
+const makeSnapshot = (
+  reading: any[],
+  options: TestSnapshot["options"] = { readingModule: "academic" },
+): TestSnapshot => ({
+  capturedAt: "2024-05-01T09:00:00.000Z",
+  options,
+  questions: { reading, listening: [], writing: [] },
+});
+
+const question = (id: string, number: number, correct: string) => ({
+  id,
+  question_number: number,
+  question_type: "short_answer",
+  correct_answer: correct,
+  updated_at: "2024-05-01T09:00:00.000Z",
+});
+
+describe("diffTestSnapshots", () => {
+  it("should report no differences for identical snapshots", () => {
+    const snapshot = makeSnapshot([question("q1", 1, "london")]);
+    expect(isSnapshotDiffEmpty(diffTestSnapshots(snapshot, snapshot))).toBe(
+      true,
+    );
+  });
+
+  it("should report a changed answer key with before and after values", () => {
+    const diff = diffTestSnapshots(
+      makeSnapshot([question("q1", 1, "london")]),
+      makeSnapshot([question("q1", 1, "paris")]),
+    );
+
+    expect(diff.questions).toEqual([
+      {
+        section: "reading",
+        questionId: "q1",
+        questionNumber: 1,
+        kind: "changed",
+        changes: [{ field: "correct_answer", before: "london", after: "paris" }],
+      },
+    ]);
+  });
+
+  it("should ignore bookkeeping columns", () => {
+    const edited = { ...question("q1", 1, "london"), updated_at: "later" };
+    const diff = diffTestSnapshots(
+      makeSnapshot([question("q1", 1, "london")]),
+      makeSnapshot([edited]),
+    );
+    expect(diff.questions).toHaveLength(0);
+  });
+
+  it("should report added and removed questions in question order", () => {
+    const diff = diffTestSnapshots(
+      makeSnapshot([question("q1", 1, "a"), question("q2", 2, "b")]),
+      makeSnapshot([question("q1", 1, "a"), question("q3", 3, "c")]),
+    );
+
+    expect(diff.questions.map((q) => [q.questionId, q.kind])).toEqual([
+      ["q2", "removed"],
+      ["q3", "added"],
+    ]);
+  });
+
+  it("should report changed band settings", () => {
+    const diff = diffTestSnapshots(
+      makeSnapshot([], { readingModule: "academic" }),
+      makeSnapshot([], { readingModule: "general_training" }),
+    );
+    expect(diff.settings).toEqual([
+      {
+        field: "readingModule",
+        before: "academic",
+        after: "general_training",
+      },
+    ]);
+  });
+});
+
+describe("parseTestSnapshot", () => {
+  it("should parse snapshots stored as JSON strings", () => {
+    const snapshot = makeSnapshot([question("q1", 1, "a")]);
+    expect(parseTestSnapshot(JSON.stringify(snapshot))).toEqual(snapshot);
+  });
+
+  it("should return null for invalid input", () => {
+    expect(parseTestSnapshot("not json")).toBeNull();
+    expect(parseTestSnapshot(null)).toBeNull();
+  });
+});
+
+describe("replaceAnswerKey", () => {
+  it("should change only the key of the given question", () => {
+    const snapshot = makeSnapshot([
+      question("q1", 1, "london"),
+      question("q2", 2, "paris"),
+    ]);
+
+    const { questions, found } = replaceAnswerKey(
+      snapshot.questions,
+      "q2",
+      "paris / the capital",
+    );
+
+    expect(found).toBe(true);
+    expect(questions.reading[0]).toEqual(snapshot.questions.reading[0]);
+    expect(questions.reading[1]).toEqual({
+      ...snapshot.questions.reading[1],
+      correct_answer: "paris / the capital",
+    });
+    expect(snapshot.questions.reading[1].correct_answer).toBe("paris");
+  });
+
+  it("should report a question the snapshot does not have", () => {
+    const snapshot = makeSnapshot([question("q1", 1, "london")]);
+    expect(replaceAnswerKey(snapshot.questions, "q9", "x").found).toBe(false);
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * Frozen test versions.
+ * Publishing stores a snapshot of everything grading depends on (questions,
+ * answer keys, band settings) and the passages and listening sections in
+ * `test_versions`. Submissions are shown and graded against the snapshot of
+ * their version, so later edits to the live tables never change an exam in
+ * progress or an old result. The live tables are the draft of the next
+ * version: saved edits reach students only when that draft is published.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  loadGradingOptions,
+  loadGradingQuestions,
+  type GradingOptions,
+  type GradingQuestionSet,
+} from "./grading";
+
+// Reading passages and listening sections (audio, content) without their questions
+export interface TestSectionSet {
+  reading: any[];
+  listening: any[];
+}
+
+export interface TestSnapshot {
+  capturedAt: string;
+  options: GradingOptions;
+  questions: GradingQuestionSet;
+  // Missing on versions published before sections were captured
+  sections?: TestSectionSet;
+}
+
+export interface TestVersion {
+  id: string;
+  test_id: string;
+  version_number: number;
+  snapshot: TestSnapshot;
+  published_by?: string | null;
+  published_at: string;
+}
+
+export type QuestionSection = keyof GradingQuestionSet;
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface QuestionChange {
+  section: QuestionSection;
+  questionId: string;
+  questionNumber: number | null;
+  kind: "added" | "removed" | "changed";
+  changes: FieldChange[];
+}
+
+export interface SnapshotDiff {
+  settings: FieldChange[];
+  questions: QuestionChange[];
+}
+
+const SNAPSHOT_SECTIONS: QuestionSection[] = ["reading", "listening", "writing"];
+
+// Bookkeeping columns that change without affecting the question
+const IGNORED_FIELDS = new Set(["id", "created_at", "updated_at"]);
+
+// Swap in a new answer key for one question, wherever its section
+export const replaceAnswerKey = (
+  questions: GradingQuestionSet,
+  questionId: string,
+  correctAnswer: any,
+): { questions: GradingQuestionSet; found: boolean } => {
+  const replaced = { ...questions };
+  let found = false;
+
+  SNAPSHOT_SECTIONS.forEach((section) => {
+    replaced[section] = (questions[section] || []).map((question: any) => {
+      if (question.id !== questionId) return question;
+      found = true;
+      return { ...question, correct_answer: correctAnswer };
+    });
+  });
+
+  return { questions: replaced, found };
+};
+
+export const parseTestSnapshot = (raw: any): TestSnapshot | null => {
+  if (!raw) return null;
+  if (typeof raw === "string") {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  return raw;
+};
+
+// Load the live sections of a test, in the order students take them
+export const loadTestSections = async (
+  client: SupabaseClient,
+  testId: string,
+): Promise<TestSectionSet> => {
+  const [reading, listening] = await Promise.all([
+    client
+      .from("reading_sections")
+      .select("*")
+      .eq("test_id", testId)
+      .order("passage_number"),
+    client
+      .from("listening_sections")
+      .select("*")
+      .eq("test_id", testId)
+      .order("section_number"),
+  ]);
+
+  if (reading.error) throw reading.error;
+  if (listening.error) throw listening.error;
+
+  return { reading: reading.data || [], listening: listening.data || [] };
+};
+
+// Capture the live (draft) state of a test in the shape stored on a version
+export const buildTestSnapshot = async (
+  client: SupabaseClient,
+  testId: string,
+): Promise<TestSnapshot> => {
+  const [questions, options, sections] = await Promise.all([
+    loadGradingQuestions(client, testId),
+    loadGradingOptions(client, testId),
+    loadTestSections(client, testId),
+  ]);
+
+  return { capturedAt: new Date().toISOString(), options, questions, sections };
+};
+
+// Store a snapshot as the given version and make it live. The unique
+// (test_id, version_number) constraint rejects concurrent publishes.
+const insertTestVersion = async (
+  client: SupabaseClient,
+  testId: string,
+  versionNumber: number,
+  snapshot: TestSnapshot,
+  publishedBy?: string,
+): Promise<TestVersion> => {
+  const { data: version, error } = await client
+    .from("test_versions")
+    .insert({
+      test_id: testId,
+      version_number: versionNumber,
+      snapshot,
+      published_by: publishedBy || null,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+
+  const { error: testError } = await client
+    .from("tests")
+    .update({ current_version_id: version.id })
+    .eq("id", testId);
+
+  if (testError) throw testError;
+
+  return version as TestVersion;
+};
+
+// Freeze the current questions as the next version and make it live
+export const publishTestVersion = async (
+  client: SupabaseClient,
+  testId: string,
+  publishedBy?: string,
+): Promise<TestVersion> => {
+  const [snapshot, { data: latest }] = await Promise.all([
+    buildTestSnapshot(client, testId),
+    client
+      .from("test_versions")
+      .select("version_number")
+      .eq("test_id", testId)
+      .order("version_number", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  return insertTestVersion(
+    client,
+    testId,
+    (latest?.version_number || 0) + 1,
+    snapshot,
+    publishedBy,
+  );
+};
+
+/**
+ * Publish a fix to one question's answer key on its own: the next version is
+ * the latest one with only that key replaced, so other edits stay in the
+ * draft. Returns null when no published version has the question.
+ */
+export const publishAnswerKeyChange = async (
+  client: SupabaseClient,
+  testId: string,
+  questionId: string,
+  correctAnswer: any,
+  publishedBy?: string,
+): Promise<TestVersion | null> => {
+  const { data: latest, error } = await client
+    .from("test_versions")
+    .select("*")
+    .eq("test_id", testId)
+    .order("version_number", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const snapshot = parseTestSnapshot(latest?.snapshot);
+  if (!latest || !snapshot) return null;
+
+  const { questions, found } = replaceAnswerKey(
+    snapshot.questions,
+    questionId,
+    correctAnswer,
+  );
+  if (!found) return null;
+
+  return insertTestVersion(
+    client,
+    testId,
+    latest.version_number + 1,
+    { ...snapshot, capturedAt: new Date().toISOString(), questions },
+    publishedBy,
+  );
+};
+
+/**
+ * The version holding the test's current questions: the latest version when
+ * the draft has no unpublished changes, otherwise a newly published one
+ */
+export const publishDraftIfChanged = async (
+  client: SupabaseClient,
+  testId: string,
+  publishedBy?: string,
+): Promise<TestVersion> => {
+  const [draft, { data: latest }] = await Promise.all([
+    buildTestSnapshot(client, testId),
+    client
+      .from("test_versions")
+      .select("*")
+      .eq("test_id", testId)
+      .order("version_number", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const latestSnapshot = parseTestSnapshot(latest?.snapshot);
+  if (
+    latest &&
+    latestSnapshot &&
+    isSnapshotDiffEmpty(diffTestSnapshots(latestSnapshot, draft))
+  ) {
+    return { ...latest, snapshot: latestSnapshot } as TestVersion;
+  }
+
+  return publishTestVersion(client, testId, publishedBy);
+};
+
+const loadVersionSnapshot = async (
+  client: SupabaseClient,
+  versionId: string,
+): Promise<TestSnapshot | null> => {
+  const { data: version, error } = await client
+    .from("test_versions")
+    .select("snapshot")
+    .eq("id", versionId)
+    .single();
+
+  return error ? null : parseTestSnapshot(version?.snapshot);
+};
+
+/**
+ * Questions and settings to grade with: the version's snapshot when the
+ * submission is pinned to one, otherwise the live tables (pre-versioning data)
+ */
+export const loadGradingInput = async (
+  client: SupabaseClient,
+  testId: string,
+  versionId?: string | null,
+): Promise<{ questions: GradingQuestionSet; options: GradingOptions }> => {
+  if (versionId) {
+    const snapshot = await loadVersionSnapshot(client, versionId);
+    if (snapshot) {
+      return { questions: snapshot.questions, options: snapshot.options };
+    }
+
+    console.warn("⚠️ Test version not found, grading against live questions:", versionId);
+  }
+
+  const [questions, options] = await Promise.all([
+    loadGradingQuestions(client, testId),
+    loadGradingOptions(client, testId),
+  ]);
+  return { questions, options };
+};
+
+/**
+ * Questions and sections to show a student taking the version. Tests never
+ * published, and sections of versions captured before sections were stored,
+ * come from the live tables.
+ */
+export const loadVersionContent = async (
+  client: SupabaseClient,
+  testId: string,
+  versionId?: string | null,
+): Promise<{ questions: GradingQuestionSet; sections: TestSectionSet }> => {
+  const snapshot = versionId
+    ? await loadVersionSnapshot(client, versionId)
+    : null;
+
+  const [questions, sections] = await Promise.all([
+    snapshot ? snapshot.questions : loadGradingQuestions(client, testId),
+    snapshot?.sections || loadTestSections(client, testId),
+  ]);
+  return { questions, sections };
+};
+
+const isSameValue = (a: any, b: any) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const diffFields = (before: Record<string, any>, after: Record<string, any>) =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .filter((field) => !isSameValue(before[field], after[field]))
+    .sort()
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+
+/**
+ * Compare two snapshots question by question (matched on question id).
+ * Results are ordered by section, then question number.
+ */
+export const diffTestSnapshots = (
+  from: TestSnapshot,
+  to: TestSnapshot,
+): SnapshotDiff => {
+  const questions: QuestionChange[] = [];
+
+  SNAPSHOT_SECTIONS.forEach((section) => {
+    const before = new Map(
+      (from.questions?.[section] || []).map((q: any) => [q.id, q]),
+    );
+    const after = new Map(
+      (to.questions?.[section] || []).map((q: any) => [q.id, q]),
+    );
+    const sectionChanges: QuestionChange[] = [];
+
+    after.forEach((question, questionId) => {
+      const previous = before.get(questionId);
+      if (!previous) {
+        sectionChanges.push({
+          section,
+          questionId,
+          questionNumber: question.question_number ?? null,
+          kind: "added",
+          changes: [],
+        });
+        return;
+      }
+
+      const changes = diffFields(previous, question);
+      if (changes.length > 0) {
+        sectionChanges.push({
+          section,
+          questionId,
+          questionNumber: question.question_number ?? null,
+          kind: "changed",
+          changes,
+        });
+      }
+    });
+
+    before.forEach((question, questionId) => {
+      if (!after.has(questionId)) {
+        sectionChanges.push({
+          section,
+          questionId,
+          questionNumber: question.question_number ?? null,
+          kind: "removed",
+          changes: [],
+        });
+      }
+    });
+
+    sectionChanges.sort(
+      (a, b) => (a.questionNumber ?? 0) - (b.questionNumber ?? 0),
+    );
+    questions.push(...sectionChanges);
+  });
+
+  return {
+    settings: diffFields(from.options || {}, to.options || {}),
+    questions,
+  };
+};
+
+export const isSnapshotDiffEmpty = (diff: SnapshotDiff) =>
+  diff.settings.length === 0 && diff.questions.length === 0;
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatCountdown,
+  getAbsentStudents,
+  getActiveAssignment,
+  getSecondsUntilWindowChange,
+  getWindowState,
+  type TestAssignmentGroup,
+} from "./testWindows";
+
+const makeGroup = (
+  id: string,
+  opensAt: string,
+  closesAt: string,
+  studentIds: string[] = ["s1", "s2"],
+  testId = "t1",
+): TestAssignmentGroup => ({
+  id,
+  test_id: testId,
+  edu_center_id: "c1",
+  name: `Group ${id}`,
+  student_ids: studentIds,
+  opens_at: opensAt,
+  closes_at: closesAt,
+});
+
+const now = new Date("2024-05-01T10:00:00.000Z");
+
+describe("getWindowState", () => {
+  it("should be upcoming before the window opens", () => {
+    const group = makeGroup("g1", "2024-05-01T11:00:00Z", "2024-05-01T12:00:00Z");
+    expect(getWindowState(group, now)).toBe("upcoming");
+  });
+
+  it("should be open inside the window", () => {
+    const group = makeGroup("g1", "2024-05-01T09:00:00Z", "2024-05-01T12:00:00Z");
+    expect(getWindowState(group, now)).toBe("open");
+  });
+
+  it("should be closed from the closing time on", () => {
+    const group = makeGroup("g1", "2024-05-01T08:00:00Z", "2024-05-01T10:00:00Z");
+    expect(getWindowState(group, now)).toBe("closed");
+  });
+});
+
+describe("getActiveAssignment", () => {
+  const closed = makeGroup("closed", "2024-04-01T09:00:00Z", "2024-04-01T12:00:00Z");
+  const upcoming = makeGroup("upcoming", "2024-05-02T09:00:00Z", "2024-05-02T12:00:00Z");
+  const open = makeGroup("open", "2024-05-01T09:00:00Z", "2024-05-01T12:00:00Z");
+
+  it("should prefer an open window", () => {
+    expect(
+      getActiveAssignment([closed, upcoming, open], "t1", "s1", now)?.id,
+    ).toBe("open");
+  });
+
+  it("should fall back to the next upcoming window", () => {
+    expect(getActiveAssignment([closed, upcoming], "t1", "s1", now)?.id).toBe(
+      "upcoming",
+    );
+  });
+
+  it("should ignore groups the student is not in", () => {
+    expect(getActiveAssignment([open], "t1", "s9", now)).toBeNull();
+  });
+});
+
+describe("getSecondsUntilWindowChange", () => {
+  it("should count down to the closing time of an open window", () => {
+    const group = makeGroup("g1", "2024-05-01T09:00:00Z", "2024-05-01T10:05:00Z");
+    expect(getSecondsUntilWindowChange(group, now)).toBe(300);
+  });
+});
+
+describe("formatCountdown", () => {
+  it("should format days, hours and minutes compactly", () => {
+    expect(formatCountdown(2 * 86400 + 4 * 3600)).toBe("2d 4h");
+    expect(formatCountdown(3 * 3600 + 12 * 60)).toBe("3h 12m");
+    expect(formatCountdown(4 * 60 + 9)).toBe("4m 09s");
+  });
+});
+
+describe("getAbsentStudents", () => {
+  it("should list assigned students without a submission after the window closes", () => {
+    const groups = [
+      makeGroup("g1", "2024-04-01T09:00:00Z", "2024-04-01T12:00:00Z", ["s1", "s2"]),
+      makeGroup("g2", "2024-05-01T09:00:00Z", "2024-05-01T12:00:00Z", ["s3"]),
+    ];
+    const absent = getAbsentStudents(
+      groups,
+      [{ test_id: "t1", student_id: "s1" }],
+      now,
+    );
+    expect(absent.map((a) => a.studentId)).toEqual(["s2"]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Scheduled test windows for class-wide assignments (`test_assignment_groups`).
+ * A test assigned to a group can be started between `opens_at` and `closes_at`;
+ * assigned students without a submission are absent once the window closes.
+ */
+
+export interface TestAssignmentGroup {
+  id: string;
+  test_id: string;
+  edu_center_id: string;
+  name: string;
+  student_ids: string[];
+  opens_at: string;
+  closes_at: string;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export type WindowState = "upcoming" | "open" | "closed";
+
+export const WINDOW_STATE_LABELS: Record<WindowState, string> = {
+  upcoming: "Opens soon",
+  open: "Open",
+  closed: "Closed",
+};
+
+export const getWindowState = (
+  group: Pick<TestAssignmentGroup, "opens_at" | "closes_at">,
+  now: Date = new Date(),
+): WindowState => {
+  if (now.getTime() < new Date(group.opens_at).getTime()) return "upcoming";
+  if (now.getTime() >= new Date(group.closes_at).getTime()) return "closed";
+  return "open";
+};
+
+/**
+ * The assignment that decides a student's access to a test:
+ * an open window first, then the next one to open, then the latest closed one.
+ */
+export const getActiveAssignment = (
+  groups: TestAssignmentGroup[],
+  testId: string,
+  studentId: string,
+  now: Date = new Date(),
+): TestAssignmentGroup | null => {
+  const assigned = groups.filter(
+    (group) =>
+      group.test_id === testId && group.student_ids?.includes(studentId),
+  );
+
+  const open = assigned.find((group) => getWindowState(group, now) === "open");
+  if (open) return open;
+
+  const byTime = (key: "opens_at" | "closes_at", direction: 1 | -1) =>
+    (a: TestAssignmentGroup, b: TestAssignmentGroup) =>
+      direction * (new Date(a[key]).getTime() - new Date(b[key]).getTime());
+
+  const upcoming = assigned
+    .filter((group) => getWindowState(group, now) === "upcoming")
+    .sort(byTime("opens_at", 1));
+  if (upcoming.length > 0) return upcoming[0];
+
+  const closed = assigned.sort(byTime("closes_at", -1));
+  return closed[0] || null;
+};
+
+// Seconds until the window changes state (opens or closes); 0 once closed
+export const getSecondsUntilWindowChange = (
+  group: Pick<TestAssignmentGroup, "opens_at" | "closes_at">,
+  now: Date = new Date(),
+): number => {
+  const state = getWindowState(group, now);
+  if (state === "closed") return 0;
+
+  const target = state === "upcoming" ? group.opens_at : group.closes_at;
+  return Math.max(
+    0,
+    Math.floor((new Date(target).getTime() - now.getTime()) / 1000),
+  );
+};
+
+// Compact countdown such as "2d 4h", "3h 12m" or "4m 09s"
+export const formatCountdown = (totalSeconds: number): string => {
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds.toString().padStart(2, "0")}s`;
+};
+
+/**
+ * Students assigned through a closed window who never submitted the test,
+ * one entry per (test, student) pair.
+ */
+export const getAbsentStudents = (
+  groups: TestAssignmentGroup[],
+  submissions: { test_id: string; student_id: string }[],
+  now: Date = new Date(),
+): { testId: string; studentId: string; group: TestAssignmentGroup }[] => {
+  const submitted = new Set(
+    submissions.map((s) => `${s.test_id}:${s.student_id}`),
+  );
+  const absent = new Map<
+    string,
+    { testId: string; studentId: string; group: TestAssignmentGroup }
+  >();
+
+  groups
+    .filter((group) => getWindowState(group, now) === "closed")
+    .forEach((group) => {
+      (group.student_ids || []).forEach((studentId) => {
+        const key = `${group.test_id}:${studentId}`;
+        if (!submitted.has(key) && !absent.has(key)) {
+          absent.set(key, { testId: group.test_id, studentId, group });
+        }
+      });
+    });
+
+  return [...absent.values()];
+};
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import {
+  isJudgementQuestion,
+  judgementAnswersMatch,
+  normalizeJudgementAnswer,
+} from "./trueFalseNotGiven";
+
+describe("normalizeJudgementAnswer", () => {
+  it("should map casing and short forms to option labels", () => {
+    expect(normalizeJudgementAnswer("true", "true_false_not_given")).toBe("TRUE");
+    expect(normalizeJudgementAnswer(" NG ", "true_false_not_given")).toBe("NOT GIVEN");
+    expect(normalizeJudgementAnswer("not_given", "yes_no_not_given")).toBe("NOT GIVEN");
+    expect(normalizeJudgementAnswer("y", "yes_no_not_given")).toBe("YES");
+  });
+
+  it("should map option indexes from three-option MCQs", () => {
+    expect(normalizeJudgementAnswer(1, "true_false_not_given")).toBe("FALSE");
+    expect(normalizeJudgementAnswer(5, "true_false_not_given")).toBe("");
+  });
+
+  it("should reject answers from the other variant", () => {
+    expect(normalizeJudgementAnswer("YES", "true_false_not_given")).toBe("");
+    expect(normalizeJudgementAnswer("F", "yes_no_not_given")).toBe("");
+  });
+});
+
+describe("judgementAnswersMatch", () => {
+  it("should compare normalised answers", () => {
+    expect(judgementAnswersMatch("Not Given", "NOT GIVEN", "true_false_not_given")).toBe(true);
+    expect(judgementAnswersMatch("FALSE", "TRUE", "true_false_not_given")).toBe(false);
+    expect(judgementAnswersMatch("", "", "true_false_not_given")).toBe(false);
+  });
+});
+
+describe("isJudgementQuestion", () => {
+  it("should recognise both variants only", () => {
+    expect(isJudgementQuestion("yes_no_not_given")).toBe(true);
+    expect(isJudgementQuestion("multiple_choice")).toBe(false);
+  });
+});
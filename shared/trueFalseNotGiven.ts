@@ -0,0 +1,90 @@
+/**
+ * True/False/Not Given and Yes/No/Not Given questions.
+ * TFNG statements are checked against the information in the passage, YNNG
+ * statements against the writer's views or claims. Both store the correct
+ * answer as one of the option labels.
+ */
+
+export type JudgementQuestionType = "true_false_not_given" | "yes_no_not_given";
+
+export const JUDGEMENT_QUESTION_TYPES: JudgementQuestionType[] = [
+  "true_false_not_given",
+  "yes_no_not_given",
+];
+
+export const JUDGEMENT_OPTIONS: Record<JudgementQuestionType, string[]> = {
+  true_false_not_given: ["TRUE", "FALSE", "NOT GIVEN"],
+  yes_no_not_given: ["YES", "NO", "NOT GIVEN"],
+};
+
+export const JUDGEMENT_TYPE_LABELS: Record<JudgementQuestionType, string> = {
+  true_false_not_given: "True / False / Not Given",
+  yes_no_not_given: "Yes / No / Not Given",
+};
+
+// The wording students see in the official test
+export const JUDGEMENT_INSTRUCTIONS: Record<JudgementQuestionType, string[]> = {
+  true_false_not_given: [
+    "TRUE if the statement agrees with the information",
+    "FALSE if the statement contradicts the information",
+    "NOT GIVEN if there is no information on this",
+  ],
+  yes_no_not_given: [
+    "YES if the statement agrees with the claims of the writer",
+    "NO if the statement contradicts the claims of the writer",
+    "NOT GIVEN if it is impossible to say what the writer thinks about this",
+  ],
+};
+
+// Short forms students and teachers commonly write
+const ANSWER_ALIASES: Record<string, string> = {
+  t: "TRUE",
+  f: "FALSE",
+  y: "YES",
+  n: "NO",
+  ng: "NOT GIVEN",
+  notgiven: "NOT GIVEN",
+};
+
+export const isJudgementQuestion = (
+  questionType: string,
+): questionType is JudgementQuestionType =>
+  JUDGEMENT_QUESTION_TYPES.includes(questionType as JudgementQuestionType);
+
+/**
+ * Map an answer to one of the question's option labels. Accepts any casing,
+ * short forms such as "NG" and option indexes from questions that were
+ * saved as three-option MCQs. Returns "" when the answer is not an option.
+ */
+export const normalizeJudgementAnswer = (
+  answer: any,
+  questionType: JudgementQuestionType,
+): string => {
+  if (answer === null || answer === undefined) return "";
+  const options = JUDGEMENT_OPTIONS[questionType];
+
+  if (typeof answer === "number") {
+    return options[answer] || "";
+  }
+
+  const compact = String(answer).trim().toLowerCase().replace(/[\s_-]+/g, "");
+  if (!compact) return "";
+
+  const label =
+    ANSWER_ALIASES[compact] ||
+    options.find((option) => option.toLowerCase().replace(/\s+/g, "") === compact);
+
+  return label && options.includes(label) ? label : "";
+};
+
+export const judgementAnswersMatch = (
+  userAnswer: any,
+  correctAnswer: any,
+  questionType: JudgementQuestionType,
+): boolean => {
+  const expected = normalizeJudgementAnswer(correctAnswer, questionType);
+  return (
+    expected !== "" &&
+    normalizeJudgementAnswer(userAnswer, questionType) === expected
+  );
+};
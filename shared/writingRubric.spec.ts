@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateWritingBand,
+  calculateWritingTaskBand,
+  getBandDescriptors,
+  getWritingCriterionLabel,
+  getWritingTaskNumber,
+  resolveDescriptorEvidence,
+} from "./writingRubric";
+
+describe("calculateWritingBand", () => {
+  it("should count Task 2 twice as much as Task 1", () => {
+    // (5 + 2 * 7) / 3 = 6.33 -> 6.5
+    expect(
+      calculateWritingBand([
+        { taskNumber: 1, band: 5 },
+        { taskNumber: 2, band: 7 },
+      ]),
+    ).toBe(6.5);
+  });
+
+  it("should use a single graded task on its own", () => {
+    expect(
+      calculateWritingBand([
+        { taskNumber: 1, band: 6 },
+        { taskNumber: 2, band: 0 },
+      ]),
+    ).toBe(6);
+  });
+
+  it("should return 0 when nothing is graded", () => {
+    expect(calculateWritingBand([])).toBe(0);
+  });
+});
+
+describe("calculateWritingTaskBand", () => {
+  it("should average the four criteria", () => {
+    expect(
+      calculateWritingTaskBand({
+        taskAchievement: 6,
+        coherenceCohesion: 7,
+        lexicalResource: 6,
+        grammarAccuracy: 7,
+      }),
+    ).toBe(6.5);
+  });
+});
+
+describe("band descriptors", () => {
+  it("should label the first criterion per task", () => {
+    expect(getWritingCriterionLabel("taskAchievement", 1)).toBe(
+      "Task Achievement",
+    );
+    expect(getWritingCriterionLabel("taskAchievement", 2)).toBe(
+      "Task Response",
+    );
+  });
+
+  it("should use task-specific statements for the first criterion only", () => {
+    const task1 = getBandDescriptors("taskAchievement", 1);
+    const task2 = getBandDescriptors("taskAchievement", 2);
+    expect(task1[0].id).toBe("t1-ta-9-1");
+    expect(task1[0].text).not.toBe(task2[0].text);
+    expect(getBandDescriptors("lexicalResource", 1)).toEqual(
+      getBandDescriptors("lexicalResource", 2),
+    );
+  });
+
+  it("should resolve saved evidence ids and skip unknown ones", () => {
+    const resolved = resolveDescriptorEvidence("coherenceCohesion", 2, [
+      "cc-6-3",
+      "cc-missing",
+    ]);
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0].band).toBe(6);
+  });
+
+  it("should read the task number from the task type or order", () => {
+    expect(getWritingTaskNumber({ task_type: "academic_task2" })).toBe(2);
+    expect(getWritingTaskNumber({ task_order: 2 })).toBe(2);
+    expect(getWritingTaskNumber({ task_order: 1 })).toBe(1);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Writing band descriptors and band maths for teacher marking.
+ * Statements follow the public IELTS Writing band descriptors (bands 4-9).
+ * Teachers tick statements as evidence; their ids are saved in
+ * `writing_grading_data` so students can see why they got a band.
+ */
+
+import type { EssayAnnotation } from "./essayAnnotations";
+
+export type WritingTaskNumber = 1 | 2;
+
+export interface WritingCriteria {
+  taskAchievement: number; // 0-9, Task Achievement (Task 1) / Task Response (Task 2)
+  coherenceCohesion: number; // 0-9
+  lexicalResource: number; // 0-9
+  grammarAccuracy: number; // 0-9
+}
+
+export type WritingCriterion = keyof WritingCriteria;
+
+export interface BandDescriptor {
+  id: string;
+  band: number;
+  text: string;
+}
+
+// Selected descriptor ids per criterion for one task
+export type DescriptorEvidence = Partial<Record<WritingCriterion, string[]>>;
+
+export const WRITING_CRITERIA: WritingCriterion[] = [
+  "taskAchievement",
+  "coherenceCohesion",
+  "lexicalResource",
+  "grammarAccuracy",
+];
+
+export const DESCRIPTOR_BANDS = [9, 8, 7, 6, 5, 4];
+
+// Task 2 counts twice as much as Task 1 in the Writing band
+export const WRITING_TASK_WEIGHTS: Record<WritingTaskNumber, number> = {
+  1: 1,
+  2: 2,
+};
+
+export const getWritingCriterionLabel = (
+  criterion: WritingCriterion,
+  taskNumber: WritingTaskNumber,
+): string => {
+  switch (criterion) {
+    case "taskAchievement":
+      return taskNumber === 1 ? "Task Achievement" : "Task Response";
+    case "coherenceCohesion":
+      return "Coherence and Cohesion";
+    case "lexicalResource":
+      return "Lexical Resource";
+    case "grammarAccuracy":
+      return "Grammatical Range and Accuracy";
+  }
+};
+
+// Task 1 is Task Achievement, Task 2 is Task Response; the other criteria are shared
+const TASK_DESCRIPTORS: Record<WritingTaskNumber, Record<number, string[]>> = {
+  1: {
+    9: [
+      "Fully satisfies all the requirements of the task",
+      "Clearly presents a fully developed response",
+    ],
+    8: [
+      "Covers all requirements of the task sufficiently",
+      "Presents, highlights and illustrates key features clearly and appropriately",
+    ],
+    7: [
+      "Covers the requirements of the task",
+      "Presents a clear overview of main trends, differences or stages",
+      "Clearly presents and highlights key features, but could be more fully extended",
+    ],
+    6: [
+      "Addresses the requirements of the task",
+      "Presents an overview with information appropriately selected",
+      "Presents and adequately highlights key features, but details may be irrelevant, inappropriate or inaccurate",
+    ],
+    5: [
+      "Generally addresses the task; the format may be inappropriate in places",
+      "Recounts detail mechanically with no clear overview",
+      "Presents, but inadequately covers, key features; there may be a tendency to focus on details",
+    ],
+    4: [
+      "Attempts to address the task but does not cover all key features",
+      "The format may be inappropriate",
+      "May confuse key features with detail; parts may be unclear, irrelevant, repetitive or inaccurate",
+    ],
+  },
+  2: {
+    9: [
+      "Fully addresses all parts of the task",
+      "Presents a fully developed position with relevant, fully extended and well supported ideas",
+    ],
+    8: [
+      "Sufficiently addresses all parts of the task",
+      "Presents a well-developed response with relevant, extended and supported ideas",
+    ],
+    7: [
+      "Addresses all parts of the task",
+      "Presents a clear position throughout the response",
+      "Presents, extends and supports main ideas, but may over-generalise or lack focus",
+    ],
+    6: [
+      "Addresses all parts of the task, although some parts may be more fully covered than others",
+      "Presents a relevant position although the conclusions may become unclear or repetitive",
+      "Presents relevant main ideas but some may be inadequately developed or unclear",
+    ],
+    5: [
+      "Addresses the task only partially; the format may be inappropriate in places",
+      "Expresses a position but the development is not always clear and there may be no conclusions drawn",
+      "Presents some main ideas but these are limited and not sufficiently developed; there may be irrelevant detail",
+    ],
+    4: [
+      "Responds to the task only in a minimal way or the answer is tangential",
+      "Presents a position but this is unclear",
+      "Presents some main ideas but these are difficult to identify and may be repetitive, irrelevant or not well supported",
+    ],
+  },
+};
+
+const SHARED_DESCRIPTORS: Record<
+  Exclude<WritingCriterion, "taskAchievement">,
+  Record<number, string[]>
+> = {
+  coherenceCohesion: {
+    9: [
+      "Uses cohesion in such a way that it attracts no attention",
+      "Skilfully manages paragraphing",
+    ],
+    8: [
+      "Sequences information and ideas logically",
+      "Manages all aspects of cohesion well",
+      "Uses paragraphing sufficiently and appropriately",
+    ],
+    7: [
+      "Logically organises information and ideas; there is clear progression throughout",
+      "Uses a range of cohesive devices appropriately although there may be some under-/over-use",
+      "Presents a clear central topic within each paragraph",
+    ],
+    6: [
+      "Arranges information and ideas coherently and there is a clear overall progression",
+      "Uses cohesive devices effectively, but cohesion within and/or between sentences may be faulty or mechanical",
+      "Uses paragraphing, but not always logically",
+    ],
+    5: [
+      "Presents information with some organisation but there may be a lack of overall progression",
+      "Makes inadequate, inaccurate or over-use of cohesive devices",
+      "May not write in paragraphs, or paragraphing may be inadequate",
+    ],
+    4: [
+      "Presents information and ideas but these are not arranged coherently",
+      "Uses some basic cohesive devices but these may be inaccurate or repetitive",
+      "May not write in paragraphs or their use may be confusing",
+    ],
+  },
+  lexicalResource: {
+    9: [
+      "Uses a wide range of vocabulary with very natural and sophisticated control of lexical features",
+      "Rare minor errors occur only as 'slips'",
+    ],
+    8: [
+      "Uses a wide range of vocabulary fluently and flexibly to convey precise meanings",
+      "Skilfully uses uncommon lexical items but there may be occasional inaccuracies in word choice and collocation",
+      "Produces rare errors in spelling and/or word formation",
+    ],
+    7: [
+      "Uses a sufficient range of vocabulary to allow some flexibility and precision",
+      "Uses less common lexical items with some awareness of style and collocation",
+      "May produce occasional errors in word choice, spelling and/or word formation",
+    ],
+    6: [
+      "Uses an adequate range of vocabulary for the task",
+      "Attempts to use less common vocabulary but with some inaccuracy",
+      "Makes some errors in spelling and/or word formation, but they do not impede communication",
+    ],
+    5: [
+      "Uses a limited range of vocabulary, but this is minimally adequate for the task",
+      "May make noticeable errors in spelling and/or word formation that may cause some difficulty for the reader",
+    ],
+    4: [
+      "Uses only basic vocabulary which may be used repetitively or which may be inappropriate for the task",
+      "Has limited control of word formation and/or spelling; errors may cause strain for the reader",
+    ],
+  },
+  grammarAccuracy: {
+    9: [
+      "Uses a wide range of structures with full flexibility and accuracy",
+      "Rare minor errors occur only as 'slips'",
+    ],
+    8: [
+      "Uses a wide range of structures",
+      "The majority of sentences are error-free",
+      "Makes only very occasional errors or inappropriacies",
+    ],
+    7: [
+      "Uses a variety of complex structures",
+      "Produces frequent error-free sentences",
+      "Has good control of grammar and punctuation but may make a few errors",
+    ],
+    6: [
+      "Uses a mix of simple and complex sentence forms",
+      "Makes some errors in grammar and punctuation but they rarely reduce communication",
+    ],
+    5: [
+      "Uses only a limited range of structures",
+      "Attempts complex sentences but these tend to be less accurate than simple sentences",
+      "May make frequent grammatical errors and punctuation may be faulty; errors can cause some difficulty for the reader",
+    ],
+    4: [
+      "Uses only a very limited range of structures with only rare use of subordinate clauses",
+      "Some structures are accurate but errors predominate, and punctuation is often faulty",
+    ],
+  },
+};
+
+const CRITERION_ID_PREFIX: Record<WritingCriterion, string> = {
+  taskAchievement: "ta",
+  coherenceCohesion: "cc",
+  lexicalResource: "lr",
+  grammarAccuracy: "gra",
+};
+
+/**
+ * Descriptor statements for one criterion, highest band first.
+ * Ids are stable (e.g. "t2-ta-7-1") so saved evidence survives wording edits.
+ */
+export const getBandDescriptors = (
+  criterion: WritingCriterion,
+  taskNumber: WritingTaskNumber,
+): BandDescriptor[] => {
+  const table =
+    criterion === "taskAchievement"
+      ? TASK_DESCRIPTORS[taskNumber]
+      : SHARED_DESCRIPTORS[criterion];
+  const prefix =
+    criterion === "taskAchievement"
+      ? `t${taskNumber}-${CRITERION_ID_PREFIX[criterion]}`
+      : CRITERION_ID_PREFIX[criterion];
+
+  return DESCRIPTOR_BANDS.flatMap((band) =>
+    (table[band] || []).map((text, index) => ({
+      id: `${prefix}-${band}-${index + 1}`,
+      band,
+      text,
+    })),
+  );
+};
+
+// Resolve saved evidence ids back to their statements, skipping unknown ids
+export const resolveDescriptorEvidence = (
+  criterion: WritingCriterion,
+  taskNumber: WritingTaskNumber,
+  ids: string[] = [],
+): BandDescriptor[] => {
+  const descriptors = getBandDescriptors(criterion, taskNumber);
+  return ids
+    .map((id) => descriptors.find((descriptor) => descriptor.id === id))
+    .filter((descriptor): descriptor is BandDescriptor => !!descriptor);
+};
+
+// Writing tasks are saved with task_order 1/2 and task_type "academic_task1"/"academic_task2"
+export const getWritingTaskNumber = (task: {
+  task_order?: number | null;
+  task_type?: string | null;
+}): WritingTaskNumber => {
+  if (task.task_type?.endsWith("task2")) return 2;
+  if (task.task_type?.endsWith("task1")) return 1;
+  return task.task_order === 2 ? 2 : 1;
+};
+
+// A task's band is the plain average of its four criteria
+export const calculateWritingTaskBand = (
+  criteria?: Partial<WritingCriteria> | null,
+): number => {
+  if (!criteria) return 0;
+
+  const scores = WRITING_CRITERIA.map((key) => Number(criteria[key]) || 0);
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+};
+
+/**
+ * Weighted Writing band: Task 2 counts double, rounded to the nearest half band.
+ * Ungraded tasks (band 0) are left out so a single-task test uses that task alone.
+ */
+export const calculateWritingBand = (
+  taskBands: { taskNumber: WritingTaskNumber; band: number }[],
+): number => {
+  const graded = taskBands.filter((task) => task.band > 0);
+  if (graded.length === 0) return 0;
+
+  const totalWeight = graded.reduce(
+    (sum, task) => sum + WRITING_TASK_WEIGHTS[task.taskNumber],
+    0,
+  );
+  const weighted =
+    graded.reduce(
+      (sum, task) => sum + task.band * WRITING_TASK_WEIGHTS[task.taskNumber],
+      0,
+    ) / totalWeight;
+
+  return Math.round(weighted * 2) / 2;
+};
+
+export interface WritingGradingData {
+  taskGrades: Record<string, WritingCriteria>;
+  taskComments: Record<string, string>;
+  taskNumbers?: Record<string, WritingTaskNumber>;
+  descriptorEvidence?: Record<string, DescriptorEvidence>;
+  annotations?: Record<string, EssayAnnotation[]>;
+  overallBandScore: number;
+  gradedAt?: string;
+  gradedBy?: string;
+}
+
+// Grading data may arrive as a JSON string straight from the database
+export const parseWritingGradingData = (
+  raw: any,
+): WritingGradingData | null => {
+  if (!raw) return null;
+  if (typeof raw === "string") {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  return raw;
+};